@@ -0,0 +1,51 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import { BatchSubmitBar } from '@/components/dashboard/BatchSubmitBar';
+
+describe('BatchSubmitBar Component', () => {
+  const defaultProps = {
+    onSubmit: jest.fn(),
+    onClear: jest.fn(),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should render nothing without selected files', () => {
+    const { container } = render(<BatchSubmitBar {...defaultProps} count={0} />);
+
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('should submit the selected files with the notes', () => {
+    render(<BatchSubmitBar {...defaultProps} count={3} />);
+
+    expect(screen.getByText('3 files selected')).toBeInTheDocument();
+
+    fireEvent.change(screen.getByPlaceholderText('Notes for reviewers (optional)'), {
+      target: { value: '  Checked the glossary  ' },
+    });
+    fireEvent.click(screen.getByText('Submit for Review'));
+
+    expect(defaultProps.onSubmit).toHaveBeenCalledWith('Checked the glossary');
+  });
+
+  it('should submit without notes and clear the selection', () => {
+    render(<BatchSubmitBar {...defaultProps} count={1} />);
+
+    expect(screen.getByText('1 file selected')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('Submit for Review'));
+    fireEvent.click(screen.getByText('Clear'));
+
+    expect(defaultProps.onSubmit).toHaveBeenCalledWith(undefined);
+    expect(defaultProps.onClear).toHaveBeenCalled();
+  });
+
+  it('should disable the actions while submitting', () => {
+    render(<BatchSubmitBar {...defaultProps} count={2} busy />);
+
+    expect(screen.getByText('Clear').closest('button')).toBeDisabled();
+    expect(screen.getByText('Submit for Review').closest('button')).toBeDisabled();
+  });
+});
@@ -0,0 +1,79 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import { DraftHistoryPanel } from '@/components/editor/DraftHistoryPanel';
+import type { DraftRevisionDiff, DraftRevisionSummary } from '@/types';
+
+function createRevision(id: number, overrides: Partial<DraftRevisionSummary> = {}): DraftRevisionSummary {
+  return {
+    id,
+    hash: `hash-${id}`,
+    source: 'autosave',
+    wordCount: 120,
+    createdAt: '2025-01-01T10:00:00.000Z',
+    ...overrides,
+  };
+}
+
+const revisions = [
+  createRevision(3, { source: 'restore', restoredFrom: 1 }),
+  createRevision(2, { source: 'save' }),
+  createRevision(1),
+];
+
+describe('DraftHistoryPanel Component', () => {
+  const defaultProps = {
+    revisions,
+    selected: null,
+    direction: 'ltr' as const,
+    onSelect: jest.fn(),
+    onRestore: jest.fn(),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should explain the history when there are no revisions', () => {
+    render(<DraftHistoryPanel {...defaultProps} revisions={[]} />);
+
+    expect(screen.getByText(/No revisions yet/)).toBeInTheDocument();
+  });
+
+  it('should list revisions and restore earlier ones', () => {
+    render(<DraftHistoryPanel {...defaultProps} />);
+
+    expect(screen.getByText('Restored from #1')).toBeInTheDocument();
+    expect(screen.getByText('Saved to GitHub')).toBeInTheDocument();
+
+    // The latest revision is the current draft
+    const restoreButtons = screen.getAllByText('Restore');
+    expect(restoreButtons).toHaveLength(2);
+
+    fireEvent.click(restoreButtons[0]);
+    expect(defaultProps.onRestore).toHaveBeenCalledWith(2);
+
+    fireEvent.click(screen.getByText('#1'));
+    expect(defaultProps.onSelect).toHaveBeenCalledWith(1);
+  });
+
+  it('should show the changes of the selected revision with folded context', () => {
+    const selected: DraftRevisionDiff = {
+      revision: { ...revisions[1], content: '' },
+      compareTo: 1,
+      changes: [
+        ...['l1', 'l2', 'l3', 'l4', 'l5'].map((line) => ({ type: 'unchanged' as const, line })),
+        { type: 'removed', line: 'Uno' },
+        { type: 'added', line: 'Dos' },
+        { type: 'unchanged', line: 'l6' },
+      ],
+    };
+
+    render(<DraftHistoryPanel {...defaultProps} selected={selected} />);
+
+    expect(screen.getByText('Changes since #1')).toBeInTheDocument();
+    expect(screen.getByText('…')).toBeInTheDocument();
+    expect(screen.queryByText('l1')).not.toBeInTheDocument();
+    expect(screen.getByText('l4')).toBeInTheDocument();
+    expect(screen.getByText('- Uno')).toBeInTheDocument();
+    expect(screen.getByText('+ Dos')).toBeInTheDocument();
+  });
+});
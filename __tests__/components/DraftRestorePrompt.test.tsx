@@ -0,0 +1,30 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import { DraftRestorePrompt } from '@/components/editor/DraftRestorePrompt';
+import type { DraftVersion } from '@/types';
+
+const versions: DraftVersion[] = [
+  { source: 'server', content: 'Hub', savedAt: '2025-01-01T11:00:00.000Z' },
+  { source: 'local', content: 'Browser', savedAt: '2025-01-01T12:00:00.000Z' },
+  { source: 'github', content: 'GitHub', savedAt: null },
+];
+
+describe('DraftRestorePrompt Component', () => {
+  it('should list where each version comes from', () => {
+    render(<DraftRestorePrompt versions={versions} onChoose={jest.fn()} />);
+
+    expect(screen.getByText('Saved on the hub')).toBeInTheDocument();
+    expect(screen.getByText('This browser')).toBeInTheDocument();
+    expect(screen.getByText('Your fork on GitHub')).toBeInTheDocument();
+    expect(screen.getByText('Not saved yet')).toBeInTheDocument();
+  });
+
+  it('should report the chosen version', () => {
+    const onChoose = jest.fn();
+    render(<DraftRestorePrompt versions={versions} onChoose={onChoose} />);
+
+    fireEvent.click(screen.getAllByText('Restore')[1]);
+    fireEvent.click(screen.getByText('Discard Others'));
+
+    expect(onChoose.mock.calls).toEqual([['local'], ['github']]);
+  });
+});
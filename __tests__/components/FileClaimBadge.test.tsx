@@ -0,0 +1,37 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import { FileClaimBadge } from '@/components/dashboard/FileClaimBadge';
+
+describe('FileClaimBadge Component', () => {
+  const claim = {
+    username: 'translator',
+    claimedAt: '2025-01-01T10:00:00.000Z',
+    expiresAt: '2025-01-04T10:00:00.000Z',
+  };
+
+  it('should show who claimed the file with their avatar', () => {
+    render(<FileClaimBadge claim={claim} currentUser="other" />);
+
+    expect(screen.getByText('Claimed by @translator')).toBeInTheDocument();
+    expect(screen.getByAltText('@translator').getAttribute('src')).toContain(
+      encodeURIComponent('https://avatars.githubusercontent.com/translator?size=32')
+    );
+    expect(screen.queryByText('Release')).not.toBeInTheDocument();
+  });
+
+  it('should show the user their own claim', () => {
+    render(<FileClaimBadge claim={claim} currentUser="Translator" />);
+
+    expect(screen.getByText('Claimed by you')).toBeInTheDocument();
+  });
+
+  it('should release the claim', () => {
+    const onRelease = jest.fn();
+    const { rerender } = render(<FileClaimBadge claim={claim} onRelease={onRelease} />);
+
+    fireEvent.click(screen.getByText('Release'));
+    expect(onRelease).toHaveBeenCalledTimes(1);
+
+    rerender(<FileClaimBadge claim={claim} onRelease={onRelease} busy />);
+    expect(screen.getByText('Release')).toBeDisabled();
+  });
+});
@@ -0,0 +1,64 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import { FolderBrowser } from '@/components/admin/FolderBrowser';
+import type { RepositoryContents } from '@/types';
+
+function createContents(overrides: Partial<RepositoryContents> = {}): RepositoryContents {
+  return {
+    githubRepo: 'OWASP/wstg',
+    defaultBranch: 'master',
+    branches: ['master'],
+    ref: 'master',
+    path: '/document',
+    entries: [
+      { name: '4-Web_Application_Security_Testing', path: '/document/4-Web_Application_Security_Testing', type: 'dir' },
+      { name: 'README.md', path: '/document/README.md', type: 'file' },
+    ],
+    ...overrides,
+  };
+}
+
+describe('FolderBrowser Component', () => {
+  it('should open folders and go back up', () => {
+    const onNavigate = jest.fn();
+    render(<FolderBrowser contents={createContents()} actions={[]} onNavigate={onNavigate} />);
+
+    fireEvent.click(screen.getByText('4-Web_Application_Security_Testing/'));
+    expect(onNavigate).toHaveBeenCalledWith('/document/4-Web_Application_Security_Testing');
+
+    fireEvent.click(screen.getByText('..'));
+    expect(onNavigate).toHaveBeenCalledWith('/');
+  });
+
+  it('should list files without making them selectable', () => {
+    render(<FolderBrowser contents={createContents()} actions={[]} onNavigate={jest.fn()} />);
+
+    expect(screen.getByText('README.md').closest('button')).toBeNull();
+  });
+
+  it('should offer actions for the folder being shown', () => {
+    const onSelect = jest.fn();
+    render(
+      <FolderBrowser
+        contents={createContents()}
+        actions={[{ label: 'Use as source folder', onSelect }]}
+        onNavigate={jest.fn()}
+      />
+    );
+
+    fireEvent.click(screen.getByText('Use as source folder'));
+    expect(onSelect).toHaveBeenCalledWith('/document');
+  });
+
+  it('should not go up from the repository root', () => {
+    render(
+      <FolderBrowser
+        contents={createContents({ path: '/', entries: [] })}
+        actions={[]}
+        onNavigate={jest.fn()}
+      />
+    );
+
+    expect(screen.queryByText('..')).toBeNull();
+    expect(screen.getByText('This folder is empty')).toBeTruthy();
+  });
+});
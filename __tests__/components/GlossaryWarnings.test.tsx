@@ -0,0 +1,45 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import { GlossaryWarnings } from '@/components/editor/GlossaryWarnings';
+import type { GlossaryWarning } from '@/types';
+
+const warnings: GlossaryWarning[] = [
+  {
+    term: {
+      source: 'Broken Access Control',
+      target: 'Pérdida de Control de Acceso',
+      note: 'Use the title from the 2021 edition',
+    },
+    sourceCount: 3,
+    targetCount: 1,
+  },
+  {
+    term: { source: 'Server-Side Request Forgery', target: 'Server-Side Request Forgery' },
+    sourceCount: 1,
+    targetCount: 0,
+  },
+];
+
+describe('GlossaryWarnings Component', () => {
+  it('should render nothing without warnings', () => {
+    const { container } = render(<GlossaryWarnings warnings={[]} direction="ltr" />);
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('should show a collapsed summary', () => {
+    render(<GlossaryWarnings warnings={warnings} direction="ltr" />);
+
+    expect(screen.getByText(/2 glossary terms deviate/)).toBeInTheDocument();
+    expect(screen.queryByText('Broken Access Control')).not.toBeInTheDocument();
+  });
+
+  it('should list deviations when expanded', () => {
+    render(<GlossaryWarnings warnings={warnings} direction="rtl" />);
+
+    fireEvent.click(screen.getByRole('button'));
+
+    expect(screen.getByText('Pérdida de Control de Acceso')).toHaveAttribute('dir', 'rtl');
+    expect(screen.getByText('(used 1 of 3 times)')).toBeInTheDocument();
+    expect(screen.getByText('Use the title from the 2021 edition')).toBeInTheDocument();
+    expect(screen.getByText('keep in English')).toBeInTheDocument();
+  });
+});
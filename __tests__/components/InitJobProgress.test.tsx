@@ -0,0 +1,66 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import { InitJobProgress } from '@/components/admin/InitJobProgress';
+import type { InitJob } from '@/types';
+
+function createJob(overrides: Partial<InitJob> = {}): InitJob {
+  return {
+    id: 'job-1',
+    project: 'topten',
+    language: 'es-ES',
+    status: 'running',
+    createdBy: 'admin',
+    createdAt: '2025-01-01T00:00:00.000Z',
+    startedAt: '2025-01-01T00:00:00.000Z',
+    finishedAt: null,
+    mode: 'missing',
+    files: {
+      'A01.md': { filename: 'A01.md', status: 'complete' },
+      'A02.md': { filename: 'A02.md', status: 'translating' },
+      'A03.md': { filename: 'A03.md', status: 'pending' },
+      'A04.md': { filename: 'A04.md', status: 'error', error: 'Failed to process A04.md: quota' },
+    },
+    filesProcessed: 0,
+    errors: [],
+    error: null,
+    branchUrl: null,
+    cancelRequested: false,
+    attempts: 1,
+    ...overrides,
+  };
+}
+
+describe('InitJobProgress Component', () => {
+  it('should show file progress and the current file', () => {
+    render(<InitJobProgress job={createJob()} />);
+
+    expect(screen.getByText('Translating · 2 of 4 files')).toBeInTheDocument();
+    expect(screen.getByText('A02.md')).toBeInTheDocument();
+    expect(screen.getByText('1 file failed')).toBeInTheDocument();
+    expect(screen.getByText('Failed to process A04.md: quota')).toBeInTheDocument();
+  });
+
+  it('should cancel an active job', () => {
+    const onCancel = jest.fn();
+    render(<InitJobProgress job={createJob()} onCancel={onCancel} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Cancel' }));
+    expect(onCancel).toHaveBeenCalled();
+  });
+
+  it('should not offer cancelling a finished job', () => {
+    render(
+      <InitJobProgress
+        job={createJob({ status: 'failed', error: 'Admin token not configured' })}
+        onCancel={jest.fn()}
+      />
+    );
+
+    expect(screen.getByText('Admin token not configured')).toBeInTheDocument();
+    expect(screen.queryByRole('button')).not.toBeInTheDocument();
+  });
+
+  it('should show when a job was resumed', () => {
+    render(<InitJobProgress job={createJob({ attempts: 2 })} />);
+    expect(screen.getByText('Resumed after a restart')).toBeInTheDocument();
+  });
+});
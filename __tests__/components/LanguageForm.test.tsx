@@ -0,0 +1,96 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import { LanguageForm } from '@/components/admin/LanguageForm';
+
+describe('LanguageForm Component', () => {
+  it('should submit a new language', () => {
+    const onSubmit = jest.fn();
+    render(<LanguageForm onSubmit={onSubmit} onCancel={jest.fn()} />);
+
+    fireEvent.change(screen.getByLabelText('Language code'), { target: { value: 'ar-EG' } });
+    fireEvent.change(screen.getByLabelText('Name'), { target: { value: ' Arabic (Egypt) ' } });
+    fireEvent.change(screen.getByLabelText('Direction'), { target: { value: 'rtl' } });
+    fireEvent.click(screen.getByText('Add Language'));
+
+    expect(onSubmit).toHaveBeenCalledWith({
+      code: 'ar-EG',
+      name: 'Arabic (Egypt)',
+      direction: 'rtl',
+      status: 'inactive',
+      coordinator: null,
+      reviewers: [],
+      translators: null,
+    });
+  });
+
+  it('should edit an existing language without changing its code', () => {
+    const onSubmit = jest.fn();
+    render(
+      <LanguageForm
+        language={{
+          code: 'es-ES',
+          config: {
+            name: 'Spanish (Spain)',
+            direction: 'ltr',
+            status: 'active',
+            initialized: '2025-01-01T00:00:00.000Z',
+            coordinator: 'octocat',
+          },
+        }}
+        onSubmit={onSubmit}
+        onCancel={jest.fn()}
+      />
+    );
+
+    expect(screen.getByLabelText('Language code')).toBeDisabled();
+
+    fireEvent.change(screen.getByLabelText('Coordinator'), { target: { value: '' } });
+    fireEvent.click(screen.getByText('Save'));
+
+    expect(onSubmit).toHaveBeenCalledWith({
+      code: 'es-ES',
+      name: 'Spanish (Spain)',
+      direction: 'ltr',
+      status: 'active',
+      coordinator: null,
+      reviewers: [],
+      translators: null,
+    });
+  });
+
+  it('should submit the language team', () => {
+    const onSubmit = jest.fn();
+    render(
+      <LanguageForm
+        language={{
+          code: 'es-ES',
+          config: {
+            name: 'Spanish (Spain)',
+            direction: 'ltr',
+            status: 'active',
+            initialized: null,
+            coordinator: 'octocat',
+            translators: ['hubot'],
+          },
+        }}
+        canAppointCoordinator={false}
+        onSubmit={onSubmit}
+        onCancel={jest.fn()}
+      />
+    );
+
+    expect(screen.getByLabelText('Coordinator')).toBeDisabled();
+    expect(screen.getByLabelText('Translators')).toHaveValue('hubot');
+
+    fireEvent.change(screen.getByLabelText('Reviewers'), { target: { value: 'monalisa, hubot  octo-dev' } });
+    fireEvent.change(screen.getByLabelText('Translators'), { target: { value: ' ' } });
+    fireEvent.click(screen.getByText('Save'));
+
+    expect(onSubmit).toHaveBeenCalledWith(
+      expect.objectContaining({
+        coordinator: 'octocat',
+        reviewers: ['monalisa', 'hubot', 'octo-dev'],
+        translators: null,
+      })
+    );
+  });
+});
@@ -0,0 +1,65 @@
+import { render, screen } from '@testing-library/react';
+import { MarkdownPreview } from '@/components/editor/MarkdownPreview';
+
+describe('MarkdownPreview Component', () => {
+  it('should render headings, paragraphs and lists with their own direction', () => {
+    render(
+      <MarkdownPreview
+        markdown={'---\ntitle: Riesgos\n---\n\n# المخاطر\n\nEnglish paragraph\n\n- أول\n- [x] ثاني\n'}
+        direction="rtl"
+      />
+    );
+
+    expect(screen.getByRole('heading', { level: 1, name: 'المخاطر' })).toHaveAttribute('dir', 'auto');
+    expect(screen.getByText('English paragraph')).toHaveAttribute('dir', 'auto');
+    expect(screen.getByText('أول')).toHaveAttribute('dir', 'auto');
+    expect(screen.getByRole('checkbox')).toBeChecked();
+    // Front matter is not part of the page
+    expect(screen.queryByText(/title:/)).not.toBeInTheDocument();
+  });
+
+  it('should use the file direction for the whole preview', () => {
+    const { container } = render(<MarkdownPreview markdown="نص" direction="rtl" />);
+
+    expect(container.firstChild).toHaveAttribute('dir', 'rtl');
+  });
+
+  it('should render code left to right', () => {
+    render(<MarkdownPreview markdown={'استخدم `npm install` هنا\n\n```\nconst a = 1;\n```\n'} direction="rtl" />);
+
+    expect(screen.getByText('npm install')).toHaveAttribute('dir', 'ltr');
+    expect(screen.getByText('const a = 1;').closest('pre')).toHaveAttribute('dir', 'ltr');
+  });
+
+  it('should isolate links and drop unsafe URLs', () => {
+    render(
+      <MarkdownPreview
+        markdown={'[الدليل](https://example.com/guide) و [خطر](javascript:alert(1)) و [مرجع][ref]\n\n[ref]: ./other.md\n'}
+        direction="rtl"
+      />
+    );
+
+    const guide = screen.getByRole('link', { name: 'الدليل' });
+    expect(guide).toHaveAttribute('href', 'https://example.com/guide');
+    expect(guide.parentElement?.tagName).toBe('BDI');
+    expect(screen.getByText('خطر')).not.toHaveAttribute('href');
+    expect(screen.getByRole('link', { name: 'مرجع' })).toHaveAttribute('href', './other.md');
+  });
+
+  it('should render tables with aligned cells', () => {
+    render(<MarkdownPreview markdown={'| Name | Age |\n| :-- | --: |\n| Ana | 30 |\n'} direction="ltr" />);
+
+    expect(screen.getByRole('columnheader', { name: 'Name' })).toHaveAttribute('dir', 'auto');
+    expect(screen.getByRole('cell', { name: '30' })).toHaveStyle({ textAlign: 'right' });
+  });
+
+  it('should show images and HTML without loading them', () => {
+    const { container } = render(
+      <MarkdownPreview markdown={'![Diagrama](./diagram.png)\n\n<div>raw</div>\n'} direction="ltr" />
+    );
+
+    expect(screen.getByText('[Diagrama]')).toHaveAttribute('title', './diagram.png');
+    expect(container.querySelector('img')).toBeNull();
+    expect(screen.getByText('<div>raw</div>')).toHaveClass('markdown-preview-html');
+  });
+});
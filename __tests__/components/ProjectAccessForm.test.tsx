@@ -0,0 +1,42 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import { ProjectAccessForm } from '@/components/admin/ProjectAccessForm';
+
+describe('ProjectAccessForm Component', () => {
+  it('should show the current settings', () => {
+    render(
+      <ProjectAccessForm
+        access={{
+          admins: ['octocat', 'hubot'],
+          githubTeams: [{ team: 'OWASP/top10-es', role: 'coordinator', language: 'es-ES' }],
+          repoPermissions: true,
+        }}
+        onSubmit={jest.fn()}
+        onCancel={jest.fn()}
+      />
+    );
+
+    expect(screen.getByLabelText('Project admins')).toHaveValue('octocat, hubot');
+    expect(screen.getByLabelText('GitHub teams')).toHaveValue('OWASP/top10-es coordinator es-ES');
+    expect(screen.getByRole('checkbox')).toBeChecked();
+  });
+
+  it('should submit admins and one team per line', () => {
+    const onSubmit = jest.fn();
+    render(<ProjectAccessForm access={{}} onSubmit={onSubmit} onCancel={jest.fn()} />);
+
+    fireEvent.change(screen.getByLabelText('Project admins'), { target: { value: 'octocat,hubot' } });
+    fireEvent.change(screen.getByLabelText('GitHub teams'), {
+      target: { value: 'OWASP/leaders project-admin\n\n  OWASP/top10-es  reviewer es-ES ' },
+    });
+    fireEvent.click(screen.getByText('Save'));
+
+    expect(onSubmit).toHaveBeenCalledWith({
+      admins: ['octocat', 'hubot'],
+      githubTeams: [
+        { team: 'OWASP/leaders', role: 'project-admin' },
+        { team: 'OWASP/top10-es', role: 'reviewer', language: 'es-ES' },
+      ],
+      repoPermissions: false,
+    });
+  });
+});
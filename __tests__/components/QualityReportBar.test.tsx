@@ -0,0 +1,52 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import { QualityReportBar } from '@/components/editor/QualityReportBar';
+import type { QualityReport } from '@/types';
+
+describe('QualityReportBar Component', () => {
+  const report: QualityReport = {
+    issues: [
+      { check: 'codeContent', severity: 'blocking', message: 'Code block changed or missing: "deny();"' },
+      { check: 'glossary', severity: 'warning', message: '"policy" should be translated as "política"' },
+      { check: 'headings', severity: 'warning', message: 'The translation has 0 headings' },
+    ],
+    blocking: 1,
+    warnings: 2,
+  };
+
+  it('should render nothing before the checks have run', () => {
+    const { container } = render(<QualityReportBar report={null} />);
+
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('should say when every check passed', () => {
+    render(<QualityReportBar report={{ issues: [], blocking: 0, warnings: 0 }} />);
+
+    expect(screen.getByText('All quality checks passed')).toBeInTheDocument();
+  });
+
+  it('should summarize the issues and list them when expanded', () => {
+    render(<QualityReportBar report={report} />);
+
+    const toggle = screen.getByRole('button');
+    expect(toggle).toHaveTextContent(
+      'Quality checks: 1 blocking, 2 warnings (fix the blocking issues before submitting)'
+    );
+    expect(screen.queryByText('Code')).not.toBeInTheDocument();
+
+    fireEvent.click(toggle);
+
+    expect(toggle).toHaveAttribute('aria-expanded', 'true');
+    expect(screen.getByText('Code')).toHaveClass('bg-red-100');
+    expect(screen.getByText('Glossary')).toHaveClass('bg-yellow-100');
+    expect(screen.getByText('The translation has 0 headings')).toBeInTheDocument();
+  });
+
+  it('should not ask to fix warnings', () => {
+    render(
+      <QualityReportBar report={{ issues: report.issues.slice(2), blocking: 0, warnings: 1 }} />
+    );
+
+    expect(screen.getByRole('button')).toHaveTextContent(/^▸ Quality checks: 1 warning$/);
+  });
+});
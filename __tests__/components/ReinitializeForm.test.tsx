@@ -0,0 +1,62 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import { ReinitializeForm } from '@/components/admin/ReinitializeForm';
+import type { InitPlan } from '@/types';
+
+const plan: InitPlan = {
+  mode: 'missing',
+  sourceCommitSha: 'abcdef1234567',
+  files: [
+    { filename: 'A01.md', action: 'skip', paths: [], reason: 'Already translated' },
+    {
+      filename: 'A02.md',
+      action: 'create',
+      paths: ['/docs/translations/es-ES/A02.md', '/docs/translations/es-ES/tmp/A02.md'],
+    },
+  ],
+};
+
+describe('ReinitializeForm Component', () => {
+  const handlers = () => ({
+    onPreview: jest.fn(),
+    onStart: jest.fn(),
+    onClose: jest.fn(),
+  });
+
+  it('should request a preview with the chosen mode and source commit', () => {
+    const props = handlers();
+    render(<ReinitializeForm plan={null} {...props} />);
+
+    fireEvent.click(screen.getByLabelText(/Refresh machine drafts/));
+    fireEvent.change(screen.getByLabelText('Source commit'), { target: { value: ' v2.0 ' } });
+    fireEvent.click(screen.getByText('Preview'));
+
+    expect(props.onPreview).toHaveBeenCalledWith({ mode: 'refresh', sourceCommit: 'v2.0' });
+    expect(screen.getByText('Start').closest('button')).toBeDisabled();
+  });
+
+  it('should list the preview and start from the previewed commit', () => {
+    const props = handlers();
+    const { rerender } = render(<ReinitializeForm plan={null} {...props} />);
+
+    fireEvent.click(screen.getByText('Preview'));
+    rerender(<ReinitializeForm plan={plan} {...props} />);
+
+    expect(screen.getByText(/1 to create, 0 to overwrite, 1/)).toBeInTheDocument();
+    expect(screen.getByText('Already translated')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('Start'));
+    expect(props.onStart).toHaveBeenCalledWith({ mode: 'missing', sourceCommit: 'abcdef1234567' });
+  });
+
+  it('should hide a preview made with other options', () => {
+    const props = handlers();
+    const { rerender } = render(<ReinitializeForm plan={null} {...props} />);
+
+    fireEvent.click(screen.getByText('Preview'));
+    rerender(<ReinitializeForm plan={plan} {...props} />);
+    fireEvent.click(screen.getByLabelText(/Force overwrite/));
+
+    expect(screen.queryByText('Already translated')).not.toBeInTheDocument();
+    expect(screen.getByText('Start').closest('button')).toBeDisabled();
+  });
+});
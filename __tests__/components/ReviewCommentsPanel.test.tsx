@@ -0,0 +1,127 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import { ReviewCommentsPanel } from '@/components/editor/ReviewCommentsPanel';
+import type { ReviewThread } from '@/types';
+
+const content = '# Título\n\nPrimera línea del párrafo\ny su continuación.';
+
+function createThread(overrides: Partial<ReviewThread> = {}): ReviewThread {
+  return {
+    id: 'thread-1',
+    anchor: { startLine: 3, endLine: 4, excerpt: 'Primera línea del párrafo y su continuación.' },
+    resolved: false,
+    resolvedBy: null,
+    prNumber: 12,
+    githubThreadId: null,
+    comments: [
+      {
+        id: 'comment-1',
+        author: 'reviewer',
+        body: 'Use the glossary term',
+        createdAt: '2025-01-01T00:00:00.000Z',
+        githubCommentId: 100,
+        url: 'https://github.com/OWASP/Top10/pull/12#discussion_r100',
+      },
+    ],
+    ...overrides,
+  };
+}
+
+describe('ReviewCommentsPanel Component', () => {
+  const defaultProps = {
+    content,
+    direction: 'ltr' as const,
+    canComment: false,
+    synced: true,
+    pendingAnchor: null,
+    onCreate: jest.fn(),
+    onCancelCreate: jest.fn(),
+    onReply: jest.fn(),
+    onResolve: jest.fn(),
+    onSelect: jest.fn(),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should show threads with their paragraph and a link to GitHub', () => {
+    render(<ReviewCommentsPanel {...defaultProps} threads={[createThread()]} />);
+
+    expect(screen.getByText('Use the glossary term')).toBeInTheDocument();
+    expect(screen.getByText('Open')).toBeInTheDocument();
+    expect(screen.getByText('GitHub')).toHaveAttribute(
+      'href',
+      'https://github.com/OWASP/Top10/pull/12#discussion_r100'
+    );
+
+    fireEvent.click(screen.getByText('Lines 3–4'));
+    expect(defaultProps.onSelect).toHaveBeenCalledWith(
+      expect.objectContaining({ startLine: 3, endLine: 4 })
+    );
+  });
+
+  it('should say when the paragraph of a thread has changed', () => {
+    render(
+      <ReviewCommentsPanel
+        {...defaultProps}
+        content="# Título"
+        threads={[createThread()]}
+      />
+    );
+
+    expect(screen.getByText('Paragraph changed')).toBeInTheDocument();
+  });
+
+  it('should reply to and resolve threads', () => {
+    render(<ReviewCommentsPanel {...defaultProps} threads={[createThread()]} />);
+
+    fireEvent.change(screen.getByLabelText('Reply to thread thread-1'), {
+      target: { value: ' Fixed ' },
+    });
+    fireEvent.click(screen.getByText('Reply'));
+    expect(defaultProps.onReply).toHaveBeenCalledWith('thread-1', 'Fixed');
+
+    fireEvent.click(screen.getByText('Resolve'));
+    expect(defaultProps.onResolve).toHaveBeenCalledWith('thread-1', true);
+  });
+
+  it('should hide resolved threads until asked', () => {
+    render(
+      <ReviewCommentsPanel
+        {...defaultProps}
+        threads={[createThread({ resolved: true, resolvedBy: 'translator' })]}
+      />
+    );
+
+    expect(screen.queryByText('Use the glossary term')).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('Show 1 resolved'));
+    expect(screen.getByText('Resolved by translator')).toBeInTheDocument();
+    expect(screen.getByText('Reopen')).toBeInTheDocument();
+  });
+
+  it('should let reviewers comment on the selected paragraph', () => {
+    render(
+      <ReviewCommentsPanel
+        {...defaultProps}
+        threads={[]}
+        canComment
+        pendingAnchor={{ startLine: 3, endLine: 4, excerpt: 'Primera línea' }}
+      />
+    );
+
+    fireEvent.change(screen.getByLabelText('Comment on lines 3–4'), {
+      target: { value: 'Use usted' },
+    });
+    fireEvent.click(screen.getByText('Comment'));
+
+    expect(defaultProps.onCreate).toHaveBeenCalledWith('Use usted');
+  });
+
+  it('should warn when GitHub could not be reached', () => {
+    render(<ReviewCommentsPanel {...defaultProps} threads={[]} synced={false} />);
+
+    expect(screen.getByText(/GitHub could not be reached/)).toBeInTheDocument();
+    expect(screen.getByText('No review comments.')).toBeInTheDocument();
+  });
+});
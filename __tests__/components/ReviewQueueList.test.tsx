@@ -0,0 +1,91 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import { ReviewQueueList } from '@/components/review/ReviewQueueList';
+import type { ReviewQueueItem } from '@/types';
+
+function createItem(overrides: Partial<ReviewQueueItem> = {}): ReviewQueueItem {
+  return {
+    filename: 'A01.md',
+    reviewState: 'submitted',
+    lastContributor: 'translator',
+    lastUpdated: '2025-01-01T00:00:00.000Z',
+    reviewer: null,
+    prNumber: 12,
+    prUrl: 'https://github.com/OWASP/Top10/pull/12',
+    wordCount: 100,
+    lastComment: null,
+    ...overrides,
+  };
+}
+
+describe('ReviewQueueList Component', () => {
+  const editorPath = '/topten/translate/es-ES/edit';
+
+  it('should say when there is nothing to review', () => {
+    render(
+      <ReviewQueueList items={[]} editorPath={editorPath} currentUser="reviewer" onAction={jest.fn()} />
+    );
+
+    expect(screen.getByText('Nothing to review')).toBeInTheDocument();
+  });
+
+  it('should start reviews and approve files', () => {
+    const onAction = jest.fn();
+    render(
+      <ReviewQueueList
+        items={[createItem()]}
+        editorPath={editorPath}
+        currentUser="reviewer"
+        onAction={onAction}
+      />
+    );
+
+    expect(screen.getByText('Awaiting review')).toBeInTheDocument();
+    expect(screen.getByText('PR #12')).toHaveAttribute('href', 'https://github.com/OWASP/Top10/pull/12');
+    expect(screen.getByText('Open').closest('a')).toHaveAttribute('href', `${editorPath}/A01.md`);
+
+    fireEvent.click(screen.getByText('Start Review'));
+    expect(onAction).toHaveBeenCalledWith('A01.md', 'start-review');
+
+    fireEvent.click(screen.getByText('Approve'));
+    expect(onAction).toHaveBeenCalledWith('A01.md', 'approve');
+  });
+
+  it('should ask what to change before requesting changes', () => {
+    const onAction = jest.fn();
+    render(
+      <ReviewQueueList
+        items={[createItem({ reviewState: 'in-review' })]}
+        editorPath={editorPath}
+        currentUser="reviewer"
+        onAction={onAction}
+      />
+    );
+
+    expect(screen.queryByText('Start Review')).not.toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('Request Changes'));
+    expect(screen.getByText('Send').closest('button')).toBeDisabled();
+
+    fireEvent.change(screen.getByLabelText('Changes to make'), {
+      target: { value: ' Translate the table headers ' },
+    });
+    fireEvent.click(screen.getByText('Send'));
+
+    expect(onAction).toHaveBeenCalledWith('A01.md', 'request-changes', 'Translate the table headers');
+  });
+
+  it('should not offer reviews of your own translations', () => {
+    render(
+      <ReviewQueueList
+        items={[createItem()]}
+        editorPath={editorPath}
+        currentUser="Translator"
+        onAction={jest.fn()}
+      />
+    );
+
+    expect(screen.getByText('Your translation needs another reviewer')).toBeInTheDocument();
+    expect(screen.queryByText('Approve')).not.toBeInTheDocument();
+    expect(screen.queryByText('Request Changes')).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,51 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import { SegmentEditor } from '@/components/editor/SegmentEditor';
+import type { AlignedSegment } from '@/lib/markdown';
+
+describe('SegmentEditor Component', () => {
+  const segments: AlignedSegment[] = [
+    { type: 'heading', source: 'Risks', translation: 'Riesgos', machine: 'Riesgos', start: 2, end: 9 },
+    {
+      type: 'paragraph',
+      source: 'Second risk',
+      translation: 'Segundo riesgo',
+      machine: 'Riesgo segundo',
+      start: 11,
+      end: 25,
+    },
+    { type: 'tableCell', source: 'Name', translation: 'Nombre', machine: null, start: 27, end: 33 },
+  ];
+
+  it('should show each segment next to its English source and machine translation', () => {
+    render(<SegmentEditor segments={segments} direction="ltr" onChange={jest.fn()} />);
+
+    expect(screen.getByText('1. Heading')).toBeInTheDocument();
+    expect(screen.getByText('Second risk')).toBeInTheDocument();
+    expect(screen.getByLabelText('Translation of segment 2')).toHaveValue('Segundo riesgo');
+    expect(screen.getByText('Riesgo segundo')).toBeInTheDocument();
+    expect(screen.getByText('No machine translation for this segment')).toBeInTheDocument();
+  });
+
+  it('should edit a segment', () => {
+    const onChange = jest.fn();
+    render(<SegmentEditor segments={segments} direction="ltr" onChange={onChange} />);
+
+    fireEvent.change(screen.getByLabelText('Translation of segment 3'), {
+      target: { value: 'Nombre completo' },
+    });
+
+    expect(onChange).toHaveBeenCalledWith(2, 'Nombre completo');
+  });
+
+  it('should use the machine translation of a segment that differs from it', () => {
+    const onChange = jest.fn();
+    render(<SegmentEditor segments={segments} direction="rtl" onChange={onChange} />);
+
+    const useButtons = screen.getAllByText('Use');
+    expect(useButtons).toHaveLength(1);
+
+    fireEvent.click(useButtons[0]);
+    expect(onChange).toHaveBeenCalledWith(1, 'Riesgo segundo');
+    expect(screen.getByLabelText('Translation of segment 1')).toHaveAttribute('dir', 'rtl');
+  });
+});
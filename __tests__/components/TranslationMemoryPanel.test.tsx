@@ -0,0 +1,65 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import { TranslationMemoryPanel } from '@/components/editor/TranslationMemoryPanel';
+import type { SegmentMemoryMatches } from '@/types';
+
+const entry = {
+  project: 'top10',
+  filename: 'A01.md',
+  contributor: 'translator',
+  updated: '2025-01-01T00:00:00.000Z',
+};
+
+const matches: SegmentMemoryMatches[] = [
+  {
+    source: 'Broken Access Control',
+    matches: [
+      {
+        ...entry,
+        source: 'Broken Access Control',
+        target: 'Pérdida de Control de Acceso',
+        score: 100,
+      },
+    ],
+  },
+  {
+    source: 'Access control enforces policy on the server.',
+    matches: [
+      {
+        ...entry,
+        source: 'Access control enforces policy.',
+        target: 'El control de acceso aplica la política.',
+        score: 75,
+      },
+    ],
+  },
+];
+
+describe('TranslationMemoryPanel Component', () => {
+  it('should render an empty state', () => {
+    render(<TranslationMemoryPanel matches={[]} direction="ltr" onCopy={jest.fn()} />);
+
+    expect(screen.getByText(/No translation memory matches/)).toBeInTheDocument();
+  });
+
+  it('should label exact and fuzzy matches', () => {
+    render(<TranslationMemoryPanel matches={matches} direction="ltr" onCopy={jest.fn()} />);
+
+    expect(screen.getByText('Exact')).toBeInTheDocument();
+    expect(screen.getByText('75%')).toBeInTheDocument();
+    expect(screen.getByText('Memory source: Access control enforces policy.')).toBeInTheDocument();
+  });
+
+  it('should set the language direction on translations', () => {
+    render(<TranslationMemoryPanel matches={matches} direction="rtl" onCopy={jest.fn()} />);
+
+    expect(screen.getByText('Pérdida de Control de Acceso')).toHaveAttribute('dir', 'rtl');
+  });
+
+  it('should copy the selected translation', () => {
+    const onCopy = jest.fn();
+    render(<TranslationMemoryPanel matches={matches} direction="ltr" onCopy={onCopy} />);
+
+    fireEvent.click(screen.getAllByText('Copy')[1]);
+    expect(onCopy).toHaveBeenCalledWith('El control de acceso aplica la política.');
+  });
+});
@@ -0,0 +1,52 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import { WordDiffPanel } from '@/components/editor/WordDiffPanel';
+
+describe('WordDiffPanel Component', () => {
+  const renderPanel = (content: string, onChange = jest.fn()) =>
+    render(
+      <WordDiffPanel
+        base="El gato negro duerme. Fin del texto."
+        baseLabel="Machine translation"
+        content={content}
+        direction="ltr"
+        onChange={onChange}
+      />
+    );
+
+  it('should show the changes from the other version', () => {
+    renderPanel('El perro blanco duerme. Fin del libro.');
+
+    expect(screen.getByText('gato negro').tagName).toBe('DEL');
+    expect(screen.getByText('perro blanco').tagName).toBe('INS');
+    expect(screen.getByText(/2 changes to review/)).toBeInTheDocument();
+    expect(screen.getByText('43% edited')).toBeInTheDocument();
+  });
+
+  it('should reject a change by putting the other version back', () => {
+    const onChange = jest.fn();
+    renderPanel('El perro blanco duerme. Fin del libro.', onChange);
+
+    fireEvent.click(screen.getByLabelText('Reject change 2'));
+
+    expect(onChange).toHaveBeenCalledWith('El perro blanco duerme. Fin del texto.');
+  });
+
+  it('should hide accepted changes without editing the translation', () => {
+    const onChange = jest.fn();
+    renderPanel('El perro blanco duerme. Fin del libro.', onChange);
+
+    fireEvent.click(screen.getByLabelText('Accept change 1'));
+
+    expect(screen.queryByText('gato negro')).not.toBeInTheDocument();
+    expect(screen.getByText(/1 change to review/)).toBeInTheDocument();
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  it('should say when there is nothing to compare with', () => {
+    render(
+      <WordDiffPanel base="" baseLabel="Machine translation" content="Hola" direction="ltr" onChange={jest.fn()} />
+    );
+
+    expect(screen.getByText('No machine translation to compare with.')).toBeInTheDocument();
+  });
+});
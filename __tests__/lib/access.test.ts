@@ -0,0 +1,208 @@
+import {
+  getProjectAccess,
+  hasRole,
+  getLanguagesWithRole,
+  requireRole,
+  isHubAdmin,
+  clearAccessCache,
+} from '@/lib/access';
+import type { GitHubClient } from '@/lib/github';
+import type { ProjectConfig } from '@/types';
+
+jest.mock('@/lib/github', () => ({
+  createGitHubClient: jest.fn(),
+}));
+
+function createProject(overrides: Partial<ProjectConfig> = {}): ProjectConfig {
+  return {
+    slug: 'topten',
+    name: 'OWASP Top 10',
+    githubRepo: 'OWASP/Top10',
+    sourceBranch: 'master',
+    sourceFolder: '/2021/docs',
+    translationFolder: '/2021/docs',
+    tmpFolder: '/2021/docs/{language}/tmp',
+    filePattern: '*.md',
+    priorityFiles: [],
+    languages: {
+      'es-ES': {
+        name: 'Spanish (Spain)',
+        direction: 'ltr',
+        status: 'active',
+        initialized: null,
+        coordinator: 'Coordinator',
+        reviewers: ['reviewer'],
+      },
+      'fr-FR': {
+        name: 'French',
+        direction: 'ltr',
+        status: 'active',
+        initialized: null,
+        translators: ['translator'],
+      },
+    },
+    ...overrides,
+  };
+}
+
+function createGitHubClient(
+  permission: { permission: string; role_name?: string } | number,
+  teams: Record<string, string[]> = {}
+) {
+  return {
+    getCollaboratorPermission: jest.fn(async () => {
+      if (typeof permission === 'number') {
+        throw Object.assign(new Error('GitHub error'), { status: permission });
+      }
+      return { data: permission };
+    }),
+    getTeamMembership: jest.fn(async (org: string, teamSlug: string, username: string) => {
+      if (!(teams[`${org}/${teamSlug}`] || []).includes(username)) {
+        throw Object.assign(new Error('Not Found'), { status: 404 });
+      }
+      return { data: { state: 'active' } };
+    }),
+  };
+}
+
+describe('Access control', () => {
+  const originalAdminUsers = process.env.ADMIN_USERS;
+
+  beforeEach(() => {
+    process.env.ADMIN_USERS = 'hubadmin, other';
+    clearAccessCache();
+  });
+
+  afterAll(() => {
+    process.env.ADMIN_USERS = originalAdminUsers;
+  });
+
+  describe('isHubAdmin', () => {
+    it('should check ADMIN_USERS regardless of case', () => {
+      expect(isHubAdmin('HubAdmin')).toBe(true);
+      expect(isHubAdmin('other')).toBe(true);
+      expect(isHubAdmin('someone')).toBe(false);
+      expect(isHubAdmin('')).toBe(false);
+    });
+  });
+
+  describe('getProjectAccess', () => {
+    it('should give hub and project admins every language', async () => {
+      const project = createProject({ access: { admins: ['projectadmin'] } });
+
+      expect(await getProjectAccess(project, 'hubadmin', null)).toEqual({
+        username: 'hubadmin',
+        projectRole: 'hub-admin',
+        languages: { 'es-ES': 'hub-admin', 'fr-FR': 'hub-admin' },
+      });
+      expect(await getProjectAccess(project, 'projectadmin', null)).toEqual({
+        username: 'projectadmin',
+        projectRole: 'project-admin',
+        languages: { 'es-ES': 'project-admin', 'fr-FR': 'project-admin' },
+      });
+    });
+
+    it('should give language roles from the language config', async () => {
+      const project = createProject();
+
+      expect((await getProjectAccess(project, 'coordinator', null)).languages).toEqual({
+        'es-ES': 'coordinator',
+      });
+      expect((await getProjectAccess(project, 'reviewer', null)).languages).toEqual({
+        'es-ES': 'reviewer',
+      });
+      expect((await getProjectAccess(project, 'translator', null)).languages).toEqual({
+        'es-ES': 'translator',
+        'fr-FR': 'translator',
+      });
+    });
+
+    it('should leave out languages restricted to other translators', async () => {
+      const access = await getProjectAccess(createProject(), 'someone', null);
+
+      expect(access.projectRole).toBeNull();
+      expect(access.languages).toEqual({ 'es-ES': 'translator' });
+    });
+
+    it('should give roles from repository permissions', async () => {
+      const project = createProject({ access: { repoPermissions: true } });
+
+      const maintainer = await getProjectAccess(
+        project,
+        'maintainer',
+        createGitHubClient({ permission: 'write', role_name: 'maintain' }) as unknown as GitHubClient
+      );
+      expect(maintainer.projectRole).toBe('project-admin');
+
+      const writer = await getProjectAccess(
+        project,
+        'writer',
+        createGitHubClient({ permission: 'write' }) as unknown as GitHubClient
+      );
+      expect(writer.projectRole).toBeNull();
+      expect(writer.languages).toEqual({ 'es-ES': 'reviewer', 'fr-FR': 'reviewer' });
+    });
+
+    it('should give roles from GitHub team membership', async () => {
+      const project = createProject({
+        access: {
+          githubTeams: [
+            { team: 'OWASP/top10-leaders', role: 'project-admin' },
+            { team: 'OWASP/top10-fr', role: 'coordinator', language: 'fr-FR' },
+          ],
+        },
+      });
+      const client = createGitHubClient({ permission: 'none' }, {
+        'OWASP/top10-fr': ['member'],
+      });
+
+      const access = await getProjectAccess(project, 'member', client as unknown as GitHubClient);
+
+      expect(access.projectRole).toBeNull();
+      expect(access.languages).toEqual({ 'es-ES': 'translator', 'fr-FR': 'coordinator' });
+      expect(client.getTeamMembership).toHaveBeenCalledWith('OWASP', 'top10-leaders', 'member');
+      expect(client.getCollaboratorPermission).not.toHaveBeenCalled();
+    });
+
+    it('should cache GitHub roles but retry failed lookups', async () => {
+      const project = createProject({ access: { repoPermissions: true } });
+      const failing = createGitHubClient(502);
+
+      const denied = await getProjectAccess(project, 'writer', failing as unknown as GitHubClient);
+      expect(denied.languages).toEqual({ 'es-ES': 'translator' });
+
+      const client = createGitHubClient({ permission: 'admin' });
+      await getProjectAccess(project, 'writer', client as unknown as GitHubClient);
+      const cached = await getProjectAccess(project, 'Writer', client as unknown as GitHubClient);
+
+      expect(cached.projectRole).toBe('project-admin');
+      expect(client.getCollaboratorPermission).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('hasRole', () => {
+    it('should include the roles below the granted one', async () => {
+      const access = await getProjectAccess(createProject(), 'coordinator', null);
+
+      expect(hasRole(access, 'reviewer', 'es-ES')).toBe(true);
+      expect(hasRole(access, 'coordinator', 'es-ES')).toBe(true);
+      expect(hasRole(access, 'project-admin', 'es-ES')).toBe(false);
+      expect(hasRole(access, 'translator', 'fr-FR')).toBe(false);
+      expect(hasRole(access, 'translator')).toBe(false);
+      expect(getLanguagesWithRole(access, 'coordinator')).toEqual(['es-ES']);
+    });
+  });
+
+  describe('requireRole', () => {
+    it('should throw an unauthorized error without the role', async () => {
+      const project = createProject();
+
+      await expect(requireRole(project, 'reviewer', 'coordinator', 'es-ES')).rejects.toThrow(
+        'Unauthorized: Coordinator access required'
+      );
+      await expect(requireRole(project, 'coordinator', 'coordinator', 'es-ES')).resolves.toEqual(
+        expect.objectContaining({ username: 'coordinator' })
+      );
+    });
+  });
+});
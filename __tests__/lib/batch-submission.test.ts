@@ -0,0 +1,296 @@
+import { formatSubmissionBody, submitFiles } from '@/lib/batch-submission';
+import { ReviewStateError } from '@/lib/translation-metadata';
+import { QualityCheckError } from '@/lib/quality-checks';
+import type { GitHubClient, CommitFileChange } from '@/lib/github';
+import type { ProjectConfig, TranslationFileMetadata, TranslationMetadata } from '@/types';
+
+type CommitFiles = CommitFileChange[] | ((parentSha: string) => Promise<CommitFileChange[]>);
+
+// Files of a commitFiles call, built on the branch head as the client does
+const getCommittedFiles = async (files: CommitFiles): Promise<CommitFileChange[]> =>
+  typeof files === 'function' ? files('branch-head') : files;
+
+const mockCommitFiles = (result: object) =>
+  jest.fn(async (_owner: string, _repo: string, _branch: string, files: CommitFiles) => {
+    await getCommittedFiles(files);
+    return result;
+  });
+
+jest.mock('@/lib/github', () => ({
+  createGitHubClient: jest.fn(),
+}));
+
+const project = {
+  slug: 'topten',
+  name: 'OWASP Top 10',
+  githubRepo: 'OWASP/Top10',
+  sourceBranch: 'master',
+  sourceFolder: '/2021/docs',
+  translationFolder: '/2021/docs',
+  tmpFolder: '/2021/docs/{language}/tmp',
+  filePattern: '*.md',
+  priorityFiles: [],
+  languages: { 'es-ES': { name: 'Spanish', direction: 'ltr', initialized: true } },
+} as unknown as ProjectConfig;
+
+function createFile(overrides: Partial<TranslationFileMetadata> = {}): TranslationFileMetadata {
+  return {
+    status: 'in-progress',
+    lastUpdated: '2025-01-01T00:00:00.000Z',
+    lastContributor: 'translator',
+    lastCommitSha: null,
+    prNumber: null,
+    prUrl: null,
+    wordCount: 0,
+    machineTranslated: true,
+    humanReviewed: false,
+    reviewState: 'draft',
+    ...overrides,
+  };
+}
+
+function createMetadata(files: Record<string, TranslationFileMetadata>): TranslationMetadata {
+  return {
+    version: '1.0',
+    language: 'es-ES',
+    languageName: 'Spanish',
+    direction: 'ltr',
+    project: 'topten',
+    coordinator: 'admin',
+    initialized: '2025-01-01T00:00:00.000Z',
+    lastUpdated: '2025-01-01T00:00:00.000Z',
+    files,
+    stats: {
+      totalFiles: 0,
+      completed: 0,
+      inProgress: 0,
+      notStarted: 0,
+      percentComplete: 0,
+      totalWords: 0,
+      translatedWords: 0,
+      contributors: [],
+    },
+    meta: {
+      machineTranslationService: 'DeepL',
+      machineTranslationDate: '2025-01-01T00:00:00.000Z',
+      sourceCommitSha: 'base',
+      notes: '',
+    },
+  };
+}
+
+function encode(content: string) {
+  return {
+    data: {
+      type: 'file',
+      sha: 'blob',
+      content: Buffer.from(content).toString('base64'),
+    },
+  };
+}
+
+describe('Batch submission', () => {
+  describe('formatSubmissionBody', () => {
+    it('should list each file with a word-weighted total', () => {
+      const body = formatSubmissionBody(
+        'Spanish',
+        'translator',
+        [
+          { filename: 'A01.md', wordCount: 300, postEditDistance: 0.1 },
+          { filename: 'A02.md', wordCount: 100, postEditDistance: 0.5 },
+          { filename: 'A03.md', wordCount: 50, postEditDistance: null },
+        ],
+        'Reviewed the glossary terms'
+      );
+
+      expect(body).toContain('- Translated 3 files to Spanish');
+      expect(body).toContain('| A01.md | 300 | 10% |');
+      expect(body).toContain('| A03.md | 50 | — |');
+      expect(body).toContain('| **Total** | 450 | 20% |');
+      expect(body).toContain('## Notes\nReviewed the glossary terms');
+    });
+
+    it('should leave out the total for a single file', () => {
+      const body = formatSubmissionBody('Spanish', 'translator', [
+        { filename: 'A01.md', wordCount: 10, postEditDistance: 0 },
+      ]);
+
+      expect(body).toContain('- Translated A01.md to Spanish');
+      expect(body).not.toContain('**Total**');
+      expect(body).not.toContain('## Notes');
+    });
+  });
+
+  describe('submitFiles', () => {
+    let userClient: Record<string, jest.Mock>;
+    let adminClient: Record<string, jest.Mock>;
+
+    const setup = (
+      files: Record<string, TranslationFileMetadata>,
+      pullRequestMode?: string,
+      qualityChecks?: ProjectConfig['qualityChecks']
+    ) => {
+      const metadata = encode(JSON.stringify(createMetadata(files)));
+      const getFileContent = jest.fn(async (owner: string, _repo: string, path: string) => {
+        if (path.endsWith('translation.json')) return metadata;
+        if (path.includes('/tmp/')) return encode('uno dos tres cuatro');
+        if (owner === 'translator') return encode(`uno dos otro cuatro ${path}`);
+        if (path.endsWith('.md')) return encode('[One](https://owasp.org) two three four');
+        throw Object.assign(new Error('Not Found'), { status: 404 });
+      });
+
+      userClient = {
+        getFileContent,
+        getBranch: jest.fn().mockResolvedValue({ data: { commit: { sha: 'fork-head' } } }),
+        listPullRequests: jest.fn().mockResolvedValue({ data: [] }),
+        createPullRequest: jest.fn().mockResolvedValue({
+          data: { number: 42, html_url: 'https://github.com/OWASP/Top10/pull/42' },
+        }),
+        createBranch: jest.fn().mockResolvedValue({}),
+        updateRef: jest.fn().mockResolvedValue({}),
+        createOrUpdateFile: jest.fn().mockResolvedValue({ data: { commit: { sha: 'file-commit' } } }),
+      };
+      adminClient = {
+        getFileContent,
+        getBranch: jest.fn().mockResolvedValue({ data: { commit: { sha: 'source-head' } } }),
+        commitFiles: mockCommitFiles({}),
+      };
+
+      return { ...project, pullRequests: pullRequestMode, qualityChecks } as ProjectConfig;
+    };
+
+    const submit = (projectConfig: ProjectConfig, filenames: string[], message?: string) =>
+      submitFiles(
+        userClient as unknown as GitHubClient,
+        adminClient as unknown as GitHubClient,
+        projectConfig,
+        'es-ES',
+        filenames,
+        'translator',
+        message
+      );
+
+    it('should open one pull request and update translation.json in one commit', async () => {
+      const projectConfig = setup({
+        'A01.md': createFile(),
+        'A02.md': createFile({ reviewState: 'changes-requested' }),
+      });
+
+      const result = await submit(projectConfig, ['A01.md', 'A02.md'], 'Ready');
+
+      expect(userClient.createPullRequest).toHaveBeenCalledTimes(1);
+      const [, , title, head, base, body] = userClient.createPullRequest.mock.calls[0];
+      expect(title).toBe('[es-ES] Spanish translation of 2 files');
+      expect(head).toBe('translator:translations/es-ES');
+      expect(base).toBe('translations/es-ES');
+      expect(body).toContain('| A01.md |');
+      expect(body).toContain('| A02.md |');
+      expect(body).toContain('## Quality checks\n- ⚠️ **A01.md**: The translation has 0 links');
+      expect(body).toContain('## Notes\nReady');
+
+      expect(result.pullRequests).toEqual([
+        { number: 42, url: 'https://github.com/OWASP/Top10/pull/42', existing: false },
+      ]);
+      expect(result.files.map((file) => file.filename)).toEqual(['A01.md', 'A02.md']);
+      expect(result.files[0].postEditDistance).toBeGreaterThan(0);
+      expect(result.files[0].quality.warnings).toBe(2);
+
+      expect(adminClient.commitFiles).toHaveBeenCalledTimes(1);
+      const [, , branch, committed, commitMessage] = adminClient.commitFiles.mock.calls[0];
+      const files = await getCommittedFiles(committed);
+      const saved = JSON.parse(files[0].content as string) as TranslationMetadata;
+      expect(branch).toBe('translations/es-ES');
+      expect(commitMessage).toBe('[es-ES] Submit 2 files for review (PR #42)');
+      expect(saved.files['A01.md']).toEqual(
+        expect.objectContaining({
+          reviewState: 'submitted',
+          lastCommitSha: 'fork-head',
+          prNumber: 42,
+          sourceCommitSha: 'source-head',
+        })
+      );
+      expect(saved.files['A01.md'].postEditDistance).toBeGreaterThan(0);
+      expect(saved.files['A02.md'].reviewState).toBe('submitted');
+    });
+
+    it('should add the files to an open pull request', async () => {
+      const projectConfig = setup({ 'A01.md': createFile() });
+      userClient.listPullRequests.mockResolvedValue({
+        data: [
+          {
+            number: 7,
+            html_url: 'https://github.com/OWASP/Top10/pull/7',
+            head: { ref: 'translations/es-ES', user: { login: 'translator' } },
+          },
+        ],
+      });
+
+      const result = await submit(projectConfig, ['A01.md']);
+
+      expect(userClient.createPullRequest).not.toHaveBeenCalled();
+      expect(result.pullRequests[0]).toEqual(expect.objectContaining({ number: 7, existing: true }));
+      expect(adminClient.commitFiles.mock.calls[0][4]).toBe('[es-ES] Submit A01.md for review (PR #7)');
+    });
+
+    it('should open a pull request per file in per-file mode', async () => {
+      const projectConfig = setup({ 'A01.md': createFile(), 'A02.md': createFile() }, 'per-file');
+      userClient.getBranch.mockImplementation(async (owner: string) => {
+        if (owner === 'translator') throw Object.assign(new Error('Not Found'), { status: 404 });
+        return { data: { commit: { sha: 'upstream-head' } } };
+      });
+
+      const result = await submit(projectConfig, ['A01.md', 'A02.md']);
+
+      expect(userClient.createBranch).toHaveBeenCalledWith(
+        'translator',
+        'Top10',
+        'translation-files/es-ES/A01.md',
+        'upstream-head'
+      );
+      expect(userClient.createPullRequest.mock.calls.map((call) => call[3])).toEqual([
+        'translator:translation-files/es-ES/A01.md',
+        'translator:translation-files/es-ES/A02.md',
+      ]);
+      expect(result.pullRequests).toHaveLength(2);
+      expect(adminClient.commitFiles).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject files that are not in progress before writing anything', async () => {
+      const projectConfig = setup({
+        'A01.md': createFile(),
+        'A02.md': createFile({ status: 'complete', reviewState: 'submitted' }),
+      });
+
+      await expect(submit(projectConfig, ['A01.md', 'A02.md'])).rejects.toThrow(ReviewStateError);
+      await expect(submit(projectConfig, ['A03.md'])).rejects.toThrow(
+        'File not found in translation metadata: A03.md'
+      );
+      expect(userClient.createPullRequest).not.toHaveBeenCalled();
+      expect(adminClient.commitFiles).not.toHaveBeenCalled();
+    });
+
+    it('should reject files with blocking quality issues before writing anything', async () => {
+      const projectConfig = setup({ 'A01.md': createFile(), 'A02.md': createFile() }, undefined, {
+        links: 'blocking',
+      });
+
+      await expect(submit(projectConfig, ['A01.md', 'A02.md'])).rejects.toThrow(QualityCheckError);
+      await expect(submit(projectConfig, ['A01.md'])).rejects.toThrow(
+        'A01.md failed quality checks: The translation has 0 links; the English source has 1'
+      );
+      expect(userClient.createPullRequest).not.toHaveBeenCalled();
+      expect(adminClient.commitFiles).not.toHaveBeenCalled();
+    });
+
+    it('should reject files without a saved draft', async () => {
+      const projectConfig = setup({ 'A01.md': createFile() });
+      userClient.getFileContent.mockImplementation(async (_owner: string, _repo: string, path: string) =>
+        path.endsWith('translation.json')
+          ? encode(JSON.stringify(createMetadata({ 'A01.md': createFile() })))
+          : encode('  ')
+      );
+
+      await expect(submit(projectConfig, ['A01.md'])).rejects.toThrow('A01.md has no saved draft');
+    });
+  });
+});
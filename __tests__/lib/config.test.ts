@@ -6,6 +6,8 @@ import {
   getTranslationFolderPath,
   getTmpFolderPath,
   getTranslationBranchName,
+  getFileBranchName,
+  getPullRequestMode,
   parseGitHubRepo,
   getSourceFilePath,
   getTranslationFilePath,
@@ -15,8 +17,13 @@ import {
   isPriorityFile,
   getLanguageDisplayName,
   getActiveLanguages,
+  updateLanguageConfig,
+  registerProject,
   ConfigError,
 } from '@/lib/config';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
 import type { ProjectConfig } from '@/types';
 
 describe('Config Module', () => {
@@ -153,6 +160,23 @@ describe('Config Module', () => {
       expect(getTranslationBranchName('ar-SA')).toBe('translations/ar-SA');
     });
 
+    it('should get per-file branch names that are valid git refs', () => {
+      expect(getFileBranchName('es-ES', 'A01.md')).toBe('translation-files/es-ES/A01.md');
+      expect(getFileBranchName('es-ES', 'guide/Getting started?.md')).toBe(
+        'translation-files/es-ES/guide/Getting-started-.md'
+      );
+      expect(getFileBranchName('es-ES', '.github/notes..md')).toBe(
+        'translation-files/es-ES/_github/notes.md'
+      );
+      expect(getFileBranchName('es-ES', 'config.lock')).toBe('translation-files/es-ES/config-lock');
+    });
+
+    it('should default to one pull request per translator', () => {
+      const project = getProjectConfig('topten');
+      expect(getPullRequestMode(project)).toBe('bundled');
+      expect(getPullRequestMode({ ...project, pullRequests: 'per-file' })).toBe('per-file');
+    });
+
     it('should get source file path', () => {
       const path = getSourceFilePath(project, '01-broken-access-control.md');
       expect(path).toBe('/2_0_vulns/01-broken-access-control.md');
@@ -239,6 +263,31 @@ describe('Config Module', () => {
     it('should match files with no extension', () => {
       expect(matchesFilePattern(project, 'README')).toBe(false);
     });
+
+    it('should match files in subfolders', () => {
+      expect(matchesFilePattern(project, 'V1-Architecture/V1.1.md')).toBe(true);
+    });
+
+    it('should apply every wildcard in the pattern', () => {
+      const glob = { ...project, filePattern: '0?-*.en.md' };
+      expect(matchesFilePattern(glob, '01-intro.en.md')).toBe(true);
+      expect(matchesFilePattern(glob, '01-intro.es.md')).toBe(false);
+      expect(matchesFilePattern(glob, '001-intro.en.md')).toBe(false);
+    });
+
+    it('should apply include and exclude globs', () => {
+      const globs: ProjectConfig = {
+        ...project,
+        include: ['docs/**/*.md', 'index.md'],
+        exclude: ['README.md', 'docs/drafts/**'],
+      };
+
+      expect(matchesFilePattern(globs, 'index.md')).toBe(true);
+      expect(matchesFilePattern(globs, 'docs/a/b/c.md')).toBe(true);
+      expect(matchesFilePattern(globs, 'other.md')).toBe(false);
+      expect(matchesFilePattern(globs, 'docs/README.md')).toBe(false);
+      expect(matchesFilePattern(globs, 'docs/drafts/new.md')).toBe(false);
+    });
   });
 
   describe('priority file checking', () => {
@@ -298,6 +347,135 @@ describe('Config Module', () => {
     });
   });
 
+  describe('updateLanguageConfig', () => {
+    let configDir: string;
+
+    beforeEach(() => {
+      configDir = fs.mkdtempSync(path.join(os.tmpdir(), 'hivewrite-config-'));
+      fs.copyFileSync(
+        path.join(process.cwd(), 'config', 'projects', 'topten.json'),
+        path.join(configDir, 'topten.json')
+      );
+      process.env.HIVEWRITE_CONFIG_DIR = configDir;
+    });
+
+    afterEach(() => {
+      delete process.env.HIVEWRITE_CONFIG_DIR;
+      fs.rmSync(configDir, { recursive: true, force: true });
+    });
+
+    it('should add a language to the config file', () => {
+      updateLanguageConfig('topten', 'pt-BR', () => ({
+        name: 'Portuguese (Brazil)',
+        direction: 'ltr',
+        status: 'inactive',
+        initialized: null,
+        coordinator: 'octocat',
+      }));
+
+      const saved = JSON.parse(fs.readFileSync(path.join(configDir, 'topten.json'), 'utf-8'));
+      expect(saved.languages['pt-BR']).toEqual({
+        name: 'Portuguese (Brazil)',
+        direction: 'ltr',
+        status: 'inactive',
+        initialized: null,
+        coordinator: 'octocat',
+      });
+      expect(saved.languages['es-ES']).toBeDefined();
+      expect(getLanguageConfig('topten', 'pt-BR').language.coordinator).toBe('octocat');
+    });
+
+    it('should change an existing language', () => {
+      const language = updateLanguageConfig('topten', 'es-ES', (current) => ({
+        ...current!,
+        status: 'archived',
+      }));
+
+      expect(language.name).toBe('Spanish (Spain)');
+      expect(getProjectConfig('topten').languages['es-ES'].status).toBe('archived');
+      expect(fs.readdirSync(configDir)).toEqual(['topten.json']);
+    });
+  });
+
+  describe('registered projects', () => {
+    let dataDir: string;
+
+    const project = {
+      slug: 'wstg',
+      name: 'OWASP WSTG',
+      githubRepo: 'OWASP/wstg',
+      sourceBranch: 'master',
+      sourceFolder: '/document',
+      translationFolder: '/document/translations',
+      tmpFolder: '/document/translations/{language}/tmp',
+      filePattern: '*.md',
+      priorityFiles: [],
+      languages: {},
+    } as ProjectConfig;
+
+    beforeEach(() => {
+      dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'hivewrite-data-'));
+      process.env.HIVEWRITE_DATA_DIR = dataDir;
+    });
+
+    afterEach(() => {
+      delete process.env.HIVEWRITE_DATA_DIR;
+      fs.rmSync(dataDir, { recursive: true, force: true });
+    });
+
+    it('should list and load registered projects after the bundled ones', () => {
+      registerProject(project);
+
+      expect(fs.existsSync(path.join(dataDir, 'projects', 'wstg.json'))).toBe(true);
+      expect(getProjectSlugs().slice(-1)).toEqual(['wstg']);
+      expect(getProjectConfig('wstg')).toEqual(project);
+      expect(getAllProjectConfigs().map((config) => config.slug)).toContain('wstg');
+    });
+
+    it('should save languages of registered projects to the runtime store', () => {
+      registerProject(project);
+      updateLanguageConfig('wstg', 'es-ES', () => ({
+        name: 'Spanish (Spain)',
+        direction: 'ltr',
+        status: 'inactive',
+        initialized: null,
+      }));
+
+      const saved = JSON.parse(
+        fs.readFileSync(path.join(dataDir, 'projects', 'wstg.json'), 'utf-8')
+      );
+      expect(Object.keys(saved.languages)).toEqual(['es-ES']);
+    });
+
+    it('should reject existing, reserved and invalid slugs', () => {
+      expect(() => registerProject({ ...project, slug: 'topten' })).toThrow(
+        'Project already exists: topten'
+      );
+      expect(() => registerProject({ ...project, slug: 'admin' })).toThrow(
+        'Project slug is reserved: admin'
+      );
+      expect(() => registerProject({ ...project, slug: '../wstg' })).toThrow(
+        'Invalid project slug: ../wstg'
+      );
+      expect(() => getProjectConfig('../config/projects/topten')).toThrow(ConfigError);
+    });
+
+    it('should reject unknown pull request modes', () => {
+      expect(() =>
+        registerProject({ ...project, pullRequests: 'per-folder' } as unknown as ProjectConfig)
+      ).toThrow('Invalid pull request mode: per-folder');
+    });
+
+    it('should reject unknown quality checks and severities', () => {
+      expect(() =>
+        registerProject({ ...project, qualityChecks: { spelling: 'warning' } } as unknown as ProjectConfig)
+      ).toThrow('Invalid quality check: spelling');
+      expect(() =>
+        registerProject({ ...project, qualityChecks: { urls: 'error' } } as unknown as ProjectConfig)
+      ).toThrow('Invalid severity for quality check urls: error');
+    });
+  });
+
   describe('ConfigError', () => {
     it('should create ConfigError instance', () => {
       const error = new ConfigError('Test error');
@@ -0,0 +1,179 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  hashDraftContent,
+  saveDraftRevision,
+  loadDraftHistory,
+  getDraftRevision,
+  diffDraftRevisions,
+  restoreDraftRevision,
+  diffLines,
+} from '@/lib/drafts';
+import { getProjectConfig } from '@/lib/config';
+
+jest.mock('@/lib/github', () => ({
+  createGitHubClient: jest.fn(),
+}));
+
+describe('Drafts', () => {
+  let dataDir: string;
+  const project = getProjectConfig('topten');
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'hivewrite-drafts-'));
+    process.env.HIVEWRITE_DATA_DIR = dataDir;
+  });
+
+  afterEach(() => {
+    delete process.env.HIVEWRITE_DATA_DIR;
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  const save = (content: string, username = 'translator', filename = 'A01.md') =>
+    saveDraftRevision(project, 'es-ES', username, filename, content);
+
+  describe('hashDraftContent', () => {
+    it('should hash drafts with SHA-256', () => {
+      expect(hashDraftContent('')).toBe(
+        'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855'
+      );
+      expect(hashDraftContent('Título')).not.toBe(hashDraftContent('Titulo'));
+    });
+  });
+
+  describe('saveDraftRevision', () => {
+    it('should add a revision only when the content changes', async () => {
+      const first = await save('# Control de acceso');
+      const unchanged = await save('# Control de acceso');
+      const second = await save('# Control de acceso roto');
+
+      expect(first).toEqual({ revision: expect.objectContaining({ id: 1, source: 'autosave' }), created: true });
+      expect(unchanged).toEqual({ revision: expect.objectContaining({ id: 1 }), created: false });
+      expect(second.revision).toEqual(
+        expect.objectContaining({ id: 2, wordCount: 4, hash: hashDraftContent('# Control de acceso roto') })
+      );
+      expect(second.revision).not.toHaveProperty('content');
+    });
+
+    it('should keep drafts per user and file', async () => {
+      await save('Uno', 'translator');
+      await save('Dos', 'Other');
+      await save('Tres', 'translator', 'A02.md');
+
+      const history = await loadDraftHistory(project, 'es-ES', 'Translator', 'A01.md');
+      expect(history.revisions).toHaveLength(1);
+      expect(history.latest?.content).toBe('Uno');
+      expect((await loadDraftHistory(project, 'es-ES', 'other', 'A01.md')).latest?.content).toBe('Dos');
+      expect((await loadDraftHistory(project, 'ar-SA', 'translator', 'A01.md')).latest).toBeNull();
+    });
+
+    it('should store each draft in its own file', async () => {
+      await save('Uno', 'translator', 'A01.md');
+      await save('Dos', 'translator', 'V1/V1.1.md');
+
+      expect(fs.readdirSync(path.join(dataDir, 'drafts/topten/es-ES/translator')).sort()).toEqual([
+        'A01.md.json',
+        'V1%2FV1.1.md.json',
+      ]);
+    });
+  });
+
+  describe('loadDraftHistory', () => {
+    it('should list revisions newest first with the latest content', async () => {
+      await save('Uno');
+      await save('Dos');
+
+      const history = await loadDraftHistory(project, 'es-ES', 'translator', 'A01.md');
+
+      expect(history.revisions.map((revision) => revision.id)).toEqual([2, 1]);
+      expect(history.latest).toEqual(expect.objectContaining({ id: 2, content: 'Dos' }));
+    });
+  });
+
+  describe('diffDraftRevisions', () => {
+    it('should compare a revision with the one before it by default', async () => {
+      await save('Título\nUno\nFin');
+      await save('Título\nDos\nFin');
+      await save('Título\nTres\nFin');
+
+      const diff = await diffDraftRevisions(project, 'es-ES', 'translator', 'A01.md', 2);
+      expect(diff.compareTo).toBe(1);
+      expect(diff.changes).toEqual([
+        { type: 'unchanged', line: 'Título' },
+        { type: 'removed', line: 'Uno' },
+        { type: 'added', line: 'Dos' },
+        { type: 'unchanged', line: 'Fin' },
+      ]);
+
+      const compared = await diffDraftRevisions(project, 'es-ES', 'translator', 'A01.md', 3, 1);
+      expect(compared.compareTo).toBe(1);
+      expect(compared.changes.filter((change) => change.type === 'added')).toEqual([
+        { type: 'added', line: 'Tres' },
+      ]);
+    });
+
+    it('should show the first revision as added', async () => {
+      await save('Uno\nDos');
+
+      const diff = await diffDraftRevisions(project, 'es-ES', 'translator', 'A01.md', 1);
+      expect(diff.compareTo).toBeNull();
+      expect(diff.changes.every((change) => change.type === 'added')).toBe(true);
+    });
+
+    it('should report missing revisions', async () => {
+      await save('Uno');
+
+      await expect(diffDraftRevisions(project, 'es-ES', 'translator', 'A01.md', 5)).rejects.toThrow(
+        'Draft revision 5 not found'
+      );
+      await expect(
+        diffDraftRevisions(project, 'es-ES', 'translator', 'A01.md', 1, 9)
+      ).rejects.toThrow('Draft revision 9 not found');
+      await expect(getDraftRevision(project, 'es-ES', 'translator', 'A02.md', 1)).rejects.toThrow(
+        'not found'
+      );
+    });
+  });
+
+  describe('restoreDraftRevision', () => {
+    it('should add the restored content as a new revision', async () => {
+      await save('Uno');
+      await save('Dos');
+
+      const restored = await restoreDraftRevision(project, 'es-ES', 'translator', 'A01.md', 1);
+
+      expect(restored).toEqual(
+        expect.objectContaining({ id: 3, source: 'restore', restoredFrom: 1, content: 'Uno' })
+      );
+      const history = await loadDraftHistory(project, 'es-ES', 'translator', 'A01.md');
+      expect(history.revisions.map((revision) => revision.id)).toEqual([3, 2, 1]);
+    });
+  });
+
+  describe('diffLines', () => {
+    it('should keep shared lines and mark the changed ones', () => {
+      expect(diffLines('a\nb\nc\nd', 'a\nc\nd\ne')).toEqual([
+        { type: 'unchanged', line: 'a' },
+        { type: 'removed', line: 'b' },
+        { type: 'unchanged', line: 'c' },
+        { type: 'unchanged', line: 'd' },
+        { type: 'added', line: 'e' },
+      ]);
+      expect(diffLines('same', 'same')).toEqual([{ type: 'unchanged', line: 'same' }]);
+      expect(diffLines('gone', '')).toEqual([{ type: 'removed', line: 'gone' }]);
+    });
+
+    it('should show large rewrites as removed and added whole', () => {
+      const base = Array.from({ length: 2000 }, (_, i) => `old ${i}`);
+      const head = Array.from({ length: 2000 }, (_, i) => `new ${i}`);
+
+      const changes = diffLines(['# Title', ...base].join('\n'), ['# Title', ...head].join('\n'));
+
+      expect(changes).toHaveLength(4001);
+      expect(changes[0]).toEqual({ type: 'unchanged', line: '# Title' });
+      expect(changes[1]).toEqual({ type: 'removed', line: 'old 0' });
+      expect(changes[2001]).toEqual({ type: 'added', line: 'new 0' });
+    });
+  });
+});
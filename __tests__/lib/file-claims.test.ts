@@ -0,0 +1,139 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  claimFile,
+  releaseClaim,
+  getFileClaims,
+  getFileClaim,
+  assertNotClaimedByOther,
+  recordPresence,
+  removePresence,
+  FileClaimError,
+  CLAIM_DURATION_HOURS,
+  PRESENCE_TIMEOUT_SECONDS,
+} from '@/lib/file-claims';
+import { getProjectConfig } from '@/lib/config';
+
+describe('File claims', () => {
+  let dataDir: string;
+  const project = getProjectConfig('topten');
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'hivewrite-claims-'));
+    process.env.HIVEWRITE_DATA_DIR = dataDir;
+    jest.useFakeTimers({ now: new Date('2025-01-01T10:00:00.000Z'), doNotFake: ['setImmediate', 'nextTick'] });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    delete process.env.HIVEWRITE_DATA_DIR;
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  describe('claimFile', () => {
+    it('should claim a file for a few days and renew the claimant\'s claim', async () => {
+      const claim = await claimFile(project, 'es-ES', 'A01.md', 'translator');
+
+      expect(claim).toEqual({
+        username: 'translator',
+        claimedAt: '2025-01-01T10:00:00.000Z',
+        expiresAt: new Date(Date.now() + CLAIM_DURATION_HOURS * 3600 * 1000).toISOString(),
+      });
+
+      jest.setSystemTime(new Date('2025-01-02T10:00:00.000Z'));
+      const renewed = await claimFile(project, 'es-ES', 'A01.md', 'Translator');
+      expect(renewed.claimedAt).toBe('2025-01-01T10:00:00.000Z');
+      expect(renewed.expiresAt > claim.expiresAt).toBe(true);
+    });
+
+    it('should not let others claim a claimed file', async () => {
+      await claimFile(project, 'es-ES', 'A01.md', 'translator');
+
+      await expect(claimFile(project, 'es-ES', 'A01.md', 'other')).rejects.toThrow(FileClaimError);
+      await expect(claimFile(project, 'es-ES', 'A01.md', 'other')).rejects.toThrow(
+        'A01.md is claimed by @translator'
+      );
+      expect(await claimFile(project, 'ar-SA', 'A01.md', 'other')).toEqual(
+        expect.objectContaining({ username: 'other' })
+      );
+    });
+
+    it('should let others claim a file once the claim expires', async () => {
+      await claimFile(project, 'es-ES', 'A01.md', 'translator', 1);
+
+      jest.setSystemTime(new Date('2025-01-01T11:00:01.000Z'));
+
+      expect(await getFileClaim(project, 'es-ES', 'A01.md')).toBeNull();
+      expect((await claimFile(project, 'es-ES', 'A01.md', 'other')).username).toBe('other');
+    });
+  });
+
+  describe('releaseClaim', () => {
+    it('should let the claimant release their claim', async () => {
+      await claimFile(project, 'es-ES', 'A01.md', 'translator');
+      await claimFile(project, 'es-ES', 'A02.md', 'translator');
+
+      await releaseClaim(project, 'es-ES', 'A01.md', 'translator');
+
+      expect(Object.keys(await getFileClaims(project, 'es-ES'))).toEqual(['A02.md']);
+    });
+
+    it('should only let coordinators release others\' claims', async () => {
+      await claimFile(project, 'es-ES', 'A01.md', 'translator');
+
+      await expect(releaseClaim(project, 'es-ES', 'A01.md', 'other')).rejects.toThrow(
+        'Unauthorized: A01.md is claimed by @translator'
+      );
+      await releaseClaim(project, 'es-ES', 'A01.md', 'coordinator', true);
+
+      expect(await getFileClaim(project, 'es-ES', 'A01.md')).toBeNull();
+      await expect(releaseClaim(project, 'es-ES', 'A01.md', 'translator')).rejects.toThrow(
+        'Claim on A01.md not found'
+      );
+    });
+  });
+
+  describe('assertNotClaimedByOther', () => {
+    it('should allow free files and the claimant\'s own', async () => {
+      await claimFile(project, 'es-ES', 'A01.md', 'translator');
+
+      await expect(assertNotClaimedByOther(project, 'es-ES', 'A02.md', 'other')).resolves.toBeUndefined();
+      await expect(assertNotClaimedByOther(project, 'es-ES', 'A01.md', 'translator')).resolves.toBeUndefined();
+      await expect(assertNotClaimedByOther(project, 'es-ES', 'A01.md', 'other')).rejects.toThrow(
+        FileClaimError
+      );
+    });
+  });
+
+  describe('presence', () => {
+    it('should report the claim and the other editors of a file', async () => {
+      await claimFile(project, 'es-ES', 'A01.md', 'translator');
+      await recordPresence(project, 'es-ES', 'A01.md', 'translator');
+
+      const presence = await recordPresence(project, 'es-ES', 'A01.md', 'other');
+
+      expect(presence.claim?.username).toBe('translator');
+      expect(presence.editors).toEqual([
+        { username: 'translator', lastSeen: '2025-01-01T10:00:00.000Z' },
+      ]);
+      expect((await recordPresence(project, 'es-ES', 'A02.md', 'other')).editors).toEqual([]);
+    });
+
+    it('should forget editors who left or stopped sending heartbeats', async () => {
+      await recordPresence(project, 'es-ES', 'A01.md', 'first');
+      await recordPresence(project, 'es-ES', 'A01.md', 'second');
+      await removePresence(project, 'es-ES', 'A01.md', 'first');
+
+      jest.setSystemTime(Date.now() + 60 * 1000);
+      expect((await recordPresence(project, 'es-ES', 'A01.md', 'me')).editors.map((e) => e.username)).toEqual([
+        'second',
+      ]);
+
+      jest.setSystemTime(Date.now() + (PRESENCE_TIMEOUT_SECONDS - 60) * 1000);
+      expect((await recordPresence(project, 'es-ES', 'A01.md', 'third')).editors.map((e) => e.username)).toEqual([
+        'me',
+      ]);
+    });
+  });
+});
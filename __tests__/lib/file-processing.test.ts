@@ -0,0 +1,530 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  getSourceFiles,
+  harvestTranslationMemory,
+  initializeLanguage,
+  planLanguageInitialization,
+  InitializationCancelledError,
+} from '@/lib/file-processing';
+import { getTranslationService } from '@/lib/translation';
+import { loadTranslationMemory } from '@/lib/translation-memory';
+import type { GitHubClient, CommitFileChange } from '@/lib/github';
+import type { ProjectConfig } from '@/types';
+
+type CommitFiles = CommitFileChange[] | ((parentSha: string) => Promise<CommitFileChange[]>);
+
+// Files of a commitFiles call, built on the branch head as the client does
+const getCommittedFiles = async (files: CommitFiles): Promise<CommitFileChange[]> =>
+  typeof files === 'function' ? files('branch-head') : files;
+
+const mockCommitFiles = (result: object) =>
+  jest.fn(async (_owner: string, _repo: string, _branch: string, files: CommitFiles) => {
+    await getCommittedFiles(files);
+    return result;
+  });
+
+jest.mock('@/lib/translation', () => ({
+  getTranslationService: jest.fn(),
+}));
+
+const project = {
+  slug: 'topten',
+  name: 'OWASP Top 10',
+  githubRepo: 'OWASP/Top10',
+  sourceBranch: 'master',
+  sourceFolder: '/docs',
+  translationFolder: '/docs/translations',
+  tmpFolder: '/docs/translations/{language}/tmp',
+  filePattern: '*.md',
+  priorityFiles: ['index.md'],
+  languages: {},
+} as unknown as ProjectConfig;
+
+function blob(path: string) {
+  return { type: 'blob', path, sha: `sha-${path}` };
+}
+
+describe('File Processing', () => {
+  let mockGitHubClient: Record<string, jest.Mock>;
+  const client = () => mockGitHubClient as unknown as GitHubClient;
+
+  beforeEach(() => {
+    mockGitHubClient = {
+      getTree: jest.fn(),
+    };
+  });
+
+  describe('getSourceFiles', () => {
+    it('should list Markdown files in nested folders by relative path', async () => {
+      mockGitHubClient.getTree.mockResolvedValue({
+        data: {
+          sha: 'root',
+          truncated: false,
+          tree: [
+            blob('README.md'),
+            { type: 'tree', path: 'docs', sha: 'docs' },
+            blob('docs/index.md'),
+            blob('docs/A01.md'),
+            blob('docs/assets/logo.png'),
+            blob('docs/V1/V1.1.md'),
+            blob('docs/translations/es-ES/A01.md'),
+            blob('docs/translations/es-ES/tmp/A01.md'),
+          ],
+        },
+      });
+
+      const files = await getSourceFiles(client(), 'OWASP', 'Top10', project, 'master');
+
+      expect(mockGitHubClient.getTree).toHaveBeenCalledWith('OWASP', 'Top10', 'master', true);
+      expect(files).toEqual([
+        { name: 'index.md', path: 'docs/index.md' },
+        { name: 'A01.md', path: 'docs/A01.md' },
+        { name: 'V1/V1.1.md', path: 'docs/V1/V1.1.md' },
+      ]);
+    });
+
+    it('should skip language folders when translations sit next to the source', async () => {
+      const asvs = {
+        ...project,
+        sourceFolder: '/4.0/en',
+        translationFolder: '/4.0',
+        priorityFiles: [],
+      } as ProjectConfig;
+
+      mockGitHubClient.getTree.mockResolvedValue({
+        data: {
+          sha: 'root',
+          truncated: false,
+          tree: [blob('4.0/en/0x01-Frontispiece.md'), blob('4.0/es-ES/0x01-Frontispiece.md')],
+        },
+      });
+
+      const files = await getSourceFiles(client(), 'OWASP', 'ASVS', asvs, 'master');
+      expect(files.map((file) => file.name)).toEqual(['0x01-Frontispiece.md']);
+    });
+
+    it('should walk the tree level by level when the recursive listing is truncated', async () => {
+      mockGitHubClient.getTree.mockImplementation(
+        async (_owner: string, _repo: string, sha: string, recursive?: boolean) => {
+          const trees: Record<string, unknown[]> = {
+            root: [
+              blob('README.md'),
+              { type: 'tree', path: 'docs', sha: 'docs' },
+              { type: 'tree', path: 'website', sha: 'website' },
+            ],
+            docs: [blob('A01.md'), { type: 'tree', path: 'V1', sha: 'v1' }],
+            v1: [blob('V1.1.md')],
+          };
+
+          if (recursive) {
+            return { data: { sha: 'root', truncated: true, tree: [] } };
+          }
+          return { data: { sha, truncated: false, tree: trees[sha] } };
+        }
+      );
+
+      const files = await getSourceFiles(client(), 'OWASP', 'Top10', project, 'master');
+
+      expect(files.map((file) => file.path)).toEqual(['docs/A01.md', 'docs/V1/V1.1.md']);
+      expect(mockGitHubClient.getTree).not.toHaveBeenCalledWith('OWASP', 'Top10', 'website');
+    });
+  });
+
+  describe('initializeLanguage', () => {
+    const encode = (content: string) => ({
+      data: { type: 'file', sha: 'blob', content: Buffer.from(content).toString('base64') },
+    });
+
+    beforeEach(() => {
+      process.env.HIVEWRITE_DATA_DIR = '/nonexistent/hivewrite-data';
+
+      (getTranslationService as jest.Mock).mockReturnValue({
+        providerId: 'deepl',
+        providerName: 'DeepL',
+        isAvailable: () => true,
+        translateMarkdown: jest.fn(async (content: string) => `[es] ${content}`),
+      });
+
+      mockGitHubClient = {
+        getCommit: jest.fn().mockResolvedValue({ data: { sha: 'head' } }),
+        createBranch: jest.fn().mockRejectedValue({ status: 422 }),
+        getTree: jest.fn().mockResolvedValue({
+          data: {
+            sha: 'root',
+            truncated: false,
+            tree: [blob('docs/A01.md'), blob('docs/A02.md')],
+          },
+        }),
+        getFileContent: jest.fn(async (_owner: string, _repo: string, filepath: string) => {
+          if (filepath.startsWith('docs/')) {
+            return encode('Source text here.');
+          }
+          throw { status: 404 };
+        }),
+        createBlob: jest.fn(async (_owner: string, _repo: string, content: string) => ({
+          data: { sha: `blob:${content}` },
+        })),
+        commitFiles: mockCommitFiles({ sha: 'commit' }),
+      };
+    });
+
+    afterEach(() => {
+      delete process.env.HIVEWRITE_DATA_DIR;
+    });
+
+    const options = {
+      project,
+      languageCode: 'es-ES',
+      languageName: 'Spanish',
+      direction: 'ltr' as const,
+      coordinator: 'admin',
+    };
+
+    it('should commit all translations and metadata at once', async () => {
+      const result = await initializeLanguage(client(), options);
+
+      expect(result).toMatchObject({ success: true, filesProcessed: 2 });
+      expect(mockGitHubClient.commitFiles).toHaveBeenCalledTimes(1);
+
+      const [owner, repo, branch, committed, message] = mockGitHubClient.commitFiles.mock.calls[0];
+      const written = await getCommittedFiles(committed);
+      expect([owner, repo, branch]).toEqual(['OWASP', 'Top10', 'translations/es-ES']);
+      expect(message).toBe('[es-ES] Initialize translation of 2 files');
+      expect(written.slice(0, 4)).toEqual([
+        { path: '/docs/translations/es-ES/A01.md', sha: 'blob:[es] Source text here.' },
+        { path: '/docs/translations/es-ES/tmp/A01.md', sha: 'blob:[es] Source text here.' },
+        { path: '/docs/translations/es-ES/A02.md', sha: 'blob:[es] Source text here.' },
+        { path: '/docs/translations/es-ES/tmp/A02.md', sha: 'blob:[es] Source text here.' },
+      ]);
+      expect(written[4].path).toBe('/docs/translations/es-ES/translation.json');
+    });
+
+    it('should reuse translations uploaded by an interrupted run', async () => {
+      const progress: string[] = [];
+      const result = await initializeLanguage(client(), {
+        ...options,
+        translatedFiles: { 'A01.md': 'blob-from-last-run' },
+        onProgress: ({ filename, status }) => progress.push(`${filename}:${status}`),
+      });
+
+      expect(result.filesProcessed).toBe(2);
+      expect(progress).toEqual(['A02.md:pending', 'A02.md:translating', 'A02.md:complete']);
+      expect(mockGitHubClient.createBlob).toHaveBeenCalledTimes(1);
+
+      const written = await getCommittedFiles(mockGitHubClient.commitFiles.mock.calls[0][3]);
+      expect(written).toContainEqual({
+        path: '/docs/translations/es-ES/A01.md',
+        sha: 'blob-from-last-run',
+      });
+
+      // Reused files are still part of the metadata
+      const metadata = JSON.parse(written[written.length - 1].content as string);
+      expect(Object.keys(metadata.files)).toEqual(['A01.md', 'A02.md']);
+    });
+
+    it('should leave failed files out of the metadata so the next run retries them', async () => {
+      const translateMarkdown = jest.fn(async (content: string) => `[es] ${content}`);
+      (getTranslationService as jest.Mock).mockReturnValue({
+        providerId: 'deepl',
+        providerName: 'DeepL',
+        isAvailable: () => true,
+        translateMarkdown,
+      });
+      translateMarkdown
+        .mockResolvedValueOnce('[es] Source text here.')
+        .mockRejectedValueOnce(new Error('Quota exceeded'));
+
+      const first = await initializeLanguage(client(), options);
+
+      expect(first).toMatchObject({
+        success: false,
+        filesProcessed: 1,
+        errors: ['Failed to process A02.md: Quota exceeded'],
+      });
+      const written = await getCommittedFiles(mockGitHubClient.commitFiles.mock.calls[0][3]);
+      const saved = written[written.length - 1].content as string;
+      expect(Object.keys(JSON.parse(saved).files)).toEqual(['A01.md']);
+
+      // The next run in the default mode finds the metadata written above
+      const readSource = mockGitHubClient.getFileContent.getMockImplementation();
+      mockGitHubClient.getFileContent.mockImplementation(
+        async (owner: string, repo: string, filepath: string, ref?: string) =>
+          filepath === '/docs/translations/es-ES/translation.json'
+            ? encode(saved)
+            : readSource?.(owner, repo, filepath, ref)
+      );
+
+      const second = await initializeLanguage(client(), options);
+
+      expect(second).toMatchObject({ success: true, filesProcessed: 1 });
+      const retried = await getCommittedFiles(mockGitHubClient.commitFiles.mock.calls[1][3]);
+      expect(retried.map((file) => file.path)).toEqual([
+        '/docs/translations/es-ES/A02.md',
+        '/docs/translations/es-ES/tmp/A02.md',
+        '/docs/translations/es-ES/translation.json',
+      ]);
+      expect(Object.keys(JSON.parse(retried[2].content as string).files)).toEqual([
+        'A01.md',
+        'A02.md',
+      ]);
+    });
+
+    it('should stop before the next file when cancelled', async () => {
+      const controller = new AbortController();
+
+      await expect(
+        initializeLanguage(client(), {
+          ...options,
+          signal: controller.signal,
+          onProgress: ({ status }) => {
+            if (status === 'complete') {
+              controller.abort();
+            }
+          },
+        })
+      ).rejects.toBeInstanceOf(InitializationCancelledError);
+
+      expect(mockGitHubClient.createBlob).toHaveBeenCalledTimes(1);
+      expect(mockGitHubClient.commitFiles).not.toHaveBeenCalled();
+    });
+
+    it('should read source files at the pinned commit', async () => {
+      mockGitHubClient.getCommit.mockResolvedValue({ data: { sha: 'pinned' } });
+
+      await initializeLanguage(client(), { ...options, sourceCommit: 'v2.0' });
+
+      expect(mockGitHubClient.getCommit).toHaveBeenCalledWith('OWASP', 'Top10', 'v2.0');
+      expect(mockGitHubClient.getTree).toHaveBeenCalledWith('OWASP', 'Top10', 'pinned', true);
+      expect(mockGitHubClient.createBranch).toHaveBeenCalledWith(
+        'OWASP',
+        'Top10',
+        'translations/es-ES',
+        'pinned'
+      );
+
+      const sourceReads = mockGitHubClient.getFileContent.mock.calls.filter(([, , filepath]) =>
+        filepath.startsWith('docs/A')
+      );
+      expect(sourceReads.length).toBeGreaterThan(0);
+      expect(sourceReads.every(([, , , ref]) => ref === 'pinned')).toBe(true);
+    });
+
+    describe('re-initialization', () => {
+      const existing = {
+        version: '1.0',
+        language: 'es-ES',
+        files: {
+          'A01.md': {
+            status: 'in-progress',
+            lastUpdated: null,
+            lastContributor: 'translator',
+            lastCommitSha: null,
+            prNumber: null,
+            prUrl: null,
+            wordCount: 3,
+            machineTranslated: true,
+            humanReviewed: false,
+          },
+        },
+        stats: {},
+        meta: { sourceCommitSha: 'old' },
+      };
+
+      beforeEach(() => {
+        mockGitHubClient.getTree.mockResolvedValue({
+          data: {
+            sha: 'root',
+            truncated: false,
+            tree: [blob('docs/A01.md'), blob('docs/A02.md'), blob('docs/A03.md')],
+          },
+        });
+        mockGitHubClient.getFileContent.mockImplementation(
+          async (_owner: string, _repo: string, filepath: string) => {
+            if (filepath === '/docs/translations/es-ES/translation.json') {
+              return encode(JSON.stringify(existing));
+            }
+            if (filepath.startsWith('docs/A')) {
+              return encode('Source text here.');
+            }
+            throw { status: 404 };
+          }
+        );
+      });
+
+      it('should plan which files each mode writes', async () => {
+        const missing = await planLanguageInitialization(client(), project, 'es-ES');
+        expect(missing.sourceCommitSha).toBe('head');
+        expect(missing.files.map(({ filename, action }) => [filename, action])).toEqual([
+          ['A01.md', 'skip'],
+          ['A02.md', 'create'],
+          ['A03.md', 'create'],
+        ]);
+
+        const refresh = await planLanguageInitialization(client(), project, 'es-ES', {
+          mode: 'refresh',
+        });
+        expect(refresh.files[0]).toMatchObject({
+          action: 'overwrite',
+          paths: ['/docs/translations/es-ES/tmp/A01.md'],
+        });
+
+        const force = await planLanguageInitialization(client(), project, 'es-ES', {
+          mode: 'force',
+        });
+        expect(force.files[0]).toMatchObject({
+          action: 'overwrite',
+          paths: ['/docs/translations/es-ES/A01.md', '/docs/translations/es-ES/tmp/A01.md'],
+        });
+
+        expect(mockGitHubClient.createBlob).not.toHaveBeenCalled();
+        expect(mockGitHubClient.commitFiles).not.toHaveBeenCalled();
+      });
+
+      it('should only translate missing files and keep existing progress', async () => {
+        const result = await initializeLanguage(client(), options);
+
+        expect(result.filesProcessed).toBe(2);
+        const [, , , committed, message] = mockGitHubClient.commitFiles.mock.calls[0];
+        const written = await getCommittedFiles(committed);
+        expect(message).toBe('[es-ES] Translate 2 new files');
+        expect(written.map((file: { path: string }) => file.path)).not.toContain(
+          '/docs/translations/es-ES/A01.md'
+        );
+
+        const metadata = JSON.parse(written[written.length - 1].content as string);
+        expect(metadata.files['A01.md']).toMatchObject({
+          status: 'in-progress',
+          lastContributor: 'translator',
+        });
+        expect(metadata.files['A02.md']).toMatchObject({
+          status: 'not-started',
+          sourceCommitSha: 'head',
+        });
+        expect(metadata.stats).toMatchObject({ totalFiles: 3, inProgress: 1, notStarted: 2 });
+      });
+
+      it('should refresh machine drafts without touching working translations', async () => {
+        await initializeLanguage(client(), { ...options, mode: 'refresh' });
+
+        const written = await getCommittedFiles(mockGitHubClient.commitFiles.mock.calls[0][3]);
+        const paths = written.map((file: { path: string }) => file.path);
+        expect(paths).toContain('/docs/translations/es-ES/tmp/A01.md');
+        expect(paths).not.toContain('/docs/translations/es-ES/A01.md');
+
+        const metadata = JSON.parse(written[written.length - 1].content as string);
+        expect(metadata.files['A01.md'].status).toBe('in-progress');
+      });
+
+      it('should overwrite everything and reset metadata when forced', async () => {
+        await initializeLanguage(client(), { ...options, mode: 'force' });
+
+        const [, , , committed, message] = mockGitHubClient.commitFiles.mock.calls[0];
+        const written = await getCommittedFiles(committed);
+        expect(message).toBe('[es-ES] Re-initialize translation of 3 files');
+        expect(written.map((file: { path: string }) => file.path)).toContain(
+          '/docs/translations/es-ES/A01.md'
+        );
+
+        const metadata = JSON.parse(written[written.length - 1].content as string);
+        expect(metadata.files['A01.md']).toMatchObject({
+          status: 'not-started',
+          lastContributor: null,
+        });
+        expect(metadata.meta.sourceCommitSha).toBe('head');
+      });
+
+      it('should not commit when every file is skipped', async () => {
+        mockGitHubClient.getTree.mockResolvedValue({
+          data: { sha: 'root', truncated: false, tree: [blob('docs/A01.md')] },
+        });
+
+        const result = await initializeLanguage(client(), options);
+
+        expect(result).toMatchObject({ success: true, filesProcessed: 0 });
+        expect(mockGitHubClient.commitFiles).not.toHaveBeenCalled();
+      });
+    });
+  });
+
+  describe('harvestTranslationMemory', () => {
+    let dataDir: string;
+
+    const encode = (content: string) => ({
+      data: { type: 'file', sha: 'blob', content: Buffer.from(content).toString('base64') },
+    });
+
+    beforeEach(() => {
+      dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'hivewrite-harvest-'));
+      process.env.HIVEWRITE_DATA_DIR = dataDir;
+    });
+
+    afterEach(() => {
+      delete process.env.HIVEWRITE_DATA_DIR;
+      fs.rmSync(dataDir, { recursive: true, force: true });
+    });
+
+    it('should only remember approved or merged translations that are up to date', async () => {
+      const file = (filename: string, reviewState: string) => ({
+        status: 'complete',
+        lastUpdated: '2025-01-01T00:00:00.000Z',
+        lastContributor: 'translator',
+        lastCommitSha: `fork-${filename}`,
+        prNumber: 12,
+        prUrl: null,
+        wordCount: 3,
+        machineTranslated: true,
+        humanReviewed: reviewState !== 'submitted',
+        reviewState,
+      });
+      const metadata = {
+        files: {
+          'A01.md': file('A01.md', 'approved'),
+          'A02.md': file('A02.md', 'submitted'),
+          'A03.md': { ...file('A03.md', 'merged'), sourceCommitSha: 'source-v2' },
+          'A04.md': { ...file('A04.md', 'approved'), outdated: true },
+        },
+        meta: { sourceCommitSha: 'source-v1' },
+      };
+      const translations: Record<string, string> = {
+        'A01.md': 'Primer texto.',
+        'A02.md': 'Segundo texto.',
+        'A03.md': 'Tercer texto.',
+        'A04.md': 'Cuarto texto.',
+      };
+
+      mockGitHubClient = {
+        getFileContent: jest.fn(async (_owner: string, _repo: string, filepath: string) => {
+          if (filepath === '/docs/translations/es-ES/translation.json') {
+            return encode(JSON.stringify(metadata));
+          }
+          const filename = path.basename(filepath);
+          return encode(
+            filepath.startsWith('/docs/translations/')
+              ? translations[filename]
+              : `${filename.replace('.md', '')} text.`
+          );
+        }),
+      };
+
+      const result = await harvestTranslationMemory(client(), project, 'es-ES');
+
+      expect(result).toEqual({ filesHarvested: 2, segmentsStored: 2, skipped: ['A04.md'] });
+      const memory = await loadTranslationMemory('es-ES');
+      expect(Object.values(memory.entries).map((entry) => entry.target).sort()).toEqual([
+        'Primer texto.',
+        'Tercer texto.',
+      ]);
+      expect(mockGitHubClient.getFileContent).toHaveBeenCalledWith(
+        'translator',
+        'Top10',
+        '/docs/translations/es-ES/A01.md',
+        'fork-A01.md'
+      );
+      // Paired with the English each translation was made from
+      expect(mockGitHubClient.getFileContent).toHaveBeenCalledWith('OWASP', 'Top10', '/docs/A01.md', 'source-v1');
+      expect(mockGitHubClient.getFileContent).toHaveBeenCalledWith('OWASP', 'Top10', '/docs/A03.md', 'source-v2');
+    });
+  });
+});
@@ -5,6 +5,7 @@ import {
   getForkStatus,
   createPullRequest,
   getExistingPR,
+  ensureFileBranch,
 } from '@/lib/fork-management';
 import { createGitHubClient } from '@/lib/github';
 import type { SyncStatus } from '@/types';
@@ -431,6 +432,89 @@ describe('Fork Management', () => {
         )
       ).rejects.toThrow('Failed to create pull request');
     });
+
+    it('should open per-file pull requests into the translation branch', async () => {
+      mockGitHubClient.createPullRequest.mockResolvedValue({
+        data: { number: 124, html_url: 'https://github.com/OWASP/Top10/pull/124' },
+      });
+
+      await createPullRequest(
+        mockGitHubClient,
+        'user',
+        'OWASP',
+        'Top10',
+        'translation-files/es-ES/A01.md',
+        'Title',
+        'Body',
+        'translations/es-ES'
+      );
+
+      expect(mockGitHubClient.createPullRequest).toHaveBeenCalledWith(
+        'OWASP',
+        'Top10',
+        'Title',
+        'user:translation-files/es-ES/A01.md',
+        'translations/es-ES',
+        'Body'
+      );
+    });
+  });
+
+  describe('ensureFileBranch', () => {
+    const ensure = (hasOpenPR: boolean) =>
+      ensureFileBranch(
+        mockGitHubClient,
+        'user',
+        'OWASP',
+        'Top10',
+        'es-ES',
+        'translation-files/es-ES/A01.md',
+        hasOpenPR
+      );
+
+    beforeEach(() => {
+      mockGitHubClient.updateRef = jest.fn();
+      mockGitHubClient.getBranch.mockImplementation(async (owner: string) => {
+        if (owner === 'OWASP') {
+          return { data: { commit: { sha: 'upstream-sha' } } };
+        }
+        throw { status: 404 };
+      });
+    });
+
+    it('should branch off the upstream translation branch', async () => {
+      await ensure(false);
+
+      expect(mockGitHubClient.getBranch).toHaveBeenCalledWith('OWASP', 'Top10', 'translations/es-ES');
+      expect(mockGitHubClient.createBranch).toHaveBeenCalledWith(
+        'user',
+        'Top10',
+        'translation-files/es-ES/A01.md',
+        'upstream-sha'
+      );
+    });
+
+    it('should reset a branch left over from an earlier pull request', async () => {
+      mockGitHubClient.getBranch.mockResolvedValue({ data: { commit: { sha: 'upstream-sha' } } });
+
+      await ensure(false);
+
+      expect(mockGitHubClient.createBranch).not.toHaveBeenCalled();
+      expect(mockGitHubClient.updateRef).toHaveBeenCalledWith(
+        'user',
+        'Top10',
+        'translation-files/es-ES/A01.md',
+        'upstream-sha',
+        true
+      );
+    });
+
+    it('should keep the branch of an open pull request', async () => {
+      await ensure(true);
+
+      expect(mockGitHubClient.getBranch).not.toHaveBeenCalled();
+      expect(mockGitHubClient.createBranch).not.toHaveBeenCalled();
+    });
   });
 
   describe('getExistingPR', () => {
@@ -461,6 +545,10 @@ describe('Fork Management', () => {
       expect(result).toBeDefined();
       expect(result?.number).toBe(100);
       expect(result?.url).toBe('https://github.com/OWASP/Top10/pull/100');
+      expect(mockGitHubClient.listPullRequests).toHaveBeenCalledWith('OWASP', 'Top10', 'open', {
+        head: 'user:translations/es-ES',
+        base: 'translations/es-ES',
+      });
     });
 
     it('should return null when no PR exists', async () => {
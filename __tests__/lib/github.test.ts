@@ -18,11 +18,23 @@ jest.mock('@octokit/rest', () => {
       },
       git: {
         createRef: jest.fn(),
+        getTree: jest.fn(),
+        getRef: jest.fn(),
+        updateRef: jest.fn(),
+        getCommit: jest.fn(),
+        createCommit: jest.fn(),
+        createBlob: jest.fn(),
+        createTree: jest.fn(),
       },
       pulls: {
         create: jest.fn(),
         list: jest.fn(),
+        listReviewComments: jest.fn(),
+        createReviewComment: jest.fn(),
+        listReviews: jest.fn(),
       },
+      paginate: jest.fn(),
+      graphql: jest.fn(),
       users: {
         getAuthenticated: jest.fn(),
         getByUsername: jest.fn(),
@@ -335,6 +347,120 @@ describe('GitHubClient', () => {
       const result = await client.getDirectoryContents('owner', 'repo', 'docs');
       expect(result.data).toEqual(mockContents);
     });
+
+    it('should get a tree recursively', async () => {
+      const mockTree = {
+        sha: 'tree-sha',
+        truncated: false,
+        tree: [{ type: 'blob', path: 'docs/nested/file.md', sha: 'blob-sha' }],
+      };
+      mockOctokit.git.getTree.mockResolvedValue({ data: mockTree });
+
+      const result = await client.getTree('owner', 'repo', 'main', true);
+
+      expect(mockOctokit.git.getTree).toHaveBeenCalledWith({
+        owner: 'owner',
+        repo: 'repo',
+        tree_sha: 'main',
+        recursive: 'true',
+      });
+      expect(result.data).toEqual(mockTree);
+    });
+  });
+
+  describe('commitFiles', () => {
+    beforeEach(() => {
+      mockOctokit.git.getRef.mockResolvedValue({ data: { object: { sha: 'head-1' } } });
+      mockOctokit.git.getCommit.mockResolvedValue({ data: { tree: { sha: 'tree-1' } } });
+      mockOctokit.git.createBlob.mockResolvedValue({ data: { sha: 'blob-new' } });
+      mockOctokit.git.createTree.mockResolvedValue({ data: { sha: 'tree-2' } });
+      mockOctokit.git.createCommit.mockResolvedValue({ data: { sha: 'commit-2' } });
+      mockOctokit.git.updateRef.mockResolvedValue({ data: {} });
+    });
+
+    it('should write all files in one commit on top of the branch head', async () => {
+      const result = await client.commitFiles(
+        'owner',
+        'repo',
+        'translations/es-ES',
+        [
+          { path: '/docs/es-ES/A01.md', content: 'Hola' },
+          { path: 'docs/es-ES/tmp/A01.md', sha: 'blob-existing' },
+        ],
+        'Initialize translation'
+      );
+
+      expect(result).toEqual({ sha: 'commit-2' });
+      expect(mockOctokit.git.createBlob).toHaveBeenCalledTimes(1);
+      expect(mockOctokit.git.createBlob).toHaveBeenCalledWith({
+        owner: 'owner',
+        repo: 'repo',
+        content: Buffer.from('Hola').toString('base64'),
+        encoding: 'base64',
+      });
+      expect(mockOctokit.git.createTree).toHaveBeenCalledWith({
+        owner: 'owner',
+        repo: 'repo',
+        base_tree: 'tree-1',
+        tree: [
+          { path: 'docs/es-ES/A01.md', mode: '100644', type: 'blob', sha: 'blob-new' },
+          { path: 'docs/es-ES/tmp/A01.md', mode: '100644', type: 'blob', sha: 'blob-existing' },
+        ],
+      });
+      expect(mockOctokit.git.createCommit).toHaveBeenCalledWith({
+        owner: 'owner',
+        repo: 'repo',
+        message: 'Initialize translation',
+        tree: 'tree-2',
+        parents: ['head-1'],
+      });
+      expect(mockOctokit.git.updateRef).toHaveBeenCalledWith({
+        owner: 'owner',
+        repo: 'repo',
+        ref: 'heads/translations/es-ES',
+        sha: 'commit-2',
+        force: false,
+      });
+    });
+
+    it('should rebuild the files for the new head when the branch moved', async () => {
+      mockOctokit.git.getRef
+        .mockResolvedValueOnce({ data: { object: { sha: 'head-1' } } })
+        .mockResolvedValueOnce({ data: { object: { sha: 'head-2' } } });
+      mockOctokit.git.updateRef
+        .mockRejectedValueOnce({ status: 422, response: { data: {} } })
+        .mockResolvedValueOnce({ data: {} });
+      const files = jest.fn(async (parentSha: string) => [{ path: 'a.md', content: parentSha }]);
+
+      await client.commitFiles('owner', 'repo', 'main', files, 'msg');
+
+      expect(files.mock.calls).toEqual([['head-1'], ['head-2']]);
+      expect(mockOctokit.git.createBlob).toHaveBeenCalledTimes(2);
+      expect(mockOctokit.git.createBlob).toHaveBeenLastCalledWith(
+        expect.objectContaining({ content: Buffer.from('head-2').toString('base64') })
+      );
+      expect(mockOctokit.git.createCommit).toHaveBeenLastCalledWith(
+        expect.objectContaining({ parents: ['head-2'] })
+      );
+    });
+
+    it('should not write fixed files over changes made in the meantime', async () => {
+      mockOctokit.git.updateRef.mockRejectedValueOnce({ status: 422, response: { data: {} } });
+
+      await expect(
+        client.commitFiles('owner', 'repo', 'main', [{ path: 'a.md', content: 'a' }], 'msg')
+      ).rejects.toMatchObject({ name: 'GitHubError', status: 409 });
+      expect(mockOctokit.git.updateRef).toHaveBeenCalledTimes(1);
+    });
+
+    it('should give up after repeated conflicts', async () => {
+      mockOctokit.git.updateRef.mockRejectedValue({ status: 422, response: { data: {} } });
+
+      await expect(
+        client.commitFiles('owner', 'repo', 'main', async () => [{ path: 'a.md', content: 'a' }], 'msg')
+      ).rejects.toThrow(GitHubError);
+      expect(mockOctokit.git.updateRef).toHaveBeenCalledTimes(3);
+    });
   });
 
   describe('pull request operations', () => {
@@ -370,10 +496,107 @@ describe('GitHubClient', () => {
         { number: 1, title: 'PR 1' },
         { number: 2, title: 'PR 2' },
       ];
-      mockOctokit.pulls.list.mockResolvedValue({ data: mockPRs });
+      mockOctokit.paginate.mockResolvedValue(mockPRs);
 
-      const result = await client.listPullRequests('owner', 'repo', 'open');
+      const result = await client.listPullRequests('owner', 'repo', 'open', {
+        head: 'user:translations/es-ES',
+        base: 'translations/es-ES',
+      });
       expect(result.data).toEqual(mockPRs);
+      expect(mockOctokit.paginate).toHaveBeenCalledWith(mockOctokit.pulls.list, {
+        owner: 'owner',
+        repo: 'repo',
+        state: 'open',
+        head: 'user:translations/es-ES',
+        base: 'translations/es-ES',
+        per_page: 100,
+      });
+    });
+
+    it('should list all reviews of a pull request', async () => {
+      mockOctokit.paginate.mockResolvedValue([{ id: 1, state: 'APPROVED' }]);
+
+      const result = await client.listPullRequestReviews('owner', 'repo', 12);
+
+      expect(result).toEqual([{ id: 1, state: 'APPROVED' }]);
+      expect(mockOctokit.paginate).toHaveBeenCalledWith(mockOctokit.pulls.listReviews, {
+        owner: 'owner',
+        repo: 'repo',
+        pull_number: 12,
+        per_page: 100,
+      });
+    });
+
+    it('should comment on lines of a pull request, or on the whole file', async () => {
+      mockOctokit.pulls.createReviewComment.mockResolvedValue({ data: { id: 1 } });
+      const comment = { body: 'Typo', commitId: 'sha', path: 'docs/es/A01.md' };
+
+      await client.createPullRequestReviewComment('owner', 'repo', 12, {
+        ...comment,
+        startLine: 3,
+        line: 4,
+      });
+      expect(mockOctokit.pulls.createReviewComment).toHaveBeenLastCalledWith(
+        expect.objectContaining({ line: 4, side: 'RIGHT', start_line: 3, start_side: 'RIGHT' })
+      );
+
+      await client.createPullRequestReviewComment('owner', 'repo', 12, {
+        ...comment,
+        startLine: 4,
+        line: 4,
+      });
+      expect(mockOctokit.pulls.createReviewComment.mock.lastCall[0]).not.toHaveProperty(
+        'start_line'
+      );
+
+      await client.createPullRequestReviewComment('owner', 'repo', 12, comment);
+      expect(mockOctokit.pulls.createReviewComment).toHaveBeenLastCalledWith(
+        expect.objectContaining({ subject_type: 'file', commit_id: 'sha', path: 'docs/es/A01.md' })
+      );
+    });
+
+    it('should list all review comments', async () => {
+      mockOctokit.paginate.mockResolvedValue([{ id: 1 }, { id: 2 }]);
+
+      const result = await client.listPullRequestReviewComments('owner', 'repo', 12);
+
+      expect(result).toEqual([{ id: 1 }, { id: 2 }]);
+      expect(mockOctokit.paginate).toHaveBeenCalledWith(mockOctokit.pulls.listReviewComments, {
+        owner: 'owner',
+        repo: 'repo',
+        pull_number: 12,
+        per_page: 100,
+      });
+    });
+
+    it('should list review threads across pages', async () => {
+      const page = (nodes: unknown[], endCursor: string | null) => ({
+        repository: {
+          pullRequest: {
+            reviewThreads: { pageInfo: { hasNextPage: Boolean(endCursor), endCursor }, nodes },
+          },
+        },
+      });
+      mockOctokit.graphql
+        .mockResolvedValueOnce(
+          page([{ id: 'T1', isResolved: true, comments: { nodes: [{ databaseId: 1 }] } }], 'next')
+        )
+        .mockResolvedValueOnce(
+          page([{ id: 'T2', isResolved: false, comments: { nodes: [] } }], null)
+        );
+
+      const threads = await client.listPullRequestReviewThreads('owner', 'repo', 12);
+
+      expect(threads).toEqual([
+        { id: 'T1', isResolved: true, firstCommentId: 1 },
+        { id: 'T2', isResolved: false, firstCommentId: null },
+      ]);
+      expect(mockOctokit.graphql).toHaveBeenLastCalledWith(expect.any(String), {
+        owner: 'owner',
+        repo: 'repo',
+        number: 12,
+        cursor: 'next',
+      });
     });
   });
 
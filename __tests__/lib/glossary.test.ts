@@ -0,0 +1,78 @@
+import { findGlossaryTerms, checkGlossaryUsage, isKeptInEnglish } from '@/lib/glossary';
+import type { GlossaryTerm } from '@/types';
+
+const terms: GlossaryTerm[] = [
+  { source: 'Broken Access Control', target: 'Pérdida de Control de Acceso' },
+  { source: 'Access Control', target: 'Control de Acceso' },
+  { source: 'Server-Side Request Forgery', target: 'Server-Side Request Forgery' },
+];
+
+describe('Glossary', () => {
+  describe('isKeptInEnglish', () => {
+    it('should detect terms left untranslated', () => {
+      expect(isKeptInEnglish(terms[2])).toBe(true);
+      expect(isKeptInEnglish(terms[0])).toBe(false);
+    });
+  });
+
+  describe('findGlossaryTerms', () => {
+    it('should find terms case-insensitively with offsets', () => {
+      const text = 'Prevent server-side request forgery (SSRF).';
+      expect(findGlossaryTerms(text, terms)).toEqual([
+        { term: terms[2], start: 8, end: 35 },
+      ]);
+    });
+
+    it('should prefer longer terms over terms they contain', () => {
+      const text = 'Broken Access Control moves up. Access Control is hard.';
+      const matches = findGlossaryTerms(text, terms);
+
+      expect(matches.map((m) => m.term.source)).toEqual([
+        'Broken Access Control',
+        'Access Control',
+      ]);
+      expect(matches[1].start).toBe(32);
+    });
+
+    it('should only match whole words', () => {
+      expect(findGlossaryTerms('Unbroken Access Controls', terms)).toEqual([]);
+    });
+
+    it('should escape regular expression characters in terms', () => {
+      const special: GlossaryTerm[] = [{ source: 'C++ (ISO)', target: 'C++ (ISO)' }];
+      expect(findGlossaryTerms('Written in C++ (ISO) code', special)).toHaveLength(1);
+    });
+  });
+
+  describe('checkGlossaryUsage', () => {
+    const source = '# Broken Access Control\n\nBroken Access Control is the top risk.';
+
+    it('should not warn when the approved term is used', () => {
+      const translation =
+        '# Pérdida de Control de Acceso\n\nPérdida de control de acceso es el mayor riesgo.';
+      expect(checkGlossaryUsage(source, translation, terms)).toEqual([]);
+    });
+
+    it('should warn when the translation deviates', () => {
+      const translation =
+        '# Pérdida de Control de Acceso\n\nEl control de acceso roto es el mayor riesgo.';
+
+      expect(checkGlossaryUsage(source, translation, terms)).toEqual([
+        { term: terms[0], sourceCount: 2, targetCount: 1 },
+      ]);
+    });
+
+    it('should warn when a term that stays in English was translated', () => {
+      const warnings = checkGlossaryUsage(
+        'Server-Side Request Forgery',
+        'Falsificación de solicitudes del lado del servidor',
+        terms
+      );
+      expect(warnings.map((w) => w.term.source)).toEqual(['Server-Side Request Forgery']);
+    });
+
+    it('should not warn for an empty translation', () => {
+      expect(checkGlossaryUsage(source, '  ', terms)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,195 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import type { InitJob } from '@/types';
+
+jest.mock('@/lib/file-processing', () => {
+  class InitializationCancelledError extends Error {}
+  return {
+    InitializationCancelledError,
+    initializeLanguage: jest.fn(),
+  };
+});
+
+jest.mock('@/lib/github', () => ({
+  createGitHubClient: jest.fn(() => ({})),
+}));
+
+type InitJobs = typeof import('@/lib/init-jobs');
+type FileProcessing = typeof import('@/lib/file-processing');
+
+async function waitFor(condition: () => Promise<boolean>, timeout = 2000) {
+  const start = Date.now();
+  while (!(await condition())) {
+    if (Date.now() - start > timeout) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+describe('Init Jobs', () => {
+  let dataDir: string;
+  let jobs: InitJobs;
+  let initializeLanguage: jest.Mock;
+  let InitializationCancelledError: FileProcessing['InitializationCancelledError'];
+
+  const isStatus = (id: string, status: InitJob['status']) => async () =>
+    (await jobs.getInitJob(id))?.status === status;
+
+  beforeEach(async () => {
+    dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'hivewrite-jobs-'));
+    process.env.HIVEWRITE_DATA_DIR = dataDir;
+    process.env.GITHUB_ADMIN_TOKEN = 'admin-token';
+
+    // Fresh worker state for every test
+    jest.resetModules();
+    jobs = await import('@/lib/init-jobs');
+    const fileProcessing = await import('@/lib/file-processing');
+    initializeLanguage = fileProcessing.initializeLanguage as jest.Mock;
+    InitializationCancelledError = fileProcessing.InitializationCancelledError;
+  });
+
+  afterEach(async () => {
+    delete process.env.HIVEWRITE_DATA_DIR;
+    delete process.env.GITHUB_ADMIN_TOKEN;
+    await fs.rm(dataDir, { recursive: true, force: true });
+  });
+
+  it('should run a queued job and record per-file progress', async () => {
+    initializeLanguage.mockImplementation(async (_client, options) => {
+      options.onProgress({ filename: 'A01.md', status: 'pending' });
+      options.onProgress({ filename: 'A01.md', status: 'translating' });
+      options.onProgress({ filename: 'A01.md', status: 'complete', blobSha: 'blob-1' });
+      return { success: true, filesProcessed: 1, errors: [], branchUrl: 'https://github.com/b' };
+    });
+
+    const job = await jobs.enqueueInitJob({
+      project: 'topten',
+      language: 'es-ES',
+      createdBy: 'admin',
+    });
+    expect(job.status).toBe('queued');
+
+    const updates: InitJob['status'][] = [];
+    jobs.subscribeToInitJob(job.id, (update) => updates.push(update.status));
+
+    await waitFor(isStatus(job.id, 'completed'));
+
+    const finished = await jobs.getInitJob(job.id);
+    expect(finished).toMatchObject({
+      filesProcessed: 1,
+      branchUrl: 'https://github.com/b',
+      attempts: 1,
+      files: { 'A01.md': { filename: 'A01.md', status: 'complete' } },
+    });
+    expect(updates[0]).toBe('running');
+    expect(updates[updates.length - 1]).toBe('completed');
+
+    const [, options] = initializeLanguage.mock.calls[0];
+    expect(options).toMatchObject({
+      languageCode: 'es-ES',
+      coordinator: 'admin',
+      mode: 'missing',
+      translatedFiles: {},
+    });
+  });
+
+  it('should resume a job interrupted by a restart', async () => {
+    const interrupted = {
+      id: 'job-1',
+      project: 'topten',
+      language: 'es-ES',
+      status: 'running',
+      createdBy: 'admin',
+      createdAt: '2025-01-01T00:00:00.000Z',
+      startedAt: '2025-01-01T00:00:00.000Z',
+      finishedAt: null,
+      mode: 'missing',
+      files: {
+        'A01.md': { filename: 'A01.md', status: 'complete', blobSha: 'blob-1' },
+        'A02.md': { filename: 'A02.md', status: 'translating' },
+      },
+      filesProcessed: 0,
+      errors: [],
+      error: null,
+      branchUrl: null,
+      cancelRequested: false,
+      attempts: 1,
+    };
+    await fs.writeFile(
+      path.join(dataDir, 'init-jobs.json'),
+      JSON.stringify({ jobs: { 'job-1': interrupted } })
+    );
+
+    initializeLanguage.mockResolvedValue({
+      success: true,
+      filesProcessed: 2,
+      errors: [],
+      branchUrl: 'https://github.com/b',
+    });
+
+    jobs.startInitWorker();
+    await waitFor(isStatus('job-1', 'completed'));
+
+    expect(initializeLanguage.mock.calls[0][1].translatedFiles).toEqual({ 'A01.md': 'blob-1' });
+    expect((await jobs.getInitJob('job-1'))?.attempts).toBe(2);
+  });
+
+  it('should cancel a running job', async () => {
+    initializeLanguage.mockImplementation(
+      (_client, options) =>
+        new Promise((_resolve, reject) => {
+          options.signal.addEventListener('abort', () =>
+            reject(new InitializationCancelledError())
+          );
+        })
+    );
+
+    const job = await jobs.enqueueInitJob({
+      project: 'topten',
+      language: 'es-ES',
+      createdBy: 'admin',
+    });
+    await waitFor(isStatus(job.id, 'running'));
+    await waitFor(async () => initializeLanguage.mock.calls.length > 0);
+
+    await jobs.cancelInitJob(job.id);
+    await waitFor(isStatus(job.id, 'cancelled'));
+
+    expect((await jobs.getInitJob(job.id))?.cancelRequested).toBe(true);
+    expect(await jobs.findActiveInitJob('topten', 'es-ES')).toBeNull();
+  });
+
+  it('should cancel a queued job without running it', async () => {
+    let release: () => void = () => {};
+    initializeLanguage.mockImplementationOnce(
+      () =>
+        new Promise((resolve) => {
+          release = () => resolve({ success: true, filesProcessed: 0, errors: [], branchUrl: '' });
+        })
+    );
+
+    const first = await jobs.enqueueInitJob({ project: 'topten', language: 'es-ES', createdBy: 'a' });
+    const second = await jobs.enqueueInitJob({ project: 'topten', language: 'fr-FR', createdBy: 'a' });
+    await waitFor(isStatus(first.id, 'running'));
+
+    const cancelled = await jobs.cancelInitJob(second.id);
+    expect(cancelled?.status).toBe('cancelled');
+
+    release();
+    await waitFor(isStatus(first.id, 'completed'));
+    expect(initializeLanguage).toHaveBeenCalledTimes(1);
+  });
+
+  it('should record why a job failed', async () => {
+    initializeLanguage.mockRejectedValue(new Error('Failed to initialize language: quota exceeded'));
+
+    const job = await jobs.enqueueInitJob({ project: 'topten', language: 'es-ES', createdBy: 'a' });
+    await waitFor(isStatus(job.id, 'failed'));
+
+    expect((await jobs.getInitJob(job.id))?.error).toBe(
+      'Failed to initialize language: quota exceeded'
+    );
+  });
+});
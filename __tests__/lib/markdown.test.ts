@@ -0,0 +1,241 @@
+import {
+  splitMarkdownSegments,
+  extractTranslatableSegments,
+  restoreSegment,
+  replaceSegments,
+  splitMarkdownSections,
+  getSegmentPlainText,
+  alignMarkdownSegments,
+  joinAlignedSegments,
+} from '@/lib/markdown';
+
+describe('Markdown segmentation', () => {
+  describe('splitMarkdownSegments', () => {
+    it('should return headings, paragraphs and table cells in order', () => {
+      const markdown = `# Title
+
+Intro paragraph.
+
+| Risk | CWE |
+|------|-----|
+| Injection | CWE-89 |
+`;
+
+      const segments = splitMarkdownSegments(markdown);
+
+      expect(segments.map((s) => [s.type, s.source])).toEqual([
+        ['heading', 'Title'],
+        ['paragraph', 'Intro paragraph.'],
+        ['tableCell', 'Risk'],
+        ['tableCell', 'CWE'],
+        ['tableCell', 'Injection'],
+        ['tableCell', 'CWE-89'],
+      ]);
+    });
+
+    it('should skip code blocks, HTML blocks and front matter', () => {
+      const markdown = `---
+title: Broken Access Control
+---
+
+\`\`\`javascript
+const hello = "world";
+\`\`\`
+
+<div align="center">Banner</div>
+
+Body text.
+`;
+
+      const segments = splitMarkdownSegments(markdown);
+
+      expect(segments).toHaveLength(1);
+      expect(segments[0].source).toBe('Body text.');
+    });
+
+    it('should report offsets into the source', () => {
+      const markdown = '## Heading\n\nText';
+      const [heading, paragraph] = splitMarkdownSegments(markdown);
+
+      expect(markdown.slice(heading.start, heading.end)).toBe('Heading');
+      expect(markdown.slice(paragraph.start, paragraph.end)).toBe('Text');
+    });
+  });
+
+  describe('extractTranslatableSegments', () => {
+    it('should replace inline code with placeholders', () => {
+      const [segment] = extractTranslatableSegments('Call `eval()` carefully.');
+
+      expect(segment.text).toBe('Call <x id="1"/> carefully.');
+      expect(segment.placeholders['x:1']).toBe('`eval()`');
+    });
+
+    it('should keep link URLs out of the translatable text', () => {
+      const [segment] = extractTranslatableSegments(
+        'See [CWE-22](https://cwe.mitre.org/data/definitions/22.html) for details.'
+      );
+
+      expect(segment.text).toBe('See <g id="1">CWE-22</g> for details.');
+      expect(segment.placeholders['g:1:open']).toBe('[');
+      expect(segment.placeholders['g:1:close']).toBe(
+        '](https://cwe.mitre.org/data/definitions/22.html)'
+      );
+    });
+
+    it('should treat autolinks and images as atomic', () => {
+      const [segment] = extractTranslatableSegments(
+        'Visit <https://owasp.org> or ![logo](logo.png) now.'
+      );
+
+      expect(segment.text).toBe('Visit <x id="1"/> or <x id="2"/> now.');
+    });
+
+    it('should keep reference link labels intact', () => {
+      const [segment] = extractTranslatableSegments(
+        'Read [the guide][guide].\n\n[guide]: https://owasp.org'
+      );
+
+      expect(segment.text).toBe('Read <g id="1">the guide</g>.');
+      expect(segment.placeholders['g:1:close']).toBe('][guide]');
+    });
+
+    it('should escape XML characters in text', () => {
+      const [segment] = extractTranslatableSegments('Use a < b && c > d.');
+
+      expect(segment.text).toBe('Use a &lt; b &amp;&amp; c &gt; d.');
+      expect(getSegmentPlainText(segment)).toBe('Use a < b && c > d.');
+    });
+
+    it('should strip blockquote markers from continuation lines', () => {
+      const [segment] = extractTranslatableSegments('> First line\n> second line');
+
+      expect(segment.text).toBe('First line\nsecond line');
+      expect(segment.linePrefix).toBe('> ');
+    });
+  });
+
+  describe('restoreSegment', () => {
+    it('should restore placeholders and unescape text', () => {
+      const [segment] = extractTranslatableSegments(
+        'Use **strong** `crypto` & [links](https://owasp.org).'
+      );
+
+      const restored = restoreSegment(
+        'Utilice <g id="1">fuerte</g> <x id="2"/> &amp; <g id="3">enlaces</g>.',
+        segment
+      );
+
+      expect(restored).toBe('Utilice **fuerte** `crypto` & [enlaces](https://owasp.org).');
+    });
+
+    it('should re-append placeholders dropped by the provider', () => {
+      const [segment] = extractTranslatableSegments('Run `npm audit` daily.');
+
+      expect(restoreSegment('Ejecute diariamente.', segment)).toBe(
+        'Ejecute diariamente. `npm audit`'
+      );
+    });
+
+    it('should close groups left open by the provider', () => {
+      const [segment] = extractTranslatableSegments('A *very* short note.');
+
+      expect(restoreSegment('Una nota <g id="1">muy corta.', segment)).toBe(
+        'Una nota *muy corta.*'
+      );
+    });
+
+    it('should restore continuation prefixes', () => {
+      const [segment] = extractTranslatableSegments('> One  \n> two\n> three');
+
+      expect(restoreSegment('Uno<x id="1"/>dos\ntres', segment)).toBe(
+        'Uno  \n> dos\n> tres'
+      );
+    });
+  });
+
+  describe('replaceSegments', () => {
+    it('should splice replacements and leave other bytes untouched', () => {
+      const markdown = '# Title\n\n```\ncode\n```\n\nText.\n';
+      const segments = splitMarkdownSegments(markdown);
+
+      const result = replaceSegments(
+        markdown,
+        segments.map((segment) => ({
+          start: segment.start,
+          end: segment.end,
+          content: segment.source.toUpperCase(),
+        }))
+      );
+
+      expect(result).toBe('# TITLE\n\n```\ncode\n```\n\nTEXT.\n');
+    });
+  });
+
+  describe('alignMarkdownSegments', () => {
+    const english = '# Risks\n\n- First risk\n- Second risk\n\n```\ncode\n```\n';
+    const spanish = '# Riesgos\n\n- Primer riesgo\n- Segundo riesgo\n\n```\ncode\n```\n';
+
+    it('should line up the English, translated and machine segments', () => {
+      const segments = alignMarkdownSegments(
+        english,
+        spanish,
+        '# Riesgos\n\n- Primer riesgo\n- Riesgo segundo\n'
+      );
+
+      expect(
+        segments?.map(({ type, source, translation, machine }) => ({ type, source, translation, machine }))
+      ).toEqual([
+        { type: 'heading', source: 'Risks', translation: 'Riesgos', machine: 'Riesgos' },
+        { type: 'paragraph', source: 'First risk', translation: 'Primer riesgo', machine: 'Primer riesgo' },
+        { type: 'paragraph', source: 'Second risk', translation: 'Segundo riesgo', machine: 'Riesgo segundo' },
+      ]);
+      expect(spanish.slice(segments![1].start, segments![1].end)).toBe('Primer riesgo');
+    });
+
+    it('should leave out a machine translation whose blocks differ', () => {
+      const segments = alignMarkdownSegments(english, spanish, '# Riesgos\n\nUn párrafo.\n');
+
+      expect(segments?.every((segment) => segment.machine === null)).toBe(true);
+    });
+
+    it('should return null when the translation has different blocks', () => {
+      expect(alignMarkdownSegments(english, '# Riesgos\n\nPrimer y segundo riesgo.\n')).toBeNull();
+      expect(alignMarkdownSegments(english, '')).toBeNull();
+    });
+  });
+
+  describe('joinAlignedSegments', () => {
+    it('should put edited segments back between the untouched markup', () => {
+      const spanish = '# Riesgos\n\n- Primer riesgo\n- Segundo riesgo\n\n```\ncode\n```\n';
+      const segments = alignMarkdownSegments(
+        '# Risks\n\n- First risk\n- Second risk\n\n```\ncode\n```\n',
+        spanish
+      )!;
+
+      segments[2] = { ...segments[2], translation: 'El segundo\n  riesgo' };
+
+      expect(joinAlignedSegments(spanish, segments)).toBe(
+        '# Riesgos\n\n- Primer riesgo\n- El segundo\n  riesgo\n\n```\ncode\n```\n'
+      );
+    });
+  });
+
+  describe('splitMarkdownSections', () => {
+    it('should group blocks under their heading', () => {
+      const markdown =
+        '---\ntitle: A01\n---\n\nIntro.\n\n# Overview\n\nFirst.\n\n- a\n- b\n\n## Details\n\nSecond.\n\n[ref]: https://owasp.org\n';
+
+      expect(splitMarkdownSections(markdown)).toEqual([
+        { heading: '', blocks: ['Intro.'] },
+        { heading: 'Overview', blocks: ['First.', '- a\n- b'] },
+        { heading: 'Details', blocks: ['Second.'] },
+      ]);
+    });
+
+    it('should omit the preamble when the document starts with a heading', () => {
+      expect(splitMarkdownSections('# Title\n\nText.')).toEqual([
+        { heading: 'Title', blocks: ['Text.'] },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,58 @@
+import { getParagraphAt, findParagraph } from '@/lib/paragraphs';
+
+const content = [
+  '# Título',
+  '',
+  'Primera línea del párrafo',
+  'y su continuación.',
+  '',
+  'Otro párrafo.',
+].join('\n');
+
+describe('Paragraphs', () => {
+  describe('getParagraphAt', () => {
+    it('should find the paragraph around a line', () => {
+      expect(getParagraphAt(content, 4)).toEqual({
+        startLine: 3,
+        endLine: 4,
+        excerpt: 'Primera línea del párrafo y su continuación.',
+      });
+      expect(getParagraphAt(content, 1)).toEqual({ startLine: 1, endLine: 1, excerpt: '# Título' });
+    });
+
+    it('should return null on blank lines and outside the file', () => {
+      expect(getParagraphAt(content, 2)).toBeNull();
+      expect(getParagraphAt(content, 0)).toBeNull();
+      expect(getParagraphAt(content, 10)).toBeNull();
+    });
+
+    it('should shorten long excerpts', () => {
+      expect(getParagraphAt('a '.repeat(100), 1)?.excerpt).toHaveLength(80);
+    });
+  });
+
+  describe('findParagraph', () => {
+    it('should follow a paragraph that moved', () => {
+      const anchor = getParagraphAt(content, 6)!;
+      const edited = `Introducción.\n\n${content}`;
+
+      expect(findParagraph(edited, anchor)).toEqual({ ...anchor, startLine: 8, endLine: 8 });
+    });
+
+    it('should find a paragraph from one of its lines', () => {
+      expect(
+        findParagraph(content, { startLine: 4, endLine: 4, excerpt: 'y su continuación.' })
+      ).toEqual(expect.objectContaining({ startLine: 3, endLine: 4 }));
+    });
+
+    it('should prefer the closest of identical paragraphs', () => {
+      const repeated = 'Igual.\n\nOtro.\n\nIgual.';
+
+      expect(findParagraph(repeated, { startLine: 4, endLine: 4, excerpt: 'Igual.' })?.startLine).toBe(5);
+    });
+
+    it('should return null once the paragraph is gone', () => {
+      expect(findParagraph(content, { startLine: 3, endLine: 4, excerpt: 'Texto borrado' })).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,353 @@
+import { reconcilePullRequests } from '@/lib/pull-request-reconciliation';
+import { rememberReviewedFile } from '@/lib/file-processing';
+import type { GitHubClient, CommitFileChange } from '@/lib/github';
+import type { ProjectConfig, TranslationFileMetadata, TranslationMetadata } from '@/types';
+
+type CommitFiles = CommitFileChange[] | ((parentSha: string) => Promise<CommitFileChange[]>);
+
+// Files of a commitFiles call, built on the branch head as the client does
+const getCommittedFiles = async (files: CommitFiles): Promise<CommitFileChange[]> =>
+  typeof files === 'function' ? files('branch-head') : files;
+
+const mockCommitFiles = (result: object) =>
+  jest.fn(async (_owner: string, _repo: string, _branch: string, files: CommitFiles) => {
+    await getCommittedFiles(files);
+    return result;
+  });
+
+jest.mock('@/lib/github', () => ({
+  createGitHubClient: jest.fn(),
+}));
+
+jest.mock('@/lib/file-processing', () => ({
+  rememberReviewedFile: jest.fn(),
+}));
+
+const project = {
+  slug: 'topten',
+  name: 'OWASP Top 10',
+  githubRepo: 'OWASP/Top10',
+  sourceBranch: 'master',
+  sourceFolder: '/2021/docs',
+  translationFolder: '/2021/docs',
+  tmpFolder: '/2021/docs/{language}/tmp',
+  filePattern: '*.md',
+  priorityFiles: [],
+  languages: {
+    'es-ES': {
+      name: 'Spanish',
+      direction: 'ltr',
+      coordinator: 'admin',
+      reviewers: ['reviewer'],
+      active: true,
+    },
+  },
+} as unknown as ProjectConfig;
+
+function createFile(overrides: Partial<TranslationFileMetadata> = {}): TranslationFileMetadata {
+  return {
+    status: 'complete',
+    lastUpdated: '2025-01-01T00:00:00.000Z',
+    lastContributor: 'translator',
+    lastCommitSha: 'abc',
+    prNumber: 12,
+    prUrl: 'https://github.com/OWASP/Top10/pull/12',
+    wordCount: 100,
+    machineTranslated: true,
+    humanReviewed: false,
+    reviewState: 'submitted',
+    ...overrides,
+  };
+}
+
+function createMetadata(files: Record<string, TranslationFileMetadata>): TranslationMetadata {
+  return {
+    version: '1.0',
+    language: 'es-ES',
+    languageName: 'Spanish',
+    direction: 'ltr',
+    project: 'topten',
+    coordinator: 'admin',
+    initialized: '2025-01-01T00:00:00.000Z',
+    lastUpdated: '2025-01-01T00:00:00.000Z',
+    files,
+    stats: {
+      totalFiles: 0,
+      completed: 0,
+      inProgress: 0,
+      notStarted: 0,
+      percentComplete: 0,
+      totalWords: 0,
+      translatedWords: 0,
+      contributors: [],
+    },
+    meta: {
+      machineTranslationService: 'DeepL',
+      machineTranslationDate: '2025-01-01T00:00:00.000Z',
+      sourceCommitSha: 'base',
+      notes: '',
+    },
+  };
+}
+
+function createPullRequest(number: number, overrides: Record<string, unknown> = {}) {
+  return { number, state: 'open', merged_at: null, ...overrides };
+}
+
+function createReview(login: string, state: string, submittedAt = '2025-01-02T00:00:00.000Z') {
+  return { user: { login }, state, submitted_at: submittedAt, body: `${state} by ${login}` };
+}
+
+describe('Pull request reconciliation', () => {
+  let client: Record<string, jest.Mock>;
+
+  const setup = (
+    files: Record<string, TranslationFileMetadata>,
+    pullRequests: Array<Record<string, unknown>>,
+    reviews: Array<Record<string, unknown>> = []
+  ) => {
+    (rememberReviewedFile as jest.Mock).mockReset().mockResolvedValue(1);
+    client = {
+      getFileContent: jest.fn().mockResolvedValue({
+        data: {
+          type: 'file',
+          sha: 'blob',
+          content: Buffer.from(JSON.stringify(createMetadata(files))).toString('base64'),
+        },
+      }),
+      listPullRequests: jest.fn(),
+      getPullRequest: jest.fn(async (_owner: string, _repo: string, prNumber: number) => {
+        const pr = pullRequests.find((candidate) => candidate.number === prNumber);
+        if (!pr) {
+          throw { status: 404 };
+        }
+        return { data: { merged_by: { login: 'maintainer' }, ...pr } };
+      }),
+      listPullRequestReviews: jest.fn().mockResolvedValue(reviews),
+      commitFiles: mockCommitFiles({}),
+    };
+  };
+
+  const reconcile = () =>
+    reconcilePullRequests(client as unknown as GitHubClient, project, 'es-ES');
+
+  const getSavedMetadata = async (): Promise<TranslationMetadata> => {
+    const [, , branch, committed] = client.commitFiles.mock.calls[0];
+    const files = await getCommittedFiles(committed);
+    expect(branch).toBe('translations/es-ES');
+    return JSON.parse(files[0].content as string);
+  };
+
+  it('should mark the files of merged pull requests as merged', async () => {
+    setup(
+      {
+        'A01.md': createFile({ reviewState: 'approved', humanReviewed: true }),
+        'A02.md': createFile(),
+      },
+      [createPullRequest(12, { state: 'closed', merged_at: '2025-01-03T00:00:00.000Z' })]
+    );
+
+    const report = await reconcile();
+
+    expect(report.pullRequests).toBe(1);
+    expect(report.updated).toEqual([
+      { filename: 'A01.md', prNumber: 12, from: 'approved', to: 'merged' },
+      { filename: 'A02.md', prNumber: 12, from: 'submitted', to: 'merged' },
+    ]);
+
+    const metadata = await getSavedMetadata();
+    expect(metadata.files['A01.md'].reviewHistory?.[0]).toEqual(
+      expect.objectContaining({ state: 'merged', actor: 'maintainer' })
+    );
+    expect(client.commitFiles.mock.calls[0][4]).toBe(
+      '[es-ES] Update 2 files from their pull requests'
+    );
+    expect((rememberReviewedFile as jest.Mock).mock.calls.map((call) => call[3])).toEqual([
+      'A01.md',
+      'A02.md',
+    ]);
+  });
+
+  it('should send the files of pull requests closed unmerged back to in progress', async () => {
+    setup(
+      {
+        'A01.md': createFile(),
+        'A02.md': createFile({ status: 'in-progress', reviewState: 'draft', prNumber: null }),
+      },
+      [createPullRequest(12, { state: 'closed' })]
+    );
+
+    const report = await reconcile();
+
+    expect(report.updated).toEqual([
+      { filename: 'A01.md', prNumber: 12, from: 'submitted', to: 'draft' },
+    ]);
+
+    const metadata = await getSavedMetadata();
+    expect(metadata.files['A01.md']).toEqual(
+      expect.objectContaining({ status: 'in-progress', prNumber: null, prUrl: null })
+    );
+    expect(metadata.files['A01.md'].reviewHistory?.[0].comment).toBe(
+      'Pull request #12 was closed without merging'
+    );
+    expect(metadata.stats).toEqual(
+      expect.objectContaining({ totalFiles: 2, completed: 0, inProgress: 2 })
+    );
+  });
+
+  it('should apply change requests made on GitHub by reviewers', async () => {
+    setup({ 'A01.md': createFile() }, [createPullRequest(12)], [
+      createReview('reviewer', 'APPROVED', '2025-01-02T00:00:00.000Z'),
+      createReview('reviewer', 'CHANGES_REQUESTED', '2025-01-03T00:00:00.000Z'),
+    ]);
+
+    const report = await reconcile();
+
+    expect(report.updated).toEqual([
+      { filename: 'A01.md', prNumber: 12, from: 'submitted', to: 'changes-requested' },
+    ]);
+
+    const file = (await getSavedMetadata()).files['A01.md'];
+    expect(file.status).toBe('in-progress');
+    expect(file.reviewer).toBe('reviewer');
+    expect(file.reviewHistory?.[0].comment).toBe('CHANGES_REQUESTED by reviewer');
+    expect(rememberReviewedFile).not.toHaveBeenCalled();
+  });
+
+  it('should ignore approvals by users who are not reviewers, and by the translator', async () => {
+    setup({ 'A01.md': createFile() }, [createPullRequest(12)], [
+      createReview('someone', 'APPROVED'),
+      createReview('translator', 'APPROVED'),
+    ]);
+
+    const report = await reconcile();
+
+    expect(report.updated).toEqual([]);
+    expect(client.commitFiles).not.toHaveBeenCalled();
+  });
+
+  it('should ignore reviews made before the file was last submitted', async () => {
+    setup(
+      {
+        'A01.md': createFile({
+          reviewHistory: [{ state: 'submitted', actor: 'translator', at: '2025-01-05T00:00:00.000Z' }],
+        }),
+      },
+      [createPullRequest(12)],
+      [createReview('reviewer', 'CHANGES_REQUESTED', '2025-01-04T00:00:00.000Z')]
+    );
+
+    const report = await reconcile();
+
+    expect(report.updated).toEqual([]);
+    expect(client.commitFiles).not.toHaveBeenCalled();
+  });
+
+  it('should only fetch the pull requests files are waiting on', async () => {
+    setup(
+      {
+        'A01.md': createFile(),
+        'A02.md': createFile({ prNumber: 11, reviewState: 'merged' }),
+        'A03.md': createFile({ status: 'in-progress', reviewState: 'draft', prNumber: null }),
+      },
+      [
+        createPullRequest(11, { state: 'closed', merged_at: '2025-01-02T00:00:00.000Z' }),
+        createPullRequest(12, { state: 'closed', merged_at: '2025-01-03T00:00:00.000Z' }),
+      ]
+    );
+
+    const report = await reconcile();
+
+    expect(client.listPullRequests).not.toHaveBeenCalled();
+    expect(client.getPullRequest).toHaveBeenCalledTimes(1);
+    expect(client.getPullRequest).toHaveBeenCalledWith('OWASP', 'Top10', 12);
+    expect(report.pullRequests).toBe(1);
+    expect(report.updated).toEqual([
+      { filename: 'A01.md', prNumber: 12, from: 'submitted', to: 'merged' },
+    ]);
+  });
+
+  it('should delete the fork branches of merged and closed per-file pull requests', async () => {
+    const head = (ref: string) => ({
+      ref,
+      repo: { name: 'Top10', owner: { login: 'translator' } },
+    });
+    setup(
+      {
+        'A01.md': createFile(),
+        'A02.md': createFile({ prNumber: 13 }),
+        'A03.md': createFile({ prNumber: 14 }),
+      },
+      [
+        createPullRequest(12, {
+          state: 'closed',
+          merged_at: '2025-01-03T00:00:00.000Z',
+          head: head('translation-files/es-ES/A01.md'),
+        }),
+        createPullRequest(13, { state: 'closed', head: head('translation-files/es-ES/A02.md') }),
+        createPullRequest(14, { head: head('translation-files/es-ES/A03.md') }),
+      ]
+    );
+    client.deleteBranch = jest
+      .fn()
+      .mockResolvedValueOnce({})
+      .mockRejectedValueOnce({ status: 422 }); // Already deleted on GitHub
+
+    const report = await reconcilePullRequests(
+      client as unknown as GitHubClient,
+      { ...project, pullRequests: 'per-file' },
+      'es-ES'
+    );
+
+    expect(report.errors).toEqual([]);
+    expect(report.updated.map(({ filename, to }) => [filename, to])).toEqual([
+      ['A01.md', 'merged'],
+      ['A02.md', 'draft'],
+    ]);
+    expect(client.deleteBranch.mock.calls).toEqual([
+      ['translator', 'Top10', 'translation-files/es-ES/A01.md'],
+      ['translator', 'Top10', 'translation-files/es-ES/A02.md'],
+    ]);
+  });
+
+  it('should keep the branches of bundled pull requests', async () => {
+    setup({ 'A01.md': createFile() }, [
+      createPullRequest(12, {
+        state: 'closed',
+        merged_at: '2025-01-03T00:00:00.000Z',
+        head: { ref: 'translations/es-ES', repo: { name: 'Top10', owner: { login: 'translator' } } },
+      }),
+    ]);
+    client.deleteBranch = jest.fn();
+
+    await reconcile();
+
+    expect(client.deleteBranch).not.toHaveBeenCalled();
+  });
+
+  it('should report pull requests that fail and reconcile the others', async () => {
+    setup(
+      {
+        'A01.md': createFile(),
+        'A02.md': createFile({ prNumber: 13 }),
+      },
+      [createPullRequest(12), createPullRequest(13, { state: 'closed' })]
+    );
+    client.listPullRequestReviews.mockRejectedValue(new Error('API error'));
+
+    const report = await reconcile();
+
+    expect(report.errors).toEqual(['Failed to reconcile pull request #12: API error']);
+    expect(report.updated).toEqual([
+      { filename: 'A02.md', prNumber: 13, from: 'submitted', to: 'draft' },
+    ]);
+    expect(client.commitFiles).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fail when the language has no metadata', async () => {
+    setup({}, []);
+    client.getFileContent.mockRejectedValue({ status: 404 });
+
+    await expect(reconcile()).rejects.toThrow('Translation metadata not found');
+  });
+});
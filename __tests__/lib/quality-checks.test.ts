@@ -0,0 +1,163 @@
+import {
+  runQualityChecks,
+  getQualityCheckSeverities,
+  formatBlockingIssues,
+  formatQualityReport,
+  DEFAULT_QUALITY_CHECKS,
+} from '@/lib/quality-checks';
+import type { GlossaryTerm } from '@/types';
+
+const english = `# Broken Access Control
+
+Access control enforces policy such that users cannot act outside of their intended permissions.
+
+See the [cheat sheet](https://cheatsheetseries.owasp.org) and run \`npm audit\`.
+
+![Diagram](images/diagram.png)
+
+\`\`\`js
+if (!user.isAdmin) deny();
+\`\`\`
+`;
+
+const spanish = `# Control de acceso roto
+
+El control de acceso aplica políticas para que los usuarios no actúen fuera de sus permisos.
+
+Consulte la [hoja de trucos](https://cheatsheetseries.owasp.org) y ejecute \`npm audit\`.
+
+![Diagrama](images/diagram.png)
+
+\`\`\`js
+if (!user.isAdmin) deny();
+\`\`\`
+`;
+
+describe('Quality checks', () => {
+  describe('runQualityChecks', () => {
+    it('should pass a translation with the structure of the source', () => {
+      expect(runQualityChecks(english, spanish, [])).toEqual({ issues: [], blocking: 0, warnings: 0 });
+    });
+
+    it('should report structural differences', () => {
+      const translation = spanish
+        .replace('# Control', 'Control')
+        .replace('(https://cheatsheetseries.owasp.org)', '(https://owasp.org/es)')
+        .replace('![Diagrama](images/diagram.png)', '')
+        .replace('deny();', 'denegar();');
+
+      const report = runQualityChecks(english, translation, []);
+
+      expect(report.issues.map(({ check, message }) => ({ check, message }))).toEqual([
+        { check: 'headings', message: 'The translation has 0 headings; the English source has 1' },
+        { check: 'codeContent', message: 'Code block changed or missing: "if (!user.isAdmin) deny();"' },
+        { check: 'images', message: 'The translation has 0 images; the English source has 1' },
+        { check: 'urls', message: 'URL missing: https://cheatsheetseries.owasp.org' },
+        { check: 'urls', message: 'URL missing: images/diagram.png' },
+        { check: 'urls', message: 'URL not in the English source: https://owasp.org/es' },
+      ]);
+      expect(report.warnings).toBe(6);
+    });
+
+    it('should report missing code blocks, links and inline code', () => {
+      const translation = spanish
+        .replace(/```js[\s\S]*```\n/, '')
+        .replace('[hoja de trucos](https://cheatsheetseries.owasp.org)', 'hoja de trucos')
+        .replace('`npm audit`', 'npm audit');
+
+      const checks = runQualityChecks(english, translation, []).issues.map((issue) => issue.check);
+
+      expect(checks).toEqual(['codeBlocks', 'codeContent', 'links', 'urls', 'placeholders']);
+    });
+
+    it('should report paragraphs left in English', () => {
+      const translation = spanish.replace(
+        'El control de acceso aplica políticas para que los usuarios no actúen fuera de sus permisos.',
+        'Access control enforces policy such that users cannot act outside of their intended permissions.'
+      );
+
+      expect(runQualityChecks(english, translation, []).issues).toEqual([
+        {
+          check: 'untranslated',
+          severity: 'warning',
+          message: 'Still in English: "Access control enforces policy such that users cannot act o…"',
+        },
+      ]);
+      // Short headings and names are often kept in English
+      expect(runQualityChecks('# OWASP Top 10', '# OWASP Top 10', []).issues).toEqual([]);
+    });
+
+    it('should report glossary terms without their approved translation', () => {
+      const glossary: GlossaryTerm[] = [
+        { source: 'access control', target: 'control de acceso' },
+        { source: 'permissions', target: 'autorizaciones' },
+        { source: 'cheat sheet', target: 'cheat sheet' },
+      ];
+
+      expect(runQualityChecks(english, spanish, glossary).issues.map((issue) => issue.message)).toEqual([
+        '"permissions" should be translated as "autorizaciones" (used 0 of 1 times)',
+        '"cheat sheet" should be kept in English (used 0 of 1 times)',
+      ]);
+    });
+
+    it('should apply the configured severities', () => {
+      const translation = spanish.replace('# Control', 'Control').replace('deny();', 'denegar();');
+
+      const report = runQualityChecks(english, translation, [], {
+        headings: 'off',
+        codeContent: 'blocking',
+      });
+
+      expect(report.issues).toEqual([
+        {
+          check: 'codeContent',
+          severity: 'blocking',
+          message: 'Code block changed or missing: "if (!user.isAdmin) deny();"',
+        },
+      ]);
+      expect(report.blocking).toBe(1);
+      expect(report.warnings).toBe(0);
+    });
+  });
+
+  describe('getQualityCheckSeverities', () => {
+    it('should fill in the defaults', () => {
+      expect(getQualityCheckSeverities({ urls: 'blocking' })).toEqual({
+        ...DEFAULT_QUALITY_CHECKS,
+        urls: 'blocking',
+      });
+    });
+  });
+
+  describe('formatting', () => {
+    const report = {
+      issues: [
+        { check: 'urls' as const, severity: 'blocking' as const, message: 'URL missing: https://owasp.org' },
+        { check: 'headings' as const, severity: 'warning' as const, message: 'The translation has 0 headings' },
+      ],
+      blocking: 1,
+      warnings: 1,
+    };
+
+    it('should explain why a file cannot be submitted', () => {
+      expect(formatBlockingIssues('A01.md', report)).toBe(
+        'A01.md failed quality checks: URL missing: https://owasp.org'
+      );
+    });
+
+    it('should list the issues of each file for pull requests', () => {
+      expect(formatQualityReport([{ filename: 'A01.md', report }])).toBe(
+        '## Quality checks\n- ⛔ URL missing: https://owasp.org\n- ⚠️ The translation has 0 headings\n'
+      );
+      expect(
+        formatQualityReport([
+          { filename: 'A01.md', report },
+          { filename: 'A02.md', report: { issues: [], blocking: 0, warnings: 0 } },
+        ])
+      ).toContain('- ⛔ **A01.md**: URL missing');
+      expect(formatQualityReport([{ filename: 'A02.md', report: { issues: [], blocking: 0, warnings: 0 } }])).toBe(
+        '## Quality checks\n- ✅ All checks passed\n'
+      );
+    });
+  });
+});
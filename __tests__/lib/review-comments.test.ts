@@ -0,0 +1,235 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  loadReviewThreads,
+  syncReviewThreads,
+  createReviewThread,
+  replyToReviewThread,
+  setReviewThreadResolved,
+  getGitHubAnchor,
+} from '@/lib/review-comments';
+import type { GitHubClient } from '@/lib/github';
+import type { ProjectConfig } from '@/types';
+
+jest.mock('@/lib/github', () => ({
+  createGitHubClient: jest.fn(),
+}));
+
+const project = {
+  slug: 'topten',
+  name: 'OWASP Top 10',
+  githubRepo: 'OWASP/Top10',
+  sourceBranch: 'master',
+  sourceFolder: '/2021/docs',
+  translationFolder: '/2021/docs',
+  tmpFolder: '/2021/docs/{language}/tmp',
+  filePattern: '*.md',
+  priorityFiles: [],
+  languages: {},
+} as unknown as ProjectConfig;
+
+const anchor = { startLine: 3, endLine: 4, excerpt: 'Primera línea del párrafo y su continuación.' };
+
+function githubComment(id: number, overrides: Record<string, unknown> = {}) {
+  return {
+    id,
+    path: '2021/docs/es-ES/A01.md',
+    body: `Comment ${id}`,
+    user: { login: 'reviewer' },
+    created_at: '2025-01-01T00:00:00Z',
+    html_url: `https://github.com/OWASP/Top10/pull/12#discussion_r${id}`,
+    line: 4,
+    start_line: 3,
+    original_line: 4,
+    original_start_line: 3,
+    subject_type: 'line',
+    in_reply_to_id: undefined,
+    diff_hunk: '@@ -0,0 +1,4 @@\n+# Título\n+\n+Primera línea del párrafo\n+y su continuación.',
+    ...overrides,
+  };
+}
+
+describe('Review Comments', () => {
+  let dataDir: string;
+  let client: Record<string, jest.Mock>;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'hivewrite-comments-'));
+    process.env.HIVEWRITE_DATA_DIR = dataDir;
+
+    let nextId = 100;
+    client = {
+      getPullRequest: jest.fn().mockResolvedValue({ data: { head: { sha: 'head-sha' } } }),
+      createPullRequestReviewComment: jest.fn(async () => {
+        const id = nextId++;
+        return { data: { id, html_url: `https://github.com/c/${id}` } };
+      }),
+      replyToPullRequestReviewComment: jest.fn(async () => {
+        const id = nextId++;
+        return { data: { id, html_url: `https://github.com/c/${id}` } };
+      }),
+      listPullRequestReviewComments: jest.fn().mockResolvedValue([]),
+      listPullRequestReviewThreads: jest.fn().mockResolvedValue([]),
+      setPullRequestReviewThreadResolved: jest.fn().mockResolvedValue({}),
+    };
+  });
+
+  afterEach(() => {
+    delete process.env.HIVEWRITE_DATA_DIR;
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  const github = () => client as unknown as GitHubClient;
+
+  const create = (prNumber: number | null, author: string, body: string) =>
+    createReviewThread(github(), project, 'es-ES', 'A01.md', prNumber, anchor, author, body);
+
+  const reply = (threadId: string, author: string, body: string) =>
+    replyToReviewThread(github(), project, 'es-ES', 'A01.md', threadId, author, body);
+
+  const sync = (username: string) =>
+    syncReviewThreads(github(), project, 'es-ES', 'A01.md', 12, username);
+
+  describe('createReviewThread', () => {
+    it('should post the comment on the paragraph lines of the pull request', async () => {
+      const thread = await create(12, 'reviewer', 'Use "usted"');
+
+      expect(client.createPullRequestReviewComment).toHaveBeenCalledWith('OWASP', 'Top10', 12, {
+        body: 'Use "usted"',
+        commitId: 'head-sha',
+        path: '2021/docs/es-ES/A01.md',
+        startLine: 3,
+        line: 4,
+      });
+      expect(thread.comments[0].githubCommentId).toBe(100);
+      expect(await loadReviewThreads(project, 'es-ES', 'A01.md')).toEqual([thread]);
+    });
+
+    it('should comment on the whole file when the lines are not in the diff', async () => {
+      client.createPullRequestReviewComment.mockRejectedValueOnce(
+        Object.assign(new Error('Unprocessable'), { status: 422 })
+      );
+
+      await create(12, 'reviewer', 'Typo');
+
+      expect(client.createPullRequestReviewComment).toHaveBeenLastCalledWith(
+        'OWASP',
+        'Top10',
+        12,
+        {
+          body: `> ${anchor.excerpt}…\n\nTypo`,
+          commitId: 'head-sha',
+          path: '2021/docs/es-ES/A01.md',
+        }
+      );
+    });
+
+    it('should keep comments local when the file has no pull request', async () => {
+      const thread = await create(null, 'reviewer', 'Typo');
+
+      expect(thread.comments[0].githubCommentId).toBeNull();
+      expect(client.createPullRequestReviewComment).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('replyToReviewThread', () => {
+    it('should reply to the review comment on GitHub', async () => {
+      const thread = await create(12, 'reviewer', 'Typo');
+
+      const updated = await reply(thread.id, 'translator', 'Fixed');
+
+      expect(client.replyToPullRequestReviewComment).toHaveBeenCalledWith('OWASP', 'Top10', 12, 100, 'Fixed');
+      expect(updated.comments.map((comment) => comment.author)).toEqual(['reviewer', 'translator']);
+    });
+
+    it('should fail for unknown threads', async () => {
+      await expect(reply('missing', 'translator', 'Fixed')).rejects.toThrow(
+        'Review thread not found'
+      );
+    });
+  });
+
+  describe('setReviewThreadResolved', () => {
+    it('should resolve the thread on GitHub', async () => {
+      const thread = await create(12, 'reviewer', 'Typo');
+      client.listPullRequestReviewThreads.mockResolvedValue([
+        { id: 'PRRT_1', isResolved: false, firstCommentId: 100 },
+      ]);
+
+      const resolved = await setReviewThreadResolved(
+        github(),
+        project,
+        'es-ES',
+        'A01.md',
+        thread.id,
+        true,
+        'translator'
+      );
+
+      expect(client.setPullRequestReviewThreadResolved).toHaveBeenCalledWith('PRRT_1', true);
+      expect(resolved).toEqual(
+        expect.objectContaining({ resolved: true, resolvedBy: 'translator', githubThreadId: 'PRRT_1' })
+      );
+    });
+  });
+
+  describe('syncReviewThreads', () => {
+    it('should import comments and replies made on GitHub', async () => {
+      client.listPullRequestReviewComments.mockResolvedValue([
+        githubComment(2, { in_reply_to_id: 1, user: { login: 'translator' } }),
+        githubComment(1),
+        githubComment(3, { path: '2021/docs/es-ES/A02.md' }),
+      ]);
+      client.listPullRequestReviewThreads.mockResolvedValue([
+        { id: 'PRRT_1', isResolved: true, firstCommentId: 1 },
+      ]);
+
+      const threads = await sync('someone');
+
+      expect(threads).toHaveLength(1);
+      expect(threads[0]).toEqual(
+        expect.objectContaining({ anchor, resolved: true, githubThreadId: 'PRRT_1', prNumber: 12 })
+      );
+      expect(threads[0].comments.map((comment) => comment.githubCommentId)).toEqual([1, 2]);
+    });
+
+    it('should update edited comments and drop deleted ones', async () => {
+      const thread = await create(12, 'reviewer', 'Typo');
+      await reply(thread.id, 'translator', 'Fixed');
+      client.listPullRequestReviewComments.mockResolvedValue([githubComment(100, { body: 'Typo here' })]);
+
+      const threads = await sync('someone');
+
+      expect(threads[0].comments.map((comment) => comment.body)).toEqual(['Typo here']);
+    });
+
+    it('should post the user\'s comments made before the pull request existed', async () => {
+      await create(null, 'reviewer', 'Mine');
+      await create(null, 'other', 'Theirs');
+
+      const threads = await sync('Reviewer');
+
+      expect(client.createPullRequestReviewComment).toHaveBeenCalledTimes(1);
+      expect(threads.map((thread) => thread.prNumber)).toEqual([12, null]);
+    });
+  });
+
+  describe('getGitHubAnchor', () => {
+    it('should anchor comments on changed lines to their original lines', () => {
+      const comment = githubComment(1, {
+        line: null,
+        start_line: null,
+        original_line: 4,
+        original_start_line: null,
+      });
+
+      expect(getGitHubAnchor(comment as never)).toEqual({
+        startLine: 4,
+        endLine: 4,
+        excerpt: 'y su continuación.',
+      });
+      expect(getGitHubAnchor(githubComment(1, { subject_type: 'file' }) as never)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,235 @@
+import { getReviewQueue, getPullRequestReviewEvent, reviewFile } from '@/lib/review';
+import { ReviewStateError } from '@/lib/translation-metadata';
+import { rememberReviewedFile } from '@/lib/file-processing';
+import type { GitHubClient, CommitFileChange } from '@/lib/github';
+import type { ProjectConfig, TranslationFileMetadata, TranslationMetadata } from '@/types';
+
+type CommitFiles = CommitFileChange[] | ((parentSha: string) => Promise<CommitFileChange[]>);
+
+// Files of a commitFiles call, built on the branch head as the client does
+const getCommittedFiles = async (files: CommitFiles): Promise<CommitFileChange[]> =>
+  typeof files === 'function' ? files('branch-head') : files;
+
+const mockCommitFiles = (result: object) =>
+  jest.fn(async (_owner: string, _repo: string, _branch: string, files: CommitFiles) => {
+    await getCommittedFiles(files);
+    return result;
+  });
+
+jest.mock('@/lib/github', () => ({
+  createGitHubClient: jest.fn(),
+}));
+
+jest.mock('@/lib/file-processing', () => ({
+  rememberReviewedFile: jest.fn(),
+}));
+
+const project = {
+  slug: 'topten',
+  name: 'OWASP Top 10',
+  githubRepo: 'OWASP/Top10',
+  sourceBranch: 'master',
+  sourceFolder: '/2021/docs',
+  translationFolder: '/2021/docs',
+  tmpFolder: '/2021/docs/{language}/tmp',
+  filePattern: '*.md',
+  priorityFiles: [],
+  languages: {},
+} as unknown as ProjectConfig;
+
+function createFile(overrides: Partial<TranslationFileMetadata> = {}): TranslationFileMetadata {
+  return {
+    status: 'complete',
+    lastUpdated: '2025-01-01T00:00:00.000Z',
+    lastContributor: 'translator',
+    lastCommitSha: 'abc',
+    prNumber: 12,
+    prUrl: 'https://github.com/OWASP/Top10/pull/12',
+    wordCount: 100,
+    machineTranslated: true,
+    humanReviewed: false,
+    reviewState: 'submitted',
+    ...overrides,
+  };
+}
+
+function createMetadata(files: Record<string, TranslationFileMetadata>): TranslationMetadata {
+  return {
+    version: '1.0',
+    language: 'es-ES',
+    languageName: 'Spanish',
+    direction: 'ltr',
+    project: 'topten',
+    coordinator: 'admin',
+    initialized: '2025-01-01T00:00:00.000Z',
+    lastUpdated: '2025-01-01T00:00:00.000Z',
+    files,
+    stats: {
+      totalFiles: 0,
+      completed: 0,
+      inProgress: 0,
+      notStarted: 0,
+      percentComplete: 0,
+      totalWords: 0,
+      translatedWords: 0,
+      contributors: [],
+    },
+    meta: {
+      machineTranslationService: 'DeepL',
+      machineTranslationDate: '2025-01-01T00:00:00.000Z',
+      sourceCommitSha: 'base',
+      notes: '',
+    },
+  };
+}
+
+function encode(metadata: TranslationMetadata) {
+  return {
+    data: {
+      type: 'file',
+      sha: 'blob',
+      content: Buffer.from(JSON.stringify(metadata)).toString('base64'),
+    },
+  };
+}
+
+describe('Review', () => {
+  describe('getReviewQueue', () => {
+    it('should list files in review, what needs a reviewer first', () => {
+      const metadata = createMetadata({
+        'A01.md': createFile({ reviewState: 'approved' }),
+        'A02.md': createFile({ reviewState: 'submitted', lastUpdated: '2025-01-03T00:00:00.000Z' }),
+        'A03.md': createFile({ reviewState: 'draft', status: 'in-progress' }),
+        'A04.md': createFile({ reviewState: 'submitted', lastUpdated: '2025-01-02T00:00:00.000Z' }),
+        'A05.md': createFile({
+          reviewState: 'changes-requested',
+          reviewHistory: [
+            { state: 'changes-requested', actor: 'reviewer', at: '2025-01-04', comment: 'Fix links' },
+          ],
+        }),
+        'notes.txt': createFile(),
+      });
+
+      const queue = getReviewQueue(metadata, project);
+
+      expect(queue.map((item) => item.filename)).toEqual(['A04.md', 'A02.md', 'A05.md', 'A01.md']);
+      expect(queue[2].lastComment).toBe('Fix links');
+    });
+
+    it('should include files submitted before review states existed', () => {
+      const metadata = createMetadata({ 'A01.md': createFile({ reviewState: undefined }) });
+
+      expect(getReviewQueue(metadata, project)).toEqual([
+        expect.objectContaining({ filename: 'A01.md', reviewState: 'submitted' }),
+      ]);
+    });
+  });
+
+  describe('getPullRequestReviewEvent', () => {
+    it('should only approve the pull request once all of its files are approved', () => {
+      const metadata = createMetadata({
+        'A01.md': createFile(),
+        'A02.md': createFile(),
+        'A03.md': createFile({ prNumber: 13 }),
+      });
+
+      expect(getPullRequestReviewEvent(metadata, 'A01.md', 'approve')).toBe('COMMENT');
+      expect(getPullRequestReviewEvent(metadata, 'A03.md', 'approve')).toBe('APPROVE');
+
+      metadata.files['A02.md'].reviewState = 'approved';
+      expect(getPullRequestReviewEvent(metadata, 'A01.md', 'approve')).toBe('APPROVE');
+      expect(getPullRequestReviewEvent(metadata, 'A01.md', 'request-changes')).toBe(
+        'REQUEST_CHANGES'
+      );
+      expect(getPullRequestReviewEvent(metadata, 'A01.md', 'start-review')).toBeNull();
+    });
+  });
+
+  describe('reviewFile', () => {
+    let userClient: Record<string, jest.Mock>;
+    let adminClient: Record<string, jest.Mock>;
+
+    const setup = (files: Record<string, TranslationFileMetadata>) => {
+      (rememberReviewedFile as jest.Mock).mockReset().mockResolvedValue(1);
+      userClient = { createPullRequestReview: jest.fn().mockResolvedValue({}) };
+      adminClient = {
+        getFileContent: jest.fn().mockResolvedValue(encode(createMetadata(files))),
+        commitFiles: mockCommitFiles({}),
+      };
+    };
+
+    const review = (...args: [string, 'start-review' | 'approve' | 'request-changes', string, string?]) =>
+      reviewFile(
+        userClient as unknown as GitHubClient,
+        adminClient as unknown as GitHubClient,
+        project,
+        'es-ES',
+        ...args
+      );
+
+    it('should post the review to the pull request and save the new state', async () => {
+      setup({ 'A01.md': createFile() });
+
+      const file = await review('A01.md', 'request-changes', 'reviewer', 'Fix the links');
+
+      expect(file.reviewState).toBe('changes-requested');
+      expect(file.reviewer).toBe('reviewer');
+      expect(userClient.createPullRequestReview).toHaveBeenCalledWith(
+        'OWASP',
+        'Top10',
+        12,
+        'REQUEST_CHANGES',
+        expect.stringContaining('Fix the links')
+      );
+
+      const [, , branch, committed, message] = adminClient.commitFiles.mock.calls[0];
+      const files = await getCommittedFiles(committed);
+      expect(branch).toBe('translations/es-ES');
+      expect(JSON.parse(files[0].content as string).files['A01.md'].reviewState).toBe('changes-requested');
+      expect(message).toBe('[es-ES] Request changes to A01.md');
+      expect(rememberReviewedFile).not.toHaveBeenCalled();
+    });
+
+    it('should add approved translations to the translation memory', async () => {
+      setup({ 'A01.md': createFile() });
+
+      await review('A01.md', 'approve', 'reviewer');
+
+      expect(rememberReviewedFile).toHaveBeenCalledWith(
+        adminClient,
+        project,
+        'es-ES',
+        'A01.md',
+        expect.objectContaining({
+          files: { 'A01.md': expect.objectContaining({ reviewState: 'approved', lastCommitSha: 'abc' }) },
+        })
+      );
+    });
+
+    it('should not post anything when starting a review', async () => {
+      setup({ 'A01.md': createFile() });
+
+      const file = await review('A01.md', 'start-review', 'reviewer');
+
+      expect(file.reviewState).toBe('in-review');
+      expect(userClient.createPullRequestReview).not.toHaveBeenCalled();
+    });
+
+    it('should not let translators review their own work', async () => {
+      setup({ 'A01.md': createFile() });
+
+      await expect(review('A01.md', 'approve', 'Translator')).rejects.toThrow(
+        'Unauthorized: You cannot review your own translation'
+      );
+      expect(adminClient.commitFiles).not.toHaveBeenCalled();
+    });
+
+    it('should reject actions the file is not ready for before posting them', async () => {
+      setup({ 'A01.md': createFile({ reviewState: 'draft', status: 'in-progress' }) });
+
+      await expect(review('A01.md', 'approve', 'reviewer')).rejects.toThrow(ReviewStateError);
+      expect(userClient.createPullRequestReview).not.toHaveBeenCalled();
+      expect(adminClient.commitFiles).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,303 @@
+import {
+  detectSourceDrift,
+  diffSourceSections,
+  getSourceDrift,
+} from '@/lib/source-drift';
+import { getFileSourceCommit } from '@/lib/translation-metadata';
+import { getTranslationService } from '@/lib/translation';
+import type { GitHubClient, CommitFileChange } from '@/lib/github';
+import type { ProjectConfig, TranslationMetadata } from '@/types';
+
+type CommitFiles = CommitFileChange[] | ((parentSha: string) => Promise<CommitFileChange[]>);
+
+// Files of a commitFiles call, built on the branch head as the client does
+const getCommittedFiles = async (files: CommitFiles): Promise<CommitFileChange[]> =>
+  typeof files === 'function' ? files('branch-head') : files;
+
+const mockCommitFiles = (result: object) =>
+  jest.fn(async (_owner: string, _repo: string, _branch: string, files: CommitFiles) => {
+    await getCommittedFiles(files);
+    return result;
+  });
+
+jest.mock('@/lib/translation', () => ({
+  getTranslationService: jest.fn(),
+}));
+
+const project = {
+  slug: 'topten',
+  name: 'OWASP Top 10',
+  githubRepo: 'OWASP/Top10',
+  sourceBranch: 'master',
+  sourceFolder: '/2021/docs',
+  translationFolder: '/2021/docs',
+  tmpFolder: '/2021/docs/{language}/tmp',
+  filePattern: '*.md',
+  priorityFiles: [],
+  languages: {},
+} as unknown as ProjectConfig;
+
+function createMetadata(): TranslationMetadata {
+  const file = {
+    status: 'in-progress' as const,
+    lastUpdated: null,
+    lastContributor: null,
+    lastCommitSha: null,
+    prNumber: null,
+    prUrl: null,
+    wordCount: 10,
+    machineTranslated: true,
+    humanReviewed: false,
+  };
+
+  return {
+    version: '1.0',
+    language: 'es-ES',
+    languageName: 'Spanish',
+    direction: 'ltr',
+    project: 'topten',
+    coordinator: 'admin',
+    initialized: '2025-01-01T00:00:00.000Z',
+    lastUpdated: '2025-01-01T00:00:00.000Z',
+    files: {
+      'A01.md': { ...file },
+      'A02.md': { ...file },
+      'A03.md': { ...file, sourceCommitSha: 'head', outdated: true },
+    },
+    stats: {
+      totalFiles: 3,
+      completed: 0,
+      inProgress: 3,
+      notStarted: 0,
+      percentComplete: 0,
+      totalWords: 30,
+      translatedWords: 0,
+      contributors: [],
+    },
+    meta: {
+      machineTranslationService: 'DeepL',
+      machineTranslationDate: '2025-01-01T00:00:00.000Z',
+      sourceCommitSha: 'base',
+      notes: '',
+    },
+  };
+}
+
+function encode(content: string) {
+  return { data: { type: 'file', sha: 'blob', content: Buffer.from(content).toString('base64') } };
+}
+
+describe('Source Drift', () => {
+  let mockGitHubClient: Record<string, jest.Mock>;
+  const client = () => mockGitHubClient as unknown as GitHubClient;
+  let files: Record<string, string>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env.HIVEWRITE_DATA_DIR = '/nonexistent/hivewrite-data';
+
+    files = {
+      '/2021/docs/es-ES/translation.json@translations/es-ES': JSON.stringify(createMetadata()),
+      '/2021/docs/A01.md@base': '# Overview\n\nOld paragraph.\n\nKept paragraph.',
+      '/2021/docs/A01.md@head': '# Overview\n\nNew paragraph.\n\nKept paragraph.',
+      '/2021/docs/es-ES/tmp/A01.md@translations/es-ES':
+        '# Resumen\n\nPárrafo antiguo.\n\nPárrafo conservado.',
+    };
+
+    mockGitHubClient = {
+      getBranch: jest.fn().mockResolvedValue({ data: { commit: { sha: 'head' } } }),
+      compareCommits: jest.fn().mockResolvedValue({
+        data: { files: [{ filename: '2021/docs/A01.md' }, { filename: 'README.md' }] },
+      }),
+      getFileContent: jest.fn(async (_owner: string, _repo: string, path: string, ref: string) => {
+        // translation.json is read again at the branch head when it is saved
+        const content = files[`${path}@${ref === 'branch-head' ? 'translations/es-ES' : ref}`];
+        if (content === undefined) {
+          throw { status: 404 };
+        }
+        return encode(content);
+      }),
+      commitFiles: mockCommitFiles({ sha: 'commit' }),
+    };
+  });
+
+  afterEach(() => {
+    delete process.env.HIVEWRITE_DATA_DIR;
+  });
+
+  describe('getFileSourceCommit', () => {
+    it('should prefer the file commit over the language commit', () => {
+      const metadata = createMetadata();
+      expect(getFileSourceCommit(metadata, 'A01.md')).toBe('base');
+      expect(getFileSourceCommit(metadata, 'A03.md')).toBe('head');
+    });
+  });
+
+  describe('detectSourceDrift', () => {
+    it('should mark files changed since their base commit as outdated', async () => {
+      const report = await detectSourceDrift(client(), project, 'es-ES');
+
+      expect(report).toEqual({ headSha: 'head', outdated: ['A01.md'], translated: [], errors: [] });
+      expect(mockGitHubClient.compareCommits).toHaveBeenCalledTimes(1);
+      expect(mockGitHubClient.compareCommits).toHaveBeenCalledWith('OWASP', 'Top10', 'base', 'head');
+
+      expect(mockGitHubClient.commitFiles).toHaveBeenCalledTimes(1);
+      const [, , branch, committed] = mockGitHubClient.commitFiles.mock.calls[0];
+      const written = await getCommittedFiles(committed);
+      expect(branch).toBe('translations/es-ES');
+      expect(written).toHaveLength(1);
+      expect(written[0].path).toBe('/2021/docs/es-ES/translation.json');
+
+      const saved = JSON.parse(written[0].content as string) as TranslationMetadata;
+      expect(saved.files['A01.md'].outdated).toBe(true);
+      expect(saved.files['A02.md'].outdated).toBeUndefined();
+      // Already based on head, so no longer outdated
+      expect(saved.files['A03.md'].outdated).toBe(false);
+    });
+
+    it('should compare blob SHAs when the comparison lists too many files', async () => {
+      mockGitHubClient.compareCommits.mockResolvedValue({
+        data: { files: Array.from({ length: 300 }, (_, i) => ({ filename: `assets/${i}.png` })) },
+      });
+      const trees: Record<string, Record<string, string>> = {
+        base: { '2021/docs/A01.md': 'a01-old', '2021/docs/A02.md': 'a02' },
+        head: { '2021/docs/A01.md': 'a01-new', '2021/docs/A02.md': 'a02' },
+      };
+      mockGitHubClient.getTree = jest.fn(async (_owner: string, _repo: string, sha: string) => ({
+        data: {
+          truncated: false,
+          tree: Object.entries(trees[sha]).map(([path, blob]) => ({ type: 'blob', path, sha: blob })),
+        },
+      }));
+
+      const report = await detectSourceDrift(client(), project, 'es-ES');
+
+      expect(report.outdated).toEqual(['A01.md']);
+      expect(mockGitHubClient.getTree).toHaveBeenCalledWith('OWASP', 'Top10', 'base', true);
+      expect(mockGitHubClient.getTree).toHaveBeenCalledWith('OWASP', 'Top10', 'head', true);
+    });
+
+    it('should not commit metadata when nothing changed', async () => {
+      const metadata = createMetadata();
+      metadata.files['A03.md'].outdated = false;
+      metadata.files['A01.md'].outdated = true;
+      files['/2021/docs/es-ES/translation.json@translations/es-ES'] = JSON.stringify(metadata);
+
+      await detectSourceDrift(client(), project, 'es-ES');
+      expect(mockGitHubClient.commitFiles).not.toHaveBeenCalled();
+    });
+
+    it('should only machine-translate changed paragraphs', async () => {
+      const translateMarkdown = jest.fn().mockResolvedValue('translated');
+      (getTranslationService as jest.Mock).mockReturnValue({ translateMarkdown });
+
+      const report = await detectSourceDrift(client(), project, 'es-ES', {
+        translateChanges: true,
+      });
+
+      expect(report.translated).toEqual(['A01.md']);
+
+      const [content, language, options] = translateMarkdown.mock.calls[0];
+      expect(content).toBe(files['/2021/docs/A01.md@head']);
+      expect(language).toBe('es-ES');
+      expect(options.memory('Overview')).toBe('Resumen');
+      expect(options.memory('Kept paragraph.')).toBe('Párrafo conservado.');
+      expect(options.memory('New paragraph.')).toBeUndefined();
+      expect(options.glossary).toEqual([]);
+
+      // Refreshed machine translation and metadata in one commit
+      expect(mockGitHubClient.commitFiles).toHaveBeenCalledTimes(1);
+      const [, , branch, committed] = mockGitHubClient.commitFiles.mock.calls[0];
+      const written = await getCommittedFiles(committed);
+      expect(branch).toBe('translations/es-ES');
+      expect(written.map((file: { path: string }) => file.path)).toEqual([
+        '/2021/docs/es-ES/tmp/A01.md',
+        '/2021/docs/es-ES/translation.json',
+      ]);
+      expect(written[0].content).toBe('translated');
+    });
+
+    it('should report translation failures per file', async () => {
+      (getTranslationService as jest.Mock).mockReturnValue({
+        translateMarkdown: jest.fn().mockRejectedValue(new Error('quota exceeded')),
+      });
+
+      const report = await detectSourceDrift(client(), project, 'es-ES', {
+        translateChanges: true,
+      });
+
+      expect(report.translated).toEqual([]);
+      expect(report.errors).toEqual(['Failed to translate changes in A01.md: quota exceeded']);
+    });
+  });
+
+  describe('getSourceDrift', () => {
+    it('should diff the source between the base commit and head', async () => {
+      const drift = await getSourceDrift(client(), project, 'es-ES', 'A01.md');
+
+      expect(drift.baseSha).toBe('base');
+      expect(drift.headSha).toBe('head');
+      expect(drift.sections).toEqual([
+        {
+          heading: 'Overview',
+          status: 'changed',
+          changes: [
+            { type: 'removed', source: 'Old paragraph.' },
+            { type: 'added', source: 'New paragraph.' },
+          ],
+        },
+      ]);
+    });
+
+    it('should treat a file missing at the base commit as added', async () => {
+      const drift = await getSourceDrift(client(), project, 'es-ES', 'A02.md');
+      expect(drift.sections).toEqual([]);
+
+      files['/2021/docs/A02.md@head'] = '# New\n\nText.';
+      const added = await getSourceDrift(client(), project, 'es-ES', 'A02.md');
+      expect(added.sections).toEqual([
+        { heading: 'New', status: 'added', changes: [{ type: 'added', source: 'Text.' }] },
+      ]);
+    });
+  });
+
+  describe('diffSourceSections', () => {
+    it('should report unchanged sections', () => {
+      expect(diffSourceSections('# A\n\nText.', '# A\n\nText.')).toEqual([
+        { heading: 'A', status: 'unchanged', changes: [] },
+      ]);
+    });
+
+    it('should ignore reflowed paragraphs', () => {
+      expect(diffSourceSections('# A\n\nOne two\nthree.', '# A\n\nOne two three.')[0].status).toBe(
+        'unchanged'
+      );
+    });
+
+    it('should place removed sections where they were', () => {
+      const base = '# A\n\nOne.\n\n# B\n\nTwo.\n\n# C\n\nThree.';
+      const head = '# A\n\nOne.\n\n# C\n\nThree.\n\n# D\n\nFour.';
+
+      expect(
+        diffSourceSections(base, head).map((section) => [section.heading, section.status])
+      ).toEqual([
+        ['A', 'unchanged'],
+        ['B', 'removed'],
+        ['C', 'unchanged'],
+        ['D', 'added'],
+      ]);
+    });
+
+    it('should list added and removed blocks within a section', () => {
+      const [section] = diffSourceSections(
+        '# A\n\nOne.\n\nTwo.\n\nThree.',
+        '# A\n\nOne.\n\nThree.\n\nFour.'
+      );
+
+      expect(section.changes).toEqual([
+        { type: 'removed', source: 'Two.' },
+        { type: 'added', source: 'Four.' },
+      ]);
+    });
+  });
+});
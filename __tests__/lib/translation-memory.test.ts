@@ -0,0 +1,189 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  normalizeSegment,
+  alignSegments,
+  loadTranslationMemory,
+  addToTranslationMemory,
+  findExactMatch,
+  findMatches,
+  findSegmentMatches,
+  getSimilarity,
+  type TranslationMemory,
+} from '@/lib/translation-memory';
+
+const origin = { project: 'top10', filename: 'A01.md', contributor: 'translator' };
+
+function createMemory(pairs: Array<[string, string]>): TranslationMemory {
+  const entries: TranslationMemory['entries'] = {};
+  for (const [source, target] of pairs) {
+    entries[normalizeSegment(source)] = {
+      source,
+      target,
+      ...origin,
+      updated: '2025-01-01T00:00:00.000Z',
+    };
+  }
+  return { version: '1.0', language: 'es-ES', entries };
+}
+
+describe('Translation Memory', () => {
+  let dataDir: string;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'hivewrite-tm-'));
+    process.env.HIVEWRITE_DATA_DIR = dataDir;
+  });
+
+  afterEach(() => {
+    delete process.env.HIVEWRITE_DATA_DIR;
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  describe('normalizeSegment', () => {
+    it('should collapse whitespace', () => {
+      expect(normalizeSegment('  Broken\n  Access   Control ')).toBe('Broken Access Control');
+    });
+  });
+
+  describe('alignSegments', () => {
+    it('should pair segments by position', () => {
+      const source = '# Overview\n\nAccess control enforces policy.\n\n```js\ncode();\n```';
+      const target = '# Resumen\n\nEl control de acceso aplica la política.\n\n```js\ncode();\n```';
+
+      expect(alignSegments(source, target)).toEqual([
+        { source: 'Overview', target: 'Resumen' },
+        {
+          source: 'Access control enforces policy.',
+          target: 'El control de acceso aplica la política.',
+        },
+      ]);
+    });
+
+    it('should skip untranslated segments', () => {
+      const source = '| ID | Name |\n|----|------|\n| CWE-79 | Cross-site Scripting |';
+      const target = '| ID | Nombre |\n|----|------|\n| CWE-79 | Secuencias de comandos en sitios cruzados |';
+
+      expect(alignSegments(source, target).map((pair) => pair.source)).toEqual([
+        'Name',
+        'Cross-site Scripting',
+      ]);
+    });
+
+    it('should not align files with a different structure', () => {
+      const source = '# Overview\n\nFirst paragraph.\n\nSecond paragraph.';
+      const target = '# Resumen\n\nPrimer párrafo. Segundo párrafo.';
+
+      expect(alignSegments(source, target)).toEqual([]);
+    });
+  });
+
+  describe('store', () => {
+    it('should return an empty memory for a new language', async () => {
+      const memory = await loadTranslationMemory('es-ES');
+      expect(memory.entries).toEqual({});
+    });
+
+    it('should persist pairs per language', async () => {
+      const stored = await addToTranslationMemory(
+        'es-ES',
+        [{ source: 'Access control', target: 'Control de acceso' }],
+        origin
+      );
+
+      expect(stored).toBe(1);
+
+      const memory = await loadTranslationMemory('es-ES');
+      expect(findExactMatch(memory, 'Access control')).toMatchObject({
+        target: 'Control de acceso',
+        project: 'top10',
+        filename: 'A01.md',
+      });
+
+      const other = await loadTranslationMemory('fr-FR');
+      expect(other.entries).toEqual({});
+    });
+
+    it('should replace older translations of the same segment', async () => {
+      await addToTranslationMemory(
+        'es-ES',
+        [{ source: 'Access control', target: 'Control de acceso' }],
+        origin
+      );
+      await addToTranslationMemory(
+        'es-ES',
+        [{ source: 'Access  control', target: 'Control del acceso' }],
+        { ...origin, project: 'asvs' }
+      );
+
+      const memory = await loadTranslationMemory('es-ES');
+      expect(Object.keys(memory.entries)).toHaveLength(1);
+      expect(findExactMatch(memory, 'Access control')?.target).toBe('Control del acceso');
+    });
+
+    it('should not lose concurrent updates', async () => {
+      await Promise.all([
+        addToTranslationMemory('es-ES', [{ source: 'One', target: 'Uno' }], origin),
+        addToTranslationMemory('es-ES', [{ source: 'Two', target: 'Dos' }], origin),
+      ]);
+
+      const memory = await loadTranslationMemory('es-ES');
+      expect(Object.keys(memory.entries).sort()).toEqual(['One', 'Two']);
+    });
+  });
+
+  describe('matching', () => {
+    const memory = createMemory([
+      [
+        'Verify that the application enforces access control rules on a trusted service layer.',
+        'Verifique que la aplicación aplica las reglas de control de acceso en una capa de servicio de confianza.',
+      ],
+      ['Broken Access Control', 'Pérdida de Control de Acceso'],
+    ]);
+
+    it('should score identical segments as 100', () => {
+      expect(getSimilarity('Broken Access Control', 'broken  access control')).toBe(100);
+    });
+
+    it('should return exact matches first', () => {
+      const matches = findMatches(memory, 'Broken Access Control');
+      expect(matches[0]).toMatchObject({
+        score: 100,
+        target: 'Pérdida de Control de Acceso',
+      });
+    });
+
+    it('should return fuzzy matches above the threshold', () => {
+      const matches = findMatches(
+        memory,
+        'Verify that the application enforces access control rules on a trusted server layer.'
+      );
+
+      expect(matches).toHaveLength(1);
+      expect(matches[0].score).toBeGreaterThanOrEqual(90);
+      expect(matches[0].score).toBeLessThan(100);
+    });
+
+    it('should ignore dissimilar segments', () => {
+      expect(findMatches(memory, 'Cryptographic Failures')).toEqual([]);
+    });
+
+    it('should respect minScore and limit', () => {
+      expect(findMatches(memory, 'Broken Access', { minScore: 50 })).toHaveLength(1);
+      expect(findMatches(memory, 'Broken Access', { minScore: 80 })).toEqual([]);
+      expect(findMatches(memory, 'Broken Access Control', { limit: 0 })).toEqual([]);
+    });
+
+    it('should list matches per segment of a file', () => {
+      const results = findSegmentMatches(
+        memory,
+        '# Broken Access Control\n\nA new paragraph.\n\n## Broken Access Control'
+      );
+
+      expect(results).toHaveLength(1);
+      expect(results[0].source).toBe('Broken Access Control');
+      expect(results[0].matches[0].score).toBe(100);
+    });
+  });
+});
@@ -3,9 +3,16 @@ import {
   updateFileMetadata,
   calculateStats,
   countWords,
+  getReviewState,
+  getNextReviewState,
+  applyReviewTransition,
+  saveTranslationMetadata,
+  requireTranslationMetadata,
+  ReviewStateError,
 } from '@/lib/translation-metadata';
 import { getProjectConfig } from '@/lib/config';
-import type { TranslationFileMetadata } from '@/types';
+import type { GitHubClient, CommitFileChange } from '@/lib/github';
+import type { TranslationFileMetadata, TranslationMetadata } from '@/types';
 
 describe('Translation Metadata', () => {
   const project = getProjectConfig('topten');
@@ -398,6 +405,192 @@ describe('Translation Metadata', () => {
     });
   });
 
+  describe('review workflow', () => {
+    const createMetadata = () =>
+      createInitialTranslationMetadata(
+        'topten',
+        project,
+        'es-ES',
+        'Spanish (Spain)',
+        'ltr',
+        'coordinator-user',
+        ['file1.md'],
+        'abc123'
+      );
+
+    it('should derive a review state for files saved before review states existed', () => {
+      const file = createMetadata().files['file1.md'];
+
+      expect(getReviewState(file)).toBeNull();
+      expect(getReviewState({ ...file, status: 'in-progress' })).toBe('draft');
+      expect(getReviewState({ ...file, status: 'complete' })).toBe('submitted');
+      expect(getReviewState({ ...file, status: 'complete', reviewState: 'approved' })).toBe(
+        'approved'
+      );
+    });
+
+    it('should move through the review states', () => {
+      expect(getNextReviewState(null, 'save')).toBe('draft');
+      expect(getNextReviewState('draft', 'submit')).toBe('submitted');
+      expect(getNextReviewState('submitted', 'start-review')).toBe('in-review');
+      expect(getNextReviewState('in-review', 'request-changes')).toBe('changes-requested');
+      expect(getNextReviewState('changes-requested', 'save')).toBe('changes-requested');
+      expect(getNextReviewState('changes-requested', 'submit')).toBe('submitted');
+      expect(getNextReviewState('in-review', 'approve')).toBe('approved');
+      expect(getNextReviewState('approved', 'merge')).toBe('merged');
+    });
+
+    it('should send files back to draft when their pull request is closed unmerged', () => {
+      expect(getNextReviewState('submitted', 'close')).toBe('draft');
+      expect(getNextReviewState('changes-requested', 'close')).toBe('draft');
+      expect(getNextReviewState('approved', 'close')).toBe('draft');
+      expect(() => getNextReviewState('merged', 'close')).toThrow(ReviewStateError);
+
+      let metadata = applyReviewTransition(createMetadata(), 'file1.md', 'submit', 'translator', {
+        prNumber: 12,
+      });
+      metadata = applyReviewTransition(metadata, 'file1.md', 'close', 'github', { prNumber: null });
+
+      expect(metadata.files['file1.md'].status).toBe('in-progress');
+      expect(metadata.files['file1.md'].prNumber).toBeNull();
+      expect(metadata.stats.inProgress).toBe(1);
+      expect(metadata.stats.completed).toBe(0);
+    });
+
+    it('should send approved files back for review when they are edited', () => {
+      expect(getNextReviewState('approved', 'save')).toBe('submitted');
+    });
+
+    it('should reject transitions that are not allowed', () => {
+      expect(() => getNextReviewState('draft', 'approve')).toThrow(ReviewStateError);
+      expect(() => getNextReviewState('draft', 'approve')).toThrow(
+        'Cannot approve a file that is draft'
+      );
+      expect(() => getNextReviewState(null, 'merge')).toThrow(ReviewStateError);
+    });
+
+    it('should only mark approved files as human reviewed', () => {
+      let metadata = applyReviewTransition(createMetadata(), 'file1.md', 'submit', 'translator');
+      expect(metadata.files['file1.md'].status).toBe('complete');
+      expect(metadata.files['file1.md'].humanReviewed).toBe(false);
+
+      metadata = applyReviewTransition(metadata, 'file1.md', 'approve', 'reviewer', {}, 'Looks good');
+      expect(metadata.files['file1.md'].humanReviewed).toBe(true);
+      expect(metadata.files['file1.md'].reviewer).toBe('reviewer');
+
+      metadata = applyReviewTransition(metadata, 'file1.md', 'merge', 'github');
+      expect(metadata.files['file1.md'].reviewState).toBe('merged');
+      expect(metadata.files['file1.md'].humanReviewed).toBe(true);
+    });
+
+    it('should record review history', () => {
+      let metadata = applyReviewTransition(createMetadata(), 'file1.md', 'submit', 'translator');
+      metadata = applyReviewTransition(
+        metadata,
+        'file1.md',
+        'request-changes',
+        'reviewer',
+        {},
+        'Fix the headings'
+      );
+
+      const file = metadata.files['file1.md'];
+      expect(file.status).toBe('in-progress');
+      expect(file.reviewHistory).toEqual([
+        expect.objectContaining({ state: 'submitted', actor: 'translator' }),
+        expect.objectContaining({
+          state: 'changes-requested',
+          actor: 'reviewer',
+          comment: 'Fix the headings',
+        }),
+      ]);
+    });
+  });
+
+  describe('saveTranslationMetadata', () => {
+    const createMetadata = (files: string[]) =>
+      createInitialTranslationMetadata(
+        'topten',
+        project,
+        'es-ES',
+        'Spanish (Spain)',
+        'ltr',
+        'coordinator-user',
+        files,
+        'abc123'
+      );
+
+    it('should apply the change again on top of metadata written in the meantime', async () => {
+      const heads: Record<string, TranslationMetadata> = {
+        'head-1': createMetadata(['A01.md', 'A02.md']),
+        'head-2': updateFileMetadata(createMetadata(['A01.md', 'A02.md']), 'A02.md', {
+          lastContributor: 'someone-else',
+        }),
+      };
+      const written: CommitFileChange[][] = [];
+      const client = {
+        getFileContent: jest.fn(async (_owner: string, _repo: string, _path: string, ref: string) => ({
+          data: {
+            type: 'file',
+            content: Buffer.from(JSON.stringify(heads[ref])).toString('base64'),
+          },
+        })),
+        // The branch moves once before the commit lands
+        commitFiles: jest.fn(
+          async (
+            _owner: string,
+            _repo: string,
+            _branch: string,
+            files: (parentSha: string) => Promise<CommitFileChange[]>
+          ) => {
+            written.push(await files('head-1'), await files('head-2'));
+            return { sha: 'commit' };
+          }
+        ),
+      };
+
+      const saved = await saveTranslationMetadata(
+        client as unknown as GitHubClient,
+        'OWASP',
+        'Top10',
+        project,
+        'es-ES',
+        (metadata) =>
+          updateFileMetadata(requireTranslationMetadata(metadata), 'A01.md', { lastContributor: 'translator' }),
+        'translations/es-ES',
+        'Save'
+      );
+
+      const committed = JSON.parse(written[1][0].content as string) as TranslationMetadata;
+      expect(committed.files['A01.md'].lastContributor).toBe('translator');
+      expect(committed.files['A02.md'].lastContributor).toBe('someone-else');
+      expect(saved).toEqual(committed);
+    });
+
+    it('should fail when there is no metadata to update', async () => {
+      const client = {
+        getFileContent: jest.fn().mockRejectedValue({ status: 404 }),
+        commitFiles: jest.fn(
+          async (_owner: string, _repo: string, _branch: string, files: (parentSha: string) => Promise<unknown>) =>
+            files('head')
+        ),
+      };
+
+      await expect(
+        saveTranslationMetadata(
+          client as unknown as GitHubClient,
+          'OWASP',
+          'Top10',
+          project,
+          'es-ES',
+          requireTranslationMetadata,
+          'translations/es-ES',
+          'Save'
+        )
+      ).rejects.toThrow('Translation metadata not found');
+    });
+  });
+
   describe('countWords', () => {
     it('should count words in simple text', () => {
       const count = countWords('Hello world this is a test');
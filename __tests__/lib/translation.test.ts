@@ -3,6 +3,13 @@ import {
   TranslationError,
   getTranslationService,
 } from '@/lib/translation';
+import {
+  PseudoProvider,
+  resolveProviderConfig,
+  createTranslationProvider,
+} from '@/lib/translation-providers';
+import { pseudoLocalize } from '@/lib/translation-providers/pseudo';
+import type { ProjectConfig } from '@/types';
 
 // Mock deepl-node
 jest.mock('deepl-node', () => {
@@ -10,7 +17,12 @@ jest.mock('deepl-node', () => {
     Translator: jest.fn().mockImplementation(() => ({
       translateText: jest.fn(),
       getUsage: jest.fn(),
+      listGlossaries: jest.fn(),
+      createGlossary: jest.fn(),
+      deleteGlossary: jest.fn(),
     })),
+    GlossaryEntries: jest.fn().mockImplementation((options) => options),
+    GlossaryNotFoundError: class GlossaryNotFoundError extends Error {},
   };
 });
 
@@ -21,7 +33,7 @@ describe('TranslationService', () => {
   beforeEach(() => {
     jest.clearAllMocks();
     service = new TranslationService();
-    mockTranslator = (service as any).translator;
+    mockTranslator = (service as any).provider.translator;
   });
 
   describe('constructor', () => {
@@ -145,12 +157,16 @@ describe('TranslationService', () => {
 
   describe('translateMarkdown', () => {
     it('should translate simple markdown', async () => {
-      mockTranslator.translateText.mockResolvedValue({
-        text: '# Hola mundo',
-      });
+      mockTranslator.translateText.mockResolvedValue([{ text: 'Hola mundo' }]);
 
       const result = await service.translateMarkdown('# Hello world', 'es-ES');
-      expect(result).toContain('Hola mundo');
+      expect(result).toBe('# Hola mundo');
+      expect(mockTranslator.translateText).toHaveBeenCalledWith(
+        ['Hello world'],
+        'en',
+        'ES',
+        { tagHandling: 'xml' }
+      );
     });
 
     it('should preserve code blocks', async () => {
@@ -164,23 +180,40 @@ const hello = "world";
 Some text
 `;
 
-      mockTranslator.translateText
-        .mockResolvedValueOnce({ text: '# Hola\n' })
-        .mockResolvedValueOnce({ text: '\nAlgún texto\n' });
+      mockTranslator.translateText.mockResolvedValue([
+        { text: 'Hola' },
+        { text: 'Algún texto' },
+      ]);
 
       const result = await service.translateMarkdown(markdown, 'es-ES');
 
       // Should contain the code block unchanged
       expect(result).toContain('const hello = "world"');
       expect(result).toContain('```javascript');
+      expect(result).toBe(markdown.replace('Hello', 'Hola').replace('Some text', 'Algún texto'));
     });
 
     it('should skip URLs', async () => {
-      const markdown = 'Visit https://example.com for more info';
+      const markdown = 'https://example.com';
 
-      // URL section should be skipped
+      // URL-only paragraphs should not reach the provider
       const result = await service.translateMarkdown(markdown, 'es-ES');
-      expect(mockTranslator.translateText).toHaveBeenCalled();
+      expect(result).toBe(markdown);
+      expect(mockTranslator.translateText).not.toHaveBeenCalled();
+    });
+
+    it('should preserve inline code and link targets', async () => {
+      const markdown =
+        'Avoid `eval()` and read [CWE-95](https://cwe.mitre.org/data/definitions/95.html).';
+
+      mockTranslator.translateText.mockResolvedValue([
+        { text: 'Evite <x id="1"/> y lea <g id="2">CWE-95</g>.' },
+      ]);
+
+      const result = await service.translateMarkdown(markdown, 'es-ES');
+      expect(result).toBe(
+        'Evite `eval()` y lea [CWE-95](https://cwe.mitre.org/data/definitions/95.html).'
+      );
     });
 
     it('should handle multiple sections', async () => {
@@ -190,13 +223,162 @@ First paragraph.
 
 Second paragraph.`;
 
-      mockTranslator.translateText
-        .mockResolvedValueOnce({ text: '# Título\n' })
-        .mockResolvedValueOnce({ text: '\nPrimer párrafo.\n' })
-        .mockResolvedValueOnce({ text: '\nSegundo párrafo.' });
+      mockTranslator.translateText.mockResolvedValue([
+        { text: 'Título' },
+        { text: 'Primer párrafo.' },
+        { text: 'Segundo párrafo.' },
+      ]);
 
       const result = await service.translateMarkdown(markdown, 'es-ES');
-      expect(result).toContain('Título');
+      expect(result).toBe(`# Título
+
+Primer párrafo.
+
+Segundo párrafo.`);
+    });
+
+    it('should reject mismatched batch results', async () => {
+      mockTranslator.translateText.mockResolvedValue([{ text: 'Título' }]);
+
+      await expect(
+        service.translateMarkdown('# Title\n\nFirst paragraph.', 'es-ES')
+      ).rejects.toThrow('Expected 2 translations but received 1');
+    });
+
+    it('should reuse translation memory before calling the provider', async () => {
+      const markdown = `# Broken Access Control
+
+Access control enforces policy.`;
+
+      mockTranslator.translateText.mockResolvedValue([
+        { text: 'El control de acceso aplica la política.' },
+      ]);
+
+      const memory = (source: string) =>
+        source === 'Broken Access Control' ? 'Pérdida de Control de Acceso' : undefined;
+
+      const result = await service.translateMarkdown(markdown, 'es-ES', { memory });
+      expect(result).toBe(`# Pérdida de Control de Acceso
+
+El control de acceso aplica la política.`);
+      expect(mockTranslator.translateText).toHaveBeenCalledWith(
+        ['Access control enforces policy.'],
+        'en',
+        'ES',
+        { tagHandling: 'xml' }
+      );
+    });
+
+    it('should not call the provider when memory covers every segment', async () => {
+      const result = await service.translateMarkdown('# Hello', 'es-ES', {
+        memory: () => 'Hola',
+      });
+
+      expect(result).toBe('# Hola');
+      expect(mockTranslator.translateText).not.toHaveBeenCalled();
+    });
+
+    it('should translate with a DeepL glossary', async () => {
+      mockTranslator.listGlossaries.mockResolvedValue([
+        { name: 'hivewrite-owasp-top-10-en-es-0123456789ab', glossaryId: 'old', ready: true },
+      ]);
+      mockTranslator.createGlossary.mockResolvedValue({ glossaryId: 'glossary-1' });
+      mockTranslator.deleteGlossary.mockResolvedValue(undefined);
+      mockTranslator.translateText.mockResolvedValue([
+        { text: 'Pérdida de Control de Acceso' },
+      ]);
+
+      const glossary = [
+        { source: 'Broken Access Control', target: 'Pérdida de Control de Acceso' },
+      ];
+
+      const options = { glossary, project: 'owasp-top-10' };
+      await service.translateMarkdown('# Broken Access Control', 'es-ES', options);
+      await service.translateMarkdown('# Broken Access Control', 'es-ES', options);
+
+      expect(mockTranslator.createGlossary).toHaveBeenCalledTimes(1);
+      expect(mockTranslator.createGlossary).toHaveBeenCalledWith(
+        expect.stringMatching(/^hivewrite-owasp-top-10-en-es-[0-9a-f]{12}$/),
+        'en',
+        'es',
+        { entries: { 'Broken Access Control': 'Pérdida de Control de Acceso' } }
+      );
+      expect(mockTranslator.deleteGlossary).toHaveBeenCalledWith(
+        expect.objectContaining({ glossaryId: 'old' })
+      );
+      expect(mockTranslator.translateText).toHaveBeenLastCalledWith(
+        ['Broken Access Control'],
+        'en',
+        'ES',
+        { tagHandling: 'xml', glossary: 'glossary-1' }
+      );
+    });
+
+    it('should keep the glossaries of other projects', async () => {
+      const glossaries: Array<{ name: string; glossaryId: string; ready: boolean }> = [];
+      mockTranslator.listGlossaries.mockImplementation(async () => [...glossaries]);
+      mockTranslator.createGlossary.mockImplementation(async (name: string) => {
+        const glossary = { name, glossaryId: `glossary-${glossaries.length + 1}`, ready: true };
+        glossaries.push(glossary);
+        return glossary;
+      });
+      mockTranslator.deleteGlossary.mockResolvedValue(undefined);
+      mockTranslator.translateText.mockResolvedValue([{ text: 'Hola' }]);
+
+      await service.translateMarkdown('# Hello', 'es-ES', {
+        glossary: [{ source: 'Hello', target: 'Hola' }],
+        project: 'owasp-top-10',
+      });
+      await service.translateMarkdown('# Hello', 'es-ES', {
+        glossary: [{ source: 'Hello', target: 'Buenas' }],
+        project: 'owasp-top-10-asvs',
+      });
+
+      expect(mockTranslator.createGlossary).toHaveBeenCalledTimes(2);
+      expect(mockTranslator.createGlossary.mock.calls[1][0]).toMatch(
+        /^hivewrite-owasp-top-10-asvs-en-es-[0-9a-f]{12}$/
+      );
+      expect(mockTranslator.deleteGlossary).not.toHaveBeenCalled();
+    });
+
+    it('should recreate a glossary that was deleted on DeepL', async () => {
+      const { GlossaryNotFoundError } = jest.requireMock('deepl-node');
+      mockTranslator.listGlossaries.mockResolvedValue([]);
+      mockTranslator.createGlossary
+        .mockResolvedValueOnce({ glossaryId: 'glossary-1' })
+        .mockResolvedValueOnce({ glossaryId: 'glossary-2' });
+      mockTranslator.translateText
+        .mockResolvedValueOnce([{ text: 'Hola' }])
+        .mockRejectedValueOnce(new GlossaryNotFoundError('Glossary not found'))
+        .mockResolvedValueOnce([{ text: 'Hola' }]);
+
+      const options = { glossary: [{ source: 'Hello', target: 'Hola' }], project: 'owasp-top-10' };
+      await service.translateMarkdown('# Hello', 'es-ES', options);
+      const result = await service.translateMarkdown('# Hello', 'es-ES', options);
+
+      expect(result).toBe('# Hola');
+      expect(mockTranslator.createGlossary).toHaveBeenCalledTimes(2);
+      expect(mockTranslator.translateText).toHaveBeenLastCalledWith(['Hello'], 'en', 'ES', {
+        tagHandling: 'xml',
+        glossary: 'glossary-2',
+      });
+    });
+
+    it('should translate without a glossary DeepL rejects', async () => {
+      mockTranslator.listGlossaries.mockResolvedValue([]);
+      mockTranslator.createGlossary.mockRejectedValue(new Error('Unsupported language pair'));
+      mockTranslator.translateText.mockResolvedValue([{ text: 'Hola' }]);
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+      const result = await service.translateMarkdown('# Hello', 'es-ES', {
+        glossary: [{ source: 'Hello', target: 'Hola' }],
+      });
+
+      expect(result).toBe('# Hola');
+      expect(mockTranslator.translateText).toHaveBeenCalledWith(['Hello'], 'en', 'ES', {
+        tagHandling: 'xml',
+      });
+      warn.mockRestore();
     });
 
     it('should handle translation errors', async () => {
@@ -258,7 +440,7 @@ Second paragraph.`;
     });
   });
 
-  describe('markdown section splitting', () => {
+  describe('segment skipping', () => {
     it('should identify code blocks correctly', () => {
       const service = new TranslationService();
       const shouldSkip = (service as any).shouldSkipTranslation;
@@ -332,6 +514,19 @@ Second paragraph.`;
       const service2 = getTranslationService();
       expect(service1).toBe(service2);
     });
+
+    it('should return separate instances per provider', () => {
+      const project = {
+        machineTranslation: { provider: 'pseudo' },
+      } as ProjectConfig;
+
+      const deeplService = getTranslationService();
+      const pseudoService = getTranslationService(project, 'es-ES');
+
+      expect(pseudoService).not.toBe(deeplService);
+      expect(pseudoService.providerId).toBe('pseudo');
+      expect(getTranslationService(project, 'es-ES')).toBe(pseudoService);
+    });
   });
 
   describe('TranslationError', () => {
@@ -351,6 +546,91 @@ Second paragraph.`;
   });
 });
 
+describe('Machine translation providers', () => {
+  const baseProject = {
+    slug: 'test',
+    machineTranslation: {
+      provider: 'libretranslate',
+      endpoint: 'https://libretranslate.example.org',
+      languageOverrides: {
+        'he-IL': { provider: 'openai', model: 'gpt-4o' },
+      },
+    },
+  } as unknown as ProjectConfig;
+
+  describe('resolveProviderConfig', () => {
+    it('should default to DeepL without project config', () => {
+      expect(resolveProviderConfig()).toEqual({ provider: 'deepl' });
+      expect(resolveProviderConfig({} as ProjectConfig, 'es-ES')).toEqual({
+        provider: 'deepl',
+      });
+    });
+
+    it('should use the project provider', () => {
+      expect(resolveProviderConfig(baseProject, 'es-ES')).toEqual({
+        provider: 'libretranslate',
+        endpoint: 'https://libretranslate.example.org',
+        model: undefined,
+      });
+    });
+
+    it('should apply per-language overrides', () => {
+      expect(resolveProviderConfig(baseProject, 'he-IL')).toEqual({
+        provider: 'openai',
+        model: 'gpt-4o',
+      });
+    });
+  });
+
+  describe('createTranslationProvider', () => {
+    it('should create each provider', () => {
+      expect(createTranslationProvider({ provider: 'deepl' }).id).toBe('deepl');
+      expect(createTranslationProvider({ provider: 'openai' }).id).toBe('openai');
+      expect(createTranslationProvider({ provider: 'libretranslate' }).id).toBe(
+        'libretranslate'
+      );
+      expect(createTranslationProvider({ provider: 'pseudo' }).id).toBe('pseudo');
+    });
+
+    it('should reject unknown providers', () => {
+      expect(() =>
+        createTranslationProvider({ provider: 'babelfish' } as any)
+      ).toThrow(TranslationError);
+    });
+
+    it('should report LibreTranslate unavailable without endpoint', () => {
+      const provider = createTranslationProvider({ provider: 'libretranslate' });
+      expect(provider.isAvailable()).toBe(false);
+    });
+  });
+
+  describe('PseudoProvider', () => {
+    it('should translate deterministically', async () => {
+      const service = new TranslationService(new PseudoProvider());
+
+      const first = await service.translateText('Broken Access Control', 'ar-SA');
+      const second = await service.translateText('Broken Access Control', 'ar-SA');
+
+      expect(first).toBe('[ar-SA] Brókéñ Áççéss Çóñtról');
+      expect(second).toBe(first);
+      expect(service.providerName).toBe('Pseudo-localization');
+    });
+
+    it('should preserve tags and surrounding whitespace', () => {
+      expect(pseudoLocalize('  Use <x id="1"/> here\n', 'es-ES')).toBe(
+        '  [es-ES] Úsé <x id="1"/> héré\n'
+      );
+      expect(pseudoLocalize('   ', 'es-ES')).toBe('   ');
+    });
+
+    it('should be available without credentials', () => {
+      const provider = new PseudoProvider();
+      expect(provider.isAvailable()).toBe(true);
+      expect(provider.supportsLanguage()).toBe(true);
+    });
+  });
+});
+
 describe('TranslationService without API key', () => {
   let originalKey: string | undefined;
 
@@ -0,0 +1,81 @@
+import { getRestorableVersions, getDraftsUrl } from '@/lib/hooks/useAutosave';
+import type { AutosaveData, DraftRevision, DraftVersion } from '@/types';
+
+const github: DraftVersion = {
+  source: 'github',
+  content: 'Saved on GitHub',
+  savedAt: '2025-01-01T10:00:00.000Z',
+};
+
+function createRevision(overrides: Partial<DraftRevision> = {}): DraftRevision {
+  return {
+    id: 3,
+    hash: 'server-hash',
+    source: 'autosave',
+    wordCount: 3,
+    createdAt: '2025-01-01T11:00:00.000Z',
+    content: 'Saved on hub',
+    ...overrides,
+  };
+}
+
+function createLocal(overrides: Partial<AutosaveData> = {}): AutosaveData {
+  return {
+    content: 'Saved in browser',
+    timestamp: '2025-01-01T12:00:00.000Z',
+    fileHash: 'local-hash',
+    ...overrides,
+  };
+}
+
+describe('useAutosave helpers', () => {
+  describe('getRestorableVersions', () => {
+    it('should offer newer browser and hub drafts, then the GitHub version', () => {
+      expect(
+        getRestorableVersions(github, createLocal(), createRevision()).map((version) => version.source)
+      ).toEqual(['server', 'local', 'github']);
+    });
+
+    it('should offer the browser copy once when the hub has the same draft', () => {
+      const versions = getRestorableVersions(
+        github,
+        createLocal({ fileHash: 'server-hash' }),
+        createRevision()
+      );
+
+      expect(versions.map((version) => version.source)).toEqual(['server', 'github']);
+    });
+
+    it('should compare contents when the browser could not hash its copy', () => {
+      const versions = getRestorableVersions(
+        github,
+        createLocal({ fileHash: '', content: 'Saved on hub' }),
+        createRevision()
+      );
+
+      expect(versions.map((version) => version.source)).toEqual(['server', 'github']);
+    });
+
+    it('should offer nothing when GitHub is up to date', () => {
+      expect(getRestorableVersions(github, null, null)).toEqual([]);
+      expect(
+        getRestorableVersions(github, createLocal({ content: github.content }), createRevision({ content: github.content }))
+      ).toEqual([]);
+      expect(
+        getRestorableVersions(
+          github,
+          createLocal({ timestamp: '2025-01-01T09:00:00.000Z' }),
+          createRevision({ createdAt: '2025-01-01T09:00:00.000Z' })
+        )
+      ).toEqual([]);
+    });
+  });
+
+  describe('getDraftsUrl', () => {
+    it('should keep the folders of the file path', () => {
+      expect(getDraftsUrl({ project: 'asvs', language: 'es-ES', filename: 'V1 Arch/V1.1.md' })).toBe(
+        '/api/asvs/translate/es-ES/drafts/V1%20Arch/V1.1.md'
+      );
+    });
+  });
+});
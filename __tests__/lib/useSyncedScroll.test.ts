@@ -0,0 +1,140 @@
+import { renderHook } from '@testing-library/react';
+import { useSyncedScroll, getScrollRatio, toScrollableElement } from '@/lib/hooks/useSyncedScroll';
+import type { ScrollableEditor } from '@/lib/hooks/useSyncedScroll';
+
+function createEditor(scrollHeight: number, height = 100) {
+  let scrollTop = 0;
+  const scrollListeners: Array<(event: { scrollTopChanged: boolean }) => void> = [];
+  const disposeListeners: Array<() => void> = [];
+
+  const editor: ScrollableEditor & { dispose: () => void } = {
+    getScrollTop: () => scrollTop,
+    getScrollHeight: () => scrollHeight,
+    getLayoutInfo: () => ({ height }),
+    setScrollTop: jest.fn((top: number) => {
+      scrollTop = top;
+      scrollListeners.forEach((listener) => listener({ scrollTopChanged: true }));
+    }),
+    onDidScrollChange: (listener) => scrollListeners.push(listener),
+    onDidDispose: (listener) => disposeListeners.push(listener),
+    dispose: () => disposeListeners.forEach((listener) => listener()),
+  };
+
+  return editor;
+}
+
+describe('useSyncedScroll', () => {
+  describe('getScrollRatio', () => {
+    it('should report how far down an editor is scrolled', () => {
+      const editor = createEditor(500);
+
+      expect(getScrollRatio(editor)).toBe(0);
+      editor.setScrollTop(200);
+      expect(getScrollRatio(editor)).toBe(0.5);
+      expect(getScrollRatio(createEditor(50))).toBe(0);
+    });
+  });
+
+  it('should scroll the other editors proportionally', () => {
+    const { result } = renderHook(() => useSyncedScroll(true));
+    const english = createEditor(500);
+    const translation = createEditor(900);
+    const machine = createEditor(700);
+
+    result.current('english', english);
+    result.current('translation', translation);
+    result.current('machine', machine);
+
+    english.setScrollTop(100);
+
+    expect(translation.getScrollTop()).toBe(200);
+    expect(machine.getScrollTop()).toBe(150);
+    // The editors that followed do not scroll the others back
+    expect(english.setScrollTop).toHaveBeenCalledTimes(1);
+  });
+
+  it('should leave the editors alone when disabled', () => {
+    const { result, rerender } = renderHook(({ enabled }) => useSyncedScroll(enabled), {
+      initialProps: { enabled: true },
+    });
+    const english = createEditor(500);
+    const translation = createEditor(900);
+
+    result.current('english', english);
+    result.current('translation', translation);
+    rerender({ enabled: false });
+
+    english.setScrollTop(100);
+
+    expect(translation.getScrollTop()).toBe(0);
+  });
+
+  it('should forget disposed editors', () => {
+    const { result } = renderHook(() => useSyncedScroll(true));
+    const english = createEditor(500);
+    const machine = createEditor(700);
+
+    result.current('english', english);
+    result.current('machine', machine);
+    machine.dispose();
+
+    english.setScrollTop(100);
+
+    expect(machine.setScrollTop).not.toHaveBeenCalled();
+  });
+
+  describe('toScrollableElement', () => {
+    function createElement(scrollHeight: number, clientHeight = 100) {
+      const element = document.createElement('div');
+      let scrollTop = 0;
+      Object.defineProperty(element, 'scrollTop', {
+        get: () => scrollTop,
+        set: (top: number) => {
+          scrollTop = top;
+        },
+      });
+      Object.defineProperty(element, 'scrollHeight', { value: scrollHeight });
+      Object.defineProperty(element, 'clientHeight', { value: clientHeight });
+      return element;
+    }
+
+    it('should scroll the editors with an element and the element with the editors', () => {
+      const { result } = renderHook(() => useSyncedScroll(true));
+      const english = createEditor(500);
+      const element = createElement(300);
+      const preview = toScrollableElement(element);
+
+      result.current('english', english);
+      result.current('preview', preview);
+
+      english.setScrollTop(200);
+      expect(element.scrollTop).toBe(100);
+
+      // The scroll event for the change above is not passed back to the editors
+      element.dispatchEvent(new Event('scroll'));
+      expect(english.setScrollTop).toHaveBeenCalledTimes(1);
+
+      element.scrollTop = 200;
+      element.dispatchEvent(new Event('scroll'));
+      expect(english.getScrollTop()).toBe(400);
+    });
+
+    it('should stop following the editors once disposed', () => {
+      const { result } = renderHook(() => useSyncedScroll(true));
+      const english = createEditor(500);
+      const element = createElement(300);
+      const preview = toScrollableElement(element);
+
+      result.current('english', english);
+      result.current('preview', preview);
+      preview.dispose();
+
+      english.setScrollTop(200);
+      element.scrollTop = 50;
+      element.dispatchEvent(new Event('scroll'));
+
+      expect(element.scrollTop).toBe(50);
+      expect(english.getScrollTop()).toBe(200);
+    });
+  });
+});
@@ -0,0 +1,319 @@
+import {
+  sanitizeFilename,
+  sanitizeFilePath,
+  filePathSchema,
+  initLanguageRequestSchema,
+  addLanguageRequestSchema,
+  updateLanguageRequestSchema,
+  validateRequest,
+  registerProjectRequestSchema,
+  previewProjectFilesRequestSchema,
+  updateProjectAccessRequestSchema,
+  reviewActionRequestSchema,
+  reviewCommentRequestSchema,
+  batchSubmitRequestSchema,
+  draftRevisionRequestSchema,
+  restoreDraftRequestSchema,
+  draftDiffQuerySchema,
+  qualityCheckRequestSchema,
+} from '@/lib/validation';
+
+describe('Validation', () => {
+  describe('sanitizeFilename', () => {
+    it('should reject paths', () => {
+      expect(sanitizeFilename('A01.md')).toBe('A01.md');
+      expect(() => sanitizeFilename('V1/V1.1.md')).toThrow('path traversal');
+    });
+  });
+
+  describe('sanitizeFilePath', () => {
+    it('should accept relative paths with subfolders', () => {
+      expect(sanitizeFilePath('A01.md')).toBe('A01.md');
+      expect(sanitizeFilePath('V1-Architecture/V1.1.md')).toBe('V1-Architecture/V1.1.md');
+    });
+
+    it.each([
+      '../secrets.md',
+      'V1/../../secrets.md',
+      'V1/./V1.1.md',
+      './V1.1.md',
+      'V1//V1.1.md',
+      'V1/',
+      '/etc/passwd',
+      'V1\\..\\secrets.md',
+      'V1.md\0.png',
+    ])('should reject %j', (filepath) => {
+      expect(() => sanitizeFilePath(filepath)).toThrow('Invalid path');
+    });
+
+    it('should reject empty paths', () => {
+      expect(() => sanitizeFilePath('')).toThrow('cannot be empty');
+    });
+  });
+
+  describe('filePathSchema', () => {
+    it('should accept Markdown files in subfolders', () => {
+      expect(filePathSchema.safeParse('V1-Architecture/V1.1.md').success).toBe(true);
+      expect(filePathSchema.safeParse('A01_2021-Broken_Access_Control.md').success).toBe(true);
+    });
+
+    it('should reject traversal and other file types', () => {
+      expect(filePathSchema.safeParse('../A01.md').success).toBe(false);
+      expect(filePathSchema.safeParse('V1/../A01.md').success).toBe(false);
+      expect(filePathSchema.safeParse('/A01.md').success).toBe(false);
+      expect(filePathSchema.safeParse('V1/V1.1.txt').success).toBe(false);
+    });
+  });
+
+  describe('initLanguageRequestSchema', () => {
+    it('should keep the mode, dry run flag and source commit', () => {
+      expect(
+        initLanguageRequestSchema.parse({ mode: 'refresh', dryRun: true, sourceCommit: ' v2.0 ' })
+      ).toEqual({ mode: 'refresh', dryRun: true, sourceCommit: 'v2.0' });
+    });
+
+    it('should reject unknown modes and force combined with another mode', () => {
+      expect(initLanguageRequestSchema.safeParse({ mode: 'all' }).success).toBe(false);
+      expect(initLanguageRequestSchema.safeParse({ force: true, mode: 'missing' }).success).toBe(
+        false
+      );
+      expect(initLanguageRequestSchema.safeParse({ force: true, mode: 'force' }).success).toBe(true);
+    });
+  });
+
+  describe('language requests', () => {
+    it('should accept a new language', () => {
+      expect(
+        addLanguageRequestSchema.parse({
+          code: 'pt-BR',
+          name: ' Portuguese (Brazil) ',
+          direction: 'ltr',
+          coordinator: 'octocat',
+        })
+      ).toEqual({
+        code: 'pt-BR',
+        name: 'Portuguese (Brazil)',
+        direction: 'ltr',
+        coordinator: 'octocat',
+      });
+    });
+
+    it('should reject invalid codes, directions and usernames', () => {
+      const language = { code: 'pt-BR', name: 'Portuguese', direction: 'ltr' };
+      expect(addLanguageRequestSchema.safeParse({ ...language, code: 'pt' }).success).toBe(false);
+      expect(addLanguageRequestSchema.safeParse({ ...language, direction: 'ttb' }).success).toBe(
+        false
+      );
+      expect(
+        addLanguageRequestSchema.safeParse({ ...language, coordinator: 'not a user' }).success
+      ).toBe(false);
+    });
+
+    it('should require at least one change and allow removing the coordinator', () => {
+      expect(updateLanguageRequestSchema.safeParse({}).success).toBe(false);
+      expect(updateLanguageRequestSchema.parse({ coordinator: null })).toEqual({
+        coordinator: null,
+      });
+    });
+  });
+
+  describe('validateRequest', () => {
+    it('should report every issue in a validation error', () => {
+      expect(() => validateRequest(addLanguageRequestSchema, { code: 'pt' })).toThrow(
+        /^Validation error: code: Invalid language code format/
+      );
+    });
+  });
+
+  describe('project registration requests', () => {
+    const source = {
+      githubRepo: 'OWASP/wstg',
+      sourceBranch: 'master',
+      sourceFolder: '/document',
+      translationFolder: '/document/translations',
+      filePattern: '*.md',
+    };
+    const project = {
+      ...source,
+      slug: 'wstg',
+      name: 'OWASP WSTG',
+      tmpFolder: '/document/translations/{language}/tmp',
+    };
+
+    it('should accept a project and default to no priority files', () => {
+      expect(registerProjectRequestSchema.parse(project)).toEqual({ ...project, priorityFiles: [] });
+    });
+
+    it('should accept the pull request modes', () => {
+      expect(
+        registerProjectRequestSchema.parse({ ...project, pullRequests: 'per-file' }).pullRequests
+      ).toBe('per-file');
+      expect(
+        registerProjectRequestSchema.safeParse({ ...project, pullRequests: 'per-folder' }).success
+      ).toBe(false);
+    });
+
+    it('should require a file pattern or include globs', () => {
+      expect(
+        previewProjectFilesRequestSchema.safeParse({ ...source, filePattern: undefined }).success
+      ).toBe(false);
+      expect(
+        previewProjectFilesRequestSchema.safeParse({
+          ...source,
+          filePattern: undefined,
+          include: ['**/*.md'],
+        }).success
+      ).toBe(true);
+    });
+
+    it('should reject unsafe folders and a tmp folder without a language', () => {
+      expect(
+        registerProjectRequestSchema.safeParse({ ...project, sourceFolder: '/docs/../..' }).success
+      ).toBe(false);
+      expect(
+        registerProjectRequestSchema.safeParse({ ...project, sourceFolder: 'docs' }).success
+      ).toBe(false);
+      expect(
+        registerProjectRequestSchema.safeParse({ ...project, tmpFolder: '/document/tmp' }).success
+      ).toBe(false);
+      expect(registerProjectRequestSchema.safeParse({ ...project, slug: 'WSTG' }).success).toBe(
+        false
+      );
+    });
+  });
+
+  describe('access requests', () => {
+    it('should accept language teams and open a language with null translators', () => {
+      expect(
+        updateLanguageRequestSchema.parse({ reviewers: ['octocat'], translators: null })
+      ).toEqual({ reviewers: ['octocat'], translators: null });
+      expect(updateLanguageRequestSchema.safeParse({ reviewers: ['not a user'] }).success).toBe(
+        false
+      );
+    });
+
+    it('should default project access settings', () => {
+      expect(updateProjectAccessRequestSchema.parse({})).toEqual({
+        admins: [],
+        githubTeams: [],
+        repoPermissions: false,
+      });
+    });
+
+    it('should validate GitHub team roles', () => {
+      const parse = (team: Record<string, unknown>) =>
+        updateProjectAccessRequestSchema.safeParse({ githubTeams: [team] }).success;
+
+      expect(parse({ team: 'OWASP/top10-es', role: 'coordinator', language: 'es-ES' })).toBe(true);
+      expect(parse({ team: 'top10-es', role: 'coordinator' })).toBe(false);
+      expect(parse({ team: 'OWASP/top10', role: 'hub-admin' })).toBe(false);
+      expect(parse({ team: 'OWASP/top10', role: 'project-admin', language: 'es-ES' })).toBe(false);
+    });
+  });
+
+  describe('review requests', () => {
+    it('should accept review actions', () => {
+      expect(
+        reviewActionRequestSchema.safeParse({ filename: 'A01.md', action: 'approve' }).success
+      ).toBe(true);
+      expect(
+        reviewActionRequestSchema.safeParse({ filename: 'A01.md', action: 'merge' }).success
+      ).toBe(false);
+    });
+
+    it('should require a comment when requesting changes', () => {
+      expect(
+        reviewActionRequestSchema.safeParse({ filename: 'A01.md', action: 'request-changes' })
+          .success
+      ).toBe(false);
+      expect(
+        reviewActionRequestSchema.safeParse({
+          filename: 'A01.md',
+          action: 'request-changes',
+          comment: 'Translate the table headers',
+        }).success
+      ).toBe(true);
+    });
+  });
+
+  describe('review comment requests', () => {
+    it('should accept new threads and replies', () => {
+      const anchor = { startLine: 3, endLine: 4, excerpt: 'Primera línea' };
+
+      expect(reviewCommentRequestSchema.safeParse({ anchor, body: 'Typo' }).success).toBe(true);
+      expect(reviewCommentRequestSchema.safeParse({ anchor: null, body: 'Typo' }).success).toBe(true);
+      expect(
+        reviewCommentRequestSchema.safeParse({
+          threadId: '7d444840-9dc0-11d1-b245-5ffdce74fad2',
+          body: 'Fixed',
+        }).success
+      ).toBe(true);
+    });
+
+    it('should reject empty comments and reversed line ranges', () => {
+      expect(reviewCommentRequestSchema.safeParse({ body: '   ' }).success).toBe(false);
+      expect(
+        reviewCommentRequestSchema.safeParse({
+          anchor: { startLine: 4, endLine: 3, excerpt: '' },
+          body: 'Typo',
+        }).success
+      ).toBe(false);
+    });
+  });
+
+  describe('batch submit requests', () => {
+    it('should accept a list of files with optional notes', () => {
+      expect(batchSubmitRequestSchema.safeParse({ filenames: ['A01.md', 'A02.md'] }).success).toBe(
+        true
+      );
+      expect(
+        batchSubmitRequestSchema.safeParse({ filenames: ['A01.md'], message: 'Ready' }).success
+      ).toBe(true);
+    });
+
+    it('should reject empty and duplicate selections', () => {
+      expect(batchSubmitRequestSchema.safeParse({ filenames: [] }).success).toBe(false);
+      expect(batchSubmitRequestSchema.safeParse({ filenames: ['A01.md', 'A01.md'] }).success).toBe(
+        false
+      );
+      expect(batchSubmitRequestSchema.safeParse({ filenames: ['../A01.md'] }).success).toBe(false);
+    });
+  });
+
+  describe('draft requests', () => {
+    it('should accept draft revisions from autosaves and saves', () => {
+      expect(draftRevisionRequestSchema.safeParse({ content: 'Hola' }).success).toBe(true);
+      expect(draftRevisionRequestSchema.safeParse({ content: 'Hola', source: 'save' }).success).toBe(
+        true
+      );
+      expect(
+        draftRevisionRequestSchema.safeParse({ content: 'Hola', source: 'restore' }).success
+      ).toBe(false);
+      expect(draftRevisionRequestSchema.safeParse({ content: '' }).success).toBe(false);
+    });
+
+    it('should read revision numbers from restores and queries', () => {
+      expect(restoreDraftRequestSchema.safeParse({ revision: 2 }).success).toBe(true);
+      expect(restoreDraftRequestSchema.safeParse({ revision: 0 }).success).toBe(false);
+      expect(draftDiffQuerySchema.parse({ revision: '3', compare: '1' })).toEqual({
+        revision: 3,
+        compare: 1,
+      });
+      expect(draftDiffQuerySchema.safeParse({ revision: 'latest' }).success).toBe(false);
+    });
+  });
+
+  describe('qualityCheckRequestSchema', () => {
+    it('should require a file and its content', () => {
+      expect(
+        qualityCheckRequestSchema.safeParse({ filename: 'V1/V1.1.md', content: 'Hola' }).success
+      ).toBe(true);
+      expect(qualityCheckRequestSchema.safeParse({ filename: 'A01.md', content: '' }).success).toBe(
+        false
+      );
+      expect(
+        qualityCheckRequestSchema.safeParse({ filename: '../A01.md', content: 'Hola' }).success
+      ).toBe(false);
+    });
+  });
+});
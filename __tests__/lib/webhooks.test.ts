@@ -0,0 +1,295 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createHmac } from 'crypto';
+import { verifyWebhookSignature, handleWebhook } from '@/lib/webhooks';
+import {
+  listWebhookEvents,
+  getTranslationMetadataSnapshot,
+} from '@/lib/webhook-events';
+import { getProjectConfig, getActiveLanguages, getAllProjectConfigs } from '@/lib/config';
+import { detectSourceDrift } from '@/lib/source-drift';
+import { reconcilePullRequests } from '@/lib/pull-request-reconciliation';
+import { enqueueDriftJobs, processDriftJobs } from '@/lib/drift-jobs';
+import type { GitHubClient } from '@/lib/github';
+import pushSource from '../fixtures/webhooks/push-source.json';
+import pushTranslation from '../fixtures/webhooks/push-translation.json';
+import pullRequestClosed from '../fixtures/webhooks/pull-request-closed.json';
+import pullRequestReviewSubmitted from '../fixtures/webhooks/pull-request-review-submitted.json';
+
+jest.mock('@/lib/github', () => ({
+  createGitHubClient: jest.fn(),
+}));
+
+jest.mock('@/lib/config', () => {
+  const actual = jest.requireActual('@/lib/config');
+  return { ...actual, getAllProjectConfigs: jest.fn(actual.getAllProjectConfigs) };
+});
+
+jest.mock('@/lib/source-drift', () => ({
+  detectSourceDrift: jest.fn(),
+}));
+
+jest.mock('@/lib/pull-request-reconciliation', () => ({
+  reconcilePullRequests: jest.fn(),
+}));
+
+function encode(metadata: object) {
+  return {
+    data: {
+      type: 'file',
+      sha: 'blob',
+      content: Buffer.from(JSON.stringify(metadata)).toString('base64'),
+    },
+  };
+}
+
+describe('Webhooks', () => {
+  let dataDir: string;
+  let client: Record<string, jest.Mock>;
+  const project = getProjectConfig('topten');
+  const adminToken = process.env.GITHUB_ADMIN_TOKEN;
+  const initializedLanguages = getActiveLanguages(project)
+    .filter(({ config }) => config.initialized)
+    .map(({ code }) => code);
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'hivewrite-webhooks-'));
+    process.env.HIVEWRITE_DATA_DIR = dataDir;
+    process.env.GITHUB_WEBHOOK_SECRET = 'secret';
+    // Queued drift jobs are run by the tests instead of the worker
+    delete process.env.GITHUB_ADMIN_TOKEN;
+    client = {
+      getFileContent: jest.fn().mockResolvedValue(encode({ language: 'es-ES', files: {} })),
+    };
+    (detectSourceDrift as jest.Mock).mockReset();
+    (reconcilePullRequests as jest.Mock).mockReset();
+  });
+
+  afterEach(() => {
+    delete process.env.HIVEWRITE_DATA_DIR;
+    delete process.env.GITHUB_WEBHOOK_SECRET;
+    process.env.GITHUB_ADMIN_TOKEN = adminToken;
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  const deliver = (event: string, payload: object, deliveryId = 'delivery-1') =>
+    handleWebhook(client as unknown as GitHubClient, event, deliveryId, payload);
+
+  describe('verifyWebhookSignature', () => {
+    const body = JSON.stringify(pushSource);
+    const sign = (payload: string, secret: string) =>
+      `sha256=${createHmac('sha256', secret).update(payload).digest('hex')}`;
+
+    it('should accept deliveries signed with the secret', () => {
+      expect(verifyWebhookSignature(body, sign(body, 'secret'), 'secret')).toBe(true);
+    });
+
+    it('should reject missing, malformed and wrong signatures', () => {
+      expect(verifyWebhookSignature(body, null, 'secret')).toBe(false);
+      expect(verifyWebhookSignature(body, 'sha1=abc', 'secret')).toBe(false);
+      expect(verifyWebhookSignature(body, 'sha256=abc', 'secret')).toBe(false);
+      expect(verifyWebhookSignature(body, sign(body, 'other'), 'secret')).toBe(false);
+      expect(verifyWebhookSignature(`${body} `, sign(body, 'secret'), 'secret')).toBe(false);
+    });
+  });
+
+  describe('handleWebhook', () => {
+    it('should queue drift detection for every initialized language on source pushes', async () => {
+      (detectSourceDrift as jest.Mock).mockImplementation(async (_client, _project, code) => ({
+        headSha: 'head',
+        outdated: code === 'es-ES' ? ['01-broken-access-control.md', '03-injection.md'] : [],
+        translated: [],
+        errors: [],
+      }));
+
+      const result = await deliver('push', pushSource);
+
+      expect(result.handled).toBe(true);
+      expect(result.queued).toEqual(initializedLanguages.map((code) => `topten/${code}`));
+      expect(detectSourceDrift).not.toHaveBeenCalled();
+      expect(result.events[0]).toEqual(
+        expect.objectContaining({
+          id: 'delivery-1',
+          type: 'push',
+          language: null,
+          actor: 'maintainer',
+          summary: '2 source files changed on main',
+        })
+      );
+
+      await processDriftJobs(client as unknown as GitHubClient);
+
+      expect((detectSourceDrift as jest.Mock).mock.calls.map(([, , code]) => code)).toEqual(
+        initializedLanguages
+      );
+      expect(client.getFileContent).toHaveBeenCalledWith(
+        'OWASP',
+        'Top10',
+        '/2_0_vulns/translations/es-ES/translation.json',
+        'translations/es-ES'
+      );
+
+      await processDriftJobs(client as unknown as GitHubClient);
+      expect(detectSourceDrift).toHaveBeenCalledTimes(initializedLanguages.length);
+    });
+
+    it('should check a language again when it is queued during its check', async () => {
+      (detectSourceDrift as jest.Mock).mockImplementation(async () => {
+        if ((detectSourceDrift as jest.Mock).mock.calls.length === 1) {
+          await enqueueDriftJobs('topten', ['es-ES']);
+        }
+        return { headSha: 'head', outdated: [], translated: [], errors: [] };
+      });
+
+      await enqueueDriftJobs('topten', ['es-ES']);
+      await processDriftJobs(client as unknown as GitHubClient);
+
+      expect(detectSourceDrift).toHaveBeenCalledTimes(2);
+    });
+
+    it('should ignore pushes that do not touch the source folder', async () => {
+      const result = await deliver('push', {
+        ...pushSource,
+        commits: [{ added: [], removed: [], modified: ['README.md'] }],
+      });
+
+      expect(result.handled).toBe(false);
+      expect(result.queued).toEqual([]);
+    });
+
+    it('should queue drift detection when the source folder is the repository root', async () => {
+      const rootProject = { ...project, sourceFolder: '/', translationFolder: '/translations' };
+      (getAllProjectConfigs as jest.Mock).mockReturnValueOnce([rootProject]);
+
+      const result = await deliver('push', {
+        ...pushSource,
+        commits: [
+          {
+            added: ['docs/A01.md'],
+            removed: [],
+            modified: ['README.md', 'logo.png', 'translations/es-ES/README.md'],
+          },
+        ],
+      });
+
+      expect(result.handled).toBe(true);
+      expect(result.queued).toContain('topten/es-ES');
+      expect(result.events[0].summary).toBe('2 source files changed on main');
+    });
+
+    it('should refresh the language snapshot on translation branch pushes', async () => {
+      const result = await deliver('push', pushTranslation);
+
+      expect(client.getFileContent).toHaveBeenCalledWith(
+        'OWASP',
+        'Top10',
+        '/2_0_vulns/translations/es-ES/translation.json',
+        'translations/es-ES'
+      );
+      expect(result.events[0]).toEqual(
+        expect.objectContaining({
+          language: 'es-ES',
+          summary: '[es-ES] Approve 01-broken-access-control.md',
+        })
+      );
+
+      client.getFileContent.mockClear();
+      const metadata = await getTranslationMetadataSnapshot(
+        client as unknown as GitHubClient,
+        project,
+        'es-ES'
+      );
+      expect(metadata).toEqual({ language: 'es-ES', files: {} });
+      expect(client.getFileContent).not.toHaveBeenCalled();
+    });
+
+    it('should reconcile the language when a pull request is merged', async () => {
+      (reconcilePullRequests as jest.Mock).mockResolvedValue({
+        pullRequests: 1,
+        updated: [{ filename: '01-broken-access-control.md', prNumber: 42, from: 'approved', to: 'merged' }],
+        errors: [],
+      });
+
+      const result = await deliver('pull_request', pullRequestClosed);
+
+      expect(reconcilePullRequests).toHaveBeenCalledWith(client, project, 'es-ES');
+      expect(client.getFileContent).toHaveBeenCalled();
+      expect(result.events[0]).toEqual(
+        expect.objectContaining({
+          type: 'pull_request',
+          action: 'closed',
+          language: 'es-ES',
+          actor: 'maintainer',
+          summary: '#42 merged: [es-ES] Translate 01-broken-access-control.md',
+          url: 'https://github.com/OWASP/Top10/pull/42',
+        })
+      );
+    });
+
+    it('should reconcile the language when a review is submitted', async () => {
+      (reconcilePullRequests as jest.Mock).mockResolvedValue({
+        pullRequests: 1,
+        updated: [],
+        errors: ['Failed to reconcile pull request #40: API error'],
+      });
+
+      const result = await deliver('pull_request_review', pullRequestReviewSubmitted);
+
+      expect(reconcilePullRequests).toHaveBeenCalledWith(client, project, 'es-ES');
+      expect(client.getFileContent).not.toHaveBeenCalled();
+      expect(result.errors).toEqual(['topten/es-ES: Failed to reconcile pull request #40: API error']);
+      expect(result.events[0].summary).toBe('reviewer requested changes to #42');
+    });
+
+    it('should only record opened pull requests', async () => {
+      const result = await deliver('pull_request', {
+        ...pullRequestClosed,
+        action: 'opened',
+        pull_request: { ...pullRequestClosed.pull_request, state: 'open', merged: false },
+      });
+
+      expect(reconcilePullRequests).not.toHaveBeenCalled();
+      expect(result.events[0].summary).toBe(
+        '#42 opened: [es-ES] Translate 01-broken-access-control.md'
+      );
+    });
+
+    it('should ignore other repositories, branches and events', async () => {
+      const otherRepository = { ...pullRequestClosed, repository: { full_name: 'OWASP/Other' } };
+      const otherBranch = {
+        ...pullRequestClosed,
+        pull_request: { ...pullRequestClosed.pull_request, base: { ref: 'main' } },
+      };
+
+      expect((await deliver('pull_request', otherRepository)).handled).toBe(false);
+      expect((await deliver('pull_request', otherBranch)).handled).toBe(false);
+      expect((await deliver('issues', pullRequestClosed)).handled).toBe(false);
+      expect(reconcilePullRequests).not.toHaveBeenCalled();
+    });
+
+    it('should handle redelivered events once', async () => {
+      (reconcilePullRequests as jest.Mock).mockResolvedValue({
+        pullRequests: 1,
+        updated: [],
+        errors: [],
+      });
+
+      await deliver('pull_request', pullRequestClosed, 'delivery-1');
+      const redelivery = await deliver('pull_request', pullRequestClosed, 'delivery-1');
+
+      expect(redelivery.handled).toBe(false);
+      expect(reconcilePullRequests).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep the latest events for the dashboards', async () => {
+      await deliver('push', pushSource, 'delivery-1');
+      await deliver('push', pushTranslation, 'delivery-2');
+      await deliver('push', { ...pushTranslation, ref: 'refs/heads/translations/ar-SA' }, 'delivery-3');
+
+      const events = await listWebhookEvents(project, 'es-ES');
+      expect(events.map((event) => event.id)).toEqual(['delivery-2', 'delivery-1']);
+      expect(await listWebhookEvents(project)).toHaveLength(3);
+    });
+  });
+});
@@ -0,0 +1,105 @@
+import {
+  tokenizeWords,
+  diffWords,
+  revertWordDiffParts,
+  getPostEditDistance,
+} from '@/lib/word-diff';
+
+describe('Word diff', () => {
+  describe('tokenizeWords', () => {
+    it('should split words, whitespace and punctuation', () => {
+      expect(tokenizeWords("Don't panic, reader!\n")).toEqual([
+        "Don't",
+        ' ',
+        'panic',
+        ',',
+        ' ',
+        'reader',
+        '!',
+        '\n',
+      ]);
+    });
+
+    it('should split Chinese and Japanese into characters', () => {
+      expect(tokenizeWords('安全なAPI。访问控制')).toEqual([
+        '安',
+        '全',
+        'な',
+        'API',
+        '。',
+        '访',
+        '问',
+        '控',
+        '制',
+      ]);
+    });
+
+    it('should keep words of languages written with spaces whole', () => {
+      expect(tokenizeWords('보안 위험 مخاطر')).toEqual(['보안', ' ', '위험', ' ', 'مخاطر']);
+    });
+  });
+
+  describe('diffWords', () => {
+    it('should group neighbouring changed words', () => {
+      expect(diffWords('El gato negro duerme.', 'El perro blanco duerme.')).toEqual([
+        { changed: false, before: 'El ', after: 'El ' },
+        { changed: true, before: 'gato negro', after: 'perro blanco' },
+        { changed: false, before: ' duerme.', after: ' duerme.' },
+      ]);
+    });
+
+    it('should compare CJK text character by character', () => {
+      expect(diffWords('我喜欢猫。', '我很喜欢狗。')).toEqual([
+        { changed: false, before: '我', after: '我' },
+        { changed: true, before: '', after: '很' },
+        { changed: false, before: '喜欢', after: '喜欢' },
+        { changed: true, before: '猫', after: '狗' },
+        { changed: false, before: '。', after: '。' },
+      ]);
+    });
+
+    it('should keep unchanged lines out of the changes', () => {
+      const parts = diffWords('# Riesgos\n\nPrimer riesgo.\n', '# Riesgos\n\nPrimer peligro.\n\nNuevo.\n');
+
+      expect(parts.filter((part) => part.changed)).toEqual([
+        { changed: true, before: 'riesgo', after: 'peligro.\n\nNuevo' },
+      ]);
+      expect(parts.map((part) => part.before).join('')).toBe('# Riesgos\n\nPrimer riesgo.\n');
+      expect(parts.map((part) => part.after).join('')).toBe(
+        '# Riesgos\n\nPrimer peligro.\n\nNuevo.\n'
+      );
+    });
+
+    it('should find no changes in identical texts', () => {
+      expect(diffWords('Igual.', 'Igual.')).toEqual([{ changed: false, before: 'Igual.', after: 'Igual.' }]);
+      expect(diffWords('', '')).toEqual([]);
+    });
+  });
+
+  describe('revertWordDiffParts', () => {
+    it('should put the given changes back as they were', () => {
+      const parts = diffWords('Uno dos. Tres cuatro.', 'Uno DOS. Tres CUATRO.');
+
+      expect(revertWordDiffParts(parts, [])).toBe('Uno DOS. Tres CUATRO.');
+      expect(revertWordDiffParts(parts, [1])).toBe('Uno dos. Tres CUATRO.');
+      expect(revertWordDiffParts(parts, [1, 3])).toBe('Uno dos. Tres cuatro.');
+    });
+  });
+
+  describe('getPostEditDistance', () => {
+    it('should measure the share of words changed from the machine translation', () => {
+      expect(getPostEditDistance('El gato negro duerme.', 'El gato negro duerme.')).toBe(0);
+      expect(getPostEditDistance('El gato negro duerme.', 'El perro blanco duerme.')).toBe(0.5);
+      expect(getPostEditDistance('Texto de máquina.', 'Otra cosa distinta, escrita a mano.')).toBe(1);
+    });
+
+    it('should count CJK characters rather than sentences', () => {
+      expect(getPostEditDistance('我喜欢猫。', '我喜欢狗。')).toBe(0.25);
+    });
+
+    it('should handle empty translations', () => {
+      expect(getPostEditDistance('', '')).toBe(0);
+      expect(getPostEditDistance('Texto.', '')).toBe(1);
+    });
+  });
+});
@@ -5,13 +5,35 @@ import { useParams } from 'next/navigation';
 import Link from 'next/link';
 import { Button } from '@/components/ui/Button';
 import { Loading } from '@/components/ui/Loading';
-import type { ProjectConfig } from '@/types';
+import { InitJobProgress } from '@/components/admin/InitJobProgress';
+import { ReinitializeForm, type ReinitializeOptions } from '@/components/admin/ReinitializeForm';
+import { LanguageForm, type LanguageFormValues } from '@/components/admin/LanguageForm';
+import { ProjectAccessForm } from '@/components/admin/ProjectAccessForm';
+import type {
+  ProjectConfig,
+  ProjectAccess,
+  ProjectAccessConfig,
+  LanguageConfig,
+  LanguageStatus,
+  Role,
+  InitJob,
+  InitPlan,
+} from '@/types';
 
 interface AdminDashboardData {
-  project: ProjectConfig;
+  project: ProjectConfig; // Only the languages the user coordinates
   activeLanguages: Array<{ code: string; config: any }>;
+  access: ProjectAccess;
 }
 
+const roleLabels: Record<Role, string> = {
+  'hub-admin': 'Hub admin',
+  'project-admin': 'Project admin',
+  coordinator: 'Coordinator',
+  reviewer: 'Reviewer',
+  translator: 'Translator',
+};
+
 export default function AdminDashboardPage() {
   const params = useParams();
   const projectSlug = params.project as string;
@@ -19,13 +41,72 @@ export default function AdminDashboardPage() {
   const [data, setData] = useState<AdminDashboardData | null>(null);
   const [loading, setLoading] = useState(true);
   const [initializingLanguage, setInitializingLanguage] = useState<string | null>(null);
+  const [languageForm, setLanguageForm] = useState<string | null>(null); // 'new' or the code being edited
+  const [savingLanguage, setSavingLanguage] = useState<string | null>(null);
+  const [accessForm, setAccessForm] = useState<ProjectAccessConfig | null>(null); // Open access settings
+  const [savingAccess, setSavingAccess] = useState(false);
+  const [reinitLanguage, setReinitLanguage] = useState<string | null>(null); // Open re-initialize form
+  const [initPlan, setInitPlan] = useState<InitPlan | null>(null);
+  const [previewingLanguage, setPreviewingLanguage] = useState<string | null>(null);
+  const [initJobs, setInitJobs] = useState<Record<string, InitJob>>({}); // Latest job per language
+  const [cancellingJob, setCancellingJob] = useState<string | null>(null);
+  const [harvestingLanguage, setHarvestingLanguage] = useState<string | null>(null);
+  const [checkingDriftLanguage, setCheckingDriftLanguage] = useState<string | null>(null);
+  const [reconcilingLanguage, setReconcilingLanguage] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
 
   useEffect(() => {
     loadDashboard();
+    loadInitJobs();
   }, [projectSlug]);
 
+  // Follow queued and running initialization jobs
+  const activeJobIds = Object.values(initJobs)
+    .filter((job) => job.status === 'queued' || job.status === 'running')
+    .map((job) => job.id)
+    .join(',');
+
+  useEffect(() => {
+    const sources = activeJobIds
+      .split(',')
+      .filter(Boolean)
+      .map((jobId) => {
+        const source = new EventSource(`/api/${projectSlug}/admin/jobs/${jobId}/events`);
+
+        source.addEventListener('job', (event) => {
+          const job: InitJob = JSON.parse((event as MessageEvent).data);
+          setInitJobs((current) => ({ ...current, [job.language]: job }));
+
+          if (job.status !== 'queued' && job.status !== 'running') {
+            source.close();
+          }
+        });
+
+        return source;
+      });
+
+    return () => sources.forEach((source) => source.close());
+  }, [projectSlug, activeJobIds]);
+
+  const loadInitJobs = async () => {
+    try {
+      const response = await fetch(`/api/${projectSlug}/admin/jobs`);
+      if (!response.ok) {
+        return;
+      }
+
+      const result = await response.json();
+      const latest: Record<string, InitJob> = {};
+      for (const job of result.data as InitJob[]) {
+        latest[job.language] = latest[job.language] || job;
+      }
+      setInitJobs(latest);
+    } catch {
+      // The job list is optional; the dashboard works without it
+    }
+  };
+
   const loadDashboard = async () => {
     try {
       const response = await fetch(`/api/${projectSlug}/admin/dashboard`);
@@ -49,7 +130,166 @@ export default function AdminDashboardPage() {
     }
   };
 
-  const handleInitializeLanguage = async (languageCode: string) => {
+  const setLanguage = (code: string, config: LanguageConfig) => {
+    setData((current) =>
+      current && {
+        ...current,
+        project: {
+          ...current.project,
+          languages: { ...current.project.languages, [code]: config },
+        },
+      }
+    );
+  };
+
+  const saveLanguage = async (
+    code: string,
+    request: { method: 'POST' | 'PATCH'; body: Record<string, unknown> }
+  ) => {
+    setSavingLanguage(code);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const response = await fetch(
+        request.method === 'POST'
+          ? `/api/${projectSlug}/admin/languages`
+          : `/api/${projectSlug}/admin/languages/${code}`,
+        {
+          method: request.method,
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(request.body),
+        }
+      );
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error?.message || 'Failed to save language');
+      }
+
+      setLanguage(result.data.code, result.data.config);
+      setLanguageForm(null);
+      setSuccess(result.message);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred while saving the language');
+    } finally {
+      setSavingLanguage(null);
+    }
+  };
+
+  const handleSubmitLanguage = (values: LanguageFormValues) => {
+    const { code, coordinator, translators, ...changes } = values;
+
+    if (languageForm === 'new') {
+      saveLanguage(code, {
+        method: 'POST',
+        body: {
+          code,
+          ...changes,
+          ...(coordinator && { coordinator }),
+          ...(translators && { translators }),
+        },
+      });
+    } else {
+      saveLanguage(code, { method: 'PATCH', body: { ...changes, coordinator, translators } });
+    }
+  };
+
+  const handleOpenAccess = async () => {
+    if (accessForm) {
+      setAccessForm(null);
+      return;
+    }
+
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/${projectSlug}/admin/access`);
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error?.message || 'Failed to load access settings');
+      }
+
+      setAccessForm(result.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred while loading access settings');
+    }
+  };
+
+  const handleSaveAccess = async (access: ProjectAccessConfig) => {
+    setSavingAccess(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const response = await fetch(`/api/${projectSlug}/admin/access`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(access),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error?.message || 'Failed to save access settings');
+      }
+
+      setAccessForm(null);
+      setSuccess(result.message);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred while saving access settings');
+    } finally {
+      setSavingAccess(false);
+    }
+  };
+
+  const handleSetLanguageStatus = (code: string, status: LanguageStatus) => {
+    saveLanguage(code, { method: 'PATCH', body: { status } });
+  };
+
+  const handleOpenReinitialize = (languageCode: string) => {
+    setReinitLanguage(reinitLanguage === languageCode ? null : languageCode);
+    setInitPlan(null);
+  };
+
+  const handlePreviewInitialization = async (
+    languageCode: string,
+    options: ReinitializeOptions
+  ) => {
+    setPreviewingLanguage(languageCode);
+    setInitPlan(null);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/${projectSlug}/admin/init/${languageCode}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ ...options, dryRun: true }),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error?.message || 'Failed to preview initialization');
+      }
+
+      setInitPlan(result.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred while previewing initialization');
+    } finally {
+      setPreviewingLanguage(null);
+    }
+  };
+
+  const handleInitializeLanguage = async (languageCode: string, options: ReinitializeOptions) => {
     setInitializingLanguage(languageCode);
     setError(null);
     setSuccess(null);
@@ -62,7 +302,7 @@ export default function AdminDashboardPage() {
           headers: {
             'Content-Type': 'application/json',
           },
-          body: JSON.stringify({}),
+          body: JSON.stringify(options),
         }
       );
 
@@ -72,10 +312,10 @@ export default function AdminDashboardPage() {
         throw new Error(result.error?.message || result.message || 'Failed to initialize language');
       }
 
-      const languageName = data?.project.languages[languageCode]?.name || languageCode;
-      setSuccess(
-        `Successfully initialized ${languageName}! Processed ${result.data?.filesProcessed || 0} files.`
-      );
+      const job: InitJob = result.data;
+      setInitJobs((current) => ({ ...current, [job.language]: job }));
+      setReinitLanguage(null);
+      setSuccess(`${result.message}. Progress is shown below and continues if you leave this page.`);
     } catch (err: any) {
       setError(err.message || 'An error occurred during initialization');
     } finally {
@@ -83,6 +323,121 @@ export default function AdminDashboardPage() {
     }
   };
 
+  const handleCancelInitJob = async (job: InitJob) => {
+    setCancellingJob(job.id);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/${projectSlug}/admin/jobs/${job.id}`, {
+        method: 'DELETE',
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error?.message || 'Failed to cancel initialization');
+      }
+
+      setInitJobs((current) => ({ ...current, [job.language]: result.data }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred while cancelling initialization');
+    } finally {
+      setCancellingJob(null);
+    }
+  };
+
+  const handleHarvestMemory = async (languageCode: string) => {
+    setHarvestingLanguage(languageCode);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const response = await fetch(
+        `/api/${projectSlug}/admin/memory/${languageCode}`,
+        { method: 'POST' }
+      );
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error?.message || result.message || 'Failed to update translation memory');
+      }
+
+      const skipped = result.data?.skipped?.length || 0;
+      setSuccess(
+        `${result.message}.${skipped > 0 ? ` ${skipped} completed files could not be aligned with their source.` : ''}`
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred while updating translation memory');
+    } finally {
+      setHarvestingLanguage(null);
+    }
+  };
+
+  const handleCheckSourceDrift = async (languageCode: string, translateChanges: boolean) => {
+    setCheckingDriftLanguage(languageCode);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const response = await fetch(
+        `/api/${projectSlug}/admin/drift/${languageCode}`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ translateChanges }),
+        }
+      );
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error?.message || result.message || 'Failed to check source changes');
+      }
+
+      const { translated = [], errors = [] } = result.data || {};
+      setSuccess(
+        `${result.message}.` +
+          (translateChanges ? ` Machine-translated changes in ${translated.length} files.` : '') +
+          (errors.length > 0 ? ` ${errors.length} files failed: ${errors.join('; ')}` : '')
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred while checking source changes');
+    } finally {
+      setCheckingDriftLanguage(null);
+    }
+  };
+
+  const handleReconcilePullRequests = async (languageCode: string) => {
+    setReconcilingLanguage(languageCode);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const response = await fetch(`/api/${projectSlug}/admin/reconcile/${languageCode}`, {
+        method: 'POST',
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error?.message || result.message || 'Failed to sync pull requests');
+      }
+
+      const { errors = [] } = result.data || {};
+      setSuccess(
+        `${result.message}.` +
+          (errors.length > 0 ? ` ${errors.length} pull requests failed: ${errors.join('; ')}` : '')
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred while syncing pull requests');
+    } finally {
+      setReconcilingLanguage(null);
+    }
+  };
+
   if (loading) {
     return <Loading fullScreen text="Loading admin dashboard..." />;
   }
@@ -105,7 +460,11 @@ export default function AdminDashboardPage() {
     return <Loading fullScreen text="Loading..." />;
   }
 
-  const { project, activeLanguages } = data;
+  const { project, access } = data;
+  const isProjectAdmin = access.projectRole !== null;
+  const languages = Object.entries(project.languages).map(([code, config]) => ({ code, config }));
+  const activeLanguages = languages.filter(({ config }) => config.status === 'active');
+  const archivedLanguages = languages.filter(({ config }) => config.status === 'archived');
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -123,6 +482,10 @@ export default function AdminDashboardPage() {
           </h1>
           <p className="text-gray-600">
             Manage language translations for {project.githubRepo}
+            {' · '}
+            {access.projectRole
+              ? roleLabels[access.projectRole]
+              : `Coordinator of ${languages.map(({ config }) => config.name).join(', ')}`}
           </p>
         </div>
 
@@ -162,14 +525,47 @@ export default function AdminDashboardPage() {
               <p className="text-gray-600">{activeLanguages.length}</p>
             </div>
           </div>
+
+          {isProjectAdmin && (
+            <div className="mt-6 pt-4 border-t border-gray-200">
+              <Button size="sm" variant="secondary" onClick={handleOpenAccess}>
+                Manage Access
+              </Button>
+              {accessForm && (
+                <ProjectAccessForm
+                  access={accessForm}
+                  saving={savingAccess}
+                  onSubmit={handleSaveAccess}
+                  onCancel={() => setAccessForm(null)}
+                />
+              )}
+            </div>
+          )}
         </div>
 
         {/* Languages */}
         <div className="bg-white rounded-lg shadow-md p-6">
-          <h2 className="text-xl font-bold text-gray-900 mb-6">Language Management</h2>
+          <div className="flex items-center justify-between mb-6">
+            <h2 className="text-xl font-bold text-gray-900">Language Management</h2>
+            {isProjectAdmin && (
+              <Button size="sm" onClick={() => setLanguageForm(languageForm === 'new' ? null : 'new')}>
+                Add Language
+              </Button>
+            )}
+          </div>
+
+          {languageForm === 'new' && (
+            <div className="mb-6">
+              <LanguageForm
+                saving={savingLanguage !== null}
+                onSubmit={handleSubmitLanguage}
+                onCancel={() => setLanguageForm(null)}
+              />
+            </div>
+          )}
 
           <div className="space-y-4">
-            {activeLanguages.map(({ code, config }) => (
+            {languages.filter(({ config }) => config.status !== 'archived').map(({ code, config }) => (
               <div
                 key={code}
                 className="border border-gray-200 rounded-lg p-6 hover:border-gray-300 transition-colors"
@@ -180,7 +576,13 @@ export default function AdminDashboardPage() {
                       <h3 className="text-lg font-semibold text-gray-900">
                         {config.name}
                       </h3>
-                      <span className="inline-flex items-center px-2 py-1 text-xs font-medium rounded-full bg-green-100 text-green-800">
+                      <span
+                        className={`inline-flex items-center px-2 py-1 text-xs font-medium rounded-full ${
+                          config.status === 'active'
+                            ? 'bg-green-100 text-green-800'
+                            : 'bg-yellow-100 text-yellow-800'
+                        }`}
+                      >
                         {config.status}
                       </span>
                       <span className="inline-flex items-center px-2 py-1 text-xs font-medium rounded-full bg-gray-100 text-gray-800">
@@ -191,20 +593,93 @@ export default function AdminDashboardPage() {
                     <p className="text-sm text-gray-600 mb-4">
                       Language Code: <span className="font-mono">{code}</span>
                       {' · '}
-                      Initialized: {new Date(config.initialized).toLocaleDateString()}
+                      {config.initialized
+                        ? `Initialized: ${new Date(config.initialized).toLocaleDateString()}`
+                        : 'Not initialized yet'}
+                      {config.coordinator && (
+                        <>
+                          {' · '}
+                          Coordinator: {config.coordinator}
+                        </>
+                      )}
+                      {' · '}
+                      {config.reviewers?.length || 0} reviewers
+                      {' · '}
+                      {config.translators
+                        ? `${config.translators.length} translators`
+                        : 'Open to all translators'}
                     </p>
 
                     <div className="flex gap-3">
                       <Button
                         size="sm"
                         variant="secondary"
-                        onClick={() => handleInitializeLanguage(code)}
-                        loading={initializingLanguage === code}
-                        disabled={initializingLanguage !== null}
+                        onClick={() => handleOpenReinitialize(code)}
+                        disabled={
+                          initJobs[code]?.status === 'queued' ||
+                          initJobs[code]?.status === 'running'
+                        }
                       >
                         Re-initialize
                       </Button>
 
+                      <Button
+                        size="sm"
+                        variant="secondary"
+                        onClick={() => setLanguageForm(languageForm === code ? null : code)}
+                      >
+                        Edit
+                      </Button>
+
+                      <Button
+                        size="sm"
+                        variant="secondary"
+                        onClick={() => handleSetLanguageStatus(code, 'archived')}
+                        loading={savingLanguage === code && languageForm !== code}
+                        disabled={savingLanguage !== null}
+                      >
+                        Archive
+                      </Button>
+
+                      <Button
+                        size="sm"
+                        variant="secondary"
+                        onClick={() => handleHarvestMemory(code)}
+                        loading={harvestingLanguage === code}
+                        disabled={harvestingLanguage !== null}
+                      >
+                        Update Memory
+                      </Button>
+
+                      <Button
+                        size="sm"
+                        variant="secondary"
+                        onClick={() => handleCheckSourceDrift(code, false)}
+                        loading={checkingDriftLanguage === code}
+                        disabled={checkingDriftLanguage !== null}
+                      >
+                        Check Source Changes
+                      </Button>
+
+                      <Button
+                        size="sm"
+                        variant="secondary"
+                        onClick={() => handleCheckSourceDrift(code, true)}
+                        disabled={checkingDriftLanguage !== null}
+                      >
+                        Translate Source Changes
+                      </Button>
+
+                      <Button
+                        size="sm"
+                        variant="secondary"
+                        onClick={() => handleReconcilePullRequests(code)}
+                        loading={reconcilingLanguage === code}
+                        disabled={reconcilingLanguage !== null}
+                      >
+                        Sync Pull Requests
+                      </Button>
+
                       <Link href={`/${projectSlug}/translate/${code}`}>
                         <Button size="sm" variant="primary">
                           View Dashboard
@@ -233,17 +708,77 @@ export default function AdminDashboardPage() {
                         </svg>
                       </a>
                     </div>
+
+                    {languageForm === code && (
+                      <LanguageForm
+                        language={{ code, config }}
+                        canAppointCoordinator={isProjectAdmin}
+                        saving={savingLanguage === code}
+                        onSubmit={handleSubmitLanguage}
+                        onCancel={() => setLanguageForm(null)}
+                      />
+                    )}
+
+                    {reinitLanguage === code && (
+                      <ReinitializeForm
+                        plan={initPlan}
+                        previewing={previewingLanguage === code}
+                        starting={initializingLanguage === code}
+                        onPreview={(options) => handlePreviewInitialization(code, options)}
+                        onStart={(options) => handleInitializeLanguage(code, options)}
+                        onClose={() => setReinitLanguage(null)}
+                      />
+                    )}
+
+                    {initJobs[code] && (
+                      <InitJobProgress
+                        job={initJobs[code]}
+                        onCancel={() => handleCancelInitJob(initJobs[code])}
+                        cancelling={cancellingJob === initJobs[code].id}
+                      />
+                    )}
                   </div>
                 </div>
               </div>
             ))}
           </div>
 
+          {archivedLanguages.length > 0 && (
+            <details className="mt-6">
+              <summary className="text-sm font-medium text-gray-700 cursor-pointer">
+                Archived languages ({archivedLanguages.length})
+              </summary>
+              <ul className="mt-3 divide-y divide-gray-100 border border-gray-200 rounded-lg">
+                {archivedLanguages.map(({ code, config }) => (
+                  <li key={code} className="flex items-center justify-between px-4 py-3 text-sm">
+                    <span>
+                      <span className="font-medium text-gray-900">{config.name}</span>{' '}
+                      <span className="font-mono text-gray-600">{code}</span>
+                    </span>
+                    <Button
+                      size="sm"
+                      variant="secondary"
+                      onClick={() => handleSetLanguageStatus(code, 'inactive')}
+                      loading={savingLanguage === code}
+                      disabled={savingLanguage !== null}
+                    >
+                      Restore
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            </details>
+          )}
+
           {/* Instructions */}
           <div className="mt-8 p-4 bg-blue-50 border border-blue-200 rounded-lg">
             <h3 className="font-semibold text-blue-900 mb-2">Quick Start Guide</h3>
             <ol className="list-decimal list-inside text-sm text-blue-800 space-y-1">
-              <li>Re-initialize a language to update machine translations from source files</li>
+              <li>Add a language, initialize it, then edit it and set it to active to list it for translators</li>
+              <li>Give each language a coordinator to let them manage it from this page; Manage Access sets the project admins and the GitHub teams that grant roles</li>
+              <li>Re-initialize a language to translate new source files, refresh machine drafts or overwrite everything; preview the files it will write first. It runs in the background and can be cancelled</li>
+              <li>Update Memory to reuse approved translations in the editor and in future machine translations</li>
+              <li>Check Source Changes to mark files whose English source changed as outdated; Translate Source Changes also refreshes their machine translation</li>
               <li>Click "View Dashboard" to see translation progress</li>
               <li>Share the dashboard link with volunteer translators</li>
               <li>Monitor progress and review pull requests on GitHub</li>
@@ -0,0 +1,1081 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import Link from 'next/link';
+import dynamic from 'next/dynamic';
+import { Button } from '@/components/ui/Button';
+import { Loading } from '@/components/ui/Loading';
+import { TranslationMemoryPanel } from '@/components/editor/TranslationMemoryPanel';
+import { GlossaryWarnings } from '@/components/editor/GlossaryWarnings';
+import { SourceDriftPanel } from '@/components/editor/SourceDriftPanel';
+import { ReviewCommentsPanel } from '@/components/editor/ReviewCommentsPanel';
+import { DraftRestorePrompt } from '@/components/editor/DraftRestorePrompt';
+import { DraftHistoryPanel } from '@/components/editor/DraftHistoryPanel';
+import { SegmentEditor } from '@/components/editor/SegmentEditor';
+import { QualityReportBar } from '@/components/editor/QualityReportBar';
+import { MarkdownPreview } from '@/components/editor/MarkdownPreview';
+import { WordDiffPanel } from '@/components/editor/WordDiffPanel';
+import { FileClaimBadge } from '@/components/dashboard/FileClaimBadge';
+import { Avatar } from '@/components/ui/Avatar';
+import { findGlossaryTerms, checkGlossaryUsage, isKeptInEnglish } from '@/lib/glossary';
+import { encodeFilePath, decodeFilePath } from '@/lib/paths';
+import { getParagraphAt, findParagraph } from '@/lib/paragraphs';
+import { alignMarkdownSegments, joinAlignedSegments } from '@/lib/markdown';
+import type { AlignedSegment } from '@/lib/markdown';
+import {
+  useAutosave,
+  loadFromLocalStorage,
+  loadServerDrafts,
+  getRestorableVersions,
+  getDraftsUrl,
+} from '@/lib/hooks/useAutosave';
+import { useSyncedScroll, toScrollableElement } from '@/lib/hooks/useSyncedScroll';
+import type { Monaco, OnMount } from '@monaco-editor/react';
+import type {
+  EditorData,
+  SourceDriftData,
+  ParagraphAnchor,
+  ReviewCommentsData,
+  ReviewThread,
+  DraftHistoryData,
+  DraftRevision,
+  DraftRevisionDiff,
+  DraftVersion,
+  DraftVersionSource,
+  FilePresenceData,
+  QualityReport,
+} from '@/types';
+
+const PRESENCE_INTERVAL = 30000; // 30 seconds
+
+// Dynamically import Monaco Editor to avoid SSR issues
+const Editor = dynamic(() => import('@monaco-editor/react'), { ssr: false });
+
+type CodeEditor = Parameters<OnMount>[0];
+
+// Segments being edited, with the translation they were aligned with
+interface SegmentView {
+  base: string;
+  segments: AlignedSegment[];
+  content: string; // The translation as last put together from the segments
+}
+
+const SEGMENT_MISMATCH =
+  "The translation's paragraphs and headings no longer match the English file, so it can only be edited as a whole document.";
+
+export default function TranslationEditorPage() {
+  const params = useParams();
+  const router = useRouter();
+  const projectSlug = params.project as string;
+  const languageCode = params.language as string;
+  const filename = decodeFilePath(params.path as string[]);
+
+  const [editorData, setEditorData] = useState<EditorData | null>(null);
+  const [translationContent, setTranslationContent] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [creatingPR, setCreatingPR] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [restoreVersions, setRestoreVersions] = useState<DraftVersion[]>([]);
+  const [referencePanel, setReferencePanel] = useState<
+    'machine' | 'memory' | 'comments' | 'history' | 'preview' | 'changes'
+  >('machine');
+  const [sourceDrift, setSourceDrift] = useState<SourceDriftData | null>(null);
+  const [showSourceDrift, setShowSourceDrift] = useState(false);
+  const [loadingSourceDrift, setLoadingSourceDrift] = useState(false);
+  const [reviewComments, setReviewComments] = useState<ReviewCommentsData | null>(null);
+  const [pendingAnchor, setPendingAnchor] = useState<ParagraphAnchor | null>(null);
+  const [savingComment, setSavingComment] = useState(false);
+  const [draftHistory, setDraftHistory] = useState<DraftHistoryData | null>(null);
+  const [selectedRevision, setSelectedRevision] = useState<DraftRevisionDiff | null>(null);
+  const [restoringRevision, setRestoringRevision] = useState(false);
+  const [presence, setPresence] = useState<FilePresenceData | null>(null);
+  const [updatingClaim, setUpdatingClaim] = useState(false);
+  const [segmentView, setSegmentView] = useState<SegmentView | null>(null);
+  const [segmentNotice, setSegmentNotice] = useState<string | null>(null);
+  const [syncScroll, setSyncScroll] = useState(true);
+  const [qualityReport, setQualityReport] = useState<QualityReport | null>(null);
+  const [checkingQuality, setCheckingQuality] = useState(false);
+  const [previewEnglish, setPreviewEnglish] = useState(false);
+  const [compareWith, setCompareWith] = useState<'machine' | 'saved'>('machine');
+
+  // Translation editor, to anchor review comments to the paragraph at the cursor
+  const translationEditorRef = useRef<CodeEditor | null>(null);
+  const commentDecorationsRef = useRef<ReturnType<CodeEditor['createDecorationsCollection']> | null>(null);
+  const monacoRef = useRef<Monaco | null>(null);
+  const registerScroll = useSyncedScroll(syncScroll);
+
+  // The preview scrolls with the editors while it is shown
+  const registerPreviewScroll = useCallback(
+    (element: HTMLDivElement | null) => {
+      if (!element) {
+        return;
+      }
+
+      const scrollable = toScrollableElement(element);
+      registerScroll('preview', scrollable);
+      return () => scrollable.dispose();
+    },
+    [registerScroll]
+  );
+
+  const autosaveKey = { project: projectSlug, language: languageCode, filename };
+  const { lastSaved, isDirty, savedOnServer, manualSave, clear: clearAutosave } = useAutosave(
+    autosaveKey,
+    translationContent,
+    !loading
+  );
+
+  useEffect(() => {
+    loadEditorData();
+    loadReviewComments();
+  }, [projectSlug, languageCode, filename]);
+
+  // Let others know the file is open here, and see who else has it open
+  useEffect(() => {
+    const presenceUrl = `/api/${projectSlug}/translate/${languageCode}/presence/${encodeFilePath(filename)}`;
+
+    const sendHeartbeat = async () => {
+      try {
+        const response = await fetch(presenceUrl, { method: 'POST' });
+        if (response.ok) {
+          const data = await response.json();
+          setPresence(data.data);
+        }
+      } catch {
+        // Presence is informational; the editor works without it
+      }
+    };
+
+    sendHeartbeat();
+    const interval = setInterval(sendHeartbeat, PRESENCE_INTERVAL);
+
+    return () => {
+      clearInterval(interval);
+      fetch(presenceUrl, { method: 'DELETE', keepalive: true }).catch(() => undefined);
+    };
+  }, [projectSlug, languageCode, filename]);
+
+  // Mark paragraphs with review comments in the translation
+  useEffect(() => {
+    const monaco = monacoRef.current;
+    if (!commentDecorationsRef.current || !monaco) {
+      return;
+    }
+
+    commentDecorationsRef.current.set(
+      (reviewComments?.threads || []).flatMap((thread) => {
+        const location = thread.anchor ? findParagraph(translationContent, thread.anchor) : null;
+        if (!location) {
+          return [];
+        }
+
+        return [
+          {
+            range: new monaco.Range(location.startLine, 1, location.endLine, 1),
+            options: {
+              isWholeLine: true,
+              className: thread.resolved ? 'review-comment-resolved' : 'review-comment',
+              linesDecorationsClassName: 'review-comment-marker',
+              hoverMessage: thread.comments.map((comment) => ({
+                value: `**${comment.author}**: ${comment.body}`,
+              })),
+            },
+          },
+        ];
+      })
+    );
+  }, [reviewComments, translationContent]);
+
+  const glossaryWarnings = useMemo(
+    () =>
+      editorData
+        ? checkGlossaryUsage(editorData.englishContent, translationContent, editorData.glossary)
+        : [],
+    [editorData, translationContent]
+  );
+
+  // Realign the segments when the translation is replaced from outside them
+  // (a restored draft, the machine translation copied over)
+  useEffect(() => {
+    if (!editorData || !segmentView || translationContent === segmentView.content) {
+      return;
+    }
+
+    const segments = alignMarkdownSegments(
+      editorData.englishContent,
+      translationContent,
+      editorData.machineContent
+    );
+
+    if (segments) {
+      setSegmentView({ base: translationContent, segments, content: translationContent });
+    } else {
+      setSegmentView(null);
+      setSegmentNotice(SEGMENT_MISMATCH);
+    }
+  }, [editorData, segmentView, translationContent]);
+
+  const loadEditorData = async () => {
+    try {
+      const response = await fetch(
+        `/api/${projectSlug}/translate/${languageCode}/file/${encodeFilePath(filename)}`
+      );
+
+      if (!response.ok) {
+        throw new Error('Failed to load file');
+      }
+
+      const data = await response.json();
+      const edData: EditorData = data.data;
+      setEditorData(edData);
+
+      // Offer drafts from this browser or the hub that GitHub does not have yet
+      const serverDrafts = await loadServerDrafts(autosaveKey);
+      setDraftHistory(serverDrafts);
+
+      const versions = getRestorableVersions(
+        {
+          source: 'github',
+          content: edData.translationContent,
+          savedAt: edData.metadata.lastUpdated || null,
+        },
+        loadFromLocalStorage(autosaveKey),
+        serverDrafts?.latest || null
+      );
+
+      if (versions.length > 0) {
+        setRestoreVersions(versions);
+      } else {
+        setTranslationContent(edData.translationContent);
+      }
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const loadReviewComments = async () => {
+    try {
+      const response = await fetch(
+        `/api/${projectSlug}/translate/${languageCode}/comments/${encodeFilePath(filename)}`
+      );
+
+      if (response.ok) {
+        const data = await response.json();
+        setReviewComments(data.data);
+      }
+    } catch {
+      // Review comments are optional; the editor works without them
+    }
+  };
+
+  const sendReviewComment = async (method: 'POST' | 'PATCH', body: Record<string, unknown>) => {
+    setSavingComment(true);
+
+    try {
+      const response = await fetch(
+        `/api/${projectSlug}/translate/${languageCode}/comments/${encodeFilePath(filename)}`,
+        {
+          method,
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(body),
+        }
+      );
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Failed to save comment');
+      }
+
+      const thread: ReviewThread = data.data;
+      setReviewComments((current) =>
+        current && {
+          ...current,
+          threads: current.threads.some((t) => t.id === thread.id)
+            ? current.threads.map((t) => (t.id === thread.id ? thread : t))
+            : [...current.threads, thread],
+        }
+      );
+      return true;
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to save comment');
+      return false;
+    } finally {
+      setSavingComment(false);
+    }
+  };
+
+  const handleStartComment = () => {
+    const line = translationEditorRef.current?.getPosition()?.lineNumber;
+    const anchor = line ? getParagraphAt(translationContent, line) : null;
+
+    if (!anchor) {
+      alert('Put the cursor in a paragraph of the translation to comment on it');
+      return;
+    }
+
+    setPendingAnchor(anchor);
+    setReferencePanel('comments');
+  };
+
+  const handleCreateComment = async (body: string) => {
+    if (await sendReviewComment('POST', { anchor: pendingAnchor, body })) {
+      setPendingAnchor(null);
+    }
+  };
+
+  const handleSelectComment = (anchor: ParagraphAnchor) => {
+    const editor = translationEditorRef.current;
+    if (editor) {
+      editor.revealLineInCenter(anchor.startLine);
+      editor.setPosition({ lineNumber: anchor.startLine, column: 1 });
+      editor.focus();
+    }
+  };
+
+  const handleTranslationEditorMount: OnMount = (editor, monaco) => {
+    translationEditorRef.current = editor;
+    monacoRef.current = monaco;
+    commentDecorationsRef.current = editor.createDecorationsCollection();
+    registerScroll('translation', editor);
+  };
+
+  const handleToggleSegments = () => {
+    if (!editorData) {
+      return;
+    }
+
+    if (segmentView) {
+      setSegmentView(null);
+      return;
+    }
+
+    const segments = alignMarkdownSegments(
+      editorData.englishContent,
+      translationContent,
+      editorData.machineContent
+    );
+
+    if (!segments) {
+      setSegmentNotice(SEGMENT_MISMATCH);
+      return;
+    }
+
+    // The whole-document editors are unmounted until the mode is switched back
+    translationEditorRef.current = null;
+    commentDecorationsRef.current = null;
+    setSegmentNotice(null);
+    setSegmentView({ base: translationContent, segments, content: translationContent });
+  };
+
+  const handleSegmentChange = (index: number, translation: string) => {
+    if (!segmentView) {
+      return;
+    }
+
+    const segments = segmentView.segments.map((segment, i) =>
+      i === index ? { ...segment, translation } : segment
+    );
+    const content = joinAlignedSegments(segmentView.base, segments);
+
+    setSegmentView({ ...segmentView, segments, content });
+    setTranslationContent(content);
+  };
+
+  const handleRestore = (source: DraftVersionSource) => {
+    const version = restoreVersions.find((candidate) => candidate.source === source);
+    if (version) {
+      setTranslationContent(version.content);
+    }
+    if (source === 'github') {
+      clearAutosave();
+    }
+    setRestoreVersions([]);
+  };
+
+  const loadDraftHistory = async () => {
+    setDraftHistory(await loadServerDrafts(autosaveKey));
+  };
+
+  const handleShowHistory = () => {
+    setReferencePanel('history');
+    loadDraftHistory();
+  };
+
+  const handleSelectRevision = async (id: number) => {
+    if (selectedRevision?.revision.id === id) {
+      setSelectedRevision(null);
+      return;
+    }
+
+    try {
+      const response = await fetch(`${getDraftsUrl(autosaveKey)}?revision=${id}`);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Failed to load revision');
+      }
+
+      setSelectedRevision(data.data);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to load revision');
+    }
+  };
+
+  const handleRestoreRevision = async (id: number) => {
+    if (!confirm(`Replace your translation with revision #${id}?`)) {
+      return;
+    }
+
+    setRestoringRevision(true);
+    try {
+      const response = await fetch(getDraftsUrl(autosaveKey), {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ revision: id }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Failed to restore revision');
+      }
+
+      const restored: DraftRevision = data.data;
+      setTranslationContent(restored.content);
+      setSelectedRevision(null);
+      await loadDraftHistory();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to restore revision');
+    } finally {
+      setRestoringRevision(false);
+    }
+  };
+
+  const handleClaim = async (release: boolean) => {
+    setUpdatingClaim(true);
+    try {
+      const response = await fetch(
+        `/api/${projectSlug}/translate/${languageCode}/claims/${encodeFilePath(filename)}`,
+        { method: release ? 'DELETE' : 'POST' }
+      );
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Failed to update claim');
+      }
+
+      setPresence((current) => current && { ...current, claim: release ? null : data.data });
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to update claim');
+    } finally {
+      setUpdatingClaim(false);
+    }
+  };
+
+  const handleCopyFromMachine = () => {
+    if (editorData) {
+      setTranslationContent(editorData.machineContent);
+    }
+  };
+
+  const handleToggleSourceDrift = async () => {
+    if (showSourceDrift || sourceDrift) {
+      setShowSourceDrift(!showSourceDrift);
+      return;
+    }
+
+    setLoadingSourceDrift(true);
+    try {
+      const response = await fetch(
+        `/api/${projectSlug}/translate/${languageCode}/drift/${encodeFilePath(filename)}`
+      );
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Failed to load source changes');
+      }
+
+      setSourceDrift(data.data);
+      setShowSourceDrift(true);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to load source changes');
+    } finally {
+      setLoadingSourceDrift(false);
+    }
+  };
+
+  // Highlight glossary terms in the English original, with the approved term on hover
+  const handleEnglishEditorMount: OnMount = (editor, monaco) => {
+    registerScroll('english', editor);
+
+    const model = editor.getModel();
+    if (!editorData || !model) {
+      return;
+    }
+
+    editor.createDecorationsCollection(
+      findGlossaryTerms(editorData.englishContent, editorData.glossary).map(({ term, start, end }) => {
+        const from = model.getPositionAt(start);
+        const to = model.getPositionAt(end);
+
+        return {
+          range: new monaco.Range(from.lineNumber, from.column, to.lineNumber, to.column),
+          options: {
+            inlineClassName: 'glossary-term',
+            hoverMessage: {
+              value:
+                (isKeptInEnglish(term)
+                  ? `Glossary: keep **${term.source}** in English`
+                  : `Glossary: **${term.source}** → **${term.target}**`) +
+                (term.note ? `\n\n${term.note}` : ''),
+            },
+          },
+        };
+      })
+    );
+  };
+
+  const handleCopyFromMemory = async (target: string) => {
+    try {
+      await navigator.clipboard.writeText(target);
+    } catch {
+      alert('Failed to copy to clipboard');
+    }
+  };
+
+  const handleSaveDraft = async () => {
+    const savedContent = translationContent;
+    setSaving(true);
+    setError(null);
+
+    try {
+      const response = await fetch(
+        `/api/${projectSlug}/translate/${languageCode}/save`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ filename, content: savedContent }),
+        }
+      );
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to save');
+      }
+
+      clearAutosave();
+      await manualSave();
+      // Later changes are compared with what is now on GitHub
+      setEditorData((current) => current && { ...current, translationContent: savedContent });
+      setQualityReport(data.data?.quality || null);
+      alert('Draft saved successfully!');
+    } catch (err: any) {
+      setError(err.message);
+      alert('Failed to save: ' + err.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Run the checks the server runs before opening the pull request
+  const runQualityChecks = async (): Promise<QualityReport | null> => {
+    setCheckingQuality(true);
+    try {
+      const response = await fetch(`/api/${projectSlug}/translate/${languageCode}/quality`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ filename, content: translationContent }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Failed to run quality checks');
+      }
+
+      setQualityReport(data.data);
+      return data.data;
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to run quality checks');
+      return null;
+    } finally {
+      setCheckingQuality(false);
+    }
+  };
+
+  const handleCreatePR = async () => {
+    const report = await runQualityChecks();
+    if (!report) {
+      return;
+    }
+
+    if (report.blocking > 0) {
+      alert('Fix the blocking quality issues listed below the editor before creating a pull request.');
+      return;
+    }
+
+    const warnings = report.warnings > 0
+      ? ` The quality checks found ${report.warnings} ${report.warnings === 1 ? 'warning' : 'warnings'}, which will be listed in the pull request.`
+      : '';
+
+    if (!confirm(`Are you sure you want to create a pull request? Make sure your translation is complete.${warnings}`)) {
+      return;
+    }
+
+    setCreatingPR(true);
+    setError(null);
+
+    try {
+      const response = await fetch(
+        `/api/${projectSlug}/translate/${languageCode}/pr`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            filename,
+            content: translationContent,
+            message: `Complete translation for ${filename}`,
+          }),
+        }
+      );
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to create PR');
+      }
+
+      clearAutosave();
+      alert(`Pull request created successfully! PR #${data.prNumber}`);
+      router.push(`/${projectSlug}/translate/${languageCode}`);
+    } catch (err: any) {
+      setError(err.message);
+      alert('Failed to create PR: ' + err.message);
+    } finally {
+      setCreatingPR(false);
+    }
+  };
+
+  if (loading) {
+    return <Loading fullScreen text="Loading editor..." />;
+  }
+
+  if (error || !editorData) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="bg-white p-8 rounded-lg shadow-md max-w-md">
+          <h1 className="text-2xl font-bold text-red-600 mb-4">Error</h1>
+          <p className="text-gray-600 mb-4">{error || 'Failed to load editor'}</p>
+          <Link
+            href={`/${projectSlug}/translate/${languageCode}`}
+            className="text-blue-600 hover:underline"
+          >
+            Return to dashboard
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const isRTL = editorData.language.direction === 'rtl';
+  const claim = presence?.claim || null;
+  const ownClaim = claim?.username.toLowerCase() === editorData.username.toLowerCase();
+
+  return (
+    <div className="h-screen flex flex-col bg-gray-50">
+      {/* Restore Prompt */}
+      {restoreVersions.length > 0 && (
+        <DraftRestorePrompt versions={restoreVersions} onChoose={handleRestore} />
+      )}
+
+      {/* Other translators on this file */}
+      {((claim && !ownClaim) || (presence && presence.editors.length > 0)) && (
+        <div className="bg-purple-50 border-b border-purple-200 px-4 py-2">
+          <div className="max-w-7xl mx-auto flex items-center gap-4 text-sm text-purple-900">
+            {claim && !ownClaim && (
+              <span>
+                @{claim.username} has claimed this file until{' '}
+                {new Date(claim.expiresAt).toLocaleString()}; you cannot submit it for review.
+              </span>
+            )}
+            {presence && presence.editors.length > 0 && (
+              <span className="inline-flex items-center gap-2">
+                Also editing:
+                {presence.editors.map((editor) => (
+                  <span key={editor.username} className="inline-flex items-center gap-1">
+                    <Avatar username={editor.username} size={16} />@{editor.username}
+                  </span>
+                ))}
+              </span>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Source Drift */}
+      {editorData.metadata.outdated && (
+        <div className="bg-orange-50 border-b border-orange-200 p-4">
+          <div className="max-w-7xl mx-auto">
+            <div className="flex items-center justify-between">
+              <p className="text-orange-900">
+                The English source of this file changed after it was translated.
+              </p>
+              <Button
+                size="sm"
+                variant="secondary"
+                onClick={handleToggleSourceDrift}
+                loading={loadingSourceDrift}
+              >
+                {showSourceDrift ? 'Hide Changes' : 'Show Changes'}
+              </Button>
+            </div>
+            {showSourceDrift && sourceDrift && (
+              <div className="mt-3 max-h-64 overflow-y-auto bg-white rounded p-3">
+                <SourceDriftPanel drift={sourceDrift} />
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Header */}
+      <div className="bg-white border-b border-gray-200 px-4 py-3">
+        <div className="max-w-7xl mx-auto flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <Link
+              href={`/${projectSlug}/translate/${languageCode}`}
+              className="text-gray-600 hover:text-gray-900"
+            >
+              ← Back
+            </Link>
+            <div>
+              <h1 className="text-lg font-semibold text-gray-900">{filename}</h1>
+              <p className="text-sm text-gray-600">{editorData.language.name} Translation</p>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-4">
+            <Button size="sm" variant="ghost" onClick={handleToggleSegments}>
+              {segmentView ? 'Whole Document' : 'Segments'}
+            </Button>
+            {claim ? (
+              <FileClaimBadge
+                claim={claim}
+                currentUser={editorData.username}
+                busy={updatingClaim}
+                onRelease={ownClaim ? () => handleClaim(true) : undefined}
+              />
+            ) : (
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => handleClaim(false)}
+                loading={updatingClaim}
+              >
+                Claim File
+              </Button>
+            )}
+            {lastSaved && (
+              <span className="text-sm text-gray-600">
+                Last saved: {lastSaved.toLocaleTimeString()}
+                {isDirty && ' (unsaved changes)'}
+              </span>
+            )}
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={runQualityChecks}
+              loading={checkingQuality}
+              disabled={checkingQuality || creatingPR}
+            >
+              Run Checks
+            </Button>
+            <Button
+              size="sm"
+              variant="secondary"
+              onClick={handleSaveDraft}
+              loading={saving}
+              disabled={saving || creatingPR}
+            >
+              Save Draft
+            </Button>
+            <Button
+              size="sm"
+              variant="primary"
+              onClick={handleCreatePR}
+              loading={creatingPR}
+              disabled={saving || creatingPR || checkingQuality || Boolean(claim && !ownClaim)}
+            >
+              Create Pull Request
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      {segmentNotice && (
+        <div className="bg-yellow-50 border-b border-yellow-200 px-4 py-2">
+          <div className="max-w-7xl mx-auto flex items-center justify-between text-sm text-yellow-900">
+            <span>{segmentNotice}</span>
+            <button onClick={() => setSegmentNotice(null)} className="underline hover:no-underline">
+              Dismiss
+            </button>
+          </div>
+        </div>
+      )}
+
+      {segmentView ? (
+        /* Segment Editor */
+        <div className="flex-1 p-4 overflow-hidden">
+          <SegmentEditor
+            segments={segmentView.segments}
+            direction={editorData.language.direction}
+            onChange={handleSegmentChange}
+          />
+        </div>
+      ) : (
+        /* Three-Column Editor */
+        <div className="flex-1 grid grid-cols-3 gap-4 p-4 overflow-hidden">
+          {/* Column 1: English Original */}
+          <div className="bg-white rounded-lg shadow-md overflow-hidden flex flex-col">
+            <div className="bg-gray-100 px-4 py-2 border-b border-gray-200 flex items-center justify-between">
+              <h3 className="font-semibold text-gray-900">English (Original)</h3>
+              <label className="flex items-center gap-1 text-xs text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={syncScroll}
+                  onChange={(event) => setSyncScroll(event.target.checked)}
+                />
+                Sync scrolling
+              </label>
+            </div>
+            <div className="flex-1 overflow-hidden">
+              <Editor
+                height="100%"
+                language="markdown"
+                value={editorData.englishContent}
+                onMount={handleEnglishEditorMount}
+                options={{
+                  readOnly: true,
+                  minimap: { enabled: false },
+                  lineNumbers: 'on',
+                  wordWrap: 'on',
+                  scrollBeyondLastLine: false,
+                }}
+                theme="vs-light"
+              />
+            </div>
+          </div>
+
+          {/* Column 2: Working Translation */}
+          <div className="bg-white rounded-lg shadow-md overflow-hidden flex flex-col">
+            <div className="bg-blue-100 px-4 py-2 border-b border-blue-200 flex items-center justify-between">
+              <h3 className="font-semibold text-blue-900">Your Translation</h3>
+              <div className="flex items-center gap-2">
+                {reviewComments?.canComment && (
+                  <button
+                    onClick={handleStartComment}
+                    className="text-xs bg-blue-200 hover:bg-blue-300 text-blue-900 px-2 py-1 rounded transition-colors"
+                    title="Comment on the paragraph at the cursor"
+                  >
+                    Comment
+                  </button>
+                )}
+                {isRTL && (
+                  <span className="text-xs bg-blue-200 text-blue-800 px-2 py-1 rounded">
+                    RTL
+                  </span>
+                )}
+              </div>
+            </div>
+            <div className="flex-1 overflow-hidden" dir={isRTL ? 'rtl' : 'ltr'}>
+              <Editor
+                height="100%"
+                language="markdown"
+                value={translationContent}
+                onChange={(value) => setTranslationContent(value || '')}
+                onMount={handleTranslationEditorMount}
+                options={{
+                  minimap: { enabled: false },
+                  lineNumbers: 'on',
+                  wordWrap: 'on',
+                  scrollBeyondLastLine: false,
+                  rtl: isRTL,
+                }}
+                theme="vs-light"
+              />
+            </div>
+          </div>
+
+          {/* Column 3: Machine Translation / Translation Memory / Preview / Changes */}
+          <div className="bg-white rounded-lg shadow-md overflow-hidden flex flex-col">
+            <div className="bg-gray-100 px-4 py-2 border-b border-gray-200 flex items-center justify-between">
+              <div className="flex items-center gap-3">
+                <button
+                  onClick={() => setReferencePanel('machine')}
+                  className={`font-semibold ${referencePanel === 'machine' ? 'text-gray-900' : 'text-gray-500 hover:text-gray-700'}`}
+                >
+                  Machine Translation
+                </button>
+                <button
+                  onClick={() => setReferencePanel('memory')}
+                  className={`font-semibold ${referencePanel === 'memory' ? 'text-gray-900' : 'text-gray-500 hover:text-gray-700'}`}
+                >
+                  Memory ({editorData.memoryMatches.length})
+                </button>
+                <button
+                  onClick={() => setReferencePanel('comments')}
+                  className={`font-semibold ${referencePanel === 'comments' ? 'text-gray-900' : 'text-gray-500 hover:text-gray-700'}`}
+                >
+                  Comments ({reviewComments?.threads.filter((thread) => !thread.resolved).length || 0})
+                </button>
+                <button
+                  onClick={handleShowHistory}
+                  className={`font-semibold ${referencePanel === 'history' ? 'text-gray-900' : 'text-gray-500 hover:text-gray-700'}`}
+                >
+                  History
+                </button>
+                <button
+                  onClick={() => setReferencePanel('preview')}
+                  className={`font-semibold ${referencePanel === 'preview' ? 'text-gray-900' : 'text-gray-500 hover:text-gray-700'}`}
+                >
+                  Preview
+                </button>
+                <button
+                  onClick={() => setReferencePanel('changes')}
+                  className={`font-semibold ${referencePanel === 'changes' ? 'text-gray-900' : 'text-gray-500 hover:text-gray-700'}`}
+                >
+                  Changes
+                </button>
+              </div>
+              {referencePanel === 'changes' && (
+                <button
+                  onClick={() => setCompareWith(compareWith === 'machine' ? 'saved' : 'machine')}
+                  className="text-xs bg-gray-200 hover:bg-gray-300 text-gray-800 px-2 py-1 rounded transition-colors"
+                >
+                  {compareWith === 'machine' ? 'Compare with Last Saved' : 'Compare with Machine'}
+                </button>
+              )}
+              {referencePanel === 'preview' && (
+                <button
+                  onClick={() => setPreviewEnglish(!previewEnglish)}
+                  className="text-xs bg-gray-200 hover:bg-gray-300 text-gray-800 px-2 py-1 rounded transition-colors"
+                >
+                  {previewEnglish ? 'Show Translation' : 'Show English'}
+                </button>
+              )}
+              {referencePanel === 'machine' && (
+                <button
+                  onClick={handleCopyFromMachine}
+                  className="text-xs bg-gray-200 hover:bg-gray-300 text-gray-800 px-2 py-1 rounded transition-colors"
+                >
+                  Copy to Working →
+                </button>
+              )}
+            </div>
+            <div className="flex-1 overflow-hidden" dir={isRTL ? 'rtl' : 'ltr'}>
+              {referencePanel === 'machine' ? (
+                <Editor
+                  height="100%"
+                  language="markdown"
+                  value={editorData.machineContent}
+                  onMount={(editor) => registerScroll('machine', editor)}
+                  options={{
+                    readOnly: true,
+                    minimap: { enabled: false },
+                    lineNumbers: 'on',
+                    wordWrap: 'on',
+                    scrollBeyondLastLine: false,
+                    rtl: isRTL,
+                  }}
+                  theme="vs-light"
+                />
+              ) : referencePanel === 'memory' ? (
+                <TranslationMemoryPanel
+                  matches={editorData.memoryMatches}
+                  direction={editorData.language.direction}
+                  onCopy={handleCopyFromMemory}
+                />
+              ) : referencePanel === 'preview' ? (
+                <MarkdownPreview
+                  markdown={previewEnglish ? editorData.englishContent : translationContent}
+                  direction={previewEnglish ? 'ltr' : editorData.language.direction}
+                  scrollRef={registerPreviewScroll}
+                />
+              ) : referencePanel === 'changes' ? (
+                <WordDiffPanel
+                  key={compareWith}
+                  base={compareWith === 'machine' ? editorData.machineContent : editorData.translationContent}
+                  baseLabel={compareWith === 'machine' ? 'Machine translation' : 'Last saved version'}
+                  content={translationContent}
+                  direction={editorData.language.direction}
+                  onChange={setTranslationContent}
+                />
+              ) : referencePanel === 'history' ? (
+                <DraftHistoryPanel
+                  revisions={draftHistory?.revisions || []}
+                  selected={selectedRevision}
+                  direction={editorData.language.direction}
+                  busy={restoringRevision}
+                  onSelect={handleSelectRevision}
+                  onRestore={handleRestoreRevision}
+                />
+              ) : (
+                <ReviewCommentsPanel
+                  threads={reviewComments?.threads || []}
+                  content={translationContent}
+                  direction={editorData.language.direction}
+                  canComment={reviewComments?.canComment || false}
+                  synced={reviewComments?.synced ?? true}
+                  pendingAnchor={pendingAnchor}
+                  busy={savingComment}
+                  onCreate={handleCreateComment}
+                  onCancelCreate={() => setPendingAnchor(null)}
+                  onReply={(threadId, body) => sendReviewComment('POST', { threadId, body })}
+                  onResolve={(threadId, resolved) => sendReviewComment('PATCH', { threadId, resolved })}
+                  onSelect={handleSelectComment}
+                />
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+
+      <GlossaryWarnings
+        warnings={glossaryWarnings}
+        direction={editorData.language.direction}
+      />
+
+      <QualityReportBar report={qualityReport} />
+
+      {/* Info Bar */}
+      <div className="bg-white border-t border-gray-200 px-4 py-2">
+        <div className="max-w-7xl mx-auto flex items-center justify-between text-sm text-gray-600">
+          <div className="flex items-center gap-6">
+            <span>
+              Status:{' '}
+              <span className="font-medium">
+                {editorData.metadata.status.replace('-', ' ')}
+              </span>
+            </span>
+            {editorData.metadata.wordCount > 0 && (
+              <span>{editorData.metadata.wordCount.toLocaleString()} words</span>
+            )}
+          </div>
+          <div className="text-xs text-gray-500">
+            {savedOnServer
+              ? 'Auto-saves every 30 seconds to your browser and the hub'
+              : 'Auto-saved to your browser only: the hub could not be reached'}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -6,7 +6,11 @@ import Link from 'next/link';
 import { ProgressBar } from '@/components/ui/ProgressBar';
 import { Button } from '@/components/ui/Button';
 import { Loading } from '@/components/ui/Loading';
-import type { DashboardData, SyncStatusResponse } from '@/types';
+import { ReviewStateBadge } from '@/components/review/ReviewStateBadge';
+import { BatchSubmitBar } from '@/components/dashboard/BatchSubmitBar';
+import { FileClaimBadge } from '@/components/dashboard/FileClaimBadge';
+import { encodeFilePath } from '@/lib/paths';
+import type { BatchSubmitResponse, DashboardData, SyncStatusResponse } from '@/types';
 
 export default function TranslationDashboardPage() {
   const params = useParams();
@@ -19,6 +23,10 @@ export default function TranslationDashboardPage() {
   const [loading, setLoading] = useState(true);
   const [syncing, setSyncing] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [selectedFiles, setSelectedFiles] = useState<string[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+  const [submitted, setSubmitted] = useState<BatchSubmitResponse | null>(null);
+  const [releasingClaim, setReleasingClaim] = useState<string | null>(null);
 
   const loadDashboard = useCallback(async () => {
     try {
@@ -84,6 +92,68 @@ export default function TranslationDashboardPage() {
     }
   };
 
+  const toggleFile = (filename: string) => {
+    setSelectedFiles((selected) =>
+      selected.includes(filename)
+        ? selected.filter((f) => f !== filename)
+        : [...selected, filename]
+    );
+  };
+
+  const handleSubmitSelected = async (message?: string) => {
+    setSubmitting(true);
+    try {
+      const response = await fetch(
+        `/api/${projectSlug}/translate/${languageCode}/pr/batch`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ filenames: selectedFiles, message }),
+        }
+      );
+
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error?.message || data.message || 'Submission failed');
+      }
+
+      setSubmitted(data.data);
+      setSelectedFiles([]);
+      await loadDashboard();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to submit files');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleReleaseClaim = async (filename: string) => {
+    if (!confirm(`Release the claim on ${filename}?`)) {
+      return;
+    }
+
+    setReleasingClaim(filename);
+    try {
+      const response = await fetch(
+        `/api/${projectSlug}/translate/${languageCode}/claims/${encodeFilePath(filename)}`,
+        { method: 'DELETE' }
+      );
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error?.message || 'Failed to release claim');
+      }
+
+      await loadDashboard();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to release claim');
+    } finally {
+      setReleasingClaim(null);
+    }
+  };
+
   if (loading) {
     return <Loading fullScreen text="Loading dashboard..." />;
   }
@@ -102,7 +172,10 @@ export default function TranslationDashboardPage() {
     );
   }
 
-  const { project, language, stats, files, userStats } = dashboardData;
+  const { project, language, stats, files, userStats, username, role, activity } = dashboardData;
+  // Coordinators can release claims that were left behind
+  const canReleaseClaims = role !== 'translator' && role !== 'reviewer';
+  const outdatedCount = files.filter((file) => file.outdated).length;
   const needsSync = syncStatus && syncStatus.behindBy > 0;
 
   return (
@@ -119,9 +192,18 @@ export default function TranslationDashboardPage() {
           <h1 className="text-4xl font-bold text-gray-900 mb-2">
             {project.name} - {language.name} Translation
           </h1>
-          <p className="text-gray-600">
-            Translate documentation files to {language.name}
-          </p>
+          <div className="flex items-center justify-between">
+            <p className="text-gray-600">
+              Translate documentation files to {language.name}
+            </p>
+            {role !== 'translator' && (
+              <Link href={`/${projectSlug}/translate/${languageCode}/review`}>
+                <Button size="sm" variant="secondary">
+                  Review Queue
+                </Button>
+              </Link>
+            )}
+          </div>
         </div>
 
         {/* Sync Banner */}
@@ -148,6 +230,35 @@ export default function TranslationDashboardPage() {
           </div>
         )}
 
+        {/* Submitted files */}
+        {submitted && (
+          <div className="mb-6 bg-green-50 border border-green-200 rounded-lg p-4 flex items-start justify-between">
+            <p className="text-sm text-green-900">
+              {submitted.files.length} {submitted.files.length === 1 ? 'file' : 'files'} submitted for review in{' '}
+              {submitted.pullRequests.map((pr, index) => (
+                <span key={pr.number}>
+                  {index > 0 && ', '}
+                  <a
+                    href={pr.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="font-medium underline"
+                  >
+                    #{pr.number}
+                  </a>
+                </span>
+              ))}
+            </p>
+            <button
+              onClick={() => setSubmitted(null)}
+              className="text-green-700 hover:text-green-900 text-sm"
+              aria-label="Dismiss"
+            >
+              ✕
+            </button>
+          </div>
+        )}
+
         {/* Progress Overview */}
         <div className="grid gap-6 md:grid-cols-3 mb-8">
           <div className="bg-white rounded-lg shadow-md p-6">
@@ -191,6 +302,12 @@ export default function TranslationDashboardPage() {
                 <span className="text-gray-600">Not Started:</span>
                 <span className="font-medium text-gray-400">{stats.notStarted}</span>
               </div>
+              {outdatedCount > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Outdated:</span>
+                  <span className="font-medium text-orange-600">{outdatedCount}</span>
+                </div>
+              )}
             </div>
           </div>
         </div>
@@ -204,6 +321,13 @@ export default function TranslationDashboardPage() {
             </p>
           </div>
 
+          <BatchSubmitBar
+            count={selectedFiles.length}
+            busy={submitting}
+            onSubmit={handleSubmitSelected}
+            onClear={() => setSelectedFiles([])}
+          />
+
           <div className="divide-y divide-gray-200">
             {files.map((file) => {
               const statusColors = {
@@ -223,9 +347,20 @@ export default function TranslationDashboardPage() {
                   <div className="flex items-start justify-between">
                     <div className="flex-1">
                       <div className="flex items-center gap-3 mb-2">
-                        <span className="text-lg">
-                          {statusIcons[file.status]}
-                        </span>
+                        {file.status === 'in-progress' ? (
+                          <input
+                            type="checkbox"
+                            checked={selectedFiles.includes(file.filename)}
+                            onChange={() => toggleFile(file.filename)}
+                            disabled={submitting}
+                            aria-label={`Select ${file.filename}`}
+                            className="h-4 w-4"
+                          />
+                        ) : (
+                          <span className="text-lg">
+                            {statusIcons[file.status]}
+                          </span>
+                        )}
                         <h3 className="text-lg font-medium text-gray-900">
                           {file.filename}
                         </h3>
@@ -237,6 +372,30 @@ export default function TranslationDashboardPage() {
                         <span className={`inline-flex items-center px-2 py-1 text-xs font-medium rounded ${statusColors[file.status]}`}>
                           {file.status.replace('-', ' ')}
                         </span>
+                        {file.reviewState && file.reviewState !== 'draft' && (
+                          <ReviewStateBadge state={file.reviewState} />
+                        )}
+                        {file.outdated && (
+                          <span
+                            className="inline-flex items-center px-2 py-1 text-xs font-medium rounded bg-orange-100 text-orange-800"
+                            title="The English source changed since this file was translated"
+                          >
+                            Outdated
+                          </span>
+                        )}
+                        {file.claim && (
+                          <FileClaimBadge
+                            claim={file.claim}
+                            currentUser={username}
+                            busy={releasingClaim === file.filename}
+                            onRelease={
+                              canReleaseClaims ||
+                              file.claim.username.toLowerCase() === username.toLowerCase()
+                                ? () => handleReleaseClaim(file.filename)
+                                : undefined
+                            }
+                          />
+                        )}
                       </div>
 
                       <div className="text-sm text-gray-600 space-y-1">
@@ -252,7 +411,18 @@ export default function TranslationDashboardPage() {
                           </p>
                         )}
                         {file.wordCount > 0 && (
-                          <p>{file.wordCount.toLocaleString()} words</p>
+                          <p>
+                            {file.wordCount.toLocaleString()} words
+                            {file.postEditDistance !== null && (
+                              <span
+                                className="text-gray-500"
+                                title="Share of the submitted translation changed from the machine translation"
+                              >
+                                {' · '}
+                                {Math.round(file.postEditDistance * 100)}% post-edited
+                              </span>
+                            )}
+                          </p>
                         )}
                         {file.prNumber && (
                           <p>
@@ -272,7 +442,7 @@ export default function TranslationDashboardPage() {
 
                     <div className="ml-4">
                       <Link
-                        href={`/${projectSlug}/translate/${languageCode}/edit/${encodeURIComponent(file.filename)}`}
+                        href={`/${projectSlug}/translate/${languageCode}/edit/${encodeFilePath(file.filename)}`}
                       >
                         <Button size="sm" variant={file.status === 'complete' ? 'secondary' : 'primary'}>
                           {file.status === 'complete' ? 'Review' : file.status === 'in-progress' ? 'Continue' : 'Start'}
@@ -285,6 +455,39 @@ export default function TranslationDashboardPage() {
             })}
           </div>
         </div>
+
+        {/* Recent GitHub activity, from the webhook */}
+        {activity.length > 0 && (
+          <div className="mt-8 bg-white rounded-lg shadow-md overflow-hidden">
+            <div className="px-6 py-4 border-b border-gray-200">
+              <h2 className="text-xl font-bold text-gray-900">Recent Activity</h2>
+            </div>
+            <ul className="divide-y divide-gray-200">
+              {activity.map((event) => (
+                <li key={event.id} className="px-6 py-3 flex justify-between gap-4 text-sm">
+                  <span className="text-gray-900">
+                    {event.url ? (
+                      <a
+                        href={event.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="hover:underline"
+                      >
+                        {event.summary}
+                      </a>
+                    ) : (
+                      event.summary
+                    )}
+                  </span>
+                  <span className="text-gray-500 whitespace-nowrap">
+                    {event.actor && `${event.actor} · `}
+                    {new Date(event.receivedAt).toLocaleString()}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,123 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useParams } from 'next/navigation';
+import Link from 'next/link';
+import { Loading } from '@/components/ui/Loading';
+import { ReviewQueueList } from '@/components/review/ReviewQueueList';
+import type { ReviewAction, ReviewQueueData } from '@/types';
+
+export default function ReviewQueuePage() {
+  const params = useParams();
+  const projectSlug = params.project as string;
+  const languageCode = params.language as string;
+
+  const [queue, setQueue] = useState<ReviewQueueData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busyFile, setBusyFile] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const loadQueue = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/${projectSlug}/translate/${languageCode}/review`);
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error?.message || 'Failed to load the review queue');
+      }
+
+      setQueue(result.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load the review queue');
+    } finally {
+      setLoading(false);
+    }
+  }, [projectSlug, languageCode]);
+
+  useEffect(() => {
+    loadQueue();
+  }, [loadQueue]);
+
+  const handleAction = async (filename: string, action: ReviewAction, comment?: string) => {
+    setBusyFile(filename);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const response = await fetch(`/api/${projectSlug}/translate/${languageCode}/review`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ filename, action, comment }),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error?.message || 'Failed to save the review');
+      }
+
+      const messages: Record<ReviewAction, string> = {
+        'start-review': `Reviewing ${filename}`,
+        approve: `Approved ${filename}`,
+        'request-changes': `Requested changes to ${filename}`,
+      };
+      setSuccess(messages[action]);
+      await loadQueue();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred while saving the review');
+    } finally {
+      setBusyFile(null);
+    }
+  };
+
+  if (loading) {
+    return <Loading fullScreen text="Loading review queue..." />;
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+        <div className="mb-8">
+          <Link
+            href={`/${projectSlug}/translate/${languageCode}`}
+            className="text-sm text-gray-600 hover:text-gray-900 mb-4 inline-block"
+          >
+            ← Back to dashboard
+          </Link>
+          <h1 className="text-4xl font-bold text-gray-900 mb-2">Review Queue</h1>
+          <p className="text-gray-600">
+            Translations submitted for review. Approvals and change requests are posted to the
+            pull request on GitHub.
+          </p>
+        </div>
+
+        {error && (
+          <div className="mb-6 bg-red-50 border border-red-200 text-red-800 px-4 py-3 rounded-lg">
+            <p className="text-sm">{error}</p>
+          </div>
+        )}
+
+        {success && (
+          <div className="mb-6 bg-green-50 border border-green-200 text-green-800 px-4 py-3 rounded-lg">
+            <p className="text-sm">{success}</p>
+          </div>
+        )}
+
+        {queue && (
+          <div className="bg-white rounded-lg shadow-md overflow-hidden">
+            <ReviewQueueList
+              items={queue.items}
+              editorPath={`/${projectSlug}/translate/${languageCode}/edit`}
+              currentUser={queue.username}
+              busyFile={busyFile}
+              onAction={handleAction}
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
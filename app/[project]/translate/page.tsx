@@ -1,7 +1,8 @@
 import Link from 'next/link';
 import { redirect } from 'next/navigation';
 import { getProjectConfig, getActiveLanguages } from '@/lib/config';
-import { auth } from '@/lib/auth';
+import { auth, getSessionUser } from '@/lib/auth';
+import { getProjectAccess, getLanguagesWithRole, getRoleLabel } from '@/lib/access';
 
 export default async function LanguageSelectionPage({
   params,
@@ -33,7 +34,11 @@ export default async function LanguageSelectionPage({
     );
   }
 
-  const activeLanguages = getActiveLanguages(project);
+  // Languages with a translator list are shown to their team only
+  const user = await getSessionUser();
+  const access = await getProjectAccess(project, user?.username || '');
+  const activeLanguages = getActiveLanguages(project).filter(({ code }) => access.languages[code]);
+  const canManage = getLanguagesWithRole(access, 'coordinator').length > 0;
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -52,6 +57,14 @@ export default async function LanguageSelectionPage({
           <p className="text-gray-600">
             Choose which language you want to translate {project.name} into
           </p>
+          {canManage && (
+            <Link
+              href={`/${params.project}/admin`}
+              className="mt-2 inline-block text-sm text-blue-600 hover:underline"
+            >
+              Manage languages →
+            </Link>
+          )}
         </div>
 
         {/* User Info */}
@@ -96,6 +109,11 @@ export default async function LanguageSelectionPage({
                   <span className="inline-flex items-center px-2 py-1 text-xs font-medium rounded-full bg-green-100 text-green-800">
                     {config.status}
                   </span>
+                  {access.languages[code] !== 'translator' && (
+                    <span className="inline-flex items-center px-2 py-1 text-xs font-medium rounded-full bg-blue-100 text-blue-800">
+                      {getRoleLabel(access.languages[code])}
+                    </span>
+                  )}
                   <span className="inline-flex items-center px-2 py-1 text-xs font-medium rounded-full bg-gray-100 text-gray-800">
                     {config.direction.toUpperCase()}
                   </span>
@@ -104,7 +122,9 @@ export default async function LanguageSelectionPage({
 
               <div className="flex items-center justify-between text-sm text-gray-600">
                 <span>
-                  Initialized {new Date(config.initialized).toLocaleDateString()}
+                  {config.initialized
+                    ? `Initialized ${new Date(config.initialized).toLocaleDateString()}`
+                    : 'Not initialized yet'}
                 </span>
                 <svg
                   className="w-5 h-5 text-gray-400"
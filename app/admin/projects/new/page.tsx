@@ -0,0 +1,434 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import Link from 'next/link';
+import { Button } from '@/components/ui/Button';
+import { FolderBrowser } from '@/components/admin/FolderBrowser';
+import type { PullRequestMode, RepositoryContents } from '@/types';
+
+type Step = 'repository' | 'folders' | 'files' | 'details';
+
+const steps: Array<{ id: Step; label: string }> = [
+  { id: 'repository', label: 'Repository' },
+  { id: 'folders', label: 'Folders' },
+  { id: 'files', label: 'Files' },
+  { id: 'details', label: 'Details' },
+];
+
+function splitLines(value: string): string[] {
+  return value
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+export default function RegisterProjectPage() {
+  const router = useRouter();
+
+  const [step, setStep] = useState<Step>('repository');
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const [githubRepo, setGithubRepo] = useState('');
+  const [contents, setContents] = useState<RepositoryContents | null>(null);
+  const [sourceBranch, setSourceBranch] = useState('');
+  const [sourceFolder, setSourceFolder] = useState('');
+  const [translationFolder, setTranslationFolder] = useState('');
+  const [tmpFolder, setTmpFolder] = useState('');
+
+  const [useGlobs, setUseGlobs] = useState(false);
+  const [filePattern, setFilePattern] = useState('*.md');
+  const [include, setInclude] = useState('**/*.md');
+  const [exclude, setExclude] = useState('');
+  const [files, setFiles] = useState<string[] | null>(null);
+  const [priorityFiles, setPriorityFiles] = useState<string[]>([]);
+
+  const [slug, setSlug] = useState('');
+  const [name, setName] = useState('');
+  const [pullRequests, setPullRequests] = useState<PullRequestMode>('bundled');
+
+  const request = async <T,>(url: string, init?: RequestInit): Promise<T | null> => {
+    setBusy(true);
+    setError(null);
+
+    try {
+      const response = await fetch(url, init);
+      const result = await response.json();
+
+      if (!response.ok) {
+        throw new Error(result.error?.message || 'Request failed');
+      }
+      return result.data as T;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const browse = async (ref?: string, folder?: string) => {
+    const query = new URLSearchParams({ repo: githubRepo.trim() });
+    if (ref) query.set('ref', ref);
+    if (folder) query.set('path', folder);
+
+    const data = await request<RepositoryContents>(`/api/projects/repository?${query}`);
+    if (data) {
+      setContents(data);
+      setSourceBranch(data.ref);
+    }
+    return data;
+  };
+
+  const handleLoadRepository = async () => {
+    const data = await browse();
+    if (data) {
+      const repoName = data.githubRepo.split('/')[1].toLowerCase();
+      setSlug(repoName.replace(/[^a-z0-9-]/g, '-'));
+      setName(data.githubRepo.split('/')[1]);
+      setStep('folders');
+    }
+  };
+
+  const handleSelectSource = (folder: string) => {
+    setSourceFolder(folder);
+    const translations = `${folder === '/' ? '' : folder}/translations`;
+    setTranslationFolder(translations);
+    setTmpFolder(`${translations}/{language}/tmp`);
+    setFiles(null);
+  };
+
+  const handleSelectTranslations = (folder: string) => {
+    setTranslationFolder(folder);
+    setTmpFolder(`${folder === '/' ? '' : folder}/{language}/tmp`);
+  };
+
+  const patterns = useGlobs
+    ? { include: splitLines(include), exclude: splitLines(exclude) }
+    : { filePattern: filePattern.trim() };
+
+  const handlePreview = async () => {
+    const data = await request<{ files: string[] }>('/api/projects/preview', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        githubRepo: githubRepo.trim(),
+        sourceBranch,
+        sourceFolder,
+        translationFolder,
+        ...patterns,
+      }),
+    });
+
+    if (data) {
+      setFiles(data.files);
+      setPriorityFiles((current) => current.filter((file) => data.files.includes(file)));
+    }
+  };
+
+  const togglePriorityFile = (file: string) => {
+    setPriorityFiles((current) =>
+      current.includes(file) ? current.filter((f) => f !== file) : [...current, file]
+    );
+  };
+
+  const handleRegister = async () => {
+    const data = await request('/api/projects', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        slug: slug.trim(),
+        name: name.trim(),
+        githubRepo: githubRepo.trim(),
+        sourceBranch,
+        sourceFolder,
+        translationFolder,
+        tmpFolder: tmpFolder.trim(),
+        ...patterns,
+        priorityFiles,
+        pullRequests,
+      }),
+    });
+
+    if (data) {
+      router.push(`/${slug.trim()}/admin`);
+    }
+  };
+
+  const inputClass = 'mt-1 block w-full px-3 py-1.5 border border-gray-300 rounded-md text-sm';
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+        <div className="mb-8">
+          <Link href="/" className="text-sm text-gray-600 hover:text-gray-900 mb-4 inline-block">
+            ← Back to projects
+          </Link>
+          <h1 className="text-4xl font-bold text-gray-900 mb-2">Register a Project</h1>
+          <p className="text-gray-600">
+            Add an OWASP project from its GitHub repository. Languages are added afterwards
+            on the project&apos;s admin page.
+          </p>
+        </div>
+
+        <ol className="flex gap-2 mb-6 text-sm">
+          {steps.map(({ id, label }, index) => (
+            <li
+              key={id}
+              className={`flex-1 text-center px-3 py-2 rounded-md ${
+                step === id ? 'bg-gray-900 text-white' : 'bg-gray-100 text-gray-600'
+              }`}
+            >
+              {index + 1}. {label}
+            </li>
+          ))}
+        </ol>
+
+        {error && (
+          <div className="mb-6 bg-red-50 border border-red-200 text-red-800 px-4 py-3 rounded-lg">
+            <p className="text-sm">{error}</p>
+          </div>
+        )}
+
+        <div className="bg-white rounded-lg shadow-md p-6 space-y-4">
+          {step === 'repository' && (
+            <>
+              <label className="block text-sm">
+                <span className="font-medium text-gray-900">GitHub repository</span>
+                <input
+                  type="text"
+                  value={githubRepo}
+                  onChange={(event) => setGithubRepo(event.target.value)}
+                  placeholder="OWASP/Top10"
+                  className={`${inputClass} font-mono`}
+                />
+              </label>
+              <Button onClick={handleLoadRepository} loading={busy} disabled={!githubRepo.trim()}>
+                Continue
+              </Button>
+            </>
+          )}
+
+          {step === 'folders' && contents && (
+            <>
+              <label className="block text-sm">
+                <span className="font-medium text-gray-900">Source branch</span>
+                <select
+                  value={sourceBranch}
+                  onChange={(event) => browse(event.target.value, contents.path)}
+                  className={inputClass}
+                >
+                  {contents.branches.map((branch) => (
+                    <option key={branch} value={branch}>
+                      {branch}
+                    </option>
+                  ))}
+                </select>
+              </label>
+
+              <FolderBrowser
+                contents={contents}
+                loading={busy}
+                onNavigate={(folder) => browse(sourceBranch, folder)}
+                actions={[
+                  { label: 'Use as source folder', onSelect: handleSelectSource },
+                  { label: 'Use for translations', onSelect: handleSelectTranslations },
+                ]}
+              />
+
+              <div className="grid grid-cols-3 gap-4">
+                <label className="block text-sm">
+                  <span className="font-medium text-gray-900">Source folder</span>
+                  <input
+                    type="text"
+                    value={sourceFolder}
+                    onChange={(event) => setSourceFolder(event.target.value)}
+                    className={`${inputClass} font-mono`}
+                  />
+                </label>
+                <label className="block text-sm">
+                  <span className="font-medium text-gray-900">Translation folder</span>
+                  <input
+                    type="text"
+                    value={translationFolder}
+                    onChange={(event) => setTranslationFolder(event.target.value)}
+                    className={`${inputClass} font-mono`}
+                  />
+                </label>
+                <label className="block text-sm">
+                  <span className="font-medium text-gray-900">Machine draft folder</span>
+                  <input
+                    type="text"
+                    value={tmpFolder}
+                    onChange={(event) => setTmpFolder(event.target.value)}
+                    className={`${inputClass} font-mono`}
+                  />
+                </label>
+              </div>
+
+              <div className="flex gap-3">
+                <Button variant="ghost" onClick={() => setStep('repository')}>
+                  Back
+                </Button>
+                <Button
+                  onClick={() => setStep('files')}
+                  disabled={!sourceFolder || !translationFolder || !tmpFolder}
+                >
+                  Continue
+                </Button>
+              </div>
+            </>
+          )}
+
+          {step === 'files' && (
+            <>
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={useGlobs}
+                  onChange={(event) => {
+                    setUseGlobs(event.target.checked);
+                    setFiles(null);
+                  }}
+                />
+                Use include and exclude globs
+              </label>
+
+              {useGlobs ? (
+                <div className="grid grid-cols-2 gap-4">
+                  <label className="block text-sm">
+                    <span className="font-medium text-gray-900">Include (one glob per line)</span>
+                    <textarea
+                      value={include}
+                      onChange={(event) => setInclude(event.target.value)}
+                      rows={4}
+                      className={`${inputClass} font-mono`}
+                    />
+                  </label>
+                  <label className="block text-sm">
+                    <span className="font-medium text-gray-900">Exclude (one glob per line)</span>
+                    <textarea
+                      value={exclude}
+                      onChange={(event) => setExclude(event.target.value)}
+                      rows={4}
+                      className={`${inputClass} font-mono`}
+                    />
+                  </label>
+                </div>
+              ) : (
+                <label className="block text-sm">
+                  <span className="font-medium text-gray-900">File pattern</span>
+                  <input
+                    type="text"
+                    value={filePattern}
+                    onChange={(event) => setFilePattern(event.target.value)}
+                    className={`${inputClass} font-mono`}
+                  />
+                </label>
+              )}
+
+              <Button variant="secondary" onClick={handlePreview} loading={busy}>
+                Preview Files
+              </Button>
+
+              {files && (
+                <div>
+                  <p className="text-sm text-gray-700 mb-2">
+                    {files.length} {files.length === 1 ? 'file matches' : 'files match'}. Check the
+                    files translators should start with.
+                  </p>
+                  <ul className="max-h-72 overflow-y-auto divide-y divide-gray-100 border border-gray-200 rounded">
+                    {files.map((file) => (
+                      <li key={file} className="px-3 py-1.5 text-sm">
+                        <label className="flex items-center gap-2">
+                          <input
+                            type="checkbox"
+                            checked={priorityFiles.includes(file)}
+                            onChange={() => togglePriorityFile(file)}
+                          />
+                          <span className="font-mono">{file}</span>
+                        </label>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
+              <div className="flex gap-3">
+                <Button variant="ghost" onClick={() => setStep('folders')}>
+                  Back
+                </Button>
+                <Button onClick={() => setStep('details')} disabled={!files || files.length === 0}>
+                  Continue
+                </Button>
+              </div>
+            </>
+          )}
+
+          {step === 'details' && (
+            <>
+              <div className="grid grid-cols-2 gap-4">
+                <label className="block text-sm">
+                  <span className="font-medium text-gray-900">Project name</span>
+                  <input
+                    type="text"
+                    value={name}
+                    onChange={(event) => setName(event.target.value)}
+                    className={inputClass}
+                  />
+                </label>
+                <label className="block text-sm">
+                  <span className="font-medium text-gray-900">Slug (used in URLs)</span>
+                  <input
+                    type="text"
+                    value={slug}
+                    onChange={(event) => setSlug(event.target.value)}
+                    pattern="[a-z0-9-]+"
+                    className={`${inputClass} font-mono`}
+                  />
+                </label>
+              </div>
+
+              <label className="block text-sm">
+                <span className="font-medium text-gray-900">Pull requests</span>
+                <select
+                  value={pullRequests}
+                  onChange={(event) => setPullRequests(event.target.value as PullRequestMode)}
+                  className={inputClass}
+                >
+                  <option value="bundled">One per translator and language</option>
+                  <option value="per-file">One per file, merged independently</option>
+                </select>
+              </label>
+
+              <dl className="grid grid-cols-2 gap-2 text-sm text-gray-700">
+                <dt className="font-medium">Repository</dt>
+                <dd className="font-mono">
+                  {githubRepo} @ {sourceBranch}
+                </dd>
+                <dt className="font-medium">Source folder</dt>
+                <dd className="font-mono">{sourceFolder}</dd>
+                <dt className="font-medium">Translations</dt>
+                <dd className="font-mono">{translationFolder}</dd>
+                <dt className="font-medium">Files</dt>
+                <dd>
+                  {files?.length ?? 0} ({priorityFiles.length} priority)
+                </dd>
+              </dl>
+
+              <div className="flex gap-3">
+                <Button variant="ghost" onClick={() => setStep('files')}>
+                  Back
+                </Button>
+                <Button onClick={handleRegister} loading={busy} disabled={!slug.trim() || !name.trim()}>
+                  Register Project
+                </Button>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,18 @@
+import { NextRequest } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { getProjectConfig } from '@/lib/config';
+import { getProjectAccess } from '@/lib/access';
+import { withErrorHandling, createSuccessResponse } from '@/lib/api-utils';
+
+/**
+ * The signed-in user's roles in a project and each of its languages
+ */
+export const GET = withErrorHandling(async (
+  request: NextRequest,
+  { params }: { params: { project: string } }
+) => {
+  const user = await requireAuth();
+  const project = getProjectConfig(params.project);
+
+  return createSuccessResponse(await getProjectAccess(project, user.username));
+});
@@ -0,0 +1,66 @@
+import { NextRequest } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { getProjectConfig, updateProjectAccess } from '@/lib/config';
+import { requireRole, clearAccessCache } from '@/lib/access';
+import {
+  withErrorHandling,
+  parseRequestBody,
+  createSuccessResponse,
+  forbidden,
+  logger,
+} from '@/lib/api-utils';
+import { validateRequest, updateProjectAccessRequestSchema } from '@/lib/validation';
+
+/**
+ * Project admins and the GitHub teams and repository permissions that grant roles
+ */
+export const GET = withErrorHandling(async (
+  request: NextRequest,
+  { params }: { params: { project: string } }
+) => {
+  const user = await requireAuth();
+  const project = getProjectConfig(params.project);
+
+  try {
+    await requireRole(project, user.username, 'project-admin');
+  } catch {
+    return forbidden('Project admin access required');
+  }
+
+  return createSuccessResponse(project.access || {});
+});
+
+/**
+ * Replace a project's access settings. Language roles are changed per
+ * language.
+ */
+export const PUT = withErrorHandling(async (
+  request: NextRequest,
+  { params }: { params: { project: string } }
+) => {
+  const user = await requireAuth();
+  const project = getProjectConfig(params.project);
+
+  try {
+    await requireRole(project, user.username, 'project-admin');
+  } catch {
+    return forbidden('Project admin access required');
+  }
+
+  const body = await parseRequestBody(request);
+  const validated = validateRequest(updateProjectAccessRequestSchema, body);
+
+  const access = updateProjectAccess(project.slug, validated);
+
+  // Team and repository settings may have changed
+  clearAccessCache();
+
+  logger.info('Project access updated', {
+    user: user.username,
+    project: project.slug,
+    admins: access.admins?.length || 0,
+    githubTeams: access.githubTeams?.length || 0,
+  });
+
+  return createSuccessResponse(access, 'Access settings saved');
+});
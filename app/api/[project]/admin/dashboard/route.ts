@@ -1,6 +1,7 @@
 import { NextRequest } from 'next/server';
 import { requireAuth } from '@/lib/auth';
 import { getProjectConfig, getActiveLanguages } from '@/lib/config';
+import { getProjectAccess, getLanguagesWithRole, hasRole } from '@/lib/access';
 import {
   withErrorHandling,
   createSuccessResponse,
@@ -8,8 +9,10 @@ import {
   notFound,
   logger,
 } from '@/lib/api-utils';
-import { requireProjectAdmin } from '@/lib/validation';
 
+/**
+ * Admin dashboard. Coordinators see only the languages they manage.
+ */
 export const GET = withErrorHandling(async (
   request: NextRequest,
   { params }: { params: { project: string } }
@@ -17,10 +20,19 @@ export const GET = withErrorHandling(async (
   // Authenticate user
   const user = await requireAuth();
 
-  // Check admin authorization
+  // Get project configuration
+  let project;
   try {
-    requireProjectAdmin(user.username, params.project);
+    project = getProjectConfig(params.project);
   } catch (error) {
+    return notFound(`Project "${params.project}" not found`);
+  }
+
+  // Check admin authorization
+  const access = await getProjectAccess(project, user.username);
+  const managed = getLanguagesWithRole(access, 'coordinator');
+
+  if (!hasRole(access, 'project-admin') && managed.length === 0) {
     logger.warn('Unauthorized admin dashboard access attempt', {
       user: user.username,
       project: params.project,
@@ -28,14 +40,12 @@ export const GET = withErrorHandling(async (
     return forbidden('Admin access required');
   }
 
-  // Get project configuration
-  let project;
-  try {
-    project = getProjectConfig(params.project);
-  } catch (error) {
-    return notFound(`Project "${params.project}" not found`);
-  }
-
+  project = {
+    ...project,
+    languages: Object.fromEntries(
+      Object.entries(project.languages).filter(([code]) => managed.includes(code))
+    ),
+  };
   const activeLanguages = getActiveLanguages(project);
 
   logger.info('Admin dashboard loaded', {
@@ -47,5 +57,6 @@ export const GET = withErrorHandling(async (
   return createSuccessResponse({
     project,
     activeLanguages,
+    access,
   });
 });
@@ -0,0 +1,80 @@
+import { NextRequest } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { getLanguageConfig } from '@/lib/config';
+import { createGitHubClient } from '@/lib/github';
+import { detectSourceDrift } from '@/lib/source-drift';
+import {
+  withErrorHandling,
+  parseRequestBody,
+  createSuccessResponse,
+  createErrorResponse,
+  forbidden,
+  logger,
+  ErrorCode,
+} from '@/lib/api-utils';
+import {
+  validateRequest,
+  sourceDriftRequestSchema,
+} from '@/lib/validation';
+import { requireRole } from '@/lib/access';
+
+/**
+ * Mark files whose English source changed as outdated, optionally
+ * machine-translating the changed paragraphs into the tmp folder
+ */
+export const POST = withErrorHandling(async (
+  request: NextRequest,
+  { params }: { params: { project: string; language: string } }
+) => {
+  const user = await requireAuth();
+
+  const { project, language, languageCode } = getLanguageConfig(
+    params.project,
+    params.language
+  );
+
+  try {
+    await requireRole(project, user.username, 'coordinator', languageCode);
+  } catch {
+    logger.warn('Unauthorized source drift check attempt', {
+      user: user.username,
+      project: params.project,
+      language: languageCode,
+    });
+    return forbidden('Coordinator access required');
+  }
+
+  const body = await parseRequestBody(request);
+  const validated = validateRequest(sourceDriftRequestSchema, body);
+
+  const adminToken = process.env.GITHUB_ADMIN_TOKEN;
+  if (!adminToken) {
+    return createErrorResponse(
+      ErrorCode.INTERNAL_ERROR,
+      'Admin token not configured',
+      500,
+      'GITHUB_ADMIN_TOKEN environment variable not set'
+    );
+  }
+
+  const report = await detectSourceDrift(
+    createGitHubClient(adminToken),
+    project,
+    languageCode,
+    { translateChanges: validated.translateChanges }
+  );
+
+  logger.info('Source drift checked', {
+    user: user.username,
+    project: params.project,
+    language: languageCode,
+    outdated: report.outdated.length,
+    translated: report.translated.length,
+    errors: report.errors.length,
+  });
+
+  return createSuccessResponse(
+    report,
+    `${report.outdated.length} ${language.name} files are outdated`
+  );
+});
@@ -2,7 +2,8 @@ import { NextRequest } from 'next/server';
 import { requireAuth } from '@/lib/auth';
 import { getLanguageConfig } from '@/lib/config';
 import { createGitHubClient } from '@/lib/github';
-import { initializeLanguage } from '@/lib/file-processing';
+import { enqueueInitJob, findActiveInitJob } from '@/lib/init-jobs';
+import { planLanguageInitialization, resolveSourceCommit } from '@/lib/file-processing';
 import {
   withErrorHandling,
   parseRequestBody,
@@ -11,15 +12,15 @@ import {
   logger,
   rateLimitExceeded,
   forbidden,
+  validationError,
   ErrorCode,
 } from '@/lib/api-utils';
 import {
   validateRequest,
   initLanguageRequestSchema,
-  requireProjectAdmin,
   checkRateLimit,
 } from '@/lib/validation';
-import type { LanguageInitProgress } from '@/types';
+import { requireRole } from '@/lib/access';
 
 export const POST = withErrorHandling(async (
   request: NextRequest,
@@ -28,32 +29,6 @@ export const POST = withErrorHandling(async (
   // Authenticate user
   const user = await requireAuth();
 
-  // CRITICAL: Check admin authorization
-  try {
-    requireProjectAdmin(user.username, params.project);
-  } catch (error) {
-    logger.warn('Unauthorized admin access attempt', {
-      user: user.username,
-      project: params.project,
-    });
-    return forbidden('Admin access required for language initialization');
-  }
-
-  // Rate limiting: 5 initializations per hour per user
-  const rateLimitResult = checkRateLimit(
-    `init:${user.username}`,
-    5,
-    60 * 60 * 1000 // 1 hour
-  );
-
-  if (!rateLimitResult.success) {
-    logger.warn('Rate limit exceeded for language initialization', {
-      user: user.username,
-      resetAt: rateLimitResult.reset,
-    });
-    return rateLimitExceeded(rateLimitResult.reset);
-  }
-
   // Get project and language config
   const projectSlug = params.project;
   const languageCode = params.language;
@@ -61,20 +36,24 @@ export const POST = withErrorHandling(async (
   const config = getLanguageConfig(projectSlug, languageCode);
   const { project, language, languageCode: langCode } = config;
 
+  // CRITICAL: Check the user coordinates this language
+  try {
+    await requireRole(project, user.username, 'coordinator', langCode);
+  } catch {
+    logger.warn('Unauthorized admin access attempt', {
+      user: user.username,
+      project: params.project,
+      language: langCode,
+    });
+    return forbidden('Coordinator access required for language initialization');
+  }
+
   // Parse and validate request body
   const body = await parseRequestBody(request);
   const validated = validateRequest(initLanguageRequestSchema, body);
 
-  logger.info('Starting language initialization', {
-    user: user.username,
-    project: projectSlug,
-    language: languageCode,
-    force: validated.force,
-  });
-
-  // Create GitHub client with admin token
-  const adminToken = process.env.GITHUB_ADMIN_TOKEN;
-  if (!adminToken) {
+  // Initialization runs in the background with the admin token
+  if (!process.env.GITHUB_ADMIN_TOKEN) {
     return createErrorResponse(
       ErrorCode.INTERNAL_ERROR,
       'Admin token not configured',
@@ -83,54 +62,71 @@ export const POST = withErrorHandling(async (
     );
   }
 
-  const githubClient = createGitHubClient(adminToken);
+  const githubClient = createGitHubClient(process.env.GITHUB_ADMIN_TOKEN);
+  const mode = validated.mode || (validated.force ? 'force' : 'missing');
 
-  // Progress tracking (in production, use WebSocket or SSE for real-time updates)
-  const progressUpdates: LanguageInitProgress[] = [];
+  // Pin the source to a commit SHA, so a resumed job reads the same files
+  let sourceCommit: string;
+  try {
+    sourceCommit = await resolveSourceCommit(githubClient, project, validated.sourceCommit);
+  } catch (error: unknown) {
+    const status = (error as { status?: number }).status;
+    if (validated.sourceCommit && (status === 404 || status === 422)) {
+      return validationError(`Source commit not found: ${validated.sourceCommit}`);
+    }
+    throw error;
+  }
 
-  const result = await initializeLanguage(githubClient, {
-    project,
-    languageCode: langCode,
-    languageName: language.name,
-    direction: language.direction,
-    coordinator: user.username,
-    sourceCommit: (validated as any).sourceCommit,
-    onProgress: (progress) => {
-      progressUpdates.push(progress);
-      logger.debug('Initialization progress', progress);
-    },
-  });
+  // A dry run only lists what would be written
+  if (validated.dryRun) {
+    const plan = await planLanguageInitialization(githubClient, project, langCode, {
+      mode,
+      sourceCommit,
+    });
+    return createSuccessResponse(plan);
+  }
 
-  if (!result.success) {
-    logger.error('Language initialization completed with errors', {
-      filesProcessed: result.filesProcessed,
-      errors: result.errors?.length || 0,
+  // Rate limiting: 5 initializations per hour per user
+  const rateLimitResult = checkRateLimit(
+    `init:${user.username}`,
+    5,
+    60 * 60 * 1000 // 1 hour
+  );
+
+  if (!rateLimitResult.success) {
+    logger.warn('Rate limit exceeded for language initialization', {
+      user: user.username,
+      resetAt: rateLimitResult.reset,
     });
+    return rateLimitExceeded(rateLimitResult.reset);
+  }
 
+  const activeJob = await findActiveInitJob(project.slug, langCode);
+  if (activeJob) {
     return createErrorResponse(
-      ErrorCode.INTERNAL_ERROR,
-      'Language initialization completed with errors',
-      207, // Multi-Status
-      {
-        filesProcessed: result.filesProcessed,
-        errors: result.errors,
-        branchUrl: result.branchUrl,
-        progress: progressUpdates,
-      }
+      ErrorCode.CONFLICT,
+      `${language.name} is already being initialized`,
+      409,
+      { jobId: activeJob.id }
     );
   }
 
-  logger.info('Language initialization successful', {
-    filesProcessed: result.filesProcessed,
-    branchUrl: result.branchUrl,
+  const job = await enqueueInitJob({
+    project: project.slug,
+    language: langCode,
+    createdBy: user.username,
+    mode,
+    sourceCommit,
   });
 
-  return createSuccessResponse(
-    {
-      filesProcessed: result.filesProcessed,
-      branchUrl: result.branchUrl,
-      progress: progressUpdates,
-    },
-    `Successfully initialized ${language.name} translation`
-  );
+  logger.info('Language initialization queued', {
+    user: user.username,
+    project: projectSlug,
+    language: languageCode,
+    mode,
+    sourceCommit,
+    jobId: job.id,
+  });
+
+  return createSuccessResponse(job, `Queued ${language.name} initialization`, 202);
 });
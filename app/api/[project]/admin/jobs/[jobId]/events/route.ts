@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import {
+  getInitJob,
+  subscribeToInitJob,
+  isInitJobFinished,
+} from '@/lib/init-jobs';
+import {
+  withErrorHandling,
+  forbidden,
+  notFound,
+} from '@/lib/api-utils';
+import { getProjectConfig } from '@/lib/config';
+import { requireRole } from '@/lib/access';
+import type { InitJob } from '@/types';
+
+const HEARTBEAT_INTERVAL = 15_000;
+
+/**
+ * Server-Sent Events stream of an initialization job. Sends a `job` event
+ * with the full job on every change and closes once the job has finished.
+ */
+export const GET = withErrorHandling(async (
+  request: NextRequest,
+  { params }: { params: { project: string; jobId: string } }
+) => {
+  const user = await requireAuth();
+
+  const job = await getInitJob(params.jobId);
+  if (!job || job.project !== params.project) {
+    return notFound('Initialization job not found');
+  }
+
+  try {
+    await requireRole(getProjectConfig(job.project), user.username, 'coordinator', job.language);
+  } catch {
+    return forbidden('Coordinator access required');
+  }
+
+  const encoder = new TextEncoder();
+  let stop = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+
+      const heartbeat = setInterval(() => {
+        controller.enqueue(encoder.encode(': heartbeat\n\n'));
+      }, HEARTBEAT_INTERVAL);
+
+      stop = () => {
+        if (closed) {
+          return;
+        }
+        closed = true;
+        clearInterval(heartbeat);
+        unsubscribe();
+        controller.close();
+      };
+
+      const send = (update: InitJob) => {
+        if (closed) {
+          return;
+        }
+        controller.enqueue(encoder.encode(`event: job\ndata: ${JSON.stringify(update)}\n\n`));
+        if (isInitJobFinished(update)) {
+          stop();
+        }
+      };
+
+      const unsubscribe = subscribeToInitJob(job.id, send);
+      request.signal.addEventListener('abort', () => stop());
+
+      // Re-read after subscribing so no update is missed in between
+      getInitJob(job.id)
+        .then((latest) => send(latest || job))
+        .catch(() => send(job));
+    },
+    cancel() {
+      stop();
+    },
+  });
+
+  return new NextResponse(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+});
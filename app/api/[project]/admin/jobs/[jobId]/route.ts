@@ -0,0 +1,72 @@
+import { NextRequest } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { getInitJob, cancelInitJob } from '@/lib/init-jobs';
+import {
+  withErrorHandling,
+  createSuccessResponse,
+  forbidden,
+  notFound,
+  logger,
+} from '@/lib/api-utils';
+import { getProjectConfig } from '@/lib/config';
+import { requireRole } from '@/lib/access';
+
+/**
+ * Status and per-file progress of an initialization job
+ */
+export const GET = withErrorHandling(async (
+  request: NextRequest,
+  { params }: { params: { project: string; jobId: string } }
+) => {
+  const user = await requireAuth();
+
+  const job = await getInitJob(params.jobId);
+  if (!job || job.project !== params.project) {
+    return notFound('Initialization job not found');
+  }
+
+  try {
+    await requireRole(getProjectConfig(job.project), user.username, 'coordinator', job.language);
+  } catch {
+    return forbidden('Coordinator access required');
+  }
+
+  return createSuccessResponse(job);
+});
+
+/**
+ * Cancel an initialization job
+ */
+export const DELETE = withErrorHandling(async (
+  request: NextRequest,
+  { params }: { params: { project: string; jobId: string } }
+) => {
+  const user = await requireAuth();
+
+  const existing = await getInitJob(params.jobId);
+  if (!existing || existing.project !== params.project) {
+    return notFound('Initialization job not found');
+  }
+
+  try {
+    await requireRole(
+      getProjectConfig(existing.project),
+      user.username,
+      'coordinator',
+      existing.language
+    );
+  } catch {
+    return forbidden('Coordinator access required');
+  }
+
+  const job = await cancelInitJob(existing.id);
+
+  logger.info('Initialization job cancelled', {
+    user: user.username,
+    project: params.project,
+    language: existing.language,
+    jobId: existing.id,
+  });
+
+  return createSuccessResponse(job, 'Initialization cancelled');
+});
@@ -0,0 +1,36 @@
+import { NextRequest } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { getProjectConfig } from '@/lib/config';
+import { listInitJobs, startInitWorker } from '@/lib/init-jobs';
+import { getProjectAccess, getLanguagesWithRole } from '@/lib/access';
+import {
+  withErrorHandling,
+  createSuccessResponse,
+  forbidden,
+} from '@/lib/api-utils';
+
+/**
+ * Initialization jobs of the languages the user coordinates, newest first
+ */
+export const GET = withErrorHandling(async (
+  request: NextRequest,
+  { params }: { params: { project: string } }
+) => {
+  const user = await requireAuth();
+
+  const project = getProjectConfig(params.project);
+  const managed = getLanguagesWithRole(
+    await getProjectAccess(project, user.username),
+    'coordinator'
+  );
+
+  if (managed.length === 0) {
+    return forbidden('Coordinator access required');
+  }
+
+  // Pick up jobs queued before a restart
+  startInitWorker();
+
+  const jobs = await listInitJobs(project.slug);
+  return createSuccessResponse(jobs.filter((job) => managed.includes(job.language)));
+});
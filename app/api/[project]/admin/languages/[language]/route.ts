@@ -0,0 +1,75 @@
+import { NextRequest } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { getLanguageConfig, updateLanguageConfig } from '@/lib/config';
+import type { LanguageConfig } from '@/types';
+import {
+  withErrorHandling,
+  parseRequestBody,
+  createSuccessResponse,
+  forbidden,
+  logger,
+} from '@/lib/api-utils';
+import {
+  validateRequest,
+  updateLanguageRequestSchema,
+} from '@/lib/validation';
+import { requireRole, hasRole } from '@/lib/access';
+
+/**
+ * Change a language's name, direction, status, coordinator or team. Archiving
+ * is a status change; archived languages keep their branch and metadata.
+ * Coordinators manage their own language; only project admins appoint them.
+ */
+export const PATCH = withErrorHandling(async (
+  request: NextRequest,
+  { params }: { params: { project: string; language: string } }
+) => {
+  const user = await requireAuth();
+
+  // Throws a "not found" error for unknown languages
+  const { project, languageCode } = getLanguageConfig(params.project, params.language);
+
+  let access;
+  try {
+    access = await requireRole(project, user.username, 'coordinator', languageCode);
+  } catch {
+    return forbidden('Coordinator access required');
+  }
+
+  const body = await parseRequestBody(request);
+  const validated = validateRequest(updateLanguageRequestSchema, body);
+
+  const coordinatorChanged =
+    validated.coordinator !== undefined &&
+    (validated.coordinator || undefined) !== project.languages[languageCode].coordinator;
+
+  if (coordinatorChanged && !hasRole(access, 'project-admin')) {
+    return forbidden('Only project admins can change the coordinator');
+  }
+
+  const language = updateLanguageConfig(project.slug, languageCode, (current) => {
+    const { coordinator, translators, ...changes } = validated;
+    const updated: LanguageConfig = { ...(current as LanguageConfig), ...changes };
+
+    if (coordinator === null) {
+      delete updated.coordinator;
+    } else if (coordinator) {
+      updated.coordinator = coordinator;
+    }
+    if (translators === null) {
+      delete updated.translators;
+    } else if (translators) {
+      updated.translators = translators;
+    }
+    return updated;
+  });
+
+  logger.info('Language updated', {
+    user: user.username,
+    project: project.slug,
+    language: languageCode,
+    changes: Object.keys(validated),
+  });
+
+  return createSuccessResponse({ code: languageCode, config: language }, `Updated ${language.name}`);
+});
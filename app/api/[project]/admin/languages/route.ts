@@ -0,0 +1,105 @@
+import { NextRequest } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { getProjectConfig, updateLanguageConfig } from '@/lib/config';
+import { getTranslationService } from '@/lib/translation';
+import {
+  withErrorHandling,
+  parseRequestBody,
+  createSuccessResponse,
+  createErrorResponse,
+  forbidden,
+  validationError,
+  logger,
+  ErrorCode,
+} from '@/lib/api-utils';
+import {
+  validateRequest,
+  addLanguageRequestSchema,
+} from '@/lib/validation';
+import { getProjectAccess, getLanguagesWithRole, requireRole } from '@/lib/access';
+
+/**
+ * Every language of a project the user coordinates, including inactive and
+ * archived ones
+ */
+export const GET = withErrorHandling(async (
+  request: NextRequest,
+  { params }: { params: { project: string } }
+) => {
+  const user = await requireAuth();
+
+  const project = getProjectConfig(params.project);
+  const managed = getLanguagesWithRole(
+    await getProjectAccess(project, user.username),
+    'coordinator'
+  );
+
+  if (managed.length === 0) {
+    return forbidden('Coordinator access required');
+  }
+
+  return createSuccessResponse(
+    Object.entries(project.languages)
+      .filter(([code]) => managed.includes(code))
+      .map(([code, config]) => ({ code, config }))
+  );
+});
+
+/**
+ * Add a language. It stays inactive (hidden from translators) unless
+ * another status is given, until an admin activates it.
+ */
+export const POST = withErrorHandling(async (
+  request: NextRequest,
+  { params }: { params: { project: string } }
+) => {
+  const user = await requireAuth();
+
+  const project = getProjectConfig(params.project);
+
+  try {
+    await requireRole(project, user.username, 'project-admin');
+  } catch {
+    return forbidden('Project admin access required');
+  }
+
+  const body = await parseRequestBody(request);
+  const validated = validateRequest(addLanguageRequestSchema, body);
+
+  if (project.languages[validated.code]) {
+    return createErrorResponse(
+      ErrorCode.CONFLICT,
+      `Language ${validated.code} already exists`,
+      409
+    );
+  }
+
+  const translationService = getTranslationService(project, validated.code);
+  if (!translationService.supportsLanguage(validated.code)) {
+    return validationError(
+      `${translationService.providerName} cannot translate into ${validated.code}`
+    );
+  }
+
+  const language = updateLanguageConfig(project.slug, validated.code, () => ({
+    name: validated.name,
+    direction: validated.direction,
+    status: validated.status || 'inactive',
+    initialized: null,
+    ...(validated.coordinator && { coordinator: validated.coordinator }),
+    ...(validated.reviewers && { reviewers: validated.reviewers }),
+    ...(validated.translators && { translators: validated.translators }),
+  }));
+
+  logger.info('Language added', {
+    user: user.username,
+    project: project.slug,
+    language: validated.code,
+  });
+
+  return createSuccessResponse(
+    { code: validated.code, config: language },
+    `Added ${language.name}`,
+    201
+  );
+});
@@ -0,0 +1,93 @@
+import { NextRequest } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { getLanguageConfig } from '@/lib/config';
+import { createGitHubClient } from '@/lib/github';
+import { harvestTranslationMemory } from '@/lib/file-processing';
+import { loadTranslationMemory } from '@/lib/translation-memory';
+import {
+  withErrorHandling,
+  createSuccessResponse,
+  createErrorResponse,
+  forbidden,
+  logger,
+  ErrorCode,
+} from '@/lib/api-utils';
+import { requireRole } from '@/lib/access';
+
+/**
+ * Translation memory size for a language
+ */
+export const GET = withErrorHandling(async (
+  request: NextRequest,
+  { params }: { params: { project: string; language: string } }
+) => {
+  const user = await requireAuth();
+
+  const { project, languageCode } = getLanguageConfig(params.project, params.language);
+
+  try {
+    await requireRole(project, user.username, 'coordinator', languageCode);
+  } catch {
+    return forbidden('Coordinator access required');
+  }
+  const memory = await loadTranslationMemory(languageCode);
+
+  return createSuccessResponse({
+    language: languageCode,
+    entries: Object.keys(memory.entries).length,
+  });
+});
+
+/**
+ * Harvest approved segments from the project's approved and merged files
+ */
+export const POST = withErrorHandling(async (
+  request: NextRequest,
+  { params }: { params: { project: string; language: string } }
+) => {
+  const user = await requireAuth();
+
+  const { project, language, languageCode } = getLanguageConfig(
+    params.project,
+    params.language
+  );
+
+  try {
+    await requireRole(project, user.username, 'coordinator', languageCode);
+  } catch {
+    logger.warn('Unauthorized translation memory harvest attempt', {
+      user: user.username,
+      project: params.project,
+      language: languageCode,
+    });
+    return forbidden('Coordinator access required');
+  }
+
+  const adminToken = process.env.GITHUB_ADMIN_TOKEN;
+  if (!adminToken) {
+    return createErrorResponse(
+      ErrorCode.INTERNAL_ERROR,
+      'Admin token not configured',
+      500,
+      'GITHUB_ADMIN_TOKEN environment variable not set'
+    );
+  }
+
+  const result = await harvestTranslationMemory(
+    createGitHubClient(adminToken),
+    project,
+    languageCode
+  );
+
+  logger.info('Translation memory harvested', {
+    user: user.username,
+    project: params.project,
+    language: languageCode,
+    ...result,
+  });
+
+  return createSuccessResponse(
+    result,
+    `Stored ${result.segmentsStored} segments from ${result.filesHarvested} ${language.name} files`
+  );
+});
@@ -0,0 +1,71 @@
+import { NextRequest } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { getLanguageConfig } from '@/lib/config';
+import { createGitHubClient } from '@/lib/github';
+import { reconcilePullRequests } from '@/lib/pull-request-reconciliation';
+import {
+  withErrorHandling,
+  createSuccessResponse,
+  createErrorResponse,
+  forbidden,
+  logger,
+  ErrorCode,
+} from '@/lib/api-utils';
+import { requireRole } from '@/lib/access';
+
+/**
+ * Update translation.json from the language's pull requests now, instead of
+ * waiting for the next periodic run
+ */
+export const POST = withErrorHandling(async (
+  request: NextRequest,
+  { params }: { params: { project: string; language: string } }
+) => {
+  const user = await requireAuth();
+
+  const { project, language, languageCode } = getLanguageConfig(
+    params.project,
+    params.language
+  );
+
+  try {
+    await requireRole(project, user.username, 'coordinator', languageCode);
+  } catch {
+    logger.warn('Unauthorized pull request reconciliation attempt', {
+      user: user.username,
+      project: params.project,
+      language: languageCode,
+    });
+    return forbidden('Coordinator access required');
+  }
+
+  const adminToken = process.env.GITHUB_ADMIN_TOKEN;
+  if (!adminToken) {
+    return createErrorResponse(
+      ErrorCode.INTERNAL_ERROR,
+      'Admin token not configured',
+      500,
+      'GITHUB_ADMIN_TOKEN environment variable not set'
+    );
+  }
+
+  const report = await reconcilePullRequests(
+    createGitHubClient(adminToken),
+    project,
+    languageCode
+  );
+
+  logger.info('Pull requests reconciled', {
+    user: user.username,
+    project: params.project,
+    language: languageCode,
+    pullRequests: report.pullRequests,
+    updated: report.updated.length,
+    errors: report.errors.length,
+  });
+
+  return createSuccessResponse(
+    report,
+    `${report.updated.length} ${language.name} files updated from their pull requests`
+  );
+});
@@ -0,0 +1,98 @@
+import { NextRequest } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { getLanguageConfig, matchesFilePattern } from '@/lib/config';
+import { claimFile, releaseClaim, FileClaimError } from '@/lib/file-claims';
+import { requireRole, hasRole } from '@/lib/access';
+import {
+  withErrorHandling,
+  createSuccessResponse,
+  createErrorResponse,
+  forbidden,
+  notFound,
+  logger,
+  ErrorCode,
+} from '@/lib/api-utils';
+import { sanitizeFilePath } from '@/lib/validation';
+import { decodeFilePath } from '@/lib/paths';
+
+/**
+ * Claim a file, or renew the user's claim
+ */
+export const POST = withErrorHandling(async (
+  request: NextRequest,
+  { params }: { params: { project: string; language: string; path: string[] } }
+) => {
+  const user = await requireAuth();
+  const { project, languageCode } = getLanguageConfig(params.project, params.language);
+
+  try {
+    await requireRole(project, user.username, 'translator', languageCode);
+  } catch {
+    return forbidden('Translator access required');
+  }
+
+  const safeFilename = sanitizeFilePath(decodeFilePath(params.path));
+  if (!matchesFilePattern(project, safeFilename)) {
+    return notFound('File is not selected for translation in this project');
+  }
+
+  let claim;
+  try {
+    claim = await claimFile(project, languageCode, safeFilename, user.username);
+  } catch (error) {
+    if (error instanceof FileClaimError) {
+      return createErrorResponse(ErrorCode.CONFLICT, error.message, 409);
+    }
+    throw error;
+  }
+
+  logger.info('File claimed', {
+    user: user.username,
+    project: project.slug,
+    language: languageCode,
+    filename: safeFilename,
+    expiresAt: claim.expiresAt,
+  });
+
+  return createSuccessResponse(claim);
+});
+
+/**
+ * Release a claim: the user's own, or anyone's for coordinators
+ */
+export const DELETE = withErrorHandling(async (
+  request: NextRequest,
+  { params }: { params: { project: string; language: string; path: string[] } }
+) => {
+  const user = await requireAuth();
+  const { project, languageCode } = getLanguageConfig(params.project, params.language);
+
+  let access;
+  try {
+    access = await requireRole(project, user.username, 'translator', languageCode);
+  } catch {
+    return forbidden('Translator access required');
+  }
+
+  const safeFilename = sanitizeFilePath(decodeFilePath(params.path));
+  if (!matchesFilePattern(project, safeFilename)) {
+    return notFound('File is not selected for translation in this project');
+  }
+
+  await releaseClaim(
+    project,
+    languageCode,
+    safeFilename,
+    user.username,
+    hasRole(access, 'coordinator', languageCode)
+  );
+
+  logger.info('File claim released', {
+    user: user.username,
+    project: project.slug,
+    language: languageCode,
+    filename: safeFilename,
+  });
+
+  return createSuccessResponse(null, 'Claim released');
+});
@@ -0,0 +1,238 @@
+import { NextRequest } from 'next/server';
+import { requireAuth, getServerAccessToken } from '@/lib/auth';
+import {
+  getLanguageConfig,
+  parseGitHubRepo,
+  getTranslationBranchName,
+  matchesFilePattern,
+} from '@/lib/config';
+import { createGitHubClient, GitHubClient } from '@/lib/github';
+import { loadTranslationMetadata } from '@/lib/translation-metadata';
+import {
+  loadReviewThreads,
+  syncReviewThreads,
+  createReviewThread,
+  replyToReviewThread,
+  setReviewThreadResolved,
+} from '@/lib/review-comments';
+import { requireRole, hasRole } from '@/lib/access';
+import {
+  withErrorHandling,
+  parseRequestBody,
+  createSuccessResponse,
+  forbidden,
+  notFound,
+  logger,
+} from '@/lib/api-utils';
+import {
+  validateRequest,
+  reviewCommentRequestSchema,
+  resolveReviewThreadRequestSchema,
+  sanitizeFilePath,
+} from '@/lib/validation';
+import { decodeFilePath } from '@/lib/paths';
+import type { ProjectConfig, ReviewCommentsData } from '@/types';
+
+// Pull request the file was last submitted in
+async function getFilePullRequest(
+  githubClient: GitHubClient,
+  project: ProjectConfig,
+  languageCode: string,
+  filename: string
+): Promise<number | null> {
+  const { owner, repo } = parseGitHubRepo(project.githubRepo);
+  const metadata = await loadTranslationMetadata(
+    githubClient,
+    owner,
+    repo,
+    project,
+    languageCode,
+    getTranslationBranchName(languageCode)
+  );
+
+  return metadata?.files[filename]?.prNumber || null;
+}
+
+/**
+ * Review threads of a file, synced with its pull request
+ */
+export const GET = withErrorHandling(async (
+  request: NextRequest,
+  { params }: { params: { project: string; language: string; path: string[] } }
+) => {
+  const user = await requireAuth();
+  const accessToken = await getServerAccessToken();
+
+  if (!accessToken) {
+    throw new Error('Authentication required: Access token not available');
+  }
+
+  const { project, languageCode } = getLanguageConfig(params.project, params.language);
+
+  let access;
+  try {
+    access = await requireRole(project, user.username, 'translator', languageCode);
+  } catch {
+    return forbidden('Translator access required');
+  }
+
+  const safeFilename = sanitizeFilePath(decodeFilePath(params.path));
+  if (!matchesFilePattern(project, safeFilename)) {
+    return notFound('File is not selected for translation in this project');
+  }
+
+  const githubClient = createGitHubClient(accessToken);
+  const prNumber = await getFilePullRequest(githubClient, project, languageCode, safeFilename);
+
+  let threads;
+  let synced = true;
+  if (prNumber) {
+    try {
+      threads = await syncReviewThreads(
+        githubClient,
+        project,
+        languageCode,
+        safeFilename,
+        prNumber,
+        user.username
+      );
+    } catch (error) {
+      // Show what we have; the next load tries again
+      logger.warn('Failed to sync review comments', {
+        project: project.slug,
+        language: languageCode,
+        filename: safeFilename,
+        prNumber,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      synced = false;
+    }
+  }
+
+  const data: ReviewCommentsData = {
+    threads: threads || (await loadReviewThreads(project, languageCode, safeFilename)),
+    canComment: hasRole(access, 'reviewer', languageCode),
+    synced,
+  };
+
+  return createSuccessResponse(data);
+});
+
+/**
+ * Start a thread on a paragraph (reviewers) or reply to one
+ */
+export const POST = withErrorHandling(async (
+  request: NextRequest,
+  { params }: { params: { project: string; language: string; path: string[] } }
+) => {
+  const user = await requireAuth();
+  const accessToken = await getServerAccessToken();
+
+  if (!accessToken) {
+    throw new Error('Authentication required: Access token not available');
+  }
+
+  const { project, languageCode } = getLanguageConfig(params.project, params.language);
+
+  let access;
+  try {
+    access = await requireRole(project, user.username, 'translator', languageCode);
+  } catch {
+    return forbidden('Translator access required');
+  }
+
+  const safeFilename = sanitizeFilePath(decodeFilePath(params.path));
+  if (!matchesFilePattern(project, safeFilename)) {
+    return notFound('File is not selected for translation in this project');
+  }
+
+  const body = await parseRequestBody(request);
+  const { threadId, anchor, body: comment } = validateRequest(reviewCommentRequestSchema, body);
+  const githubClient = createGitHubClient(accessToken);
+
+  let thread;
+  if (threadId) {
+    thread = await replyToReviewThread(
+      githubClient,
+      project,
+      languageCode,
+      safeFilename,
+      threadId,
+      user.username,
+      comment
+    );
+  } else {
+    if (!hasRole(access, 'reviewer', languageCode)) {
+      return forbidden('Reviewer access required');
+    }
+
+    thread = await createReviewThread(
+      githubClient,
+      project,
+      languageCode,
+      safeFilename,
+      await getFilePullRequest(githubClient, project, languageCode, safeFilename),
+      anchor || null,
+      user.username,
+      comment
+    );
+  }
+
+  logger.info('Review comment added', {
+    user: user.username,
+    project: project.slug,
+    language: languageCode,
+    filename: safeFilename,
+    threadId: thread.id,
+    prNumber: thread.prNumber,
+  });
+
+  return createSuccessResponse(thread, undefined, threadId ? 200 : 201);
+});
+
+/**
+ * Resolve or reopen a thread
+ */
+export const PATCH = withErrorHandling(async (
+  request: NextRequest,
+  { params }: { params: { project: string; language: string; path: string[] } }
+) => {
+  const user = await requireAuth();
+  const accessToken = await getServerAccessToken();
+
+  if (!accessToken) {
+    throw new Error('Authentication required: Access token not available');
+  }
+
+  const { project, languageCode } = getLanguageConfig(params.project, params.language);
+
+  try {
+    await requireRole(project, user.username, 'translator', languageCode);
+  } catch {
+    return forbidden('Translator access required');
+  }
+
+  const safeFilename = sanitizeFilePath(decodeFilePath(params.path));
+  const body = await parseRequestBody(request);
+  const { threadId, resolved } = validateRequest(resolveReviewThreadRequestSchema, body);
+
+  const thread = await setReviewThreadResolved(
+    createGitHubClient(accessToken),
+    project,
+    languageCode,
+    safeFilename,
+    threadId,
+    resolved,
+    user.username
+  );
+
+  logger.info(resolved ? 'Review thread resolved' : 'Review thread reopened', {
+    user: user.username,
+    project: project.slug,
+    language: languageCode,
+    filename: safeFilename,
+    threadId,
+  });
+
+  return createSuccessResponse(thread);
+});
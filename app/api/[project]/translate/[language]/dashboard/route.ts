@@ -1,15 +1,19 @@
 import { NextRequest } from 'next/server';
 import { requireAuth, getServerAccessToken } from '@/lib/auth';
-import { getLanguageConfig, parseGitHubRepo, getTranslationBranchName } from '@/lib/config';
+import { getLanguageConfig, parseGitHubRepo, matchesFilePattern } from '@/lib/config';
 import { createGitHubClient } from '@/lib/github';
-import { loadTranslationMetadata } from '@/lib/translation-metadata';
+import { getReviewState } from '@/lib/translation-metadata';
+import { getTranslationMetadataSnapshot, listWebhookEvents } from '@/lib/webhook-events';
 import { ensureFork, getForkStatus } from '@/lib/fork-management';
+import { getFileClaims } from '@/lib/file-claims';
 import {
   withErrorHandling,
+  forbidden,
   createSuccessResponse,
   notFound,
   logger,
 } from '@/lib/api-utils';
+import { requireRole } from '@/lib/access';
 import type { DashboardData, FileListItem } from '@/types';
 
 export const GET = withErrorHandling(async (
@@ -30,6 +34,13 @@ export const GET = withErrorHandling(async (
     params.language
   );
 
+  let access;
+  try {
+    access = await requireRole(project, user.username, 'translator', languageCode);
+  } catch {
+    return forbidden('Translator access required');
+  }
+
   logger.debug('Loading dashboard', {
     user: user.username,
     project: params.project,
@@ -37,7 +48,6 @@ export const GET = withErrorHandling(async (
   });
 
   const { owner, repo } = parseGitHubRepo(project.githubRepo);
-  const branchName = getTranslationBranchName(languageCode);
 
   // Create GitHub client with user's access token
   const githubClient = createGitHubClient(accessToken);
@@ -45,23 +55,19 @@ export const GET = withErrorHandling(async (
   // Ensure user has fork
   await ensureFork(githubClient, user.username, owner, repo, languageCode);
 
-  // Load translation metadata
-  const metadata = await loadTranslationMetadata(
-    githubClient,
-    owner,
-    repo,
-    project,
-    languageCode,
-    branchName
-  );
+  // Load translation metadata, as last reported by the webhook when set up
+  const metadata = await getTranslationMetadataSnapshot(githubClient, project, languageCode);
 
   if (!metadata) {
     return notFound('Translation metadata not found - This language has not been initialized yet');
   }
 
-  // Build file list
-  const files: FileListItem[] = Object.entries(metadata.files).map(
-    ([filename, fileData]) => ({
+  const claims = await getFileClaims(project, languageCode);
+
+  // Build file list, leaving out files the project's globs no longer select
+  const files: FileListItem[] = Object.entries(metadata.files)
+    .filter(([filename]) => matchesFilePattern(project, filename))
+    .map(([filename, fileData]) => ({
       filename,
       status: fileData.status,
       lastUpdated: fileData.lastUpdated,
@@ -70,8 +76,11 @@ export const GET = withErrorHandling(async (
       prUrl: fileData.prUrl,
       wordCount: fileData.wordCount,
       isPriority: project.priorityFiles.includes(filename),
-    })
-  );
+      outdated: Boolean(fileData.outdated),
+      reviewState: getReviewState(fileData),
+      claim: claims[filename] || null,
+      postEditDistance: fileData.postEditDistance ?? null,
+    }));
 
   // Calculate user stats
   const userFiles = files.filter(
@@ -104,8 +113,11 @@ export const GET = withErrorHandling(async (
     language,
     languageCode,
     files,
+    username: user.username,
+    role: access.languages[languageCode],
     stats: metadata.stats,
     userStats,
+    activity: await listWebhookEvents(project, languageCode, 10),
   };
 
   logger.info('Dashboard loaded successfully', {
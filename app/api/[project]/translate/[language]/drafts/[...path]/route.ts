@@ -0,0 +1,160 @@
+import { NextRequest } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { getLanguageConfig, matchesFilePattern } from '@/lib/config';
+import {
+  saveDraftRevision,
+  loadDraftHistory,
+  diffDraftRevisions,
+  restoreDraftRevision,
+} from '@/lib/drafts';
+import { requireRole } from '@/lib/access';
+import {
+  withErrorHandling,
+  parseRequestBody,
+  createSuccessResponse,
+  forbidden,
+  notFound,
+  logger,
+} from '@/lib/api-utils';
+import {
+  validateRequest,
+  draftRevisionRequestSchema,
+  restoreDraftRequestSchema,
+  draftDiffQuerySchema,
+  sanitizeFilePath,
+} from '@/lib/validation';
+import { decodeFilePath } from '@/lib/paths';
+
+/**
+ * Revisions of the user's draft of a file, or with `?revision=`, a revision
+ * compared with the one before it (or with `&compare=`)
+ */
+export const GET = withErrorHandling(async (
+  request: NextRequest,
+  { params }: { params: { project: string; language: string; path: string[] } }
+) => {
+  const user = await requireAuth();
+  const { project, languageCode } = getLanguageConfig(params.project, params.language);
+
+  try {
+    await requireRole(project, user.username, 'translator', languageCode);
+  } catch {
+    return forbidden('Translator access required');
+  }
+
+  const safeFilename = sanitizeFilePath(decodeFilePath(params.path));
+  if (!matchesFilePattern(project, safeFilename)) {
+    return notFound('File is not selected for translation in this project');
+  }
+
+  if (!request.nextUrl.searchParams.has('revision')) {
+    return createSuccessResponse(
+      await loadDraftHistory(project, languageCode, user.username, safeFilename)
+    );
+  }
+
+  const query = validateRequest(
+    draftDiffQuerySchema,
+    Object.fromEntries(request.nextUrl.searchParams.entries())
+  );
+
+  return createSuccessResponse(
+    await diffDraftRevisions(
+      project,
+      languageCode,
+      user.username,
+      safeFilename,
+      query.revision,
+      query.compare
+    )
+  );
+});
+
+/**
+ * Keep the current content of the draft as a new revision
+ */
+export const POST = withErrorHandling(async (
+  request: NextRequest,
+  { params }: { params: { project: string; language: string; path: string[] } }
+) => {
+  const user = await requireAuth();
+  const { project, languageCode } = getLanguageConfig(params.project, params.language);
+
+  try {
+    await requireRole(project, user.username, 'translator', languageCode);
+  } catch {
+    return forbidden('Translator access required');
+  }
+
+  const safeFilename = sanitizeFilePath(decodeFilePath(params.path));
+  if (!matchesFilePattern(project, safeFilename)) {
+    return notFound('File is not selected for translation in this project');
+  }
+
+  const body = await parseRequestBody(request);
+  const { content, source } = validateRequest(draftRevisionRequestSchema, body);
+
+  const { revision, created } = await saveDraftRevision(
+    project,
+    languageCode,
+    user.username,
+    safeFilename,
+    content,
+    source
+  );
+
+  if (created) {
+    logger.debug('Draft revision saved', {
+      user: user.username,
+      project: project.slug,
+      language: languageCode,
+      filename: safeFilename,
+      revision: revision.id,
+    });
+  }
+
+  return createSuccessResponse(revision, undefined, created ? 201 : 200);
+});
+
+/**
+ * Make an earlier revision the current draft again
+ */
+export const PATCH = withErrorHandling(async (
+  request: NextRequest,
+  { params }: { params: { project: string; language: string; path: string[] } }
+) => {
+  const user = await requireAuth();
+  const { project, languageCode } = getLanguageConfig(params.project, params.language);
+
+  try {
+    await requireRole(project, user.username, 'translator', languageCode);
+  } catch {
+    return forbidden('Translator access required');
+  }
+
+  const safeFilename = sanitizeFilePath(decodeFilePath(params.path));
+  if (!matchesFilePattern(project, safeFilename)) {
+    return notFound('File is not selected for translation in this project');
+  }
+
+  const body = await parseRequestBody(request);
+  const { revision } = validateRequest(restoreDraftRequestSchema, body);
+
+  const restored = await restoreDraftRevision(
+    project,
+    languageCode,
+    user.username,
+    safeFilename,
+    revision
+  );
+
+  logger.info('Draft revision restored', {
+    user: user.username,
+    project: project.slug,
+    language: languageCode,
+    filename: safeFilename,
+    revision,
+  });
+
+  return createSuccessResponse(restored);
+});
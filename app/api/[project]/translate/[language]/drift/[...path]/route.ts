@@ -0,0 +1,54 @@
+import { NextRequest } from 'next/server';
+import { requireAuth, getServerAccessToken } from '@/lib/auth';
+import { getLanguageConfig } from '@/lib/config';
+import { createGitHubClient } from '@/lib/github';
+import { getSourceDrift } from '@/lib/source-drift';
+import {
+  withErrorHandling,
+  forbidden,
+  createSuccessResponse,
+  logger,
+} from '@/lib/api-utils';
+import { requireRole } from '@/lib/access';
+import { sanitizeFilePath } from '@/lib/validation';
+import { decodeFilePath } from '@/lib/paths';
+
+/**
+ * What changed in the English source since the file was translated
+ */
+export const GET = withErrorHandling(async (
+  request: NextRequest,
+  { params }: { params: { project: string; language: string; path: string[] } }
+) => {
+  const user = await requireAuth();
+  const accessToken = await getServerAccessToken();
+
+  if (!accessToken) {
+    throw new Error('Authentication required: Access token not available');
+  }
+
+  const { project, languageCode } = getLanguageConfig(params.project, params.language);
+
+  try {
+    await requireRole(project, user.username, 'translator', languageCode);
+  } catch {
+    return forbidden('Translator access required');
+  }
+
+  const safeFilename = sanitizeFilePath(decodeFilePath(params.path));
+
+  const drift = await getSourceDrift(
+    createGitHubClient(accessToken),
+    project,
+    languageCode,
+    safeFilename
+  );
+
+  logger.debug('Source drift loaded', {
+    user: user.username,
+    filename: safeFilename,
+    sections: drift.sections.filter((section) => section.status !== 'unchanged').length,
+  });
+
+  return createSuccessResponse(drift);
+});
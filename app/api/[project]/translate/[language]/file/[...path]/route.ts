@@ -7,22 +7,28 @@ import {
   getTranslationFilePath,
   getMachineTranslationFilePath,
   getTranslationBranchName,
+  matchesFilePattern,
 } from '@/lib/config';
 import { createGitHubClient } from '@/lib/github';
-import { getFileContentAsText } from '@/lib/file-processing';
+import { getFileContentAsText, loadGlossary } from '@/lib/file-processing';
 import { loadTranslationMetadata } from '@/lib/translation-metadata';
+import { loadTranslationMemory, findSegmentMatches } from '@/lib/translation-memory';
 import { ensureFork } from '@/lib/fork-management';
 import {
   withErrorHandling,
+  forbidden,
   createSuccessResponse,
+  notFound,
   logger,
 } from '@/lib/api-utils';
-import { sanitizeFilename } from '@/lib/validation';
+import { requireRole } from '@/lib/access';
+import { sanitizeFilePath } from '@/lib/validation';
+import { decodeFilePath } from '@/lib/paths';
 import type { EditorData } from '@/types';
 
 export const GET = withErrorHandling(async (
   request: NextRequest,
-  { params }: { params: { project: string; language: string; filename: string } }
+  { params }: { params: { project: string; language: string; path: string[] } }
 ) => {
   // Authenticate user
   const user = await requireAuth();
@@ -38,9 +44,19 @@ export const GET = withErrorHandling(async (
     params.language
   );
 
-  // Decode and sanitize filename
-  const filename = decodeURIComponent(params.filename);
-  const safeFilename = sanitizeFilename(filename);
+  try {
+    await requireRole(project, user.username, 'translator', languageCode);
+  } catch {
+    return forbidden('Translator access required');
+  }
+
+  // Decode and sanitize the path relative to the source folder
+  const filename = decodeFilePath(params.path);
+  const safeFilename = sanitizeFilePath(filename);
+
+  if (!matchesFilePattern(project, safeFilename)) {
+    return notFound('File is not selected for translation in this project');
+  }
 
   logger.debug('Loading file for editing', {
     user: user.username,
@@ -59,7 +75,7 @@ export const GET = withErrorHandling(async (
   await ensureFork(githubClient, user.username, owner, repo, languageCode);
 
   // Get all three versions of the content
-  const [englishContent, translationContent, machineContent, metadata] = await Promise.all([
+  const [englishContent, translationContent, machineContent, metadata, glossary] = await Promise.all([
     // English original from upstream
     getFileContentAsText(
       githubClient,
@@ -89,8 +105,17 @@ export const GET = withErrorHandling(async (
 
     // Load metadata
     loadTranslationMetadata(githubClient, owner, repo, project, languageCode, branchName),
+
+    // Approved terms, stored next to translation.json
+    loadGlossary(githubClient, owner, repo, project, languageCode, branchName),
   ]);
 
+  // Exact and fuzzy matches from previously approved translations
+  const memoryMatches = findSegmentMatches(
+    await loadTranslationMemory(languageCode),
+    englishContent
+  );
+
   const fileMetadata = metadata?.files[safeFilename] || {
     status: 'not-started',
     lastUpdated: null,
@@ -105,9 +130,12 @@ export const GET = withErrorHandling(async (
 
   const editorData: EditorData = {
     filename: safeFilename,
+    username: user.username,
     englishContent,
     translationContent,
     machineContent,
+    memoryMatches,
+    glossary,
     metadata: fileMetadata,
     language: {
       code: languageCode,
@@ -121,6 +149,7 @@ export const GET = withErrorHandling(async (
     filename: safeFilename,
     hasTranslation: translationContent.length > 0,
     hasMachine: machineContent.length > 0,
+    memoryMatches: memoryMatches.length,
   });
 
   return createSuccessResponse(editorData);
@@ -0,0 +1,97 @@
+import { NextRequest } from 'next/server';
+import { requireAuth, getServerAccessToken } from '@/lib/auth';
+import { getLanguageConfig, matchesFilePattern } from '@/lib/config';
+import { createGitHubClient } from '@/lib/github';
+import { ReviewStateError } from '@/lib/translation-metadata';
+import { submitFiles } from '@/lib/batch-submission';
+import { FileClaimError } from '@/lib/file-claims';
+import { QualityCheckError } from '@/lib/quality-checks';
+import {
+  withErrorHandling,
+  forbidden,
+  parseRequestBody,
+  validationError,
+  createSuccessResponse,
+  createErrorResponse,
+  logger,
+  ErrorCode,
+} from '@/lib/api-utils';
+import { requireRole } from '@/lib/access';
+import {
+  validateRequest,
+  batchSubmitRequestSchema,
+  sanitizeFilePath,
+} from '@/lib/validation';
+import type { BatchSubmitResponse } from '@/types';
+
+/**
+ * Submit several saved drafts for review in one pull request
+ */
+export const POST = withErrorHandling(async (
+  request: NextRequest,
+  { params }: { params: { project: string; language: string } }
+) => {
+  const user = await requireAuth();
+  const accessToken = await getServerAccessToken();
+
+  if (!accessToken) {
+    throw new Error('Authentication required: Access token not available');
+  }
+
+  const { project, languageCode } = getLanguageConfig(params.project, params.language);
+
+  try {
+    await requireRole(project, user.username, 'translator', languageCode);
+  } catch {
+    return forbidden('Translator access required');
+  }
+
+  const body = await parseRequestBody(request);
+  const { filenames, message } = validateRequest(batchSubmitRequestSchema, body);
+
+  // Sanitize file paths to prevent path traversal
+  const safeFilenames = filenames.map(sanitizeFilePath);
+
+  if (safeFilenames.some((filename) => !matchesFilePattern(project, filename))) {
+    return validationError('File is not selected for translation in this project');
+  }
+
+  logger.info('Submitting files', {
+    user: user.username,
+    project: project.slug,
+    language: languageCode,
+    files: safeFilenames.length,
+  });
+
+  const adminToken = process.env.GITHUB_ADMIN_TOKEN;
+
+  let result: BatchSubmitResponse;
+  try {
+    result = await submitFiles(
+      createGitHubClient(accessToken),
+      adminToken ? createGitHubClient(adminToken) : null,
+      project,
+      languageCode,
+      safeFilenames,
+      user.username,
+      message || undefined
+    );
+  } catch (error) {
+    if (error instanceof ReviewStateError || error instanceof FileClaimError) {
+      return createErrorResponse(ErrorCode.CONFLICT, error.message, 409);
+    }
+    if (error instanceof QualityCheckError) {
+      return validationError(error.message);
+    }
+    throw error;
+  }
+
+  logger.info('Files submitted', {
+    pullRequests: result.pullRequests.map((pr) => pr.number),
+  });
+
+  return createSuccessResponse(
+    result,
+    `${result.files.length} ${result.files.length === 1 ? 'file' : 'files'} submitted for review`
+  );
+});
@@ -5,21 +5,35 @@ import {
   parseGitHubRepo,
   getTranslationFilePath,
   getTranslationBranchName,
+  getFileBranchName,
+  getPullRequestMode,
+  matchesFilePattern,
 } from '@/lib/config';
 import { createGitHubClient } from '@/lib/github';
-import { saveFileToFork } from '@/lib/file-processing';
-import { createPullRequest, getExistingPR } from '@/lib/fork-management';
+import {
+  saveFileToFork,
+  checkTranslationQuality,
+  measurePostEditDistance,
+} from '@/lib/file-processing';
+import { createPullRequest, getExistingPR, ensureFileBranch } from '@/lib/fork-management';
 import { markFileComplete } from '@/lib/translation-metadata';
+import { assertNotClaimedByOther, FileClaimError } from '@/lib/file-claims';
+import { formatBlockingIssues, formatQualityReport } from '@/lib/quality-checks';
 import {
   withErrorHandling,
+  forbidden,
   parseRequestBody,
+  validationError,
   createSuccessResponse,
+  createErrorResponse,
   logger,
+  ErrorCode,
 } from '@/lib/api-utils';
+import { requireRole } from '@/lib/access';
 import {
   validateRequest,
   createPRRequestSchema,
-  sanitizeFilename,
+  sanitizeFilePath,
 } from '@/lib/validation';
 import type { CreatePRResponse } from '@/types';
 
@@ -41,13 +55,48 @@ export const POST = withErrorHandling(async (
     params.language
   );
 
+  try {
+    await requireRole(project, user.username, 'translator', languageCode);
+  } catch {
+    return forbidden('Translator access required');
+  }
+
   // Parse and validate request body
   const body = await parseRequestBody(request);
   const validated = validateRequest(createPRRequestSchema, body);
   const { filename, content, message } = validated;
 
-  // Sanitize filename to prevent path traversal
-  const safeFilename = sanitizeFilename(filename);
+  // Sanitize file path to prevent path traversal
+  const safeFilename = sanitizeFilePath(filename);
+
+  if (!matchesFilePattern(project, safeFilename)) {
+    return validationError('File is not selected for translation in this project');
+  }
+
+  // Another translator is working on this file
+  try {
+    await assertNotClaimedByOther(project, languageCode, safeFilename, user.username);
+  } catch (error) {
+    if (error instanceof FileClaimError) {
+      return createErrorResponse(ErrorCode.CONFLICT, error.message, 409);
+    }
+    throw error;
+  }
+
+  // Create GitHub client with user's access token
+  const githubClient = createGitHubClient(accessToken);
+
+  const quality = await checkTranslationQuality(
+    githubClient,
+    project,
+    languageCode,
+    safeFilename,
+    content
+  );
+
+  if (quality.blocking > 0) {
+    return validationError(formatBlockingIssues(safeFilename, quality), { quality });
+  }
 
   logger.info('Creating pull request', {
     user: user.username,
@@ -59,29 +108,58 @@ export const POST = withErrorHandling(async (
   const { owner, repo } = parseGitHubRepo(project.githubRepo);
   const branchName = getTranslationBranchName(languageCode);
 
-  // Create GitHub client with user's access token
-  const githubClient = createGitHubClient(accessToken);
+  // Bundled: one PR from the translator's translation branch. Per file: one
+  // PR per file from its own fork branch, into the same upstream branch.
+  const perFile = getPullRequestMode(project) === 'per-file';
+  const headBranch = perFile ? getFileBranchName(languageCode, safeFilename) : branchName;
+
+  // Check if PR already exists
+  const existingPR = await getExistingPR(
+    githubClient,
+    owner,
+    repo,
+    user.username,
+    headBranch,
+    branchName
+  );
 
   // First, save the file to user's fork
   const filePath = getTranslationFilePath(project, languageCode, safeFilename);
+  const commitMessage = message || `[${languageCode}] Complete translation for ${safeFilename}`;
   const saveResult = await saveFileToFork(
     githubClient,
     user.username,
     repo,
     filePath,
     content,
-    message || `[${languageCode}] Complete translation for ${safeFilename}`,
+    commitMessage,
     branchName
   );
 
-  // Check if PR already exists
-  let existingPR = await getExistingPR(
-    githubClient,
-    owner,
-    repo,
-    user.username,
-    branchName
-  );
+  // The translation branch stays the working copy the editor loads from
+  let submittedSha = saveResult.sha;
+  if (perFile) {
+    await ensureFileBranch(
+      githubClient,
+      user.username,
+      owner,
+      repo,
+      languageCode,
+      headBranch,
+      Boolean(existingPR)
+    );
+
+    const fileResult = await saveFileToFork(
+      githubClient,
+      user.username,
+      repo,
+      filePath,
+      content,
+      commitMessage,
+      headBranch
+    );
+    submittedSha = fileResult.sha;
+  }
 
   let prNumber: number;
   let prUrl: string;
@@ -98,6 +176,7 @@ export const POST = withErrorHandling(async (
 - Translated ${safeFilename} to ${language.name}
 - Updated by: @${user.username}
 
+${formatQualityReport([{ filename: safeFilename, report: quality }])}
 ${message ? `\n## Notes\n${message}` : ''}
 
 🤖 Generated with [OWASP Translation Hub](https://github.com/OWASP/translation-hub)`;
@@ -107,9 +186,10 @@ ${message ? `\n## Notes\n${message}` : ''}
       user.username,
       owner,
       repo,
-      branchName,
+      headBranch,
       prTitle,
-      prBody
+      prBody,
+      branchName
     );
 
     prNumber = pr.number;
@@ -123,6 +203,16 @@ ${message ? `\n## Notes\n${message}` : ''}
     if (adminToken) {
       const adminGitHub = createGitHubClient(adminToken);
 
+      // The translator worked against the current English source
+      const sourceHead = await adminGitHub.getBranch(owner, repo, project.sourceBranch);
+      const postEditDistance = await measurePostEditDistance(
+        githubClient,
+        project,
+        languageCode,
+        safeFilename,
+        content
+      );
+
       await markFileComplete(
         adminGitHub,
         owner,
@@ -131,10 +221,12 @@ ${message ? `\n## Notes\n${message}` : ''}
         languageCode,
         safeFilename,
         user.username,
-        saveResult.sha,
+        submittedSha,
         prNumber,
         prUrl,
-        branchName
+        branchName,
+        sourceHead.data.commit.sha,
+        postEditDistance
       );
     } else {
       logger.warn('Admin token not configured, skipping metadata update');
@@ -150,6 +242,7 @@ ${message ? `\n## Notes\n${message}` : ''}
       : 'Pull request created successfully',
     prNumber,
     prUrl,
+    quality,
   };
 
   return createSuccessResponse(response);
@@ -0,0 +1,66 @@
+import { NextRequest } from 'next/server';
+import { requireAuth } from '@/lib/auth';
+import { getLanguageConfig, matchesFilePattern } from '@/lib/config';
+import { recordPresence, removePresence } from '@/lib/file-claims';
+import { requireRole } from '@/lib/access';
+import {
+  withErrorHandling,
+  createSuccessResponse,
+  forbidden,
+  notFound,
+} from '@/lib/api-utils';
+import { sanitizeFilePath } from '@/lib/validation';
+import { decodeFilePath } from '@/lib/paths';
+
+/**
+ * Editor heartbeat: the user has the file open. Returns the file's claim and
+ * who else has it open.
+ */
+export const POST = withErrorHandling(async (
+  request: NextRequest,
+  { params }: { params: { project: string; language: string; path: string[] } }
+) => {
+  const user = await requireAuth();
+  const { project, languageCode } = getLanguageConfig(params.project, params.language);
+
+  try {
+    await requireRole(project, user.username, 'translator', languageCode);
+  } catch {
+    return forbidden('Translator access required');
+  }
+
+  const safeFilename = sanitizeFilePath(decodeFilePath(params.path));
+  if (!matchesFilePattern(project, safeFilename)) {
+    return notFound('File is not selected for translation in this project');
+  }
+
+  return createSuccessResponse(
+    await recordPresence(project, languageCode, safeFilename, user.username)
+  );
+});
+
+/**
+ * The user closed the editor
+ */
+export const DELETE = withErrorHandling(async (
+  request: NextRequest,
+  { params }: { params: { project: string; language: string; path: string[] } }
+) => {
+  const user = await requireAuth();
+  const { project, languageCode } = getLanguageConfig(params.project, params.language);
+
+  try {
+    await requireRole(project, user.username, 'translator', languageCode);
+  } catch {
+    return forbidden('Translator access required');
+  }
+
+  const safeFilename = sanitizeFilePath(decodeFilePath(params.path));
+  if (!matchesFilePattern(project, safeFilename)) {
+    return notFound('File is not selected for translation in this project');
+  }
+
+  await removePresence(project, languageCode, safeFilename, user.username);
+
+  return createSuccessResponse(null);
+});
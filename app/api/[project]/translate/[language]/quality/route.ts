@@ -0,0 +1,60 @@
+import { NextRequest } from 'next/server';
+import { requireAuth, getServerAccessToken } from '@/lib/auth';
+import { getLanguageConfig, matchesFilePattern } from '@/lib/config';
+import { createGitHubClient } from '@/lib/github';
+import { checkTranslationQuality } from '@/lib/file-processing';
+import {
+  withErrorHandling,
+  forbidden,
+  parseRequestBody,
+  validationError,
+  createSuccessResponse,
+} from '@/lib/api-utils';
+import { requireRole } from '@/lib/access';
+import {
+  validateRequest,
+  qualityCheckRequestSchema,
+  sanitizeFilePath,
+} from '@/lib/validation';
+
+/**
+ * Run the project's quality checks on a translation, as submitting it would
+ */
+export const POST = withErrorHandling(async (
+  request: NextRequest,
+  { params }: { params: { project: string; language: string } }
+) => {
+  const user = await requireAuth();
+  const accessToken = await getServerAccessToken();
+
+  if (!accessToken) {
+    throw new Error('Authentication required: Access token not available');
+  }
+
+  const { project, languageCode } = getLanguageConfig(params.project, params.language);
+
+  try {
+    await requireRole(project, user.username, 'translator', languageCode);
+  } catch {
+    return forbidden('Translator access required');
+  }
+
+  const body = await parseRequestBody(request);
+  const { filename, content } = validateRequest(qualityCheckRequestSchema, body);
+
+  const safeFilename = sanitizeFilePath(filename);
+
+  if (!matchesFilePattern(project, safeFilename)) {
+    return validationError('File is not selected for translation in this project');
+  }
+
+  return createSuccessResponse(
+    await checkTranslationQuality(
+      createGitHubClient(accessToken),
+      project,
+      languageCode,
+      safeFilename,
+      content
+    )
+  );
+});
@@ -0,0 +1,144 @@
+import { NextRequest } from 'next/server';
+import { requireAuth, getServerAccessToken } from '@/lib/auth';
+import {
+  getLanguageConfig,
+  parseGitHubRepo,
+  getTranslationBranchName,
+  matchesFilePattern,
+} from '@/lib/config';
+import { createGitHubClient } from '@/lib/github';
+import { loadTranslationMetadata, ReviewStateError } from '@/lib/translation-metadata';
+import { getReviewQueue, reviewFile } from '@/lib/review';
+import { requireRole } from '@/lib/access';
+import {
+  withErrorHandling,
+  parseRequestBody,
+  createSuccessResponse,
+  createErrorResponse,
+  forbidden,
+  notFound,
+  validationError,
+  logger,
+  ErrorCode,
+} from '@/lib/api-utils';
+import {
+  validateRequest,
+  reviewActionRequestSchema,
+  sanitizeFilePath,
+} from '@/lib/validation';
+import type { ReviewQueueData } from '@/types';
+
+/**
+ * Review queue of a language
+ */
+export const GET = withErrorHandling(async (
+  request: NextRequest,
+  { params }: { params: { project: string; language: string } }
+) => {
+  const user = await requireAuth();
+  const accessToken = await getServerAccessToken();
+
+  if (!accessToken) {
+    throw new Error('Authentication required: Access token not available');
+  }
+
+  const { project, languageCode } = getLanguageConfig(params.project, params.language);
+
+  try {
+    await requireRole(project, user.username, 'reviewer', languageCode);
+  } catch {
+    return forbidden('Reviewer access required');
+  }
+
+  const { owner, repo } = parseGitHubRepo(project.githubRepo);
+  const metadata = await loadTranslationMetadata(
+    createGitHubClient(accessToken),
+    owner,
+    repo,
+    project,
+    languageCode,
+    getTranslationBranchName(languageCode)
+  );
+
+  if (!metadata) {
+    return notFound('Translation metadata not found - This language has not been initialized yet');
+  }
+
+  const queue: ReviewQueueData = {
+    username: user.username,
+    items: getReviewQueue(metadata, project),
+  };
+
+  return createSuccessResponse(queue);
+});
+
+/**
+ * Start reviewing, approve or request changes to a file
+ */
+export const POST = withErrorHandling(async (
+  request: NextRequest,
+  { params }: { params: { project: string; language: string } }
+) => {
+  const user = await requireAuth();
+  const accessToken = await getServerAccessToken();
+
+  if (!accessToken) {
+    throw new Error('Authentication required: Access token not available');
+  }
+
+  const { project, languageCode } = getLanguageConfig(params.project, params.language);
+
+  try {
+    await requireRole(project, user.username, 'reviewer', languageCode);
+  } catch {
+    return forbidden('Reviewer access required');
+  }
+
+  const body = await parseRequestBody(request);
+  const { filename, action, comment } = validateRequest(reviewActionRequestSchema, body);
+  const safeFilename = sanitizeFilePath(filename);
+
+  if (!matchesFilePattern(project, safeFilename)) {
+    return validationError('File is not selected for translation in this project');
+  }
+
+  const adminToken = process.env.GITHUB_ADMIN_TOKEN;
+  if (!adminToken) {
+    return createErrorResponse(
+      ErrorCode.INTERNAL_ERROR,
+      'Admin token not configured',
+      500,
+      'GITHUB_ADMIN_TOKEN environment variable not set'
+    );
+  }
+
+  let file;
+  try {
+    file = await reviewFile(
+      createGitHubClient(accessToken),
+      createGitHubClient(adminToken),
+      project,
+      languageCode,
+      safeFilename,
+      action,
+      user.username,
+      comment
+    );
+  } catch (error) {
+    if (error instanceof ReviewStateError) {
+      return createErrorResponse(ErrorCode.CONFLICT, error.message, 409);
+    }
+    throw error;
+  }
+
+  logger.info('File reviewed', {
+    user: user.username,
+    project: project.slug,
+    language: languageCode,
+    filename: safeFilename,
+    action,
+    reviewState: file.reviewState,
+  });
+
+  return createSuccessResponse(file);
+});
@@ -5,24 +5,28 @@ import {
   parseGitHubRepo,
   getTranslationFilePath,
   getTranslationBranchName,
+  matchesFilePattern,
 } from '@/lib/config';
 import { createGitHubClient } from '@/lib/github';
-import { saveFileToFork } from '@/lib/file-processing';
+import { saveFileToFork, checkTranslationQuality } from '@/lib/file-processing';
 import { markFileInProgress } from '@/lib/translation-metadata';
+import { saveDraftRevision } from '@/lib/drafts';
 import {
   withErrorHandling,
+  forbidden,
   parseRequestBody,
   validationError,
   internalError,
   createSuccessResponse,
   logger,
 } from '@/lib/api-utils';
+import { requireRole } from '@/lib/access';
 import {
   validateRequest,
   saveDraftRequestSchema,
-  sanitizeFilename,
+  sanitizeFilePath,
 } from '@/lib/validation';
-import type { SaveDraftResponse } from '@/types';
+import type { SaveDraftResponse, QualityReport } from '@/types';
 
 export const POST = withErrorHandling(async (
   request: NextRequest,
@@ -42,13 +46,23 @@ export const POST = withErrorHandling(async (
     params.language
   );
 
+  try {
+    await requireRole(project, user.username, 'translator', languageCode);
+  } catch {
+    return forbidden('Translator access required');
+  }
+
   // Parse and validate request body
   const body = await parseRequestBody(request);
   const validated = validateRequest(saveDraftRequestSchema, body);
   const { filename, content } = validated;
 
-  // Sanitize filename to prevent path traversal
-  const safeFilename = sanitizeFilename(filename);
+  // Sanitize file path to prevent path traversal
+  const safeFilename = sanitizeFilePath(filename);
+
+  if (!matchesFilePattern(project, safeFilename)) {
+    return validationError('File is not selected for translation in this project');
+  }
 
   logger.info('Saving draft', {
     user: user.username,
@@ -100,11 +114,33 @@ export const POST = withErrorHandling(async (
     logger.error('Failed to update metadata', metadataError);
   }
 
+  // Saves to GitHub are part of the draft's history too
+  try {
+    await saveDraftRevision(project, languageCode, user.username, safeFilename, content, 'save');
+  } catch (draftError) {
+    logger.error('Failed to keep draft revision', draftError);
+  }
+
+  // Drafts are never held back by quality checks; the editor shows the report
+  let quality: QualityReport | null = null;
+  try {
+    quality = await checkTranslationQuality(
+      githubClient,
+      project,
+      languageCode,
+      safeFilename,
+      content
+    );
+  } catch (qualityError) {
+    logger.error('Failed to run quality checks', qualityError);
+  }
+
   const response: SaveDraftResponse = {
     success: true,
     message: 'Draft saved successfully',
     commitSha: result.sha,
     timestamp: new Date().toISOString(),
+    quality,
   };
 
   return createSuccessResponse(response);
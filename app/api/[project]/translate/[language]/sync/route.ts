@@ -9,9 +9,11 @@ import { createGitHubClient } from '@/lib/github';
 import { syncForkWithUpstream, checkForkSyncStatus } from '@/lib/fork-management';
 import {
   withErrorHandling,
+  forbidden,
   createSuccessResponse,
   logger,
 } from '@/lib/api-utils';
+import { requireRole } from '@/lib/access';
 import type { SyncForkResponse } from '@/types';
 
 export const GET = withErrorHandling(async (
@@ -32,6 +34,12 @@ export const GET = withErrorHandling(async (
     params.language
   );
 
+  try {
+    await requireRole(project, user.username, 'translator', languageCode);
+  } catch {
+    return forbidden('Translator access required');
+  }
+
   logger.debug('Checking fork sync status', {
     user: user.username,
     project: params.project,
@@ -80,6 +88,12 @@ export const POST = withErrorHandling(async (
     params.language
   );
 
+  try {
+    await requireRole(project, user.username, 'translator', languageCode);
+  } catch {
+    return forbidden('Translator access required');
+  }
+
   logger.info('Starting fork sync', {
     user: user.username,
     project: params.project,
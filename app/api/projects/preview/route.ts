@@ -0,0 +1,54 @@
+import { NextRequest } from 'next/server';
+import { requireAuth, getServerAccessToken } from '@/lib/auth';
+import { createGitHubClient } from '@/lib/github';
+import { getSourceFiles } from '@/lib/file-processing';
+import {
+  withErrorHandling,
+  parseRequestBody,
+  createSuccessResponse,
+  forbidden,
+} from '@/lib/api-utils';
+import {
+  validateRequest,
+  previewProjectFilesRequestSchema,
+} from '@/lib/validation';
+import { requireHubAdmin } from '@/lib/access';
+import type { ProjectConfig } from '@/types';
+
+/**
+ * Source files a draft project config selects, as relative paths
+ */
+export const POST = withErrorHandling(async (request: NextRequest) => {
+  const user = await requireAuth();
+
+  try {
+    requireHubAdmin(user.username);
+  } catch {
+    return forbidden('Hub admin access required to register projects');
+  }
+
+  const accessToken = await getServerAccessToken();
+  if (!accessToken) {
+    throw new Error('Authentication required: Access token not available');
+  }
+
+  const body = await parseRequestBody(request);
+  const validated = validateRequest(previewProjectFilesRequestSchema, body);
+  const [owner, repo] = validated.githubRepo.split('/');
+
+  const draft = {
+    ...validated,
+    priorityFiles: [],
+    languages: {},
+  } as unknown as ProjectConfig;
+
+  const files = await getSourceFiles(
+    createGitHubClient(accessToken),
+    owner,
+    repo,
+    draft,
+    validated.sourceBranch
+  );
+
+  return createSuccessResponse({ files: files.map((file) => file.name) });
+});
@@ -0,0 +1,78 @@
+import { NextRequest } from 'next/server';
+import { requireAuth, getServerAccessToken } from '@/lib/auth';
+import { createGitHubClient } from '@/lib/github';
+import { toRepoPath } from '@/lib/config';
+import {
+  withErrorHandling,
+  createSuccessResponse,
+  forbidden,
+  notFound,
+} from '@/lib/api-utils';
+import {
+  validateRequest,
+  repositoryQuerySchema,
+} from '@/lib/validation';
+import { requireHubAdmin } from '@/lib/access';
+import type { RepositoryEntry, RepositoryContents } from '@/types';
+
+/**
+ * Branches of a repository and the contents of one of its folders, for
+ * the project onboarding wizard
+ */
+export const GET = withErrorHandling(async (request: NextRequest) => {
+  const user = await requireAuth();
+
+  try {
+    requireHubAdmin(user.username);
+  } catch {
+    return forbidden('Hub admin access required to register projects');
+  }
+
+  const accessToken = await getServerAccessToken();
+  if (!accessToken) {
+    throw new Error('Authentication required: Access token not available');
+  }
+
+  const query = validateRequest(
+    repositoryQuerySchema,
+    Object.fromEntries(request.nextUrl.searchParams.entries())
+  );
+  const [owner, repo] = query.repo.split('/');
+  const githubClient = createGitHubClient(accessToken);
+
+  let repository;
+  try {
+    repository = await githubClient.getRepository(owner, repo);
+  } catch (error: unknown) {
+    if ((error as { status?: number }).status === 404) {
+      return notFound(`Repository ${query.repo} not found`);
+    }
+    throw error;
+  }
+
+  const ref = query.ref || repository.data.default_branch;
+  const folder = toRepoPath(query.path || '');
+
+  const [branches, contents] = await Promise.all([
+    githubClient.listBranches(owner, repo),
+    githubClient.getDirectoryContents(owner, repo, folder, ref),
+  ]);
+
+  const entries: RepositoryEntry[] = (Array.isArray(contents.data) ? contents.data : [])
+    .filter((entry) => entry.type === 'dir' || entry.type === 'file')
+    .map((entry) => ({
+      name: entry.name,
+      path: `/${entry.path}`,
+      type: entry.type as 'dir' | 'file',
+    }))
+    .sort((a, b) => (a.type === b.type ? a.name.localeCompare(b.name) : a.type === 'dir' ? -1 : 1));
+
+  return createSuccessResponse<RepositoryContents>({
+    githubRepo: query.repo,
+    defaultBranch: repository.data.default_branch,
+    branches: branches.data.map((branch) => branch.name),
+    ref,
+    path: `/${folder}`,
+    entries,
+  });
+});
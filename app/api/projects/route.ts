@@ -1,5 +1,23 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getAllProjectConfigs } from '@/lib/config';
+import { requireAuth, getServerAccessToken } from '@/lib/auth';
+import { getAllProjectConfigs, getProjectSlugs, registerProject } from '@/lib/config';
+import { createGitHubClient } from '@/lib/github';
+import {
+  withErrorHandling,
+  parseRequestBody,
+  createSuccessResponse,
+  createErrorResponse,
+  forbidden,
+  validationError,
+  logger,
+  ErrorCode,
+} from '@/lib/api-utils';
+import {
+  validateRequest,
+  registerProjectRequestSchema,
+} from '@/lib/validation';
+import { requireHubAdmin } from '@/lib/access';
+import type { ProjectConfig } from '@/types';
 
 export async function GET(request: NextRequest) {
   try {
@@ -28,3 +46,77 @@ export async function GET(request: NextRequest) {
     );
   }
 }
+
+/**
+ * Register a new project. Its config is saved to the runtime config store;
+ * languages are added afterwards on the project's admin page.
+ */
+export const POST = withErrorHandling(async (request: NextRequest) => {
+  const user = await requireAuth();
+
+  try {
+    requireHubAdmin(user.username);
+  } catch {
+    return forbidden('Hub admin access required to register projects');
+  }
+
+  const accessToken = await getServerAccessToken();
+  if (!accessToken) {
+    throw new Error('Authentication required: Access token not available');
+  }
+
+  const body = await parseRequestBody(request);
+  const validated = validateRequest(registerProjectRequestSchema, body);
+
+  if (getProjectSlugs().includes(validated.slug)) {
+    return createErrorResponse(
+      ErrorCode.CONFLICT,
+      `Project ${validated.slug} already exists`,
+      409
+    );
+  }
+
+  // The source branch must exist and be readable
+  const [owner, repo] = validated.githubRepo.split('/');
+  try {
+    await createGitHubClient(accessToken).getBranch(owner, repo, validated.sourceBranch);
+  } catch (error: unknown) {
+    if ((error as { status?: number }).status === 404) {
+      return validationError(
+        `Branch ${validated.sourceBranch} not found in ${validated.githubRepo}`
+      );
+    }
+    throw error;
+  }
+
+  const config: ProjectConfig = {
+    slug: validated.slug,
+    name: validated.name,
+    githubRepo: validated.githubRepo,
+    sourceBranch: validated.sourceBranch,
+    sourceFolder: validated.sourceFolder,
+    translationFolder: validated.translationFolder,
+    tmpFolder: validated.tmpFolder,
+    ...(validated.filePattern && { filePattern: validated.filePattern }),
+    ...(validated.include && { include: validated.include }),
+    ...(validated.exclude && { exclude: validated.exclude }),
+    priorityFiles: validated.priorityFiles,
+    ...(validated.pullRequests && { pullRequests: validated.pullRequests }),
+    languages: {},
+  };
+
+  try {
+    registerProject(config);
+  } catch (error: unknown) {
+    // Reserved slugs and slugs taken since the check above
+    return validationError(error instanceof Error ? error.message : String(error));
+  }
+
+  logger.info('Project registered', {
+    user: user.username,
+    project: config.slug,
+    githubRepo: config.githubRepo,
+  });
+
+  return createSuccessResponse(config, `Registered ${config.name}`, 201);
+});
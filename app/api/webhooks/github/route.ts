@@ -0,0 +1,83 @@
+import { NextRequest } from 'next/server';
+import { createGitHubClient } from '@/lib/github';
+import { verifyWebhookSignature, handleWebhook } from '@/lib/webhooks';
+import {
+  withErrorHandling,
+  createSuccessResponse,
+  createErrorResponse,
+  unauthorized,
+  validationError,
+  logger,
+  ErrorCode,
+} from '@/lib/api-utils';
+
+/**
+ * GitHub webhook receiver. Not behind sign-in: deliveries are authenticated
+ * by their HMAC signature instead.
+ */
+export const POST = withErrorHandling(async (request: NextRequest) => {
+  const secret = process.env.GITHUB_WEBHOOK_SECRET;
+  if (!secret) {
+    return createErrorResponse(
+      ErrorCode.SERVICE_UNAVAILABLE,
+      'Webhooks not configured',
+      503,
+      'GITHUB_WEBHOOK_SECRET environment variable not set'
+    );
+  }
+
+  // The signature covers the exact bytes GitHub sent
+  const body = await request.text();
+  if (!verifyWebhookSignature(body, request.headers.get('x-hub-signature-256'), secret)) {
+    logger.warn('Webhook delivery with an invalid signature', {
+      delivery: request.headers.get('x-github-delivery'),
+    });
+    return unauthorized('Invalid webhook signature');
+  }
+
+  const eventType = request.headers.get('x-github-event');
+  const deliveryId = request.headers.get('x-github-delivery');
+  if (!eventType || !deliveryId) {
+    return validationError('Missing X-GitHub-Event or X-GitHub-Delivery header');
+  }
+
+  if (eventType === 'ping') {
+    return createSuccessResponse({ handled: false, events: [], errors: [], queued: [] }, 'pong');
+  }
+
+  let payload;
+  try {
+    payload = JSON.parse(body);
+  } catch {
+    return validationError('Invalid JSON payload');
+  }
+
+  const adminToken = process.env.GITHUB_ADMIN_TOKEN;
+  if (!adminToken) {
+    return createErrorResponse(
+      ErrorCode.INTERNAL_ERROR,
+      'Admin token not configured',
+      500,
+      'GITHUB_ADMIN_TOKEN environment variable not set'
+    );
+  }
+
+  const result = await handleWebhook(
+    createGitHubClient(adminToken),
+    eventType,
+    deliveryId,
+    payload
+  );
+
+  logger.info('Webhook delivery handled', {
+    event: eventType,
+    delivery: deliveryId,
+    repository: payload.repository?.full_name,
+    handled: result.handled,
+    errors: result.errors.length,
+    queued: result.queued.length,
+  });
+
+  // Drift detection for source pushes runs after the response
+  return createSuccessResponse(result, undefined, result.queued.length > 0 ? 202 : 200);
+});
@@ -1,8 +1,14 @@
 import Link from 'next/link';
 import { getAllProjectConfigs } from '@/lib/config';
+import { getSessionUser } from '@/lib/auth';
+import { isHubAdmin } from '@/lib/access';
 
-export default function HomePage() {
+// Projects can be registered at runtime
+export const dynamic = 'force-dynamic';
+
+export default async function HomePage() {
   const projects = getAllProjectConfigs();
+  const user = await getSessionUser();
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -17,6 +23,17 @@ export default function HomePage() {
           </p>
         </div>
 
+        {user && isHubAdmin(user.username) && (
+          <div className="flex justify-end mb-6">
+            <Link
+              href="/admin/projects/new"
+              className="px-4 py-2 bg-gray-900 text-white rounded-md hover:bg-gray-800 transition-colors"
+            >
+              Register a Project
+            </Link>
+          </div>
+        )}
+
         {/* Projects Grid */}
         <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-3 mb-12">
           {projects.map((project) => {
@@ -0,0 +1,82 @@
+import { Button } from '@/components/ui/Button';
+import type { RepositoryContents } from '@/types';
+
+export interface FolderAction {
+  label: string;
+  onSelect: (folder: string) => void;
+}
+
+interface FolderBrowserProps {
+  contents: RepositoryContents;
+  loading?: boolean;
+  actions: FolderAction[]; // Offered for the folder being shown
+  onNavigate: (folder: string) => void;
+}
+
+function parentFolder(folder: string): string {
+  return folder.replace(/\/[^/]+\/?$/, '') || '/';
+}
+
+export function FolderBrowser({ contents, loading = false, actions, onNavigate }: FolderBrowserProps) {
+  const isRoot = contents.path === '/';
+
+  return (
+    <div className="border border-gray-200 rounded-lg">
+      <div className="flex items-center justify-between gap-3 px-3 py-2 bg-gray-50 border-b border-gray-200">
+        <span className="font-mono text-sm text-gray-900">
+          {contents.githubRepo}
+          {contents.path}
+        </span>
+        <div className="flex gap-2">
+          {actions.map((action) => (
+            <Button
+              key={action.label}
+              size="sm"
+              variant="secondary"
+              onClick={() => action.onSelect(contents.path)}
+              disabled={loading}
+            >
+              {action.label}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <ul className={`max-h-72 overflow-y-auto divide-y divide-gray-100 ${loading ? 'opacity-50' : ''}`}>
+        {!isRoot && (
+          <li>
+            <button
+              type="button"
+              onClick={() => onNavigate(parentFolder(contents.path))}
+              disabled={loading}
+              className="w-full text-left px-3 py-1.5 text-sm text-blue-700 hover:bg-gray-50"
+            >
+              ..
+            </button>
+          </li>
+        )}
+        {contents.entries.map((entry) =>
+          entry.type === 'dir' ? (
+            <li key={entry.path}>
+              <button
+                type="button"
+                onClick={() => onNavigate(entry.path)}
+                disabled={loading}
+                className="w-full text-left px-3 py-1.5 text-sm text-blue-700 hover:bg-gray-50"
+              >
+                {entry.name}/
+              </button>
+            </li>
+          ) : (
+            <li key={entry.path} className="px-3 py-1.5 text-sm text-gray-500">
+              {entry.name}
+            </li>
+          )
+        )}
+        {contents.entries.length === 0 && (
+          <li className="px-3 py-1.5 text-sm text-gray-500">This folder is empty</li>
+        )}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+import { ProgressBar } from '@/components/ui/ProgressBar';
+import { Button } from '@/components/ui/Button';
+import type { InitJob, InitJobStatus } from '@/types';
+
+interface InitJobProgressProps {
+  job: InitJob;
+  onCancel?: () => void;
+  cancelling?: boolean;
+}
+
+const statusLabels: Record<InitJobStatus, string> = {
+  queued: 'Queued',
+  running: 'Translating',
+  completed: 'Completed',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+const statusColors: Record<InitJobStatus, 'blue' | 'green' | 'yellow' | 'red'> = {
+  queued: 'blue',
+  running: 'blue',
+  completed: 'green',
+  failed: 'red',
+  cancelled: 'yellow',
+};
+
+export function InitJobProgress({ job, onCancel, cancelling = false }: InitJobProgressProps) {
+  const files = Object.values(job.files);
+  const done = files.filter((file) => file.status === 'complete' || file.status === 'error').length;
+  const failed = files.filter((file) => file.status === 'error');
+  const current = files.find((file) => file.status === 'translating');
+  const active = job.status === 'queued' || job.status === 'running';
+
+  const percentage = files.length > 0 ? (done / files.length) * 100 : 0;
+  const color = failed.length > 0 && job.status === 'completed' ? 'yellow' : statusColors[job.status];
+
+  return (
+    <div className="mt-4 p-4 bg-gray-50 border border-gray-200 rounded-lg">
+      <ProgressBar
+        percentage={job.status === 'completed' ? 100 : percentage}
+        label={`${statusLabels[job.status]}${files.length > 0 ? ` · ${done} of ${files.length} files` : ''}`}
+        size="sm"
+        color={color}
+      />
+
+      {current && (
+        <p className="mt-2 text-xs text-gray-600">
+          Current file: <span className="font-mono">{current.filename}</span>
+        </p>
+      )}
+
+      {job.attempts > 1 && active && (
+        <p className="mt-1 text-xs text-gray-500">Resumed after a restart</p>
+      )}
+
+      {job.error && <p className="mt-2 text-sm text-red-700">{job.error}</p>}
+
+      {failed.length > 0 && (
+        <details className="mt-2 text-sm text-red-700">
+          <summary>
+            {failed.length} {failed.length === 1 ? 'file' : 'files'} failed
+          </summary>
+          <ul className="mt-1 space-y-1 text-xs">
+            {failed.map((file) => (
+              <li key={file.filename}>{file.error || file.filename}</li>
+            ))}
+          </ul>
+        </details>
+      )}
+
+      {active && onCancel && (
+        <div className="mt-3">
+          <Button
+            size="sm"
+            variant="secondary"
+            onClick={onCancel}
+            loading={cancelling}
+            disabled={cancelling || job.cancelRequested}
+          >
+            {job.cancelRequested ? 'Cancelling…' : 'Cancel'}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,168 @@
+'use client';
+
+import { useState, type FormEvent } from 'react';
+import { Button } from '@/components/ui/Button';
+import type { LanguageConfig, LanguageStatus } from '@/types';
+
+export interface LanguageFormValues {
+  code: string;
+  name: string;
+  direction: 'ltr' | 'rtl';
+  status: LanguageStatus;
+  coordinator: string | null;
+  reviewers: string[];
+  translators: string[] | null; // null: every signed-in user can translate
+}
+
+interface LanguageFormProps {
+  language?: { code: string; config: LanguageConfig }; // Edit an existing language
+  canAppointCoordinator?: boolean; // Only project admins change the coordinator
+  saving?: boolean;
+  onSubmit: (values: LanguageFormValues) => void;
+  onCancel: () => void;
+}
+
+const statusOptions: Array<{ value: LanguageStatus; label: string }> = [
+  { value: 'inactive', label: 'Inactive (hidden from translators)' },
+  { value: 'active', label: 'Active' },
+  { value: 'archived', label: 'Archived' },
+];
+
+// GitHub usernames separated by commas or spaces
+function parseUsernames(text: string): string[] {
+  return text.split(/[\s,]+/).filter(Boolean);
+}
+
+export function LanguageForm({
+  language,
+  canAppointCoordinator = true,
+  saving = false,
+  onSubmit,
+  onCancel,
+}: LanguageFormProps) {
+  const [code, setCode] = useState(language?.code || '');
+  const [name, setName] = useState(language?.config.name || '');
+  const [direction, setDirection] = useState<'ltr' | 'rtl'>(language?.config.direction || 'ltr');
+  const [status, setStatus] = useState<LanguageStatus>(language?.config.status || 'inactive');
+  const [coordinator, setCoordinator] = useState(language?.config.coordinator || '');
+  const [reviewers, setReviewers] = useState(language?.config.reviewers?.join(', ') || '');
+  const [translators, setTranslators] = useState(language?.config.translators?.join(', ') || '');
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    onSubmit({
+      code: code.trim(),
+      name: name.trim(),
+      direction,
+      status,
+      coordinator: coordinator.trim() || null,
+      reviewers: parseUsernames(reviewers),
+      translators: translators.trim() ? parseUsernames(translators) : null,
+    });
+  };
+
+  const inputClass = 'mt-1 block w-full px-3 py-1.5 border border-gray-300 rounded-md text-sm';
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="mt-4 p-4 bg-gray-50 border border-gray-200 rounded-lg grid grid-cols-2 gap-4"
+    >
+      <label className="block text-sm">
+        <span className="font-medium text-gray-900">Language code</span>
+        <input
+          type="text"
+          value={code}
+          onChange={(event) => setCode(event.target.value)}
+          placeholder="es-ES"
+          pattern="[a-z]{2}-[A-Z]{2}"
+          required
+          disabled={Boolean(language)}
+          className={`${inputClass} font-mono`}
+        />
+      </label>
+
+      <label className="block text-sm">
+        <span className="font-medium text-gray-900">Name</span>
+        <input
+          type="text"
+          value={name}
+          onChange={(event) => setName(event.target.value)}
+          placeholder="Spanish (Spain)"
+          required
+          className={inputClass}
+        />
+      </label>
+
+      <label className="block text-sm">
+        <span className="font-medium text-gray-900">Direction</span>
+        <select
+          value={direction}
+          onChange={(event) => setDirection(event.target.value as 'ltr' | 'rtl')}
+          className={inputClass}
+        >
+          <option value="ltr">Left to right</option>
+          <option value="rtl">Right to left</option>
+        </select>
+      </label>
+
+      <label className="block text-sm">
+        <span className="font-medium text-gray-900">Status</span>
+        <select
+          value={status}
+          onChange={(event) => setStatus(event.target.value as LanguageStatus)}
+          className={inputClass}
+        >
+          {statusOptions.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className="block text-sm col-span-2">
+        <span className="font-medium text-gray-900">Coordinator</span>
+        <input
+          type="text"
+          value={coordinator}
+          onChange={(event) => setCoordinator(event.target.value)}
+          placeholder="GitHub username (optional)"
+          disabled={!canAppointCoordinator}
+          className={inputClass}
+        />
+      </label>
+
+      <label className="block text-sm col-span-2">
+        <span className="font-medium text-gray-900">Reviewers</span>
+        <input
+          type="text"
+          value={reviewers}
+          onChange={(event) => setReviewers(event.target.value)}
+          placeholder="GitHub usernames, separated by commas"
+          className={inputClass}
+        />
+      </label>
+
+      <label className="block text-sm col-span-2">
+        <span className="font-medium text-gray-900">Translators</span>
+        <input
+          type="text"
+          value={translators}
+          onChange={(event) => setTranslators(event.target.value)}
+          placeholder="Leave empty to let every signed-in user translate"
+          className={inputClass}
+        />
+      </label>
+
+      <div className="col-span-2 flex gap-3">
+        <Button type="submit" size="sm" loading={saving}>
+          {language ? 'Save' : 'Add Language'}
+        </Button>
+        <Button type="button" size="sm" variant="ghost" onClick={onCancel}>
+          Cancel
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,111 @@
+'use client';
+
+import { useState, type FormEvent } from 'react';
+import { Button } from '@/components/ui/Button';
+import type { GitHubTeamRole, ProjectAccessConfig } from '@/types';
+
+interface ProjectAccessFormProps {
+  access: ProjectAccessConfig;
+  saving?: boolean;
+  onSubmit: (access: ProjectAccessConfig) => void;
+  onCancel: () => void;
+}
+
+// One team per line: "org/team role [language]"
+function formatTeams(teams: GitHubTeamRole[] = []): string {
+  return teams
+    .map(({ team, role, language }) => [team, role, language].filter(Boolean).join(' '))
+    .join('\n');
+}
+
+function parseTeams(text: string): GitHubTeamRole[] {
+  return text
+    .split('\n')
+    .map((line) => line.trim().split(/\s+/))
+    .filter(([team]) => team)
+    .map(([team, role, language]) => ({
+      team,
+      role: (role || 'translator') as GitHubTeamRole['role'],
+      ...(language && { language }),
+    }));
+}
+
+export function ProjectAccessForm({
+  access,
+  saving = false,
+  onSubmit,
+  onCancel,
+}: ProjectAccessFormProps) {
+  const [admins, setAdmins] = useState(access.admins?.join(', ') || '');
+  const [teams, setTeams] = useState(formatTeams(access.githubTeams));
+  const [repoPermissions, setRepoPermissions] = useState(Boolean(access.repoPermissions));
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    onSubmit({
+      admins: admins.split(/[\s,]+/).filter(Boolean),
+      githubTeams: parseTeams(teams),
+      repoPermissions,
+    });
+  };
+
+  const inputClass = 'mt-1 block w-full px-3 py-1.5 border border-gray-300 rounded-md text-sm';
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="mt-4 p-4 bg-gray-50 border border-gray-200 rounded-lg space-y-4"
+    >
+      <label className="block text-sm">
+        <span className="font-medium text-gray-900">Project admins</span>
+        <input
+          type="text"
+          value={admins}
+          onChange={(event) => setAdmins(event.target.value)}
+          placeholder="GitHub usernames, separated by commas"
+          className={inputClass}
+        />
+      </label>
+
+      <label className="block text-sm">
+        <span className="font-medium text-gray-900">GitHub teams</span>
+        <textarea
+          value={teams}
+          onChange={(event) => setTeams(event.target.value)}
+          rows={4}
+          placeholder={'OWASP/top10-leaders project-admin\nOWASP/top10-es coordinator es-ES'}
+          className={`${inputClass} font-mono`}
+        />
+      </label>
+      <p className="-mt-3 text-xs text-gray-600">
+        One team per line: the team, a role (project-admin, coordinator, reviewer or translator)
+        and, for language roles, an optional language code
+      </p>
+
+      <label className="flex items-start gap-2 text-sm">
+        <input
+          type="checkbox"
+          checked={repoPermissions}
+          onChange={(event) => setRepoPermissions(event.target.checked)}
+          className="mt-1"
+        />
+        <span>
+          <span className="font-medium text-gray-900">Use repository permissions</span>
+          <span className="block text-xs text-gray-600">
+            Repository admins and maintainers become project admins, collaborators with write
+            access become reviewers of every language
+          </span>
+        </span>
+      </label>
+
+      <div className="flex gap-3">
+        <Button type="submit" size="sm" loading={saving}>
+          Save
+        </Button>
+        <Button type="button" size="sm" variant="ghost" onClick={onCancel}>
+          Cancel
+        </Button>
+      </div>
+    </form>
+  );
+}
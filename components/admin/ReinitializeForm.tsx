@@ -0,0 +1,161 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/Button';
+import type { InitMode, InitPlan, InitPlanAction } from '@/types';
+
+export interface ReinitializeOptions {
+  mode: InitMode;
+  sourceCommit?: string;
+}
+
+interface ReinitializeFormProps {
+  plan: InitPlan | null;
+  previewing?: boolean;
+  starting?: boolean;
+  onPreview: (options: ReinitializeOptions) => void;
+  onStart: (options: ReinitializeOptions) => void;
+  onClose: () => void;
+}
+
+const modes: Array<{ value: InitMode; label: string; description: string }> = [
+  {
+    value: 'missing',
+    label: 'Fill missing files',
+    description: 'Translate source files that have no translation yet',
+  },
+  {
+    value: 'refresh',
+    label: 'Refresh machine drafts',
+    description: 'Also re-translate the drafts in the tmp folder; working translations are kept',
+  },
+  {
+    value: 'force',
+    label: 'Force overwrite',
+    description: 'Overwrite every translation, including human work, and reset its progress',
+  },
+];
+
+const actionLabels: Record<InitPlanAction, string> = {
+  create: 'Create',
+  overwrite: 'Overwrite',
+  skip: 'Skip',
+};
+
+const actionColors: Record<InitPlanAction, string> = {
+  create: 'bg-green-100 text-green-800',
+  overwrite: 'bg-yellow-100 text-yellow-800',
+  skip: 'bg-gray-100 text-gray-600',
+};
+
+export function ReinitializeForm({
+  plan,
+  previewing = false,
+  starting = false,
+  onPreview,
+  onStart,
+  onClose,
+}: ReinitializeFormProps) {
+  const [mode, setMode] = useState<InitMode>('missing');
+  const [sourceCommit, setSourceCommit] = useState('');
+  const [previewed, setPreviewed] = useState<ReinitializeOptions | null>(null);
+
+  const options: ReinitializeOptions = {
+    mode,
+    sourceCommit: sourceCommit.trim() || undefined,
+  };
+
+  // A preview only applies to the options it was made with
+  const currentPlan =
+    plan &&
+    previewed?.mode === options.mode &&
+    previewed.sourceCommit === options.sourceCommit
+      ? plan
+      : null;
+  const counts = (action: InitPlanAction) =>
+    currentPlan ? currentPlan.files.filter((file) => file.action === action).length : 0;
+
+  const handlePreview = () => {
+    setPreviewed(options);
+    onPreview(options);
+  };
+
+  return (
+    <div className="mt-4 p-4 bg-gray-50 border border-gray-200 rounded-lg space-y-4">
+      <fieldset>
+        <legend className="text-sm font-medium text-gray-900 mb-2">Re-initialize</legend>
+        <div className="space-y-2">
+          {modes.map((option) => (
+            <label key={option.value} className="flex items-start gap-2 text-sm">
+              <input
+                type="radio"
+                name="init-mode"
+                value={option.value}
+                checked={mode === option.value}
+                onChange={() => setMode(option.value)}
+                className="mt-1"
+              />
+              <span>
+                <span className="font-medium text-gray-900">{option.label}</span>
+                <span className="block text-xs text-gray-600">{option.description}</span>
+              </span>
+            </label>
+          ))}
+        </div>
+      </fieldset>
+
+      <label className="block text-sm">
+        <span className="font-medium text-gray-900">Source commit</span>
+        <input
+          type="text"
+          value={sourceCommit}
+          onChange={(event) => setSourceCommit(event.target.value)}
+          placeholder="Branch, tag or commit SHA (defaults to the source branch)"
+          className="mt-1 block w-full px-3 py-1.5 border border-gray-300 rounded-md font-mono text-sm"
+        />
+      </label>
+
+      {currentPlan && (
+        <div>
+          <p className="text-sm text-gray-700">
+            At <span className="font-mono">{currentPlan.sourceCommitSha.slice(0, 7)}</span>:{' '}
+            {counts('create')} to create, {counts('overwrite')} to overwrite, {counts('skip')}{' '}
+            to skip
+          </p>
+          <ul className="mt-2 max-h-64 overflow-y-auto divide-y divide-gray-100 border border-gray-200 rounded bg-white">
+            {currentPlan.files.map((file) => (
+              <li key={file.filename} className="flex items-center gap-2 px-3 py-1.5 text-xs">
+                <span className={`font-medium px-2 py-0.5 rounded ${actionColors[file.action]}`}>
+                  {actionLabels[file.action]}
+                </span>
+                <span className="font-mono text-gray-900">{file.filename}</span>
+                {file.reason && <span className="text-gray-500">{file.reason}</span>}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="flex gap-3">
+        <Button size="sm" variant="secondary" onClick={handlePreview} loading={previewing}>
+          Preview
+        </Button>
+        <Button
+          size="sm"
+          variant={mode === 'force' ? 'danger' : 'primary'}
+          onClick={() =>
+            // Start from the previewed commit, even if the branch moved since
+            currentPlan && onStart({ mode, sourceCommit: currentPlan.sourceCommitSha })
+          }
+          loading={starting}
+          disabled={!currentPlan || counts('skip') === currentPlan.files.length}
+        >
+          Start
+        </Button>
+        <Button size="sm" variant="ghost" onClick={onClose}>
+          Close
+        </Button>
+      </div>
+    </div>
+  );
+}
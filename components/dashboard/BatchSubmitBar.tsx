@@ -0,0 +1,49 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/Button';
+
+interface BatchSubmitBarProps {
+  count: number; // Selected files
+  busy?: boolean; // Submission in flight
+  onSubmit: (message?: string) => void;
+  onClear: () => void;
+}
+
+export function BatchSubmitBar({ count, busy = false, onSubmit, onClear }: BatchSubmitBarProps) {
+  const [message, setMessage] = useState('');
+
+  if (count === 0) {
+    return null;
+  }
+
+  return (
+    <div className="px-6 py-4 border-b border-gray-200 bg-blue-50">
+      <div className="flex items-center justify-between gap-4 mb-2">
+        <p className="text-sm font-medium text-blue-900">
+          {count} {count === 1 ? 'file' : 'files'} selected
+        </p>
+        <div className="flex gap-2">
+          <Button size="sm" variant="secondary" onClick={onClear} disabled={busy}>
+            Clear
+          </Button>
+          <Button size="sm" onClick={() => onSubmit(message.trim() || undefined)} loading={busy}>
+            Submit for Review
+          </Button>
+        </div>
+      </div>
+      <label htmlFor="batch-submit-notes" className="sr-only">
+        Notes for reviewers
+      </label>
+      <textarea
+        id="batch-submit-notes"
+        value={message}
+        onChange={(event) => setMessage(event.target.value)}
+        placeholder="Notes for reviewers (optional)"
+        rows={2}
+        disabled={busy}
+        className="w-full px-3 py-2 text-sm border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500"
+      />
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+import { Avatar } from '@/components/ui/Avatar';
+import type { FileClaim } from '@/types';
+
+interface FileClaimBadgeProps {
+  claim: FileClaim;
+  currentUser?: string;
+  busy?: boolean;
+  onRelease?: () => void; // Shown to the claimant and to coordinators
+}
+
+export function FileClaimBadge({ claim, currentUser, busy = false, onRelease }: FileClaimBadgeProps) {
+  const own = currentUser?.toLowerCase() === claim.username.toLowerCase();
+
+  return (
+    <span
+      className={`inline-flex items-center gap-1.5 px-2 py-0.5 text-xs font-medium rounded ${
+        own ? 'bg-blue-100 text-blue-800' : 'bg-purple-100 text-purple-800'
+      }`}
+      title={`Claimed until ${new Date(claim.expiresAt).toLocaleString()}`}
+    >
+      <Avatar username={claim.username} size={16} />
+      {own ? 'Claimed by you' : `Claimed by @${claim.username}`}
+      {onRelease && (
+        <button
+          onClick={onRelease}
+          disabled={busy}
+          className="ml-1 underline hover:no-underline disabled:opacity-50"
+        >
+          Release
+        </button>
+      )}
+    </span>
+  );
+}
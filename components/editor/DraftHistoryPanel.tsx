@@ -0,0 +1,132 @@
+import { Button } from '@/components/ui/Button';
+import type {
+  DraftLineChange,
+  DraftRevisionDiff,
+  DraftRevisionSource,
+  DraftRevisionSummary,
+} from '@/types';
+
+interface DraftHistoryPanelProps {
+  revisions: DraftRevisionSummary[]; // Newest first
+  selected: DraftRevisionDiff | null;
+  direction: 'ltr' | 'rtl';
+  busy?: boolean; // Restore in flight
+  onSelect: (id: number) => void;
+  onRestore: (id: number) => void;
+}
+
+const sourceLabels: Record<DraftRevisionSource, string> = {
+  autosave: 'Autosave',
+  save: 'Saved to GitHub',
+  restore: 'Restored',
+};
+
+const CONTEXT_LINES = 2;
+
+// Changed lines with a little context; longer unchanged runs are folded
+function foldUnchanged(changes: DraftLineChange[]): Array<DraftLineChange | null> {
+  const near = (index: number) =>
+    changes
+      .slice(Math.max(0, index - CONTEXT_LINES), index + CONTEXT_LINES + 1)
+      .some((change) => change.type !== 'unchanged');
+
+  return changes.reduce<Array<DraftLineChange | null>>((lines, change, index) => {
+    if (change.type !== 'unchanged' || near(index)) {
+      lines.push(change);
+    } else if (lines[lines.length - 1] !== null) {
+      lines.push(null);
+    }
+    return lines;
+  }, []);
+}
+
+export function DraftHistoryPanel({
+  revisions,
+  selected,
+  direction,
+  busy = false,
+  onSelect,
+  onRestore,
+}: DraftHistoryPanelProps) {
+  if (revisions.length === 0) {
+    return (
+      <div className="p-4 text-sm text-gray-600">
+        No revisions yet. Your draft is kept on the hub every time it is autosaved.
+      </div>
+    );
+  }
+
+  const latestId = revisions[0].id;
+
+  return (
+    <div className="h-full overflow-y-auto divide-y divide-gray-200" dir="ltr">
+      {revisions.map((revision) => {
+        const isSelected = selected?.revision.id === revision.id;
+
+        return (
+          <div key={revision.id} className={isSelected ? 'bg-blue-50' : undefined}>
+            <div className="flex items-center justify-between gap-2 p-3">
+              <button
+                onClick={() => onSelect(revision.id)}
+                className="text-left text-sm flex-1"
+              >
+                <span className="font-medium text-gray-900">#{revision.id}</span>{' '}
+                <span className="text-gray-600">
+                  {sourceLabels[revision.source]}
+                  {revision.restoredFrom && ` from #${revision.restoredFrom}`}
+                </span>
+                <span className="block text-xs text-gray-500">
+                  {new Date(revision.createdAt).toLocaleString()} ·{' '}
+                  {revision.wordCount.toLocaleString()} words
+                </span>
+              </button>
+              {revision.id !== latestId && (
+                <Button
+                  size="sm"
+                  variant="secondary"
+                  onClick={() => onRestore(revision.id)}
+                  disabled={busy}
+                >
+                  Restore
+                </Button>
+              )}
+            </div>
+
+            {isSelected && (
+              <div className="px-3 pb-3">
+                <p className="text-xs text-gray-500 mb-1">
+                  {selected.compareTo
+                    ? `Changes since #${selected.compareTo}`
+                    : 'First revision'}
+                </p>
+                <div className="border border-gray-200 rounded text-xs font-mono" dir={direction}>
+                  {foldUnchanged(selected.changes).map((change, index) =>
+                    change === null ? (
+                      <div key={index} className="px-2 text-gray-400" dir="ltr">
+                        …
+                      </div>
+                    ) : (
+                      <pre
+                        key={index}
+                        className={`px-2 whitespace-pre-wrap ${
+                          change.type === 'added'
+                            ? 'bg-green-50 text-green-900'
+                            : change.type === 'removed'
+                              ? 'bg-red-50 text-red-900'
+                              : 'text-gray-600'
+                        }`}
+                      >
+                        {change.type === 'added' ? '+ ' : change.type === 'removed' ? '- ' : '  '}
+                        {change.line}
+                      </pre>
+                    )
+                  )}
+                </div>
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
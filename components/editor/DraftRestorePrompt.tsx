@@ -0,0 +1,48 @@
+import { Button } from '@/components/ui/Button';
+import type { DraftVersion, DraftVersionSource } from '@/types';
+
+interface DraftRestorePromptProps {
+  versions: DraftVersion[]; // Unsaved versions first, then the GitHub one
+  onChoose: (source: DraftVersionSource) => void;
+}
+
+const sourceLabels: Record<DraftVersionSource, string> = {
+  local: 'This browser',
+  server: 'Saved on the hub',
+  github: 'Your fork on GitHub',
+};
+
+export function DraftRestorePrompt({ versions, onChoose }: DraftRestorePromptProps) {
+  return (
+    <div className="bg-yellow-50 border-b border-yellow-200 p-4">
+      <div className="max-w-7xl mx-auto">
+        <p className="text-yellow-900 mb-3">
+          You have unsaved work from a previous session. Which version would you like to
+          continue with?
+        </p>
+        <div className="flex flex-wrap gap-3">
+          {versions.map((version) => (
+            <div
+              key={version.source}
+              className="flex items-center gap-3 bg-white border border-yellow-200 rounded px-3 py-2"
+            >
+              <div className="text-sm">
+                <p className="font-medium text-gray-900">{sourceLabels[version.source]}</p>
+                <p className="text-xs text-gray-600">
+                  {version.savedAt ? new Date(version.savedAt).toLocaleString() : 'Not saved yet'}
+                </p>
+              </div>
+              <Button
+                size="sm"
+                variant={version.source === 'github' ? 'ghost' : 'secondary'}
+                onClick={() => onChoose(version.source)}
+              >
+                {version.source === 'github' ? 'Discard Others' : 'Restore'}
+              </Button>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+'use client';
+
+import { useState } from 'react';
+import { isKeptInEnglish } from '@/lib/glossary';
+import type { GlossaryWarning } from '@/types';
+
+interface GlossaryWarningsProps {
+  warnings: GlossaryWarning[];
+  direction: 'ltr' | 'rtl';
+}
+
+export function GlossaryWarnings({ warnings, direction }: GlossaryWarningsProps) {
+  const [expanded, setExpanded] = useState(false);
+
+  if (warnings.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="bg-yellow-50 border-t border-yellow-200 px-4 py-2 text-sm">
+      <div className="max-w-7xl mx-auto">
+        <button
+          onClick={() => setExpanded(!expanded)}
+          className="text-yellow-900 font-medium"
+          aria-expanded={expanded}
+        >
+          {expanded ? '▾' : '▸'} {warnings.length} glossary{' '}
+          {warnings.length === 1 ? 'term deviates' : 'terms deviate'} from the approved
+          translation
+        </button>
+
+        {expanded && (
+          <ul className="mt-2 space-y-1 text-yellow-900">
+            {warnings.map(({ term, sourceCount, targetCount }) => (
+              <li key={term.source}>
+                <span className="font-medium">{term.source}</span> →{' '}
+                {isKeptInEnglish(term) ? (
+                  <span className="italic">keep in English</span>
+                ) : (
+                  <span className="font-medium" dir={direction}>
+                    {term.target}
+                  </span>
+                )}{' '}
+                <span className="text-yellow-700">
+                  (used {targetCount} of {sourceCount} times)
+                </span>
+                {term.note && <span className="block text-xs text-yellow-700">{term.note}</span>}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,183 @@
+'use client';
+
+import { Fragment, useDeferredValue, useMemo } from 'react';
+import type { ReactNode, Ref } from 'react';
+import type { Definition, Nodes, Root } from 'mdast';
+import { parseMarkdown } from '@/lib/markdown';
+
+interface MarkdownPreviewProps {
+  markdown: string;
+  direction: 'ltr' | 'rtl';
+  scrollRef?: Ref<HTMLDivElement>; // For scrolling the preview with the editors
+}
+
+/**
+ * Rendered view of a Markdown file, parsed the way the hub segments files
+ * (GitHub Flavored Markdown with front matter). Every block picks its own
+ * direction from its first strong character, so an English paragraph in an
+ * Arabic file reads left to right; code is always left to right and links
+ * are isolated so they do not reorder the text around them. Raw HTML is
+ * shown as source and images by their alt text, rather than loaded.
+ */
+export function MarkdownPreview({ markdown, direction, scrollRef }: MarkdownPreviewProps) {
+  // Parsing long chapters on every keystroke would make typing lag
+  const deferred = useDeferredValue(markdown);
+  const content = useMemo(() => renderDocument(parseMarkdown(deferred)), [deferred]);
+
+  return (
+    <div ref={scrollRef} className="markdown-preview h-full overflow-y-auto p-4" dir={direction}>
+      {content}
+    </div>
+  );
+}
+
+type Definitions = Map<string, Definition>;
+
+function renderDocument(root: Root): ReactNode {
+  const definitions: Definitions = new Map();
+  root.children.forEach((node) => {
+    if (node.type === 'definition') {
+      definitions.set(node.identifier, node);
+    }
+  });
+
+  return renderChildren(root, definitions);
+}
+
+function renderChildren(node: Nodes, definitions: Definitions): ReactNode {
+  if (!('children' in node)) {
+    return null;
+  }
+
+  return node.children.map((child, index) => (
+    <Fragment key={index}>{renderNode(child as Nodes, definitions)}</Fragment>
+  ));
+}
+
+const SAFE_URL_SCHEMES = ['http', 'https', 'mailto'];
+
+// Web, mail and relative links only; never `javascript:` and the like
+function getSafeUrl(url: string): string | undefined {
+  const scheme = url.match(/^([a-z][a-z\d+.-]*):/i)?.[1].toLowerCase();
+  return !scheme || SAFE_URL_SCHEMES.includes(scheme) ? url : undefined;
+}
+
+function renderLink(href: string, title: string | null | undefined, children: ReactNode): ReactNode {
+  return (
+    <bdi>
+      <a href={getSafeUrl(href)} title={title || undefined} target="_blank" rel="noopener noreferrer">
+        {children}
+      </a>
+    </bdi>
+  );
+}
+
+function renderImage(url: string, alt: string | null | undefined): ReactNode {
+  return (
+    <bdi className="markdown-preview-image" title={url}>
+      [{alt || url}]
+    </bdi>
+  );
+}
+
+function renderNode(node: Nodes, definitions: Definitions): ReactNode {
+  const children = () => renderChildren(node, definitions);
+
+  switch (node.type) {
+    case 'heading': {
+      const Heading = `h${node.depth}` as 'h1';
+      return <Heading dir="auto">{children()}</Heading>;
+    }
+    case 'paragraph':
+      return <p dir="auto">{children()}</p>;
+    case 'blockquote':
+      return <blockquote>{children()}</blockquote>;
+    case 'list':
+      return node.ordered ? (
+        <ol start={node.start ?? undefined}>{children()}</ol>
+      ) : (
+        <ul>{children()}</ul>
+      );
+    case 'listItem':
+      return (
+        <li dir="auto">
+          {typeof node.checked === 'boolean' && (
+            <input type="checkbox" checked={node.checked} readOnly disabled />
+          )}
+          {children()}
+        </li>
+      );
+    case 'code':
+      return (
+        <pre dir="ltr">
+          <code>{node.value}</code>
+        </pre>
+      );
+    case 'html':
+      return (
+        <code dir="ltr" className="markdown-preview-html">
+          {node.value}
+        </code>
+      );
+    case 'thematicBreak':
+      return <hr />;
+    case 'table': {
+      const [header, ...rows] = node.children;
+      const renderRow = (row: typeof header, Cell: 'th' | 'td', key?: number) => (
+        <tr key={key}>
+          {row.children.map((cell, cellIndex) => (
+            <Cell
+              key={cellIndex}
+              dir="auto"
+              style={{ textAlign: node.align?.[cellIndex] || undefined }}
+            >
+              {renderChildren(cell, definitions)}
+            </Cell>
+          ))}
+        </tr>
+      );
+
+      return (
+        <table>
+          <thead>{renderRow(header, 'th')}</thead>
+          <tbody>{rows.map((row, index) => renderRow(row, 'td', index))}</tbody>
+        </table>
+      );
+    }
+    case 'footnoteDefinition':
+      return (
+        <div className="markdown-preview-footnote" dir="auto">
+          <sup>{node.label || node.identifier}</sup> {children()}
+        </div>
+      );
+    case 'text':
+      return node.value;
+    case 'emphasis':
+      return <em>{children()}</em>;
+    case 'strong':
+      return <strong>{children()}</strong>;
+    case 'delete':
+      return <del>{children()}</del>;
+    case 'break':
+      return <br />;
+    case 'inlineCode':
+      return <code dir="ltr">{node.value}</code>;
+    case 'link':
+      return renderLink(node.url, node.title, children());
+    case 'linkReference': {
+      const definition = definitions.get(node.identifier);
+      return definition ? renderLink(definition.url, definition.title, children()) : children();
+    }
+    case 'image':
+      return renderImage(node.url, node.alt);
+    case 'imageReference': {
+      const definition = definitions.get(node.identifier);
+      return renderImage(definition?.url || node.identifier, node.alt);
+    }
+    case 'footnoteReference':
+      return <sup>[{node.label || node.identifier}]</sup>;
+    default:
+      // Front matter and link definitions are not part of the rendered page
+      return null;
+  }
+}
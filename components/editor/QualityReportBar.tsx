@@ -0,0 +1,84 @@
+'use client';
+
+import { useState } from 'react';
+import type { QualityCheckId, QualityReport } from '@/types';
+
+interface QualityReportBarProps {
+  report: QualityReport | null;
+}
+
+const CHECK_NAMES: Record<QualityCheckId, string> = {
+  headings: 'Headings',
+  codeBlocks: 'Code blocks',
+  codeContent: 'Code',
+  links: 'Links',
+  images: 'Images',
+  urls: 'URLs',
+  untranslated: 'Untranslated',
+  placeholders: 'Inline code',
+  glossary: 'Glossary',
+};
+
+export function QualityReportBar({ report }: QualityReportBarProps) {
+  const [expanded, setExpanded] = useState(false);
+
+  if (!report) {
+    return null;
+  }
+
+  if (report.issues.length === 0) {
+    return (
+      <div className="bg-green-50 border-t border-green-200 px-4 py-2 text-sm">
+        <div className="max-w-7xl mx-auto text-green-900 font-medium">
+          All quality checks passed
+        </div>
+      </div>
+    );
+  }
+
+  const blocked = report.blocking > 0;
+  const summary = [
+    report.blocking > 0 && `${report.blocking} blocking`,
+    report.warnings > 0 && `${report.warnings} ${report.warnings === 1 ? 'warning' : 'warnings'}`,
+  ]
+    .filter(Boolean)
+    .join(', ');
+
+  return (
+    <div
+      className={`border-t px-4 py-2 text-sm ${
+        blocked ? 'bg-red-50 border-red-200 text-red-900' : 'bg-yellow-50 border-yellow-200 text-yellow-900'
+      }`}
+    >
+      <div className="max-w-7xl mx-auto">
+        <button
+          onClick={() => setExpanded(!expanded)}
+          className="font-medium"
+          aria-expanded={expanded}
+        >
+          {expanded ? '▾' : '▸'} Quality checks: {summary}
+          {blocked && ' (fix the blocking issues before submitting)'}
+        </button>
+
+        {expanded && (
+          <ul className="mt-2 space-y-1 max-h-48 overflow-y-auto">
+            {report.issues.map((issue, index) => (
+              <li key={index} className="flex items-start gap-2">
+                <span
+                  className={`shrink-0 text-xs font-medium px-2 py-0.5 rounded ${
+                    issue.severity === 'blocking'
+                      ? 'bg-red-100 text-red-800'
+                      : 'bg-yellow-100 text-yellow-800'
+                  }`}
+                >
+                  {CHECK_NAMES[issue.check]}
+                </span>
+                <span>{issue.message}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,212 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/Button';
+import { findParagraph } from '@/lib/paragraphs';
+import type { ParagraphAnchor, ReviewThread } from '@/types';
+
+interface ReviewCommentsPanelProps {
+  threads: ReviewThread[];
+  content: string; // Current translation, to locate each thread's paragraph
+  direction: 'ltr' | 'rtl';
+  canComment: boolean;
+  synced: boolean;
+  pendingAnchor: ParagraphAnchor | null; // Paragraph selected for a new thread
+  busy?: boolean;
+  onCreate: (body: string) => void;
+  onCancelCreate: () => void;
+  onReply: (threadId: string, body: string) => void;
+  onResolve: (threadId: string, resolved: boolean) => void;
+  onSelect: (anchor: ParagraphAnchor) => void;
+}
+
+export function ReviewCommentsPanel({
+  threads,
+  content,
+  direction,
+  canComment,
+  synced,
+  pendingAnchor,
+  busy = false,
+  onCreate,
+  onCancelCreate,
+  onReply,
+  onResolve,
+  onSelect,
+}: ReviewCommentsPanelProps) {
+  const [newComment, setNewComment] = useState('');
+  const [replies, setReplies] = useState<Record<string, string>>({});
+  const [showResolved, setShowResolved] = useState(false);
+
+  const open = threads.filter((thread) => !thread.resolved);
+  const resolved = threads.filter((thread) => thread.resolved);
+
+  const renderThread = (thread: ReviewThread) => {
+    const location = thread.anchor ? findParagraph(content, thread.anchor) : null;
+    const reply = replies[thread.id] || '';
+
+    return (
+      <div
+        key={thread.id}
+        className={`p-3 space-y-2 ${thread.resolved ? 'bg-gray-50' : ''}`}
+      >
+        <div className="flex items-center justify-between gap-2">
+          {thread.anchor ? (
+            location ? (
+              <button
+                onClick={() => onSelect(location)}
+                className="text-xs text-blue-600 hover:underline"
+              >
+                {location.startLine === location.endLine
+                  ? `Line ${location.startLine}`
+                  : `Lines ${location.startLine}–${location.endLine}`}
+              </button>
+            ) : (
+              <span className="text-xs text-orange-700" title={thread.anchor.excerpt}>
+                Paragraph changed
+              </span>
+            )
+          ) : (
+            <span className="text-xs text-gray-500">Whole file</span>
+          )}
+          <span
+            className={`text-xs font-medium px-2 py-0.5 rounded ${
+              thread.resolved ? 'bg-green-100 text-green-800' : 'bg-yellow-100 text-yellow-800'
+            }`}
+          >
+            {thread.resolved ? 'Resolved' : 'Open'}
+          </span>
+        </div>
+
+        {thread.anchor && (
+          <p className="text-xs text-gray-500 line-clamp-2" dir={direction}>
+            {thread.anchor.excerpt}
+          </p>
+        )}
+
+        {thread.comments.map((comment) => (
+          <div key={comment.id} className="border-l-2 border-gray-200 pl-2">
+            <p className="text-xs text-gray-500">
+              <span className="font-medium text-gray-700">{comment.author}</span>
+              {' · '}
+              {new Date(comment.createdAt).toLocaleString()}
+              {comment.url && (
+                <>
+                  {' · '}
+                  <a
+                    href={comment.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-blue-600 hover:underline"
+                  >
+                    GitHub
+                  </a>
+                </>
+              )}
+            </p>
+            <p className="text-sm text-gray-900 whitespace-pre-wrap">{comment.body}</p>
+          </div>
+        ))}
+
+        {thread.resolved && thread.resolvedBy && (
+          <p className="text-xs text-gray-500">Resolved by {thread.resolvedBy}</p>
+        )}
+
+        <form
+          className="space-y-2"
+          onSubmit={(event) => {
+            event.preventDefault();
+            onReply(thread.id, reply.trim());
+            setReplies({ ...replies, [thread.id]: '' });
+          }}
+        >
+          <textarea
+            aria-label={`Reply to thread ${thread.id}`}
+            placeholder="Reply…"
+            value={reply}
+            onChange={(event) => setReplies({ ...replies, [thread.id]: event.target.value })}
+            rows={2}
+            className="block w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+          />
+          <div className="flex gap-2">
+            <Button type="submit" size="sm" variant="secondary" disabled={busy || !reply.trim()}>
+              Reply
+            </Button>
+            <Button
+              type="button"
+              size="sm"
+              variant="ghost"
+              onClick={() => onResolve(thread.id, !thread.resolved)}
+              disabled={busy}
+            >
+              {thread.resolved ? 'Reopen' : 'Resolve'}
+            </Button>
+          </div>
+        </form>
+      </div>
+    );
+  };
+
+  return (
+    <div className="h-full overflow-y-auto divide-y divide-gray-200" dir="ltr">
+      {!synced && (
+        <p className="p-3 text-xs text-orange-800 bg-orange-50">
+          GitHub could not be reached. Comments made on the pull request may be missing.
+        </p>
+      )}
+
+      {canComment && pendingAnchor && (
+        <form
+          className="p-3 space-y-2 bg-blue-50"
+          onSubmit={(event) => {
+            event.preventDefault();
+            onCreate(newComment.trim());
+            setNewComment('');
+          }}
+        >
+          <label className="block text-sm">
+            <span className="font-medium text-gray-900">
+              Comment on lines {pendingAnchor.startLine}–{pendingAnchor.endLine}
+            </span>
+            <textarea
+              value={newComment}
+              onChange={(event) => setNewComment(event.target.value)}
+              rows={3}
+              className="mt-1 block w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+            />
+          </label>
+          <div className="flex gap-2">
+            <Button type="submit" size="sm" loading={busy} disabled={busy || !newComment.trim()}>
+              Comment
+            </Button>
+            <Button type="button" size="sm" variant="ghost" onClick={onCancelCreate}>
+              Cancel
+            </Button>
+          </div>
+        </form>
+      )}
+
+      {threads.length === 0 && !pendingAnchor && (
+        <div className="p-4 text-sm text-gray-600">
+          No review comments.
+          {canComment && ' Put the cursor in a paragraph of the translation and click "Comment" to start one.'}
+        </div>
+      )}
+
+      {open.map(renderThread)}
+
+      {resolved.length > 0 && (
+        <div className="p-3">
+          <button
+            onClick={() => setShowResolved(!showResolved)}
+            className="text-xs text-gray-600 hover:text-gray-900"
+          >
+            {showResolved ? 'Hide' : 'Show'} {resolved.length} resolved
+          </button>
+        </div>
+      )}
+
+      {showResolved && resolved.map(renderThread)}
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+import type { AlignedSegment } from '@/lib/markdown';
+
+interface SegmentEditorProps {
+  segments: AlignedSegment[];
+  direction: 'ltr' | 'rtl';
+  onChange: (index: number, translation: string) => void;
+}
+
+const SEGMENT_TYPES: Record<string, string> = {
+  heading: 'Heading',
+  paragraph: 'Paragraph',
+  tableCell: 'Table cell',
+};
+
+// Tall enough for the longest of the three versions, assuming ~60 characters a line
+function getRows(segment: AlignedSegment): number {
+  return Math.max(
+    ...[segment.source, segment.translation, segment.machine || ''].map((text) =>
+      text.split('\n').reduce((rows, line) => rows + Math.max(1, Math.ceil(line.length / 60)), 0)
+    )
+  );
+}
+
+export function SegmentEditor({ segments, direction, onChange }: SegmentEditorProps) {
+  return (
+    <div className="h-full overflow-y-auto bg-white rounded-lg shadow-md">
+      <div className="sticky top-0 z-10 grid grid-cols-3 gap-4 px-4 py-2 bg-gray-100 border-b border-gray-200 text-sm font-semibold text-gray-900">
+        <span>English (Original)</span>
+        <span className="text-blue-900">Your Translation</span>
+        <span>Machine Translation</span>
+      </div>
+
+      <div className="divide-y divide-gray-200">
+        {segments.map((segment, index) => (
+          <div key={segment.start} className="grid grid-cols-3 gap-4 px-4 py-3">
+            <div>
+              <p className="text-xs text-gray-500 mb-1">
+                {index + 1}. {SEGMENT_TYPES[segment.type] || segment.type}
+              </p>
+              <p className="text-sm text-gray-900 whitespace-pre-wrap">{segment.source}</p>
+            </div>
+
+            <textarea
+              value={segment.translation}
+              onChange={(event) => onChange(index, event.target.value)}
+              rows={getRows(segment)}
+              dir={direction}
+              aria-label={`Translation of segment ${index + 1}`}
+              className="w-full text-sm border border-gray-300 rounded p-2 focus:outline-none focus:ring-2 focus:ring-blue-500 resize-y"
+            />
+
+            <div dir={direction}>
+              {segment.machine === null ? (
+                <p className="text-xs text-gray-500" dir="ltr">
+                  No machine translation for this segment
+                </p>
+              ) : (
+                <>
+                  <p className="text-sm text-gray-700 whitespace-pre-wrap">{segment.machine}</p>
+                  {segment.machine !== segment.translation && (
+                    <button
+                      onClick={() => onChange(index, segment.machine as string)}
+                      className="mt-1 text-xs bg-gray-200 hover:bg-gray-300 text-gray-800 px-2 py-1 rounded transition-colors"
+                    >
+                      Use
+                    </button>
+                  )}
+                </>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+import type { SourceDriftData, SourceSectionStatus } from '@/types';
+
+interface SourceDriftPanelProps {
+  drift: SourceDriftData;
+}
+
+const statusLabels: Record<SourceSectionStatus, string> = {
+  added: 'New section',
+  removed: 'Removed section',
+  changed: 'Changed',
+  unchanged: 'Unchanged',
+};
+
+const statusColors: Record<SourceSectionStatus, string> = {
+  added: 'bg-green-100 text-green-800',
+  removed: 'bg-red-100 text-red-800',
+  changed: 'bg-yellow-100 text-yellow-800',
+  unchanged: 'bg-gray-100 text-gray-600',
+};
+
+export function SourceDriftPanel({ drift }: SourceDriftPanelProps) {
+  const sections = drift.sections.filter((section) => section.status !== 'unchanged');
+
+  if (sections.length === 0) {
+    return (
+      <p className="text-sm text-gray-600">
+        The English text of this file has not changed since it was translated.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-gray-500">
+        Changes from <span className="font-mono">{drift.baseSha.slice(0, 7)}</span> to{' '}
+        <span className="font-mono">{drift.headSha.slice(0, 7)}</span>
+      </p>
+
+      {sections.map((section, index) => (
+        <div key={`${section.heading}:${index}`} className="border border-gray-200 rounded">
+          <div className="flex items-center gap-2 px-3 py-2 bg-gray-50 border-b border-gray-200">
+            <span className={`text-xs font-medium px-2 py-0.5 rounded ${statusColors[section.status]}`}>
+              {statusLabels[section.status]}
+            </span>
+            <span className="text-sm font-medium text-gray-900">
+              {section.heading || '(Introduction)'}
+            </span>
+          </div>
+
+          <div className="divide-y divide-gray-100">
+            {section.changes.map((change, changeIndex) => (
+              <pre
+                key={changeIndex}
+                className={`px-3 py-2 text-xs whitespace-pre-wrap font-mono ${
+                  change.type === 'added' ? 'bg-green-50 text-green-900' : 'bg-red-50 text-red-900'
+                }`}
+              >
+                {change.type === 'added' ? '+ ' : '- '}
+                {change.source}
+              </pre>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+import type { SegmentMemoryMatches } from '@/types';
+
+interface TranslationMemoryPanelProps {
+  matches: SegmentMemoryMatches[];
+  direction: 'ltr' | 'rtl';
+  onCopy: (target: string) => void;
+}
+
+export function TranslationMemoryPanel({
+  matches,
+  direction,
+  onCopy,
+}: TranslationMemoryPanelProps) {
+  if (matches.length === 0) {
+    return (
+      <div className="p-4 text-sm text-gray-600">
+        No translation memory matches for this file yet. Matches appear once
+        similar text has been completed in any project.
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full overflow-y-auto divide-y divide-gray-200" dir="ltr">
+      {matches.map(({ source, matches: segmentMatches }) => (
+        <div key={source} className="p-3 space-y-2">
+          <p className="text-xs text-gray-500 line-clamp-2">{source}</p>
+
+          {segmentMatches.map((match) => (
+            <div
+              key={`${match.project}:${match.filename}:${match.source}`}
+              className="border border-gray-200 rounded p-2"
+            >
+              <div className="flex items-center justify-between mb-1">
+                <span
+                  className={`text-xs font-medium px-2 py-0.5 rounded ${
+                    match.score === 100
+                      ? 'bg-green-100 text-green-800'
+                      : 'bg-yellow-100 text-yellow-800'
+                  }`}
+                >
+                  {match.score === 100 ? 'Exact' : `${match.score}%`}
+                </span>
+                <button
+                  onClick={() => onCopy(match.target)}
+                  className="text-xs bg-gray-200 hover:bg-gray-300 text-gray-800 px-2 py-1 rounded transition-colors"
+                >
+                  Copy
+                </button>
+              </div>
+              <p className="text-sm text-gray-900 whitespace-pre-wrap" dir={direction}>
+                {match.target}
+              </p>
+              {match.score < 100 && (
+                <p className="text-xs text-gray-500 mt-1 line-clamp-2">
+                  Memory source: {match.source}
+                </p>
+              )}
+              <p className="text-xs text-gray-500 mt-1">
+                {match.project} / {match.filename}
+                {match.contributor && ` · @${match.contributor}`}
+              </p>
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
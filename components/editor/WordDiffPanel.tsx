@@ -0,0 +1,100 @@
+'use client';
+
+import { useDeferredValue, useMemo, useState } from 'react';
+import { diffWords, getPostEditDistance, revertWordDiffParts } from '@/lib/word-diff';
+import type { WordDiffPart } from '@/lib/word-diff';
+
+interface WordDiffPanelProps {
+  base: string; // Version the working copy is compared with
+  baseLabel: string;
+  content: string; // Working copy
+  direction: 'ltr' | 'rtl';
+  onChange: (content: string) => void;
+}
+
+// Identifies a change across edits elsewhere in the text
+function getChangeKeys(parts: WordDiffPart[]): string[] {
+  const seen = new Map<string, number>();
+  return parts.map((part) => {
+    const key = `${part.before}\u0000${part.after}`;
+    const count = seen.get(key) || 0;
+    seen.set(key, count + 1);
+    return `${key}\u0000${count}`;
+  });
+}
+
+/**
+ * Word-level changes between the working copy and another version of the
+ * translation. Accepting a change keeps it and hides it; rejecting it puts
+ * the other version's words back into the working copy.
+ */
+export function WordDiffPanel({ base, baseLabel, content, direction, onChange }: WordDiffPanelProps) {
+  const [accepted, setAccepted] = useState<Set<string>>(new Set());
+  // Diffing long chapters on every keystroke would make typing lag
+  const deferredBase = useDeferredValue(base);
+  const deferredContent = useDeferredValue(content);
+
+  const parts = useMemo(() => diffWords(deferredBase, deferredContent), [deferredBase, deferredContent]);
+  const keys = useMemo(() => getChangeKeys(parts), [parts]);
+  const distance = useMemo(
+    () => getPostEditDistance(deferredBase, deferredContent),
+    [deferredBase, deferredContent]
+  );
+
+  const pending = parts.filter((part, index) => part.changed && !accepted.has(keys[index])).length;
+  // Changes are applied to the text they were computed from
+  const stale = deferredBase !== base || deferredContent !== content;
+  let changeNumber = 0;
+
+  if (!base.trim()) {
+    return <div className="p-4 text-sm text-gray-600">No {baseLabel.toLowerCase()} to compare with.</div>;
+  }
+
+  return (
+    <div className="h-full overflow-y-auto" dir="ltr">
+      <div className="sticky top-0 z-10 flex items-center justify-between gap-2 px-4 py-2 bg-white border-b border-gray-200 text-xs text-gray-600">
+        <span>
+          {pending === 0 ? 'No changes to review' : `${pending} ${pending === 1 ? 'change' : 'changes'} to review`}{' '}
+          from the {baseLabel.toLowerCase()}
+        </span>
+        <span title="Share of the working copy changed from this version">{Math.round(distance * 100)}% edited</span>
+      </div>
+
+      <div className="p-4 text-sm whitespace-pre-wrap" dir={direction}>
+        {parts.map((part, index) => {
+          if (!part.changed || accepted.has(keys[index])) {
+            return <span key={index}>{part.after}</span>;
+          }
+
+          changeNumber++;
+          return (
+            <span key={index} className="rounded bg-yellow-50 ring-1 ring-yellow-200">
+              {part.before && <del className="bg-red-100 text-red-900">{part.before}</del>}
+              {part.after && <ins className="bg-green-100 text-green-900 no-underline">{part.after}</ins>}
+              <span dir="ltr" className="inline-flex gap-1 mx-1 align-middle">
+                <button
+                  onClick={() => setAccepted(new Set(accepted).add(keys[index]))}
+                  className="text-xs bg-green-600 hover:bg-green-700 text-white px-1 rounded"
+                  disabled={stale}
+                  title="Accept this change"
+                  aria-label={`Accept change ${changeNumber}`}
+                >
+                  ✓
+                </button>
+                <button
+                  onClick={() => onChange(revertWordDiffParts(parts, [index]))}
+                  className="text-xs bg-red-600 hover:bg-red-700 text-white px-1 rounded"
+                  disabled={stale}
+                  title={`Reject this change and use the ${baseLabel.toLowerCase()}`}
+                  aria-label={`Reject change ${changeNumber}`}
+                >
+                  ✗
+                </button>
+              </span>
+            </span>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
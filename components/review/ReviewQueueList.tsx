@@ -0,0 +1,158 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { Button } from '@/components/ui/Button';
+import { ReviewStateBadge } from '@/components/review/ReviewStateBadge';
+import { encodeFilePath } from '@/lib/paths';
+import type { ReviewAction, ReviewQueueItem } from '@/types';
+
+interface ReviewQueueListProps {
+  items: ReviewQueueItem[];
+  editorPath: string; // Editor URL prefix, e.g. "/topten/translate/es-ES/edit"
+  currentUser: string;
+  busyFile?: string | null; // File whose action is being saved
+  onAction: (filename: string, action: ReviewAction, comment?: string) => void;
+}
+
+export function ReviewQueueList({
+  items,
+  editorPath,
+  currentUser,
+  busyFile = null,
+  onAction,
+}: ReviewQueueListProps) {
+  const [requestingChanges, setRequestingChanges] = useState<string | null>(null);
+  const [comment, setComment] = useState('');
+
+  if (items.length === 0) {
+    return <p className="px-6 py-8 text-center text-sm text-gray-600">Nothing to review</p>;
+  }
+
+  const openRequestChanges = (filename: string) => {
+    setRequestingChanges(requestingChanges === filename ? null : filename);
+    setComment('');
+  };
+
+  return (
+    <ul className="divide-y divide-gray-200">
+      {items.map((item) => {
+        const ownTranslation = item.lastContributor?.toLowerCase() === currentUser.toLowerCase();
+        const canReview = !ownTranslation && item.reviewState !== 'changes-requested';
+
+        return (
+          <li key={item.filename} className="px-6 py-4">
+            <div className="flex items-start justify-between gap-4">
+              <div className="flex-1">
+                <div className="flex items-center gap-3 mb-1">
+                  <h3 className="text-lg font-medium text-gray-900">{item.filename}</h3>
+                  <ReviewStateBadge state={item.reviewState} />
+                </div>
+                <p className="text-sm text-gray-600">
+                  {item.lastContributor && <>By {item.lastContributor}</>}
+                  {item.lastUpdated && <> · {new Date(item.lastUpdated).toLocaleDateString()}</>}
+                  {item.wordCount > 0 && <> · {item.wordCount.toLocaleString()} words</>}
+                  {item.reviewer && <> · Reviewed by {item.reviewer}</>}
+                  {item.prNumber && (
+                    <>
+                      {' · '}
+                      <a
+                        href={item.prUrl || '#'}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-blue-600 hover:underline"
+                      >
+                        PR #{item.prNumber}
+                      </a>
+                    </>
+                  )}
+                </p>
+                {item.lastComment && (
+                  <p className="mt-2 text-sm text-gray-700 whitespace-pre-wrap border-l-2 border-gray-300 pl-3">
+                    {item.lastComment}
+                  </p>
+                )}
+                {ownTranslation && (
+                  <p className="mt-2 text-xs text-gray-500">Your translation needs another reviewer</p>
+                )}
+              </div>
+
+              <div className="flex gap-2">
+                <Link href={`${editorPath}/${encodeFilePath(item.filename)}`}>
+                  <Button size="sm" variant="ghost">
+                    Open
+                  </Button>
+                </Link>
+                {canReview && item.reviewState === 'submitted' && (
+                  <Button
+                    size="sm"
+                    variant="secondary"
+                    onClick={() => onAction(item.filename, 'start-review')}
+                    disabled={busyFile !== null}
+                  >
+                    Start Review
+                  </Button>
+                )}
+                {canReview && item.reviewState !== 'approved' && (
+                  <Button
+                    size="sm"
+                    onClick={() => onAction(item.filename, 'approve')}
+                    loading={busyFile === item.filename && requestingChanges !== item.filename}
+                    disabled={busyFile !== null}
+                  >
+                    Approve
+                  </Button>
+                )}
+                {canReview && (
+                  <Button
+                    size="sm"
+                    variant="danger"
+                    onClick={() => openRequestChanges(item.filename)}
+                    disabled={busyFile !== null}
+                  >
+                    Request Changes
+                  </Button>
+                )}
+              </div>
+            </div>
+
+            {canReview && requestingChanges === item.filename && (
+              <form
+                className="mt-3 space-y-2"
+                onSubmit={(event) => {
+                  event.preventDefault();
+                  onAction(item.filename, 'request-changes', comment.trim());
+                }}
+              >
+                <label className="block text-sm">
+                  <span className="font-medium text-gray-900">Changes to make</span>
+                  <textarea
+                    value={comment}
+                    onChange={(event) => setComment(event.target.value)}
+                    rows={3}
+                    required
+                    className="mt-1 block w-full px-3 py-1.5 border border-gray-300 rounded-md text-sm"
+                  />
+                </label>
+                <div className="flex gap-2">
+                  <Button
+                    type="submit"
+                    size="sm"
+                    variant="danger"
+                    loading={busyFile === item.filename}
+                    disabled={!comment.trim()}
+                  >
+                    Send
+                  </Button>
+                  <Button type="button" size="sm" variant="ghost" onClick={() => setRequestingChanges(null)}>
+                    Cancel
+                  </Button>
+                </div>
+              </form>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -0,0 +1,31 @@
+import type { ReviewState } from '@/types';
+
+const labels: Record<ReviewState, string> = {
+  draft: 'Draft',
+  submitted: 'Awaiting review',
+  'in-review': 'In review',
+  'changes-requested': 'Changes requested',
+  approved: 'Approved',
+  merged: 'Merged',
+};
+
+const colors: Record<ReviewState, string> = {
+  draft: 'bg-gray-100 text-gray-700',
+  submitted: 'bg-blue-100 text-blue-800',
+  'in-review': 'bg-indigo-100 text-indigo-800',
+  'changes-requested': 'bg-red-100 text-red-800',
+  approved: 'bg-green-100 text-green-800',
+  merged: 'bg-purple-100 text-purple-800',
+};
+
+interface ReviewStateBadgeProps {
+  state: ReviewState;
+}
+
+export function ReviewStateBadge({ state }: ReviewStateBadgeProps) {
+  return (
+    <span className={`inline-flex items-center px-2 py-1 text-xs font-medium rounded ${colors[state]}`}>
+      {labels[state]}
+    </span>
+  );
+}
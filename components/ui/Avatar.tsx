@@ -0,0 +1,18 @@
+import Image from 'next/image';
+
+interface AvatarProps {
+  username: string;
+  size?: number; // Pixels
+}
+
+export function Avatar({ username, size = 20 }: AvatarProps) {
+  return (
+    <Image
+      src={`https://avatars.githubusercontent.com/${encodeURIComponent(username)}?size=${size * 2}`}
+      alt={`@${username}`}
+      width={size}
+      height={size}
+      className="rounded-full bg-gray-200"
+    />
+  );
+}
@@ -0,0 +1,16 @@
+/**
+ * Resume background jobs interrupted by a restart as soon as the server
+ * starts, and keep translation.json in line with pull requests
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { startInitWorker } = await import('./lib/init-jobs');
+    startInitWorker();
+
+    const { startReconciliationWorker } = await import('./lib/pull-request-reconciliation');
+    startReconciliationWorker();
+
+    const { startDriftWorker } = await import('./lib/drift-jobs');
+    startDriftWorker();
+  }
+}
@@ -5,6 +5,29 @@ const createJestConfig = nextJest({
   dir: './',
 });
 
+// ESM-only dependencies of the Markdown parser (unified/remark ecosystem)
+const ESM_PACKAGES = [
+  'unified',
+  'remark-.*',
+  'mdast-.*',
+  'micromark.*',
+  'unist-.*',
+  'vfile.*',
+  'bail',
+  'ccount',
+  'character-entities',
+  'decode-named-character-reference',
+  'devlop',
+  'escape-string-regexp',
+  'fault',
+  'format',
+  'is-plain-obj',
+  'longest-streak',
+  'markdown-table',
+  'trough',
+  'zwitch',
+];
+
 // Add any custom config to be passed to Jest
 const customJestConfig = {
   setupFilesAfterEnv: ['<rootDir>/jest.setup.js'],
@@ -26,11 +49,18 @@ const customJestConfig = {
     '**/?(*.)+(spec|test).[jt]s?(x)',
   ],
   testPathIgnorePatterns: ['/node_modules/', '/.next/'],
-  transformIgnorePatterns: [
-    '/node_modules/',
-    '^.+\\.module\\.(css|sass|scss)$',
-  ],
 };
 
 // createJestConfig is exported this way to ensure that next/jest can load the Next.js config which is async
-module.exports = createJestConfig(customJestConfig);
+module.exports = async () => {
+  const config = await createJestConfig(customJestConfig)();
+
+  // next/jest ignores all of node_modules and only allows appending patterns,
+  // so replace the list to let the ESM packages through
+  config.transformIgnorePatterns = [
+    `/node_modules/(?!(${ESM_PACKAGES.join('|')})/)`,
+    '^.+\\.module\\.(css|sass|scss)$',
+  ];
+
+  return config;
+};
@@ -0,0 +1,239 @@
+import type {
+  ProjectConfig,
+  ProjectAccess,
+  Role,
+  LanguageRole,
+} from '@/types';
+import { GitHubClient, createGitHubClient } from './github';
+import { parseGitHubRepo } from './config';
+
+/**
+ * Role-based access control. Roles, from most to least privileged:
+ *
+ * - hub admin: listed in ADMIN_USERS; manages every project and registers new ones
+ * - project admin: listed in the project's `access.admins`; manages its
+ *   languages and who has which role
+ * - coordinator: a language's `coordinator`; manages that language
+ * - reviewer: listed in a language's `reviewers`
+ * - translator: listed in a language's `translators`, or any signed-in user
+ *   when the language has no translator list
+ *
+ * Each role includes the ones below it. Roles can also come from GitHub:
+ * members of the teams in `access.githubTeams`, and with
+ * `access.repoPermissions`, repository admins and maintainers (project
+ * admins) and collaborators with write access (reviewers of every language).
+ */
+
+const ROLE_RANK: Record<Role, number> = {
+  translator: 1,
+  reviewer: 2,
+  coordinator: 3,
+  'project-admin': 4,
+  'hub-admin': 5,
+};
+
+const GITHUB_ROLES_TTL = 5 * 60 * 1000; // GitHub memberships are looked up at most every 5 minutes
+
+interface GitHubRoles {
+  projectAdmin: boolean;
+  languages: Record<string, LanguageRole>; // Language code, or '*' for every language
+}
+
+const githubRolesCache = new Map<string, { roles: GitHubRoles; expiresAt: number }>();
+
+function sameUser(a: string, b: string): boolean {
+  // GitHub usernames are case-insensitive
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+function includesUser(usernames: string[] | undefined, username: string): boolean {
+  return (usernames || []).some((candidate) => sameUser(candidate, username));
+}
+
+function highestRole<T extends Role>(roles: Array<T | null | undefined>): T | null {
+  return roles.reduce<T | null>(
+    (highest, role) => (role && (!highest || ROLE_RANK[role] > ROLE_RANK[highest]) ? role : highest),
+    null
+  );
+}
+
+// Hub admins (ADMIN_USERS) manage every project and register new ones
+export function isHubAdmin(username: string): boolean {
+  const adminUsers = process.env.ADMIN_USERS?.split(',').map(u => u.trim()) || [];
+  return includesUser(adminUsers.filter(Boolean), username);
+}
+
+export function requireHubAdmin(username: string): void {
+  if (!isHubAdmin(username)) {
+    throw new Error('Unauthorized: Hub admin access required');
+  }
+}
+
+/**
+ * A user's effective role in the project and in each of its languages
+ */
+export async function getProjectAccess(
+  project: ProjectConfig,
+  username: string,
+  githubClient: GitHubClient | null = getAdminClient()
+): Promise<ProjectAccess> {
+  const github = await getGitHubRoles(project, username, githubClient);
+
+  const projectRole = isHubAdmin(username)
+    ? 'hub-admin'
+    : includesUser(project.access?.admins, username) || github.projectAdmin
+      ? 'project-admin'
+      : null;
+
+  const languages: Record<string, Role> = {};
+
+  for (const [code, config] of Object.entries(project.languages)) {
+    const role =
+      projectRole ||
+      highestRole<LanguageRole>([
+        config.coordinator && sameUser(config.coordinator, username) ? 'coordinator' : null,
+        includesUser(config.reviewers, username) ? 'reviewer' : null,
+        !config.translators || includesUser(config.translators, username) ? 'translator' : null,
+        github.languages[code],
+        github.languages['*'],
+      ]);
+
+    if (role) {
+      languages[code] = role;
+    }
+  }
+
+  return { username, projectRole, languages };
+}
+
+/**
+ * Whether the user has at least `role` in the project, or in a language when given
+ */
+export function hasRole(access: ProjectAccess, role: Role, languageCode?: string): boolean {
+  const granted = languageCode ? access.languages[languageCode] : access.projectRole;
+  return Boolean(granted) && ROLE_RANK[granted as Role] >= ROLE_RANK[role];
+}
+
+/**
+ * Languages in which the user has at least `role`
+ */
+export function getLanguagesWithRole(access: ProjectAccess, role: Role): string[] {
+  return Object.keys(access.languages).filter((code) => hasRole(access, role, code));
+}
+
+/**
+ * Throw unless the user has at least `role` in the project, or in a language when given
+ */
+export async function requireRole(
+  project: ProjectConfig,
+  username: string,
+  role: Role,
+  languageCode?: string
+): Promise<ProjectAccess> {
+  const access = await getProjectAccess(project, username);
+
+  if (!hasRole(access, role, languageCode)) {
+    throw new Error(`Unauthorized: ${getRoleLabel(role)} access required`);
+  }
+
+  return access;
+}
+
+export function getRoleLabel(role: Role): string {
+  const labels: Record<Role, string> = {
+    'hub-admin': 'Hub admin',
+    'project-admin': 'Project admin',
+    coordinator: 'Coordinator',
+    reviewer: 'Reviewer',
+    translator: 'Translator',
+  };
+  return labels[role];
+}
+
+/**
+ * Forget roles looked up on GitHub, e.g. after a project's access settings change
+ */
+export function clearAccessCache(): void {
+  githubRolesCache.clear();
+}
+
+function getAdminClient(): GitHubClient | null {
+  const adminToken = process.env.GITHUB_ADMIN_TOKEN;
+  return adminToken ? createGitHubClient(adminToken) : null;
+}
+
+/**
+ * Roles granted through GitHub team membership and repository permissions.
+ * Lookups that fail grant nothing.
+ */
+async function getGitHubRoles(
+  project: ProjectConfig,
+  username: string,
+  githubClient: GitHubClient | null
+): Promise<GitHubRoles> {
+  const roles: GitHubRoles = { projectAdmin: false, languages: {} };
+  const teams = project.access?.githubTeams || [];
+
+  if (!githubClient || (teams.length === 0 && !project.access?.repoPermissions)) {
+    return roles;
+  }
+
+  const cacheKey = `${project.slug}:${username.toLowerCase()}`;
+  const cached = githubRolesCache.get(cacheKey);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.roles;
+  }
+
+  let complete = true;
+
+  const grant = (role: 'project-admin' | LanguageRole, language = '*') => {
+    if (role === 'project-admin') {
+      roles.projectAdmin = true;
+    } else {
+      roles.languages[language] = highestRole([roles.languages[language], role]) as LanguageRole;
+    }
+  };
+
+  if (project.access?.repoPermissions) {
+    const { owner, repo } = parseGitHubRepo(project.githubRepo);
+    try {
+      const { data } = await githubClient.getCollaboratorPermission(owner, repo, username);
+      const roleName = (data as { role_name?: string }).role_name;
+
+      if (data.permission === 'admin' || roleName === 'maintain') {
+        grant('project-admin');
+      } else if (data.permission === 'write') {
+        grant('reviewer');
+      }
+    } catch (error: unknown) {
+      // 404: not a collaborator
+      if ((error as { status?: number }).status !== 404) {
+        complete = false;
+        console.warn(`Failed to look up ${username}'s permission on ${project.githubRepo}:`, error);
+      }
+    }
+  }
+
+  for (const { team, role, language } of teams) {
+    const [org, teamSlug] = team.split('/');
+    try {
+      const { data } = await githubClient.getTeamMembership(org, teamSlug, username);
+      if (data.state === 'active') {
+        grant(role, language);
+      }
+    } catch (error: unknown) {
+      // 404: not a member
+      if ((error as { status?: number }).status !== 404) {
+        complete = false;
+        console.warn(`Failed to look up ${username}'s membership of ${team}:`, error);
+      }
+    }
+  }
+
+  // Retry failed lookups on the next request
+  if (complete) {
+    githubRolesCache.set(cacheKey, { roles, expiresAt: Date.now() + GITHUB_ROLES_TTL });
+  }
+
+  return roles;
+}
@@ -0,0 +1,328 @@
+import type {
+  ProjectConfig,
+  SubmittedFile,
+  BatchSubmitResponse,
+  GlossaryTerm,
+  QualityReport,
+} from '@/types';
+import { GitHubClient } from './github';
+import {
+  parseGitHubRepo,
+  getTranslationBranchName,
+  getTranslationFilePath,
+  getMachineTranslationFilePath,
+  getSourceFilePath,
+  getFileBranchName,
+  getPullRequestMode,
+  matchesFilePattern,
+} from './config';
+import {
+  loadTranslationMetadata,
+  markFilesComplete,
+  countWords,
+  ReviewStateError,
+} from './translation-metadata';
+import {
+  getFileContentAsText,
+  saveFileToFork,
+  loadGlossary,
+} from './file-processing';
+import { getExistingPR, createPullRequest, ensureFileBranch } from './fork-management';
+import { assertNotClaimedByOther } from './file-claims';
+import { getPostEditDistance } from './word-diff';
+import {
+  runQualityChecks,
+  formatBlockingIssues,
+  formatQualityReport,
+  QualityCheckError,
+} from './quality-checks';
+
+/**
+ * Submitting several files from the dashboard at once. The drafts saved in
+ * the translator's fork go into one pull request (one per file in per-file
+ * mode) whose description lists each file with its word count, its post-edit
+ * distance from the machine translation and the quality check results, and
+ * translation.json is updated for all of them in one commit.
+ */
+
+interface DraftFile {
+  filename: string;
+  content: string;
+  wordCount: number;
+  postEditDistance: number | null;
+  quality: QualityReport;
+}
+
+function formatPercent(ratio: number | null): string {
+  return ratio === null ? '—' : `${Math.round(ratio * 100)}%`;
+}
+
+/**
+ * Pull request description listing the submitted files
+ */
+export function formatSubmissionBody(
+  languageName: string,
+  username: string,
+  files: Array<
+    Pick<SubmittedFile, 'filename' | 'wordCount' | 'postEditDistance'> & { quality?: QualityReport }
+  >,
+  message?: string
+): string {
+  const rows = files.map(
+    (file) =>
+      `| ${file.filename} | ${file.wordCount.toLocaleString('en-US')} | ` +
+      `${formatPercent(file.postEditDistance)} |`
+  );
+
+  // Word-weighted over the files that had a machine translation
+  const withMachine = files.filter((file) => file.postEditDistance !== null);
+  const machineWords = withMachine.reduce((sum, file) => sum + file.wordCount, 0);
+  const totalDistance =
+    machineWords > 0
+      ? withMachine.reduce((sum, file) => sum + file.wordCount * (file.postEditDistance as number), 0) /
+        machineWords
+      : null;
+  const totalWords = files.reduce((sum, file) => sum + file.wordCount, 0);
+  const quality = files.flatMap(({ filename, quality: report }) =>
+    report ? [{ filename, report }] : []
+  );
+
+  if (files.length > 1) {
+    rows.push(
+      `| **Total** | ${totalWords.toLocaleString('en-US')} | ${formatPercent(totalDistance)} |`
+    );
+  }
+
+  return `## Summary
+- Translated ${files.length === 1 ? files[0].filename : `${files.length} files`} to ${languageName}
+- Updated by: @${username}
+
+| File | Words | Edited from machine translation |
+|------|------:|------:|
+${rows.join('\n')}
+${quality.length > 0 ? `\n${formatQualityReport(quality)}` : ''}${message ? `\n## Notes\n${message}\n` : ''}
+🤖 Generated with [OWASP Translation Hub](https://github.com/OWASP/translation-hub)`;
+}
+
+/**
+ * Submit saved drafts for review. Only files in progress (drafts and files
+ * with changes requested) that nobody else has claimed and that pass the
+ * project's blocking quality checks can be submitted. Without an admin
+ * client the pull requests are still opened but translation.json is left
+ * as is.
+ */
+export async function submitFiles(
+  userClient: GitHubClient,
+  adminClient: GitHubClient | null,
+  project: ProjectConfig,
+  languageCode: string,
+  filenames: string[],
+  username: string,
+  message?: string
+): Promise<BatchSubmitResponse> {
+  const { owner, repo } = parseGitHubRepo(project.githubRepo);
+  const branchName = getTranslationBranchName(languageCode);
+  const languageName = project.languages[languageCode]?.name || languageCode;
+
+  const metadata = await loadTranslationMetadata(
+    userClient,
+    owner,
+    repo,
+    project,
+    languageCode,
+    branchName
+  );
+
+  if (!metadata) {
+    throw new Error('Translation metadata not found');
+  }
+
+  // Check every file before anything is written
+  const drafts: DraftFile[] = [];
+  let glossary: GlossaryTerm[] | null = null;
+  for (const filename of filenames) {
+    const file = metadata.files[filename];
+    if (!file || !matchesFilePattern(project, filename)) {
+      throw new Error(`File not found in translation metadata: ${filename}`);
+    }
+    if (file.status !== 'in-progress') {
+      throw new ReviewStateError(`${filename} is not in progress`);
+    }
+    await assertNotClaimedByOther(project, languageCode, filename, username);
+
+    const content = await getFileContentAsText(
+      userClient,
+      username,
+      repo,
+      getTranslationFilePath(project, languageCode, filename),
+      branchName
+    ).catch(() => '');
+
+    if (!content.trim()) {
+      throw new ReviewStateError(`${filename} has no saved draft`);
+    }
+
+    const machineTranslation = await getFileContentAsText(
+      userClient,
+      owner,
+      repo,
+      getMachineTranslationFilePath(project, languageCode, filename),
+      branchName
+    ).catch(() => '');
+
+    glossary ??= await loadGlossary(userClient, owner, repo, project, languageCode, branchName);
+    const source = await getFileContentAsText(
+      userClient,
+      owner,
+      repo,
+      getSourceFilePath(project, filename),
+      project.sourceBranch
+    );
+
+    drafts.push({
+      filename,
+      content,
+      wordCount: countWords(content),
+      postEditDistance: machineTranslation ? getPostEditDistance(machineTranslation, content) : null,
+      quality: runQualityChecks(source, content, glossary, project.qualityChecks),
+    });
+  }
+
+  const failed = drafts.filter((draft) => draft.quality.blocking > 0);
+  if (failed.length > 0) {
+    throw new QualityCheckError(
+      failed.map((draft) => formatBlockingIssues(draft.filename, draft.quality)).join('\n')
+    );
+  }
+
+  const pullRequests: BatchSubmitResponse['pullRequests'] = [];
+  const files: SubmittedFile[] = [];
+  const submissions: Array<{
+    filename: string;
+    commitSha: string;
+    prNumber: number;
+    prUrl: string;
+    postEditDistance: number | null;
+  }> = [];
+
+  if (getPullRequestMode(project) === 'per-file') {
+    for (const draft of drafts) {
+      const fileBranch = getFileBranchName(languageCode, draft.filename);
+      const existing = await getExistingPR(
+        userClient,
+        owner,
+        repo,
+        username,
+        fileBranch,
+        branchName
+      );
+
+      await ensureFileBranch(
+        userClient,
+        username,
+        owner,
+        repo,
+        languageCode,
+        fileBranch,
+        Boolean(existing)
+      );
+
+      const { sha } = await saveFileToFork(
+        userClient,
+        username,
+        repo,
+        getTranslationFilePath(project, languageCode, draft.filename),
+        draft.content,
+        `[${languageCode}] Complete translation for ${draft.filename}`,
+        fileBranch
+      );
+
+      const pr =
+        existing ||
+        (await createPullRequest(
+          userClient,
+          username,
+          owner,
+          repo,
+          fileBranch,
+          `[${languageCode}] ${languageName} translation for ${draft.filename}`,
+          formatSubmissionBody(languageName, username, [draft], message),
+          branchName
+        ));
+
+      pullRequests.push({ number: pr.number, url: pr.url, existing: Boolean(existing) });
+      submissions.push({
+        filename: draft.filename,
+        commitSha: sha,
+        prNumber: pr.number,
+        prUrl: pr.url,
+        postEditDistance: draft.postEditDistance,
+      });
+    }
+  } else {
+    // The drafts are already on the fork's translation branch
+    const head = await userClient.getBranch(username, repo, branchName);
+    const existing = await getExistingPR(userClient, owner, repo, username, branchName);
+
+    const pr =
+      existing ||
+      (await createPullRequest(
+        userClient,
+        username,
+        owner,
+        repo,
+        branchName,
+        drafts.length === 1
+          ? `[${languageCode}] ${languageName} translation for ${drafts[0].filename}`
+          : `[${languageCode}] ${languageName} translation of ${drafts.length} files`,
+        formatSubmissionBody(languageName, username, drafts, message)
+      ));
+
+    pullRequests.push({ number: pr.number, url: pr.url, existing: Boolean(existing) });
+    for (const draft of drafts) {
+      submissions.push({
+        filename: draft.filename,
+        commitSha: head.data.commit.sha,
+        prNumber: pr.number,
+        prUrl: pr.url,
+        postEditDistance: draft.postEditDistance,
+      });
+    }
+  }
+
+  for (const [index, draft] of drafts.entries()) {
+    files.push({
+      filename: draft.filename,
+      wordCount: draft.wordCount,
+      postEditDistance: draft.postEditDistance,
+      quality: draft.quality,
+      prNumber: submissions[index].prNumber,
+      prUrl: submissions[index].prUrl,
+    });
+  }
+
+  if (adminClient) {
+    try {
+      // The translator worked against the current English source
+      const sourceHead = await adminClient.getBranch(owner, repo, project.sourceBranch);
+
+      await markFilesComplete(
+        adminClient,
+        owner,
+        repo,
+        project,
+        languageCode,
+        submissions,
+        username,
+        branchName,
+        sourceHead.data.commit.sha
+      );
+    } catch (error) {
+      console.error('Failed to update metadata:', error);
+    }
+  } else {
+    console.warn('Admin token not configured, skipping metadata update');
+  }
+
+  return { pullRequests, files };
+}
@@ -1,8 +1,36 @@
 import fs from 'fs';
 import path from 'path';
-import type { ProjectConfig, LanguageConfig } from '@/types';
+import { minimatch } from 'minimatch';
+import type {
+  ProjectConfig,
+  LanguageConfig,
+  ProjectAccessConfig,
+  PullRequestMode,
+} from '@/types';
+import { MACHINE_TRANSLATION_PROVIDERS } from './translation-providers/types';
+import { QUALITY_CHECK_IDS, QUALITY_CHECK_SEVERITIES } from './quality-checks';
+import { getDataDir } from './data-store';
 
-const CONFIG_DIR = path.join(process.cwd(), 'config', 'projects');
+/**
+ * Project configurations are JSON files in HIVEWRITE_CONFIG_DIR, defaulting
+ * to `config/projects/` in the working directory
+ */
+export function getConfigDir(): string {
+  return process.env.HIVEWRITE_CONFIG_DIR || path.join(process.cwd(), 'config', 'projects');
+}
+
+/**
+ * Projects registered at runtime (through the onboarding wizard) are stored
+ * under HIVEWRITE_DATA_DIR, so adding one does not require a redeploy
+ */
+export function getRegisteredConfigDir(): string {
+  return path.join(getDataDir(), 'projects');
+}
+
+// Slugs that would be shadowed by app routes (e.g. `/admin/projects/new`)
+const RESERVED_SLUGS = ['admin', 'api', 'auth', 'webhooks'];
+
+const PULL_REQUEST_MODES: PullRequestMode[] = ['bundled', 'per-file'];
 
 export class ConfigError extends Error {
   constructor(message: string) {
@@ -11,28 +39,56 @@ export class ConfigError extends Error {
   }
 }
 
-/**
- * Get all available project slugs
- */
-export function getProjectSlugs(): string[] {
+function listConfigSlugs(dir: string): string[] {
   try {
-    const files = fs.readdirSync(CONFIG_DIR);
-    return files
+    return fs
+      .readdirSync(dir)
       .filter((file) => file.endsWith('.json'))
       .map((file) => file.replace('.json', ''));
-  } catch (error) {
-    console.error('Error reading project configs:', error);
+  } catch (error: unknown) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error('Error reading project configs:', error);
+    }
     return [];
   }
 }
 
+/**
+ * Get all available project slugs, bundled projects first
+ */
+export function getProjectSlugs(): string[] {
+  const bundled = listConfigSlugs(getConfigDir());
+  const registered = listConfigSlugs(getRegisteredConfigDir()).filter(
+    (slug) => !bundled.includes(slug)
+  );
+  return [...bundled, ...registered];
+}
+
+/**
+ * Config file of a project, bundled or registered; null if there is none
+ */
+function findProjectConfigPath(slug: string): string | null {
+  // Slugs come from URLs; never let one point outside the config folders
+  if (!/^[a-z0-9-]+$/.test(slug)) {
+    return null;
+  }
+
+  for (const dir of [getConfigDir(), getRegisteredConfigDir()]) {
+    const configPath = path.join(dir, `${slug}.json`);
+    if (fs.existsSync(configPath)) {
+      return configPath;
+    }
+  }
+  return null;
+}
+
 /**
  * Load a project configuration by slug
  */
 export function getProjectConfig(slug: string): ProjectConfig {
-  const configPath = path.join(CONFIG_DIR, `${slug}.json`);
+  const configPath = findProjectConfigPath(slug);
 
-  if (!fs.existsSync(configPath)) {
+  if (!configPath) {
     throw new ConfigError(`Project configuration not found: ${slug}`);
   }
 
@@ -52,6 +108,72 @@ export function getProjectConfig(slug: string): ProjectConfig {
   }
 }
 
+/**
+ * Write a project configuration back to its JSON file (write to a temp file,
+ * then rename, so readers never see a partial file). Projects without a
+ * config file yet are saved to the registered projects folder.
+ */
+export function saveProjectConfig(config: ProjectConfig): void {
+  validateProjectConfig(config);
+
+  let configPath = findProjectConfigPath(config.slug);
+  if (!configPath) {
+    fs.mkdirSync(getRegisteredConfigDir(), { recursive: true });
+    configPath = path.join(getRegisteredConfigDir(), `${config.slug}.json`);
+  }
+  const tmpPath = `${configPath}.${process.pid}.${Date.now()}.tmp`;
+
+  fs.writeFileSync(tmpPath, `${JSON.stringify(config, null, 2)}\n`, 'utf-8');
+  fs.renameSync(tmpPath, configPath);
+}
+
+/**
+ * Register a new project in the runtime config store
+ */
+export function registerProject(config: ProjectConfig): void {
+  if (RESERVED_SLUGS.includes(config.slug)) {
+    throw new ConfigError(`Project slug is reserved: ${config.slug}`);
+  }
+  if (findProjectConfigPath(config.slug)) {
+    throw new ConfigError(`Project already exists: ${config.slug}`);
+  }
+
+  saveProjectConfig(config);
+}
+
+/**
+ * Add or change a language in a project's configuration file. `update`
+ * receives the current language (undefined for a new one).
+ */
+export function updateLanguageConfig(
+  projectSlug: string,
+  languageCode: string,
+  update: (current: LanguageConfig | undefined) => LanguageConfig
+): LanguageConfig {
+  const project = getProjectConfig(projectSlug);
+  const language = update(project.languages[languageCode]);
+
+  project.languages[languageCode] = language;
+  saveProjectConfig(project);
+
+  return language;
+}
+
+/**
+ * Replace who administers a project and which GitHub teams grant roles
+ */
+export function updateProjectAccess(
+  projectSlug: string,
+  access: ProjectAccessConfig
+): ProjectAccessConfig {
+  const project = getProjectConfig(projectSlug);
+
+  project.access = access;
+  saveProjectConfig(project);
+
+  return access;
+}
+
 /**
  * Get all project configurations
  */
@@ -72,7 +194,6 @@ function validateProjectConfig(config: any): asserts config is ProjectConfig {
     'sourceFolder',
     'translationFolder',
     'tmpFolder',
-    'filePattern',
   ];
 
   for (const field of requiredFields) {
@@ -81,6 +202,25 @@ function validateProjectConfig(config: any): asserts config is ProjectConfig {
     }
   }
 
+  if (!/^[a-z0-9-]+$/.test(config.slug)) {
+    throw new ConfigError(`Invalid project slug: ${config.slug}`);
+  }
+
+  if (!config.filePattern && !config.include) {
+    throw new ConfigError('Project config must have a filePattern or include patterns');
+  }
+
+  for (const field of ['include', 'exclude']) {
+    const patterns = config[field];
+    if (
+      patterns !== undefined &&
+      (!Array.isArray(patterns) ||
+        patterns.some((pattern: unknown) => typeof pattern !== 'string' || !pattern))
+    ) {
+      throw new ConfigError(`Project config ${field} must be an array of glob patterns`);
+    }
+  }
+
   if (!config.languages || typeof config.languages !== 'object') {
     throw new ConfigError('Project config must have a languages object');
   }
@@ -92,6 +232,50 @@ function validateProjectConfig(config: any): asserts config is ProjectConfig {
       `Invalid GitHub repo format: ${config.githubRepo}. Expected format: owner/repo`
     );
   }
+
+  if (config.pullRequests !== undefined && !PULL_REQUEST_MODES.includes(config.pullRequests)) {
+    throw new ConfigError(
+      `Invalid pull request mode: ${config.pullRequests}. ` +
+        `Expected one of: ${PULL_REQUEST_MODES.join(', ')}`
+    );
+  }
+
+  if (config.qualityChecks !== undefined) {
+    if (!config.qualityChecks || typeof config.qualityChecks !== 'object') {
+      throw new ConfigError('Project config qualityChecks must be an object');
+    }
+
+    for (const [check, severity] of Object.entries(config.qualityChecks)) {
+      if (!QUALITY_CHECK_IDS.some((id) => id === check)) {
+        throw new ConfigError(
+          `Invalid quality check: ${check}. Expected one of: ${QUALITY_CHECK_IDS.join(', ')}`
+        );
+      }
+      if (!QUALITY_CHECK_SEVERITIES.some((value) => value === severity)) {
+        throw new ConfigError(
+          `Invalid severity for quality check ${check}: ${severity}. ` +
+            `Expected one of: ${QUALITY_CHECK_SEVERITIES.join(', ')}`
+        );
+      }
+    }
+  }
+
+  // Validate machine translation providers (optional, defaults to DeepL)
+  if (config.machineTranslation) {
+    const providerConfigs: Array<{ provider?: string }> = [
+      config.machineTranslation,
+      ...Object.values(config.machineTranslation.languageOverrides || {}),
+    ];
+
+    for (const providerConfig of providerConfigs) {
+      if (!MACHINE_TRANSLATION_PROVIDERS.some((id) => id === providerConfig?.provider)) {
+        throw new ConfigError(
+          `Invalid machine translation provider: ${providerConfig?.provider}. ` +
+            `Expected one of: ${MACHINE_TRANSLATION_PROVIDERS.join(', ')}`
+        );
+      }
+    }
+  }
 }
 
 /**
@@ -143,6 +327,32 @@ export function getTranslationBranchName(languageCode: string): string {
   return `translations/${languageCode}`;
 }
 
+/**
+ * Fork branch a file is submitted from in per-file pull request mode. Git
+ * cannot have `translations/es-ES/A01.md` next to the `translations/es-ES`
+ * branch (a ref cannot also be a directory of refs), hence the separate prefix.
+ */
+export function getFileBranchName(languageCode: string, filename: string): string {
+  // Replace what git does not allow in ref names: most punctuation, `..`,
+  // and components that start with a dot or end with `.lock`
+  const ref = filename
+    .split('/')
+    .map((part) =>
+      part
+        .replace(/[^\w.-]+/g, '-')
+        .replace(/\.{2,}/g, '.')
+        .replace(/^\./, '_')
+        .replace(/\.lock$/, '-lock')
+    )
+    .join('/');
+
+  return `translation-files/${languageCode}/${ref}`;
+}
+
+export function getPullRequestMode(project: ProjectConfig): PullRequestMode {
+  return project.pullRequests || 'bundled';
+}
+
 /**
  * Parse GitHub repo into owner and repo name
  */
@@ -158,7 +368,16 @@ export function parseGitHubRepo(githubRepo: string): {
 }
 
 /**
- * Get file path in the repository
+ * Repository path without leading or trailing slashes, as returned by the
+ * git trees and compare APIs
+ */
+export function toRepoPath(filepath: string): string {
+  return filepath.replace(/^\/+|\/+$/g, '');
+}
+
+/**
+ * Get file path in the repository. Filenames are paths relative to the
+ * source folder and may contain subfolders.
  */
 export function getSourceFilePath(project: ProjectConfig, filename: string): string {
   return `${project.sourceFolder}/${filename}`.replace('//', '/');
@@ -204,12 +423,42 @@ export function getTranslationMetadataPath(
 }
 
 /**
- * Check if a file matches the project's file pattern
+ * Get glossary.json file path
+ */
+export function getGlossaryPath(
+  project: ProjectConfig,
+  languageCode: string
+): string {
+  return `${project.translationFolder}/${languageCode}/glossary.json`.replace(
+    '//',
+    '/'
+  );
+}
+
+/**
+ * Glob patterns selecting a project's source files. Without `include`,
+ * `filePattern` selects files in the source folder and its subfolders.
+ */
+export function getFilePatterns(project: ProjectConfig): {
+  include: string[];
+  exclude: string[];
+} {
+  return {
+    include: project.include ?? (project.filePattern ? [project.filePattern] : []),
+    exclude: project.exclude ?? [],
+  };
+}
+
+/**
+ * Check if a file (path relative to the source folder) is selected by the
+ * project's include and exclude globs. Patterns without a slash match the
+ * file name in any folder, so `README.md` excludes every README.
  */
 export function matchesFilePattern(project: ProjectConfig, filename: string): boolean {
-  const pattern = project.filePattern.replace('*', '.*');
-  const regex = new RegExp(`^${pattern}$`);
-  return regex.test(filename);
+  const { include, exclude } = getFilePatterns(project);
+  const matches = (pattern: string) => minimatch(filename, pattern, { matchBase: true });
+
+  return include.some(matches) && !exclude.some(matches);
 }
 
 /**
@@ -241,13 +490,3 @@ export function getActiveLanguages(project: ProjectConfig): Array<{
     .filter(([, config]) => config.status === 'active')
     .map(([code, config]) => ({ code, config }));
 }
-
-/**
- * Check if user has admin access (simple check for MVP)
- * In production, this would check against a database or config
- */
-export function isProjectAdmin(username: string, projectSlug: string): boolean {
-  // For MVP, check if username matches environment variable
-  const adminUsers = process.env.ADMIN_USERS?.split(',') || [];
-  return adminUsers.includes(username);
-}
@@ -0,0 +1,83 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+/**
+ * Runtime data that does not belong in the translation repositories
+ * (translation memory, job state, caches) is kept as JSON files under
+ * HIVEWRITE_DATA_DIR, defaulting to `data/` in the working directory.
+ */
+export function getDataDir(): string {
+  return process.env.HIVEWRITE_DATA_DIR || path.join(process.cwd(), 'data');
+}
+
+function resolveStorePath(name: string): string {
+  const dataDir = getDataDir();
+  const storePath = path.resolve(dataDir, `${name}.json`);
+
+  // Store names are built from validated slugs and language codes, but never
+  // let one escape the data directory
+  if (!storePath.startsWith(path.resolve(dataDir) + path.sep)) {
+    throw new Error(`Invalid data store name: ${name}`);
+  }
+
+  return storePath;
+}
+
+/**
+ * Read a JSON store, returning the fallback if it does not exist yet
+ */
+export async function readJsonStore<T>(name: string, fallback: T): Promise<T> {
+  try {
+    const content = await fs.readFile(resolveStorePath(name), 'utf-8');
+    return JSON.parse(content) as T;
+  } catch (error: unknown) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return fallback;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Write a JSON store atomically (write to a temp file, then rename)
+ */
+export async function writeJsonStore<T>(name: string, data: T): Promise<void> {
+  const storePath = resolveStorePath(name);
+  const tmpPath = `${storePath}.${process.pid}.${Date.now()}.tmp`;
+
+  await fs.mkdir(path.dirname(storePath), { recursive: true });
+  await fs.writeFile(tmpPath, JSON.stringify(data, null, 2), 'utf-8');
+  await fs.rename(tmpPath, storePath);
+}
+
+// Serialize read-modify-write cycles per store within this process
+const storeQueues = new Map<string, Promise<unknown>>();
+
+/**
+ * Read, modify and write a JSON store without losing concurrent updates
+ */
+export async function updateJsonStore<T>(
+  name: string,
+  fallback: T,
+  update: (current: T) => T | Promise<T>
+): Promise<T> {
+  const previous = storeQueues.get(name) || Promise.resolve();
+
+  const next = previous
+    .catch(() => undefined)
+    .then(async () => {
+      const updated = await update(await readJsonStore(name, fallback));
+      await writeJsonStore(name, updated);
+      return updated;
+    });
+
+  storeQueues.set(name, next);
+
+  try {
+    return await next;
+  } finally {
+    if (storeQueues.get(name) === next) {
+      storeQueues.delete(name);
+    }
+  }
+}
@@ -0,0 +1,236 @@
+import { createHash } from 'crypto';
+import type {
+  ProjectConfig,
+  DraftRevision,
+  DraftRevisionSource,
+  DraftRevisionSummary,
+  DraftHistoryData,
+  DraftRevisionDiff,
+  DraftLineChange,
+} from '@/types';
+import { readJsonStore, updateJsonStore } from './data-store';
+import { countWords } from './translation-metadata';
+import { diffSequences } from './word-diff';
+
+/**
+ * Drafts kept on the hub, so work in progress survives switching machines
+ * and is not lost when the browser's copy expires. Every autosave that
+ * changes a file adds a revision; revisions can be compared with each other
+ * and restored, which adds the old content as a new revision on top.
+ */
+
+interface DraftStore {
+  version: string;
+  revisions: DraftRevision[]; // Oldest first
+}
+
+const REVISION_LIMIT = 100;
+
+// One store per draft, so an autosave only rewrites the revisions of its own file
+function getStoreName(
+  project: ProjectConfig,
+  languageCode: string,
+  username: string,
+  filename: string
+): string {
+  return `drafts/${project.slug}/${languageCode}/${username.toLowerCase()}/${encodeURIComponent(filename)}`;
+}
+
+function createEmptyStore(): DraftStore {
+  return { version: '1.0', revisions: [] };
+}
+
+function toSummary({ id, hash, source, wordCount, createdAt, restoredFrom }: DraftRevision): DraftRevisionSummary {
+  return { id, hash, source, wordCount, createdAt, ...(restoredFrom ? { restoredFrom } : {}) };
+}
+
+/**
+ * SHA-256 of a draft, hex encoded. The editor hashes its browser copy the
+ * same way to tell whether it matches the hub's.
+ */
+export function hashDraftContent(content: string): string {
+  return createHash('sha256').update(content, 'utf-8').digest('hex');
+}
+
+async function loadRevisions(
+  project: ProjectConfig,
+  languageCode: string,
+  username: string,
+  filename: string
+): Promise<DraftRevision[]> {
+  const store = await readJsonStore(
+    getStoreName(project, languageCode, username, filename),
+    createEmptyStore()
+  );
+  return store.revisions;
+}
+
+async function addRevision(
+  project: ProjectConfig,
+  languageCode: string,
+  username: string,
+  filename: string,
+  content: string,
+  source: DraftRevisionSource,
+  restoredFrom?: number
+): Promise<{ revision: DraftRevision; created: boolean }> {
+  const hash = hashDraftContent(content);
+  const outcome = { created: false };
+
+  const updated = await updateJsonStore(
+    getStoreName(project, languageCode, username, filename),
+    createEmptyStore(),
+    (store) => {
+      const revisions = store.revisions;
+      const latest = revisions[revisions.length - 1];
+
+      // Nothing changed since the last revision
+      if (latest?.hash === hash) {
+        return store;
+      }
+
+      const revision: DraftRevision = {
+        id: (latest?.id || 0) + 1,
+        hash,
+        source,
+        wordCount: countWords(content),
+        createdAt: new Date().toISOString(),
+        ...(restoredFrom ? { restoredFrom } : {}),
+        content,
+      };
+      outcome.created = true;
+
+      return { ...store, revisions: [...revisions, revision].slice(-REVISION_LIMIT) };
+    }
+  );
+
+  const revisions = updated.revisions;
+  return { revision: revisions[revisions.length - 1], created: outcome.created };
+}
+
+/**
+ * Keep the current content of a draft. Returns the latest revision, and
+ * whether a new one was added (nothing is added if the content is unchanged).
+ */
+export async function saveDraftRevision(
+  project: ProjectConfig,
+  languageCode: string,
+  username: string,
+  filename: string,
+  content: string,
+  source: DraftRevisionSource = 'autosave'
+): Promise<{ revision: DraftRevisionSummary; created: boolean }> {
+  const { revision, created } = await addRevision(
+    project,
+    languageCode,
+    username,
+    filename,
+    content,
+    source
+  );
+
+  return { revision: toSummary(revision), created };
+}
+
+/**
+ * Revisions of a draft, newest first, with the content of the latest
+ */
+export async function loadDraftHistory(
+  project: ProjectConfig,
+  languageCode: string,
+  username: string,
+  filename: string
+): Promise<DraftHistoryData> {
+  const revisions = await loadRevisions(project, languageCode, username, filename);
+
+  return {
+    filename,
+    revisions: revisions.map(toSummary).reverse(),
+    latest: revisions[revisions.length - 1] || null,
+  };
+}
+
+export async function getDraftRevision(
+  project: ProjectConfig,
+  languageCode: string,
+  username: string,
+  filename: string,
+  id: number
+): Promise<DraftRevision> {
+  const revisions = await loadRevisions(project, languageCode, username, filename);
+  const revision = revisions.find((candidate) => candidate.id === id);
+
+  if (!revision) {
+    throw new Error(`Draft revision ${id} not found`);
+  }
+
+  return revision;
+}
+
+/**
+ * Compare a revision with another one, by default the one before it
+ */
+export async function diffDraftRevisions(
+  project: ProjectConfig,
+  languageCode: string,
+  username: string,
+  filename: string,
+  id: number,
+  compareTo?: number
+): Promise<DraftRevisionDiff> {
+  const revisions = await loadRevisions(project, languageCode, username, filename);
+  const index = revisions.findIndex((candidate) => candidate.id === id);
+
+  if (index === -1) {
+    throw new Error(`Draft revision ${id} not found`);
+  }
+
+  const base =
+    compareTo === undefined
+      ? revisions[index - 1] || null
+      : revisions.find((candidate) => candidate.id === compareTo);
+
+  if (base === undefined) {
+    throw new Error(`Draft revision ${compareTo} not found`);
+  }
+
+  return {
+    revision: revisions[index],
+    compareTo: base ? base.id : null,
+    changes: diffLines(base ? base.content : '', revisions[index].content),
+  };
+}
+
+/**
+ * Make an earlier revision the current draft again
+ */
+export async function restoreDraftRevision(
+  project: ProjectConfig,
+  languageCode: string,
+  username: string,
+  filename: string,
+  id: number
+): Promise<DraftRevision> {
+  const revision = await getDraftRevision(project, languageCode, username, filename, id);
+  const restored = await addRevision(
+    project,
+    languageCode,
+    username,
+    filename,
+    revision.content,
+    'restore',
+    id
+  );
+
+  return restored.revision;
+}
+
+/**
+ * Line diff of two texts
+ */
+export function diffLines(base: string, head: string): DraftLineChange[] {
+  return diffSequences(base ? base.split('\n') : [], head ? head.split('\n') : []).map((edit) => ({
+    type: edit.type === 'equal' ? 'unchanged' : edit.type,
+    line: edit.value,
+  }));
+}
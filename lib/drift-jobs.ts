@@ -0,0 +1,115 @@
+import { randomUUID } from 'crypto';
+import { getProjectConfig } from './config';
+import { createGitHubClient, GitHubClient } from './github';
+import { readJsonStore, updateJsonStore } from './data-store';
+import { detectSourceDrift } from './source-drift';
+import { refreshTranslationMetadata } from './webhook-events';
+
+/**
+ * Background source drift detection for source branch pushes.
+ *
+ * The webhook only queues the languages to check, so it can answer GitHub
+ * within its delivery timeout. Jobs stay in the `drift-jobs` data store until
+ * they have run, so a restart picks them up again.
+ */
+
+const STORE_NAME = 'drift-jobs';
+
+interface DriftJob {
+  project: string;
+  language: string;
+  id: string; // Replaced when the language is queued again
+}
+
+interface DriftJobStore {
+  jobs: DriftJob[]; // Oldest first
+}
+
+let workerRunning = false;
+let wakeRequested = false;
+
+function emptyStore(): DriftJobStore {
+  return { jobs: [] };
+}
+
+/**
+ * Queue drift detection for languages of a project and wake the worker.
+ * A language already waiting is checked once, against the latest push.
+ */
+export async function enqueueDriftJobs(projectSlug: string, languageCodes: string[]): Promise<void> {
+  await updateJsonStore<DriftJobStore>(STORE_NAME, emptyStore(), (store) => {
+    for (const language of languageCodes) {
+      const queued = store.jobs.find(
+        (job) => job.project === projectSlug && job.language === language
+      );
+      if (queued) {
+        queued.id = randomUUID();
+      } else {
+        store.jobs.push({ project: projectSlug, language, id: randomUUID() });
+      }
+    }
+    return store;
+  });
+
+  startDriftWorker();
+}
+
+/**
+ * Start processing queued jobs unless the worker is already running.
+ * Needs GITHUB_ADMIN_TOKEN.
+ */
+export function startDriftWorker(): void {
+  const adminToken = process.env.GITHUB_ADMIN_TOKEN;
+  wakeRequested = true;
+
+  if (workerRunning || !adminToken) {
+    return;
+  }
+
+  workerRunning = true;
+  runWorker(createGitHubClient(adminToken))
+    .catch((error) => console.error('Source drift worker failed:', error))
+    .finally(() => {
+      workerRunning = false;
+    });
+}
+
+async function runWorker(githubClient: GitHubClient): Promise<void> {
+  do {
+    wakeRequested = false;
+    await processDriftJobs(githubClient);
+  } while (wakeRequested);
+}
+
+/**
+ * Run queued jobs until the queue is empty
+ */
+export async function processDriftJobs(githubClient: GitHubClient): Promise<void> {
+  for (;;) {
+    const store = await readJsonStore<DriftJobStore>(STORE_NAME, emptyStore());
+    const job = store.jobs[0];
+    if (!job) {
+      return;
+    }
+
+    await runJob(githubClient, job);
+
+    // A push during the run queued the language again: keep it for another run
+    await updateJsonStore<DriftJobStore>(STORE_NAME, emptyStore(), (current) => ({
+      jobs: current.jobs.filter((queued) => queued.id !== job.id),
+    }));
+  }
+}
+
+async function runJob(githubClient: GitHubClient, job: DriftJob): Promise<void> {
+  try {
+    const project = getProjectConfig(job.project);
+    const report = await detectSourceDrift(githubClient, project, job.language);
+    report.errors.forEach((error) =>
+      console.error(`Source drift detection for ${job.project}/${job.language}: ${error}`)
+    );
+    await refreshTranslationMetadata(githubClient, project, job.language);
+  } catch (error: unknown) {
+    console.error(`Source drift detection for ${job.project}/${job.language} failed:`, error);
+  }
+}
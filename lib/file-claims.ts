@@ -0,0 +1,228 @@
+import type { ProjectConfig, FileClaim, FileEditor, FilePresenceData } from '@/types';
+import { readJsonStore, updateJsonStore } from './data-store';
+
+/**
+ * Claims and presence, so two translators do not translate the same file in
+ * their own forks without knowing. A translator claims a file for a few days
+ * (claiming again renews it); while it is claimed, nobody else can submit it
+ * for review. Coordinators can release claims that were left behind. The
+ * editor also reports who has a file open, refreshed by a heartbeat.
+ */
+
+export class FileClaimError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FileClaimError';
+  }
+}
+
+interface FileClaimStore {
+  version: string;
+  claims: Record<string, FileClaim>; // Keyed by filename
+  presence: Record<string, FileEditor[]>; // Keyed by filename
+}
+
+export const CLAIM_DURATION_HOURS = 72;
+export const PRESENCE_TIMEOUT_SECONDS = 90; // Three missed editor heartbeats
+
+function getStoreName(project: ProjectConfig, languageCode: string): string {
+  return `file-claims/${project.slug}/${languageCode}`;
+}
+
+function createEmptyStore(): FileClaimStore {
+  return { version: '1.0', claims: {}, presence: {} };
+}
+
+function isSameUser(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+function isActive(claim: FileClaim | undefined, now = Date.now()): claim is FileClaim {
+  return Boolean(claim) && new Date(claim!.expiresAt).getTime() > now;
+}
+
+function getActiveEditors(editors: FileEditor[] = [], now = Date.now()): FileEditor[] {
+  return editors.filter(
+    (editor) => now - new Date(editor.lastSeen).getTime() < PRESENCE_TIMEOUT_SECONDS * 1000
+  );
+}
+
+// Expired claims and editors are dropped whenever the store is written
+function prune(store: FileClaimStore, now = Date.now()): FileClaimStore {
+  return {
+    ...store,
+    claims: Object.fromEntries(
+      Object.entries(store.claims).filter(([, claim]) => isActive(claim, now))
+    ),
+    presence: Object.fromEntries(
+      Object.entries(store.presence)
+        .map(([filename, editors]) => [filename, getActiveEditors(editors, now)] as const)
+        .filter(([, editors]) => editors.length > 0)
+    ),
+  };
+}
+
+function formatClaim(filename: string, claim: FileClaim): string {
+  return `${filename} is claimed by @${claim.username} until ${claim.expiresAt}`;
+}
+
+/**
+ * Active claims of a language, keyed by filename
+ */
+export async function getFileClaims(
+  project: ProjectConfig,
+  languageCode: string
+): Promise<Record<string, FileClaim>> {
+  const store = await readJsonStore(getStoreName(project, languageCode), createEmptyStore());
+  return prune(store).claims;
+}
+
+export async function getFileClaim(
+  project: ProjectConfig,
+  languageCode: string,
+  filename: string
+): Promise<FileClaim | null> {
+  const claims = await getFileClaims(project, languageCode);
+  return claims[filename] || null;
+}
+
+/**
+ * Claim a file, or renew one's own claim
+ */
+export async function claimFile(
+  project: ProjectConfig,
+  languageCode: string,
+  filename: string,
+  username: string,
+  hours = CLAIM_DURATION_HOURS
+): Promise<FileClaim> {
+  const store = await updateJsonStore(
+    getStoreName(project, languageCode),
+    createEmptyStore(),
+    (current) => {
+      const now = Date.now();
+      const pruned = prune(current, now);
+      const existing = pruned.claims[filename];
+
+      if (existing && !isSameUser(existing.username, username)) {
+        throw new FileClaimError(formatClaim(filename, existing));
+      }
+
+      return {
+        ...pruned,
+        claims: {
+          ...pruned.claims,
+          [filename]: {
+            username,
+            claimedAt: existing?.claimedAt || new Date(now).toISOString(),
+            expiresAt: new Date(now + hours * 60 * 60 * 1000).toISOString(),
+          },
+        },
+      };
+    }
+  );
+
+  return store.claims[filename];
+}
+
+/**
+ * Release a claim. Only the translator who claimed the file can, unless
+ * `force` is set for coordinators releasing claims left behind.
+ */
+export async function releaseClaim(
+  project: ProjectConfig,
+  languageCode: string,
+  filename: string,
+  username: string,
+  force = false
+): Promise<void> {
+  await updateJsonStore(getStoreName(project, languageCode), createEmptyStore(), (current) => {
+    const pruned = prune(current);
+    const existing = pruned.claims[filename];
+
+    if (!existing) {
+      throw new Error(`Claim on ${filename} not found`);
+    }
+
+    if (!force && !isSameUser(existing.username, username)) {
+      throw new Error(`Unauthorized: ${formatClaim(filename, existing)}`);
+    }
+
+    return {
+      ...pruned,
+      claims: Object.fromEntries(
+        Object.entries(pruned.claims).filter(([claimed]) => claimed !== filename)
+      ),
+    };
+  });
+}
+
+/**
+ * Throw unless the file is free or claimed by the user
+ */
+export async function assertNotClaimedByOther(
+  project: ProjectConfig,
+  languageCode: string,
+  filename: string,
+  username: string
+): Promise<void> {
+  const claim = await getFileClaim(project, languageCode, filename);
+
+  if (claim && !isSameUser(claim.username, username)) {
+    throw new FileClaimError(formatClaim(filename, claim));
+  }
+}
+
+/**
+ * Record that the user has the file open, and return its claim and the
+ * other users who have it open
+ */
+export async function recordPresence(
+  project: ProjectConfig,
+  languageCode: string,
+  filename: string,
+  username: string
+): Promise<FilePresenceData> {
+  const store = await updateJsonStore(
+    getStoreName(project, languageCode),
+    createEmptyStore(),
+    (current) => {
+      const pruned = prune(current);
+      const others = (pruned.presence[filename] || []).filter(
+        (editor) => !isSameUser(editor.username, username)
+      );
+
+      return {
+        ...pruned,
+        presence: {
+          ...pruned.presence,
+          [filename]: [...others, { username, lastSeen: new Date().toISOString() }],
+        },
+      };
+    }
+  );
+
+  return {
+    claim: store.claims[filename] || null,
+    editors: store.presence[filename].filter((editor) => !isSameUser(editor.username, username)),
+  };
+}
+
+/**
+ * Forget that the user has the file open, when they leave the editor
+ */
+export async function removePresence(
+  project: ProjectConfig,
+  languageCode: string,
+  filename: string,
+  username: string
+): Promise<void> {
+  await updateJsonStore(getStoreName(project, languageCode), createEmptyStore(), (current) => {
+    const editors = (current.presence[filename] || []).filter(
+      (editor) => !isSameUser(editor.username, username)
+    );
+
+    // Pruning drops the file once nobody has it open
+    return prune({ ...current, presence: { ...current.presence, [filename]: editors } });
+  });
+}
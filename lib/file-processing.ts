@@ -1,19 +1,43 @@
-import type { ProjectConfig, LanguageInitProgress } from '@/types';
-import { GitHubClient } from './github';
+import type {
+  ProjectConfig,
+  LanguageInitProgress,
+  GlossaryTerm,
+  QualityReport,
+  InitMode,
+  InitPlan,
+  InitPlanFile,
+  TranslationMetadata,
+} from '@/types';
+import { GitHubClient, type CommitFileChange } from './github';
 import { getTranslationService } from './translation';
 import {
   getSourceFilePath,
   getTranslationFilePath,
   getMachineTranslationFilePath,
   getTranslationBranchName,
+  getGlossaryPath,
   parseGitHubRepo,
   matchesFilePattern,
+  toRepoPath,
 } from './config';
+import { glossarySchema } from './validation';
 import {
   createInitialTranslationMetadata,
+  loadTranslationMetadata,
   saveTranslationMetadata,
+  calculateStats,
   countWords,
+  getReviewState,
+  getFileSourceCommit,
 } from './translation-metadata';
+import {
+  loadTranslationMemory,
+  addToTranslationMemory,
+  alignSegments,
+  findExactMatch,
+} from './translation-memory';
+import { runQualityChecks } from './quality-checks';
+import { getPostEditDistance } from './word-diff';
 
 export interface InitializeLanguageOptions {
   project: ProjectConfig;
@@ -21,8 +45,11 @@ export interface InitializeLanguageOptions {
   languageName: string;
   direction: 'ltr' | 'rtl';
   coordinator: string;
-  sourceCommit?: string;
+  mode?: InitMode; // Defaults to 'missing'
+  sourceCommit?: string; // Branch, tag or commit SHA to read source files from
   onProgress?: (progress: LanguageInitProgress) => void;
+  translatedFiles?: Record<string, string>; // Blob SHAs from an interrupted run, by filename
+  signal?: AbortSignal; // Checked before each file
 }
 
 export interface InitializeLanguageResult {
@@ -32,9 +59,56 @@ export interface InitializeLanguageResult {
   branchUrl: string;
 }
 
+export interface PlanLanguageInitializationOptions {
+  mode?: InitMode;
+  sourceCommit?: string;
+}
+
+export class InitializationCancelledError extends Error {
+  constructor() {
+    super('Initialization cancelled');
+    this.name = 'InitializationCancelledError';
+  }
+}
+
 /**
- * Initialize a new language translation
- * This creates the branch, translates all files, and sets up metadata
+ * Resolve a branch, tag or commit SHA (the source branch by default) to the
+ * commit SHA source files are read from
+ */
+export async function resolveSourceCommit(
+  githubClient: GitHubClient,
+  project: ProjectConfig,
+  ref?: string
+): Promise<string> {
+  const { owner, repo } = parseGitHubRepo(project.githubRepo);
+  const commit = await githubClient.getCommit(owner, repo, ref || project.sourceBranch);
+  return commit.data.sha;
+}
+
+/**
+ * Which files initializing a language would create, overwrite or skip,
+ * without translating or writing anything
+ */
+export async function planLanguageInitialization(
+  githubClient: GitHubClient,
+  project: ProjectConfig,
+  languageCode: string,
+  options: PlanLanguageInitializationOptions = {}
+): Promise<InitPlan> {
+  const { plan } = await prepareInitialization(githubClient, project, languageCode, options);
+  return plan;
+}
+
+/**
+ * Initialize a new language translation, or re-initialize an existing one
+ * This creates the branch, translates the files the plan for `mode` writes,
+ * and sets up metadata.
+ *
+ * Each translation is uploaded as a blob as soon as it is ready, and all
+ * files are committed together with translation.json at the end, as a
+ * single commit. Blobs listed in `translatedFiles` are reused, so an
+ * interrupted run can be resumed; aborting `signal` stops before the next
+ * file without committing anything.
  */
 export async function initializeLanguage(
   githubClient: GitHubClient,
@@ -43,18 +117,25 @@ export async function initializeLanguage(
   const { project, languageCode, languageName, direction, coordinator } = options;
   const { owner, repo } = parseGitHubRepo(project.githubRepo);
   const branchName = getTranslationBranchName(languageCode);
+  const branchUrl = `https://github.com/${owner}/${repo}/tree/${branchName}`;
 
   const errors: string[] = [];
   let filesProcessed = 0;
 
   try {
-    // Step 1: Get source branch reference
-    const sourceBranch = await githubClient.getBranch(
-      owner,
-      repo,
-      options.sourceCommit || project.sourceBranch
+    // Step 1: Resolve the source commit and decide what to write
+    const { plan, sourceFiles, metadata: existingMetadata } = await prepareInitialization(
+      githubClient,
+      project,
+      languageCode,
+      options
     );
-    const sourceCommitSha = sourceBranch.data.commit.sha;
+    const { sourceCommitSha } = plan;
+    const planned = plan.files.filter((file) => file.action !== 'skip');
+
+    if (planned.length === 0) {
+      return { success: true, filesProcessed, errors, branchUrl };
+    }
 
     // Step 2: Create translation branch
     try {
@@ -66,26 +147,52 @@ export async function initializeLanguage(
       }
     }
 
-    // Step 3: Get all files from source folder
-    const sourceFiles = await getSourceFiles(
+    // Step 3: Process each planned file
+    const translationService = getTranslationService(project, languageCode);
+
+    if (!translationService.isAvailable()) {
+      throw new Error(
+        `Translation service not available. Check the ${translationService.providerName} configuration.`
+      );
+    }
+
+    // Approved translations are reused before calling the provider
+    const memory = await loadTranslationMemory(languageCode);
+    const lookupMemory = (source: string) => findExactMatch(memory, source)?.target;
+    const glossary = await loadGlossary(
       githubClient,
       owner,
       repo,
       project,
-      project.sourceBranch
+      languageCode,
+      branchName
     );
 
-    // Step 4: Process each file
-    const translationService = getTranslationService();
+    const sourcePaths = new Map(sourceFiles.map((file) => [file.name, file.path]));
 
-    if (!translationService.isAvailable()) {
-      throw new Error('Translation service not available. Check DEEPL_API_KEY.');
+    // Blob SHA of each translated file
+    const translatedBlobs = new Map<string, string>();
+    for (const file of planned) {
+      const blobSha = options.translatedFiles?.[file.filename];
+      if (blobSha) {
+        translatedBlobs.set(file.filename, blobSha);
+        filesProcessed++;
+      } else {
+        options.onProgress?.({ filename: file.filename, status: 'pending' });
+      }
     }
 
-    for (const file of sourceFiles) {
+    for (const file of planned) {
+      if (translatedBlobs.has(file.filename)) {
+        continue;
+      }
+      if (options.signal?.aborted) {
+        throw new InitializationCancelledError();
+      }
+
       try {
         options.onProgress?.({
-          filename: file.name,
+          filename: file.filename,
           status: 'translating',
         });
 
@@ -94,148 +201,431 @@ export async function initializeLanguage(
           githubClient,
           owner,
           repo,
-          file.path,
-          project.sourceBranch
+          sourcePaths.get(file.filename) as string,
+          sourceCommitSha
         );
 
         // Translate content
         const translatedContent = await translationService.translateMarkdown(
           content,
-          languageCode
-        );
-
-        // Save to working translation folder
-        const translationPath = getTranslationFilePath(
-          project,
           languageCode,
-          file.name
-        );
-        await githubClient.createOrUpdateFile(
-          owner,
-          repo,
-          translationPath,
-          translatedContent,
-          `[${languageCode}] Initialize translation for ${file.name}`,
-          branchName
+          { memory: lookupMemory, glossary, project: project.slug }
         );
 
-        // Save to tmp backup folder
-        const tmpPath = getMachineTranslationFilePath(
-          project,
-          languageCode,
-          file.name
-        );
-        await githubClient.createOrUpdateFile(
-          owner,
-          repo,
-          tmpPath,
-          translatedContent,
-          `[${languageCode}] Machine translation backup for ${file.name}`,
-          branchName
-        );
+        // Upload now, commit with everything else at the end
+        const blob = await githubClient.createBlob(owner, repo, translatedContent);
+        translatedBlobs.set(file.filename, blob.data.sha);
 
         filesProcessed++;
 
         options.onProgress?.({
-          filename: file.name,
+          filename: file.filename,
           status: 'complete',
+          blobSha: blob.data.sha,
         });
       } catch (error: any) {
-        const errorMsg = `Failed to process ${file.name}: ${error.message}`;
+        const errorMsg = `Failed to process ${file.filename}: ${error.message}`;
         errors.push(errorMsg);
 
         options.onProgress?.({
-          filename: file.name,
+          filename: file.filename,
           status: 'error',
           error: errorMsg,
         });
       }
     }
 
-    // Step 5: Create translation.json metadata
-    const fileNames = sourceFiles.map((f) => f.name);
-    const metadata = createInitialTranslationMetadata(
+    if (options.signal?.aborted) {
+      throw new InitializationCancelledError();
+    }
+
+    // Step 4: Create or update translation.json metadata. A first or forced
+    // initialization starts over; otherwise only new files are added. Files
+    // that failed are left out, so the next run plans them again.
+    const machineTranslation = {
+      provider: translationService.providerId,
+      name: translationService.providerName,
+    };
+    const fresh = !existingMetadata || plan.mode === 'force';
+    const newFiles = (
+      fresh
+        ? sourceFiles.map((file) => file.name)
+        : planned.filter((file) => file.action === 'create').map((file) => file.filename)
+    ).filter((filename) => translatedBlobs.has(filename));
+    const initial = createInitialTranslationMetadata(
       project.slug,
       project,
       languageCode,
       languageName,
       direction,
       coordinator,
-      fileNames,
-      sourceCommitSha
+      newFiles,
+      sourceCommitSha,
+      machineTranslation
     );
 
     // Update word counts
-    for (const file of sourceFiles) {
+    for (const filename of newFiles) {
       try {
         const content = await getFileContentAsText(
           githubClient,
           owner,
           repo,
-          file.path,
-          project.sourceBranch
+          sourcePaths.get(filename) as string,
+          sourceCommitSha
         );
-        const wordCount = countWords(content);
-        if (metadata.files[file.name]) {
-          metadata.files[file.name].wordCount = wordCount;
-          metadata.stats.totalWords += wordCount;
-        }
+        initial.files[filename].wordCount = countWords(content);
       } catch (error) {
         // Continue if word count fails
       }
     }
 
+    // New files are added to the metadata on the branch when it is written,
+    // which may have changed while the files were being translated
+    const buildMetadata = (current: TranslationMetadata | null): TranslationMetadata => {
+      if (fresh || !current) {
+        return { ...initial, stats: calculateStats(initial.files) };
+      }
+
+      // Files added later may be based on a newer source than the rest
+      const added =
+        sourceCommitSha === current.meta.sourceCommitSha
+          ? initial.files
+          : Object.fromEntries(
+              Object.entries(initial.files).map(([filename, file]) => [
+                filename,
+                { ...file, sourceCommitSha },
+              ])
+            );
+
+      const files = { ...current.files, ...added };
+      return {
+        ...current,
+        files,
+        stats: calculateStats(files),
+        lastUpdated: new Date().toISOString(),
+      };
+    };
+
+    // Planned files of every translation, plus metadata, in one commit
+    const translatedFiles: CommitFileChange[] = [];
+    for (const file of planned) {
+      const sha = translatedBlobs.get(file.filename);
+      if (sha) {
+        translatedFiles.push(...file.paths.map((path) => ({ path, sha })));
+      }
+    }
+
     await saveTranslationMetadata(
       githubClient,
       owner,
       repo,
       project,
       languageCode,
-      metadata,
+      buildMetadata,
       branchName,
-      `[${languageCode}] Initialize translation metadata`
+      getInitCommitMessage(languageCode, existingMetadata ? plan.mode : null, translatedBlobs.size),
+      translatedFiles
     );
 
     return {
       success: errors.length === 0,
       filesProcessed,
       errors,
-      branchUrl: `https://github.com/${owner}/${repo}/tree/${branchName}`,
+      branchUrl,
     };
   } catch (error: any) {
+    if (error instanceof InitializationCancelledError) {
+      throw error;
+    }
     throw new Error(`Failed to initialize language: ${error.message}`);
   }
 }
 
 /**
- * Get all source files from the project source folder
+ * Source files at the resolved source commit, the language's current
+ * metadata, and what initializing in `mode` would do with each file
  */
-async function getSourceFiles(
+async function prepareInitialization(
   githubClient: GitHubClient,
-  owner: string,
-  repo: string,
   project: ProjectConfig,
-  branch: string
-): Promise<Array<{ name: string; path: string }>> {
-  const contents = await githubClient.getDirectoryContents(
+  languageCode: string,
+  options: PlanLanguageInitializationOptions
+): Promise<{
+  plan: InitPlan;
+  sourceFiles: Array<{ name: string; path: string }>;
+  metadata: TranslationMetadata | null;
+}> {
+  const { owner, repo } = parseGitHubRepo(project.githubRepo);
+  const mode = options.mode || 'missing';
+  const sourceCommitSha = await resolveSourceCommit(githubClient, project, options.sourceCommit);
+
+  const [sourceFiles, metadata] = await Promise.all([
+    getSourceFiles(githubClient, owner, repo, project, sourceCommitSha),
+    loadTranslationMetadata(
+      githubClient,
+      owner,
+      repo,
+      project,
+      languageCode,
+      getTranslationBranchName(languageCode)
+    ),
+  ]);
+
+  const files = sourceFiles.map(({ name }): InitPlanFile => {
+    const translationPath = getTranslationFilePath(project, languageCode, name);
+    const machinePath = getMachineTranslationFilePath(project, languageCode, name);
+
+    if (!metadata?.files[name]) {
+      return { filename: name, action: 'create', paths: [translationPath, machinePath] };
+    }
+
+    switch (mode) {
+      case 'force':
+        return { filename: name, action: 'overwrite', paths: [translationPath, machinePath] };
+      case 'refresh':
+        return {
+          filename: name,
+          action: 'overwrite',
+          paths: [machinePath],
+          reason: 'Machine draft only; the working translation is kept',
+        };
+      default:
+        return { filename: name, action: 'skip', paths: [], reason: 'Already translated' };
+    }
+  });
+
+  return { plan: { mode, sourceCommitSha, files }, sourceFiles, metadata };
+}
+
+function getInitCommitMessage(languageCode: string, mode: InitMode | null, count: number): string {
+  switch (mode) {
+    case 'missing':
+      return `[${languageCode}] Translate ${count} new files`;
+    case 'refresh':
+      return `[${languageCode}] Refresh machine translations of ${count} files`;
+    case 'force':
+      return `[${languageCode}] Re-initialize translation of ${count} files`;
+    default:
+      return `[${languageCode}] Initialize translation of ${count} files`;
+  }
+}
+
+export interface HarvestTranslationMemoryResult {
+  filesHarvested: number;
+  segmentsStored: number;
+  skipped: string[]; // Approved files that are outdated or could not be read or aligned
+}
+
+/**
+ * Store the segment pairs of an approved translation in the translation memory
+ */
+async function rememberApprovedTranslation(
+  githubClient: GitHubClient,
+  project: ProjectConfig,
+  languageCode: string,
+  filename: string,
+  translatedContent: string,
+  sourceCommitSha: string,
+  contributor: string | null
+): Promise<number> {
+  const { owner, repo } = parseGitHubRepo(project.githubRepo);
+  const sourceContent = await getFileContentAsText(
+    githubClient,
     owner,
     repo,
-    project.sourceFolder,
-    branch
+    getSourceFilePath(project, filename),
+    sourceCommitSha
   );
 
-  if (!Array.isArray(contents.data)) {
-    throw new Error('Expected directory contents');
+  return addToTranslationMemory(
+    languageCode,
+    alignSegments(sourceContent, translatedContent),
+    { project: project.slug, filename, contributor }
+  );
+}
+
+/**
+ * Run the project's quality checks on a translation, against the English
+ * source and the language's glossary
+ */
+export async function checkTranslationQuality(
+  githubClient: GitHubClient,
+  project: ProjectConfig,
+  languageCode: string,
+  filename: string,
+  translatedContent: string
+): Promise<QualityReport> {
+  const { owner, repo } = parseGitHubRepo(project.githubRepo);
+  const [sourceContent, glossary] = await Promise.all([
+    getFileContentAsText(
+      githubClient,
+      owner,
+      repo,
+      getSourceFilePath(project, filename),
+      project.sourceBranch
+    ),
+    loadGlossary(githubClient, owner, repo, project, languageCode, getTranslationBranchName(languageCode)),
+  ]);
+
+  return runQualityChecks(sourceContent, translatedContent, glossary, project.qualityChecks);
+}
+
+/**
+ * How much of the machine translation of a file a translation changed, or
+ * null when the file was not machine translated
+ */
+export async function measurePostEditDistance(
+  githubClient: GitHubClient,
+  project: ProjectConfig,
+  languageCode: string,
+  filename: string,
+  translatedContent: string
+): Promise<number | null> {
+  const { owner, repo } = parseGitHubRepo(project.githubRepo);
+  const machineTranslation = await getFileContentAsText(
+    githubClient,
+    owner,
+    repo,
+    getMachineTranslationFilePath(project, languageCode, filename),
+    getTranslationBranchName(languageCode)
+  ).catch(() => '');
+
+  return machineTranslation ? getPostEditDistance(machineTranslation, translatedContent) : null;
+}
+
+/**
+ * Store the approved or merged translation of a file in the translation
+ * memory, paired with the English it was translated from. Returns the number
+ * of pairs stored, or null when the file is outdated or the approved version
+ * could not be read.
+ */
+export async function rememberReviewedFile(
+  githubClient: GitHubClient,
+  project: ProjectConfig,
+  languageCode: string,
+  filename: string,
+  metadata: TranslationMetadata
+): Promise<number | null> {
+  const { owner, repo } = parseGitHubRepo(project.githubRepo);
+  const file = metadata.files[filename];
+
+  // An outdated translation no longer matches the source it would be paired with
+  if (!file || file.outdated) {
+    return null;
   }
 
+  // Until its PR is merged, the approved version only exists in the
+  // contributor's fork at the commit recorded in the metadata
+  const location =
+    file.lastContributor && file.lastCommitSha
+      ? { owner: file.lastContributor, ref: file.lastCommitSha }
+      : { owner, ref: getTranslationBranchName(languageCode) };
+  const translatedContent = await getFileContentAsText(
+    githubClient,
+    location.owner,
+    repo,
+    getTranslationFilePath(project, languageCode, filename),
+    location.ref
+  ).catch(() => null);
+
+  if (translatedContent === null) {
+    return null;
+  }
+
+  return rememberApprovedTranslation(
+    githubClient,
+    project,
+    languageCode,
+    filename,
+    translatedContent,
+    getFileSourceCommit(metadata, filename),
+    file.lastContributor
+  );
+}
+
+/**
+ * Rebuild the translation memory from every approved or merged file
+ * in a language's translation.json
+ */
+export async function harvestTranslationMemory(
+  githubClient: GitHubClient,
+  project: ProjectConfig,
+  languageCode: string
+): Promise<HarvestTranslationMemoryResult> {
+  const { owner, repo } = parseGitHubRepo(project.githubRepo);
+
+  const metadata = await loadTranslationMetadata(
+    githubClient,
+    owner,
+    repo,
+    project,
+    languageCode,
+    getTranslationBranchName(languageCode)
+  );
+
+  if (!metadata) {
+    throw new Error('Translation metadata not found');
+  }
+
+  const result: HarvestTranslationMemoryResult = {
+    filesHarvested: 0,
+    segmentsStored: 0,
+    skipped: [],
+  };
+
+  for (const [filename, file] of Object.entries(metadata.files)) {
+    // Submitted translations have not been reviewed yet
+    const state = getReviewState(file);
+    if (state !== 'approved' && state !== 'merged') {
+      continue;
+    }
+
+    const stored = await rememberReviewedFile(githubClient, project, languageCode, filename, metadata);
+
+    if (stored) {
+      result.filesHarvested++;
+      result.segmentsStored += stored;
+    } else {
+      result.skipped.push(filename);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Get all source files from the project source folder and its subfolders.
+ * Each file's `name` is its path relative to the source folder.
+ */
+export async function getSourceFiles(
+  githubClient: GitHubClient,
+  owner: string,
+  repo: string,
+  project: ProjectConfig,
+  branch: string
+): Promise<Array<{ name: string; path: string }>> {
+  const sourceFolder = toRepoPath(project.sourceFolder);
+
+  const tree = await githubClient.getTree(owner, repo, branch, true);
+  const paths = tree.data.truncated
+    ? await listTreeFiles(githubClient, owner, repo, tree.data.sha, '', sourceFolder)
+    : tree.data.tree
+        .filter((entry) => entry.type === 'blob' && entry.path)
+        .map((entry) => entry.path as string);
+
+  const prefix = sourceFolder ? `${sourceFolder}/` : '';
   const files: Array<{ name: string; path: string }> = [];
 
-  for (const item of contents.data) {
-    if (item.type === 'file' && matchesFilePattern(project, item.name)) {
-      files.push({
-        name: item.name,
-        path: item.path,
-      });
+  for (const filepath of paths) {
+    if (!filepath.startsWith(prefix) || isTranslationPath(project, filepath)) {
+      continue;
+    }
+
+    const name = filepath.slice(prefix.length);
+
+    if (matchesFilePattern(project, name)) {
+      files.push({ name, path: filepath });
     }
   }
 
@@ -253,6 +643,111 @@ async function getSourceFiles(
   return files;
 }
 
+/**
+ * Walk a tree one level at a time, for repositories too large for a single
+ * recursive request. Only folders on the way to or inside the source folder
+ * are visited.
+ */
+async function listTreeFiles(
+  githubClient: GitHubClient,
+  owner: string,
+  repo: string,
+  treeSha: string,
+  basePath: string,
+  sourceFolder: string
+): Promise<string[]> {
+  const tree = await githubClient.getTree(owner, repo, treeSha);
+  const paths: string[] = [];
+
+  for (const entry of tree.data.tree) {
+    if (!entry.path) {
+      continue;
+    }
+
+    const entryPath = basePath ? `${basePath}/${entry.path}` : entry.path;
+
+    if (entry.type === 'blob') {
+      paths.push(entryPath);
+    } else if (
+      entry.type === 'tree' &&
+      entry.sha &&
+      (isWithinFolder(entryPath, sourceFolder) || isWithinFolder(sourceFolder, entryPath))
+    ) {
+      paths.push(
+        ...(await listTreeFiles(githubClient, owner, repo, entry.sha, entryPath, sourceFolder))
+      );
+    }
+  }
+
+  return paths;
+}
+
+/**
+ * Whether a repository path holds translations rather than English source.
+ * A translation folder inside the source folder only holds translations;
+ * otherwise translations are the language folders (e.g. `es-ES/`) in it.
+ */
+export function isTranslationPath(project: ProjectConfig, filepath: string): boolean {
+  const sourceFolder = toRepoPath(project.sourceFolder);
+  const translationFolder = toRepoPath(project.translationFolder);
+
+  if (!isWithinFolder(filepath, translationFolder)) {
+    return false;
+  }
+
+  if (translationFolder !== sourceFolder && isWithinFolder(translationFolder, sourceFolder)) {
+    return true;
+  }
+
+  const [languageFolder] = filepath
+    .slice(translationFolder ? translationFolder.length + 1 : 0)
+    .split('/');
+  return /^[a-z]{2}-[A-Z]{2}$/.test(languageFolder);
+}
+
+function isWithinFolder(filepath: string, folder: string): boolean {
+  return folder === '' || filepath === folder || filepath.startsWith(`${folder}/`);
+}
+
+/**
+ * Load the approved terms from glossary.json next to translation.json.
+ * A language without a glossary has no terms.
+ */
+export async function loadGlossary(
+  githubClient: GitHubClient,
+  owner: string,
+  repo: string,
+  project: ProjectConfig,
+  languageCode: string,
+  branch: string
+): Promise<GlossaryTerm[]> {
+  let content: string;
+  try {
+    content = await getFileContentAsText(
+      githubClient,
+      owner,
+      repo,
+      getGlossaryPath(project, languageCode),
+      branch
+    );
+  } catch (error: unknown) {
+    if ((error as { status?: number }).status === 404) {
+      return [];
+    }
+    throw error;
+  }
+
+  const result = glossarySchema.safeParse(JSON.parse(content));
+  if (!result.success) {
+    const messages = result.error.issues
+      .map((issue) => `${issue.path.join('.')}: ${issue.message}`)
+      .join(', ');
+    throw new Error(`Invalid glossary for ${languageCode}: ${messages}`);
+  }
+
+  return result.data.terms;
+}
+
 /**
  * Get file content as text from GitHub
  */
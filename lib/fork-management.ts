@@ -215,7 +215,69 @@ export async function getForkStatus(
 }
 
 /**
- * Create a pull request from fork to upstream
+ * Prepare the fork branch of a file in per-file pull request mode. A new
+ * branch starts at the upstream translation branch, so its pull request only
+ * contains that file; a branch left over from a merged or closed pull request
+ * that could not be deleted is reset there too. Open pull requests keep their
+ * branch.
+ */
+export async function ensureFileBranch(
+  githubClient: GitHubClient,
+  username: string,
+  upstreamOwner: string,
+  repo: string,
+  languageCode: string,
+  fileBranch: string,
+  hasOpenPR: boolean
+): Promise<void> {
+  if (hasOpenPR) {
+    return;
+  }
+
+  const upstream = await githubClient.getBranch(
+    upstreamOwner,
+    repo,
+    getTranslationBranchName(languageCode)
+  );
+  const sha = upstream.data.commit.sha;
+
+  try {
+    await githubClient.getBranch(username, repo, fileBranch);
+  } catch (error: any) {
+    if (error.status !== 404) {
+      throw error;
+    }
+    await githubClient.createBranch(username, repo, fileBranch, sha);
+    return;
+  }
+
+  // Squash merges and unmerged closes leave commits upstream does not have
+  await githubClient.updateRef(username, repo, fileBranch, sha, true);
+}
+
+/**
+ * Delete the fork branch of a file once its pull request is merged or
+ * closed. A branch that is already gone is not an error.
+ */
+export async function deleteFileBranch(
+  githubClient: GitHubClient,
+  username: string,
+  repo: string,
+  fileBranch: string
+): Promise<void> {
+  try {
+    await githubClient.deleteBranch(username, repo, fileBranch);
+  } catch (error: unknown) {
+    const { status } = error as { status?: number };
+    if (status !== 404 && status !== 422) {
+      throw error;
+    }
+  }
+}
+
+/**
+ * Create a pull request from fork to upstream. The fork branch is merged
+ * into the upstream branch of the same name unless `baseBranch` is given.
  */
 export async function createPullRequest(
   githubClient: GitHubClient,
@@ -224,7 +286,8 @@ export async function createPullRequest(
   repo: string,
   branchName: string,
   title: string,
-  body?: string
+  body?: string,
+  baseBranch: string = branchName
 ): Promise<{
   number: number;
   url: string;
@@ -235,7 +298,7 @@ export async function createPullRequest(
       repo,
       title,
       `${username}:${branchName}`,
-      branchName,
+      baseBranch,
       body
     );
 
@@ -249,17 +312,21 @@ export async function createPullRequest(
 }
 
 /**
- * Check if user has any existing PRs for a file
+ * Check if user has an open PR from a fork branch
  */
 export async function getExistingPR(
   githubClient: GitHubClient,
   upstreamOwner: string,
   repo: string,
   username: string,
-  branchName: string
+  branchName: string,
+  baseBranch: string = branchName
 ): Promise<{ number: number; url: string } | null> {
   try {
-    const prs = await githubClient.listPullRequests(upstreamOwner, repo, 'open');
+    const prs = await githubClient.listPullRequests(upstreamOwner, repo, 'open', {
+      head: `${username}:${branchName}`,
+      base: baseBranch,
+    });
 
     const userPR = prs.data.find(
       (pr) => pr.head.ref === branchName && pr.head.user?.login === username
@@ -22,6 +22,48 @@ export class GitHubError extends Error {
   }
 }
 
+// A file written by commitFiles: new content, or an existing blob
+export interface CommitFileChange {
+  path: string;
+  content?: string;
+  sha?: string;
+}
+
+interface ReviewThreadsResponse {
+  repository: {
+    pullRequest: {
+      reviewThreads: {
+        pageInfo: { hasNextPage: boolean; endCursor: string | null };
+        nodes: Array<{
+          id: string;
+          isResolved: boolean;
+          comments: { nodes: Array<{ databaseId: number | null }> };
+        }>;
+      };
+    };
+  };
+}
+
+const REVIEW_THREADS_QUERY = `
+  query($owner: String!, $repo: String!, $number: Int!, $cursor: String) {
+    repository(owner: $owner, name: $repo) {
+      pullRequest(number: $number) {
+        reviewThreads(first: 100, after: $cursor) {
+          pageInfo { hasNextPage endCursor }
+          nodes {
+            id
+            isResolved
+            comments(first: 1) { nodes { databaseId } }
+          }
+        }
+      }
+    }
+  }
+`;
+
+// Attempts to fast-forward a branch that moved while a commit was built
+const MAX_COMMIT_ATTEMPTS = 3;
+
 interface GitHubClientOptions {
   token: string;
   maxRetries?: number;
@@ -184,9 +226,15 @@ export class GitHubClient {
     );
   }
 
+  async deleteBranch(owner: string, repo: string, branch: string) {
+    return this.request(() =>
+      this.octokit.git.deleteRef({ owner, repo, ref: `heads/${branch}` })
+    );
+  }
+
   async listBranches(owner: string, repo: string) {
     return this.request(() =>
-      this.octokit.repos.listBranches({ owner, repo })
+      this.octokit.repos.listBranches({ owner, repo, per_page: 100 })
     );
   }
 
@@ -256,6 +304,129 @@ export class GitHubClient {
     );
   }
 
+  // Git Data operations
+  async getRef(owner: string, repo: string, branch: string) {
+    return this.request(() =>
+      this.octokit.git.getRef({ owner, repo, ref: `heads/${branch}` })
+    );
+  }
+
+  async updateRef(owner: string, repo: string, branch: string, sha: string, force = false) {
+    return this.request(() =>
+      this.octokit.git.updateRef({ owner, repo, ref: `heads/${branch}`, sha, force })
+    );
+  }
+
+  async getGitCommit(owner: string, repo: string, sha: string) {
+    return this.request(() =>
+      this.octokit.git.getCommit({ owner, repo, commit_sha: sha })
+    );
+  }
+
+  async createGitCommit(
+    owner: string,
+    repo: string,
+    message: string,
+    tree: string,
+    parents: string[]
+  ) {
+    return this.request(() =>
+      this.octokit.git.createCommit({ owner, repo, message, tree, parents })
+    );
+  }
+
+  async createBlob(owner: string, repo: string, content: string) {
+    return this.request(() =>
+      this.octokit.git.createBlob({
+        owner,
+        repo,
+        content: Buffer.from(content).toString('base64'),
+        encoding: 'base64',
+      })
+    );
+  }
+
+  async createTree(
+    owner: string,
+    repo: string,
+    baseTree: string,
+    files: Array<{ path: string; sha: string }>
+  ) {
+    return this.request(() =>
+      this.octokit.git.createTree({
+        owner,
+        repo,
+        base_tree: baseTree,
+        tree: files.map((file) => ({
+          path: file.path,
+          mode: '100644' as const,
+          type: 'blob' as const,
+          sha: file.sha,
+        })),
+      })
+    );
+  }
+
+  /**
+   * Write several files to a branch as a single commit: create the blobs,
+   * build a tree on top of the branch head, commit it and fast-forward the
+   * branch. Files that depend on what is on the branch are given as a
+   * function of the head commit: if the branch moved in the meantime, it is
+   * called again for the new head and the commit rebuilt. A fixed list of
+   * files is never written over changes made in the meantime; the commit
+   * fails with a 409 instead.
+   */
+  async commitFiles(
+    owner: string,
+    repo: string,
+    branch: string,
+    files: CommitFileChange[] | ((parentSha: string) => Promise<CommitFileChange[]>),
+    message: string
+  ): Promise<{ sha: string }> {
+    for (let attempt = 1; ; attempt++) {
+      const head = await this.getRef(owner, repo, branch);
+      const parentSha = head.data.object.sha;
+      const parent = await this.getGitCommit(owner, repo, parentSha);
+      const changes = typeof files === 'function' ? await files(parentSha) : files;
+
+      const blobs: Array<{ path: string; sha: string }> = [];
+      for (const file of changes) {
+        const sha = file.sha ?? (await this.createBlob(owner, repo, file.content ?? '')).data.sha;
+        // Tree paths never start with a slash
+        blobs.push({ path: file.path.replace(/^\/+/, ''), sha });
+      }
+
+      const tree = await this.createTree(owner, repo, parent.data.tree.sha, blobs);
+      const commit = await this.createGitCommit(owner, repo, message, tree.data.sha, [parentSha]);
+
+      try {
+        await this.updateRef(owner, repo, branch, commit.data.sha);
+        return { sha: commit.data.sha };
+      } catch (error: unknown) {
+        // 422: not a fast-forward
+        if (!(error instanceof GitHubError) || error.status !== 422) {
+          throw error;
+        }
+        if (typeof files !== 'function' || attempt >= MAX_COMMIT_ATTEMPTS) {
+          const conflict = `${branch} changed while the commit was being made`;
+          throw new GitHubError(409, { message: conflict }, conflict);
+        }
+      }
+    }
+  }
+
+  // Tree operations
+  async getTree(owner: string, repo: string, treeSha: string, recursive = false) {
+    return this.request(() =>
+      this.octokit.git.getTree({
+        owner,
+        repo,
+        tree_sha: treeSha,
+        recursive: recursive ? 'true' : undefined,
+      })
+    );
+  }
+
   // Pull Request operations
   async createPullRequest(
     owner: string,
@@ -277,16 +448,176 @@ export class GitHubClient {
     );
   }
 
-  async listPullRequests(owner: string, repo: string, state: 'open' | 'closed' | 'all' = 'all') {
-    return this.request(() =>
-      this.octokit.pulls.list({
+  /**
+   * Pull requests of a repository, all pages. `head` is `user:branch`;
+   * `base` is the branch the pull requests are merged into.
+   */
+  async listPullRequests(
+    owner: string,
+    repo: string,
+    state: 'open' | 'closed' | 'all' = 'all',
+    filters: { head?: string; base?: string } = {}
+  ) {
+    const data = await this.request(() =>
+      this.octokit.paginate(this.octokit.pulls.list, {
         owner,
         repo,
         state,
+        ...filters,
+        per_page: 100,
+      })
+    );
+
+    return { data };
+  }
+
+  async listPullRequestReviews(owner: string, repo: string, pullNumber: number) {
+    return this.request(() =>
+      this.octokit.paginate(this.octokit.pulls.listReviews, {
+        owner,
+        repo,
+        pull_number: pullNumber,
+        per_page: 100,
+      })
+    );
+  }
+
+  async createPullRequestReview(
+    owner: string,
+    repo: string,
+    pullNumber: number,
+    event: 'APPROVE' | 'REQUEST_CHANGES' | 'COMMENT',
+    body?: string
+  ) {
+    return this.request(() =>
+      this.octokit.pulls.createReview({
+        owner,
+        repo,
+        pull_number: pullNumber,
+        event,
+        body,
+      })
+    );
+  }
+
+  async getPullRequest(owner: string, repo: string, pullNumber: number) {
+    return this.request(() =>
+      this.octokit.pulls.get({
+        owner,
+        repo,
+        pull_number: pullNumber,
+      })
+    );
+  }
+
+  // Review comments on lines of a pull request's diff, all pages
+  async listPullRequestReviewComments(owner: string, repo: string, pullNumber: number) {
+    return this.request(() =>
+      this.octokit.paginate(this.octokit.pulls.listReviewComments, {
+        owner,
+        repo,
+        pull_number: pullNumber,
+        per_page: 100,
       })
     );
   }
 
+  /**
+   * Comment on lines of a file in a pull request, or on the whole file when
+   * no lines are given. Lines are in the head version of the file.
+   */
+  async createPullRequestReviewComment(
+    owner: string,
+    repo: string,
+    pullNumber: number,
+    comment: {
+      body: string;
+      commitId: string;
+      path: string;
+      startLine?: number;
+      line?: number;
+    }
+  ) {
+    const { body, commitId, path, startLine, line } = comment;
+
+    return this.request(() =>
+      this.octokit.pulls.createReviewComment({
+        owner,
+        repo,
+        pull_number: pullNumber,
+        body,
+        commit_id: commitId,
+        path,
+        ...(line
+          ? {
+              line,
+              side: 'RIGHT' as const,
+              ...(startLine && startLine < line && { start_line: startLine, start_side: 'RIGHT' as const }),
+            }
+          : { subject_type: 'file' as const }),
+      })
+    );
+  }
+
+  async replyToPullRequestReviewComment(
+    owner: string,
+    repo: string,
+    pullNumber: number,
+    commentId: number,
+    body: string
+  ) {
+    return this.request(() =>
+      this.octokit.pulls.createReplyForReviewComment({
+        owner,
+        repo,
+        pull_number: pullNumber,
+        comment_id: commentId,
+        body,
+      })
+    );
+  }
+
+  /**
+   * Review threads of a pull request with their resolved state, which the
+   * REST API does not expose. Threads are identified by their first comment.
+   */
+  async listPullRequestReviewThreads(owner: string, repo: string, pullNumber: number) {
+    const threads: Array<{ id: string; isResolved: boolean; firstCommentId: number | null }> = [];
+    let cursor: string | null = null;
+
+    do {
+      const response: ReviewThreadsResponse = await this.request(() =>
+        this.octokit.graphql<ReviewThreadsResponse>(REVIEW_THREADS_QUERY, {
+          owner,
+          repo,
+          number: pullNumber,
+          cursor,
+        })
+      );
+      const page = response.repository.pullRequest.reviewThreads;
+
+      for (const thread of page.nodes) {
+        threads.push({
+          id: thread.id,
+          isResolved: thread.isResolved,
+          firstCommentId: thread.comments.nodes[0]?.databaseId ?? null,
+        });
+      }
+
+      cursor = page.pageInfo.hasNextPage ? page.pageInfo.endCursor : null;
+    } while (cursor);
+
+    return threads;
+  }
+
+  async setPullRequestReviewThreadResolved(threadId: string, resolved: boolean) {
+    const mutation = resolved
+      ? 'mutation($threadId: ID!) { resolveReviewThread(input: { threadId: $threadId }) { thread { id } } }'
+      : 'mutation($threadId: ID!) { unresolveReviewThread(input: { threadId: $threadId }) { thread { id } } }';
+
+    return this.request(() => this.octokit.graphql(mutation, { threadId }));
+  }
+
   // Compare commits
   async compareCommits(owner: string, repo: string, base: string, head: string) {
     return this.request(() =>
@@ -321,6 +652,27 @@ export class GitHubClient {
     );
   }
 
+  // Access control
+  async getCollaboratorPermission(owner: string, repo: string, username: string) {
+    return this.request(() =>
+      this.octokit.repos.getCollaboratorPermissionLevel({
+        owner,
+        repo,
+        username,
+      })
+    );
+  }
+
+  async getTeamMembership(org: string, teamSlug: string, username: string) {
+    return this.request(() =>
+      this.octokit.teams.getMembershipForUserInOrg({
+        org,
+        team_slug: teamSlug,
+        username,
+      })
+    );
+  }
+
   // User operations
   async getAuthenticatedUser() {
     return this.request(() => this.octokit.users.getAuthenticated());
@@ -0,0 +1,97 @@
+import type { GlossaryTerm, GlossaryWarning } from '@/types';
+
+/**
+ * Glossary matching, shared by the server (MT, QA) and the editor.
+ *
+ * Source terms are matched case-insensitively on word boundaries in the
+ * English text. Approved translations are matched as plain substrings, since
+ * word boundaries mean little in scripts written without spaces.
+ */
+
+export interface GlossaryTermMatch {
+  term: GlossaryTerm;
+  start: number; // Offset in the English text
+  end: number;
+}
+
+/**
+ * Whether a term is meant to stay in English
+ */
+export function isKeptInEnglish(term: GlossaryTerm): boolean {
+  return term.source.toLowerCase() === term.target.toLowerCase();
+}
+
+/**
+ * Find glossary terms in English text. Longer terms win over terms they
+ * contain ("Access Control" inside "Broken Access Control").
+ */
+export function findGlossaryTerms(text: string, terms: GlossaryTerm[]): GlossaryTermMatch[] {
+  const matches: GlossaryTermMatch[] = [];
+  const byLength = [...terms].sort((a, b) => b.source.length - a.source.length);
+
+  for (const term of byLength) {
+    const pattern = new RegExp(
+      `(?<![\\p{L}\\p{N}])${escapeRegExp(term.source)}(?![\\p{L}\\p{N}])`,
+      'giu'
+    );
+
+    for (const match of text.matchAll(pattern)) {
+      const start = match.index ?? 0;
+      const end = start + match[0].length;
+
+      if (!matches.some((existing) => start < existing.end && end > existing.start)) {
+        matches.push({ term, start, end });
+      }
+    }
+  }
+
+  return matches.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Terms used in the English text whose approved translation appears fewer
+ * times in the translation than the term does in the source
+ */
+export function checkGlossaryUsage(
+  sourceText: string,
+  translatedText: string,
+  terms: GlossaryTerm[]
+): GlossaryWarning[] {
+  if (!translatedText.trim()) {
+    return [];
+  }
+
+  const sourceCounts = new Map<GlossaryTerm, number>();
+  for (const { term } of findGlossaryTerms(sourceText, terms)) {
+    sourceCounts.set(term, (sourceCounts.get(term) || 0) + 1);
+  }
+
+  const translation = translatedText.toLocaleLowerCase();
+  const warnings: GlossaryWarning[] = [];
+
+  for (const [term, sourceCount] of sourceCounts) {
+    const targetCount = countOccurrences(translation, term.target.toLocaleLowerCase());
+
+    if (targetCount < sourceCount) {
+      warnings.push({ term, sourceCount, targetCount });
+    }
+  }
+
+  return warnings;
+}
+
+function countOccurrences(text: string, search: string): number {
+  let count = 0;
+  let index = text.indexOf(search);
+
+  while (index !== -1) {
+    count++;
+    index = text.indexOf(search, index + search.length);
+  }
+
+  return count;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
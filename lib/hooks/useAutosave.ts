@@ -1,7 +1,16 @@
 'use client';
 
 import { useEffect, useRef, useState } from 'react';
-import type { AutosaveData, AutosaveKey } from '@/types';
+import { encodeFilePath } from '@/lib/paths';
+import type {
+  AutosaveData,
+  AutosaveKey,
+  DraftHistoryData,
+  DraftRevision,
+  DraftRevisionSource,
+  DraftRevisionSummary,
+  DraftVersion,
+} from '@/types';
 
 const AUTOSAVE_INTERVAL = 30000; // 30 seconds
 const AUTOSAVE_EXPIRY = 24 * 60 * 60 * 1000; // 24 hours
@@ -10,23 +19,31 @@ function getAutosaveKey(key: AutosaveKey): string {
   return `autosave:${key.project}:${key.language}:${key.filename}`;
 }
 
-function generateFileHash(content: string): string {
-  // Simple hash function for content comparison
-  let hash = 0;
-  for (let i = 0; i < content.length; i++) {
-    const char = content.charCodeAt(i);
-    hash = (hash << 5) - hash + char;
-    hash = hash & hash; // Convert to 32-bit integer
+export function getDraftsUrl(key: AutosaveKey): string {
+  return `/api/${key.project}/translate/${key.language}/drafts/${encodeFilePath(key.filename)}`;
+}
+
+/**
+ * SHA-256 of the content, hex encoded, as the hub hashes its drafts. Empty
+ * where the browser has no Web Crypto (pages not served over HTTPS).
+ */
+export async function hashContent(content: string): Promise<string> {
+  if (!globalThis.crypto?.subtle) {
+    return '';
   }
-  return hash.toString(36);
+
+  const digest = await globalThis.crypto.subtle.digest('SHA-256', new TextEncoder().encode(content));
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('');
 }
 
-export function saveToLocalStorage(key: AutosaveKey, content: string): void {
+export async function saveToLocalStorage(key: AutosaveKey, content: string): Promise<void> {
   try {
     const data: AutosaveData = {
       content,
       timestamp: new Date().toISOString(),
-      fileHash: generateFileHash(content),
+      fileHash: await hashContent(content),
     };
 
     localStorage.setItem(getAutosaveKey(key), JSON.stringify(data));
@@ -82,6 +99,77 @@ export function hasNewerLocalVersion(
   return localTime > serverTime;
 }
 
+/**
+ * Keep a revision of the draft on the hub
+ */
+export async function saveToServer(
+  key: AutosaveKey,
+  content: string,
+  source: Exclude<DraftRevisionSource, 'restore'> = 'autosave'
+): Promise<DraftRevisionSummary> {
+  const response = await fetch(getDraftsUrl(key), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ content, source }),
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    throw new Error(data.error?.message || 'Failed to save draft');
+  }
+
+  return data.data;
+}
+
+/**
+ * Revisions of the draft kept on the hub, or null if they cannot be loaded
+ */
+export async function loadServerDrafts(key: AutosaveKey): Promise<DraftHistoryData | null> {
+  try {
+    const response = await fetch(getDraftsUrl(key));
+    if (!response.ok) return null;
+
+    const data = await response.json();
+    return data.data;
+  } catch (error) {
+    console.error('Failed to load drafts:', error);
+    return null;
+  }
+}
+
+/**
+ * Versions the editor's restore prompt offers: the browser's and the hub's
+ * drafts when they differ from GitHub and were saved after it, then the
+ * GitHub version. Empty when there is nothing to restore.
+ */
+export function getRestorableVersions(
+  github: DraftVersion,
+  local: AutosaveData | null,
+  server: DraftRevision | null
+): DraftVersion[] {
+  const isNewer = (savedAt: string) =>
+    !github.savedAt || new Date(savedAt).getTime() > new Date(github.savedAt).getTime();
+
+  const versions: DraftVersion[] = [];
+
+  if (server && server.content !== github.content && isNewer(server.createdAt)) {
+    versions.push({ source: 'server', content: server.content, savedAt: server.createdAt });
+  }
+
+  // The browser's copy is usually the one autosaved to the hub as well
+  const savedOnServer = Boolean(
+    server &&
+      local &&
+      (local.fileHash ? local.fileHash === server.hash : local.content === server.content)
+  );
+  if (local && !savedOnServer && local.content !== github.content && isNewer(local.timestamp)) {
+    versions.push({ source: 'local', content: local.content, savedAt: local.timestamp });
+  }
+
+  return versions.length > 0 ? [...versions, github] : [];
+}
+
 export function useAutosave(
   key: AutosaveKey,
   content: string,
@@ -89,6 +177,7 @@ export function useAutosave(
 ) {
   const [lastSaved, setLastSaved] = useState<Date | null>(null);
   const [isDirty, setIsDirty] = useState(false);
+  const [savedOnServer, setSavedOnServer] = useState(true);
 
   // Use refs to access latest values without recreating interval
   const contentRef = useRef(content);
@@ -109,6 +198,33 @@ export function useAutosave(
     }
   }, [content, enabled]);
 
+  // Save to the browser first, so nothing is lost if the hub is unreachable
+  const save = async () => {
+    const currentContent = contentRef.current;
+    const currentKey = keyRef.current;
+
+    isSavingRef.current = true;
+
+    try {
+      await saveToLocalStorage(currentKey, currentContent);
+      lastSavedContentRef.current = currentContent;
+      setLastSaved(new Date());
+      setIsDirty(false);
+
+      try {
+        await saveToServer(currentKey, currentContent);
+        setSavedOnServer(true);
+      } catch (error) {
+        console.error('Failed to save draft on the server:', error);
+        setSavedOnServer(false);
+      }
+    } catch (error) {
+      console.error('Autosave failed:', error);
+    } finally {
+      isSavingRef.current = false;
+    }
+  };
+
   // Set up autosave interval (only recreate when enabled changes)
   useEffect(() => {
     if (!enabled) {
@@ -116,51 +232,25 @@ export function useAutosave(
     }
 
     const interval = setInterval(() => {
-      // Use refs to access latest values
-      const currentContent = contentRef.current;
-      const currentKey = keyRef.current;
-
       // Only save if content has changed and we're not already saving
       if (
-        currentContent !== lastSavedContentRef.current &&
+        contentRef.current !== lastSavedContentRef.current &&
         !isSavingRef.current
       ) {
-        isSavingRef.current = true;
-
-        try {
-          saveToLocalStorage(currentKey, currentContent);
-          lastSavedContentRef.current = currentContent;
-          setLastSaved(new Date());
-          setIsDirty(false);
-        } catch (error) {
-          console.error('Autosave failed:', error);
-        } finally {
-          isSavingRef.current = false;
-        }
+        save();
       }
     }, AUTOSAVE_INTERVAL);
 
     return () => clearInterval(interval);
   }, [enabled]); // Only recreate interval if enabled changes
 
-  const manualSave = () => {
+  const manualSave = async () => {
     if (isSavingRef.current) {
       console.warn('Save already in progress');
       return;
     }
 
-    isSavingRef.current = true;
-
-    try {
-      saveToLocalStorage(keyRef.current, contentRef.current);
-      lastSavedContentRef.current = contentRef.current;
-      setLastSaved(new Date());
-      setIsDirty(false);
-    } catch (error) {
-      console.error('Manual save failed:', error);
-    } finally {
-      isSavingRef.current = false;
-    }
+    await save();
   };
 
   const clear = () => {
@@ -173,6 +263,7 @@ export function useAutosave(
   return {
     lastSaved,
     isDirty,
+    savedOnServer,
     manualSave,
     clear,
   };
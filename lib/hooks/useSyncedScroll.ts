@@ -0,0 +1,117 @@
+'use client';
+
+import { useCallback, useEffect, useRef } from 'react';
+
+/**
+ * The parts of a Monaco editor needed to keep panes scrolled together
+ */
+export interface ScrollableEditor {
+  getScrollTop(): number;
+  getScrollHeight(): number;
+  getLayoutInfo(): { height: number };
+  setScrollTop(scrollTop: number): void;
+  onDidScrollChange(listener: (event: { scrollTopChanged: boolean }) => void): unknown;
+  onDidDispose(listener: () => void): unknown;
+}
+
+function getMaxScrollTop(editor: ScrollableEditor): number {
+  return Math.max(0, editor.getScrollHeight() - editor.getLayoutInfo().height);
+}
+
+/**
+ * How far down an editor is scrolled, from 0 (top) to 1 (bottom)
+ */
+export function getScrollRatio(editor: ScrollableEditor): number {
+  const max = getMaxScrollTop(editor);
+  return max > 0 ? Math.min(1, editor.getScrollTop() / max) : 0;
+}
+
+/**
+ * A scrollable element, such as the Markdown preview, that can be scrolled
+ * with the editors. Call `dispose` when the element is removed.
+ */
+export function toScrollableElement(element: HTMLElement): ScrollableEditor & { dispose(): void } {
+  const disposeListeners: Array<() => void> = [];
+  let scrollListener: ((event: { scrollTopChanged: boolean }) => void) | null = null;
+  // Browsers report scrolling asynchronously, so the event from a scroll we
+  // made ourselves arrives after the editors have finished syncing
+  let ownScrollTop: number | null = null;
+
+  const handleScroll = () => {
+    if (ownScrollTop !== null && Math.abs(element.scrollTop - ownScrollTop) < 1) {
+      ownScrollTop = null;
+      return;
+    }
+    ownScrollTop = null;
+    scrollListener?.({ scrollTopChanged: true });
+  };
+  element.addEventListener('scroll', handleScroll);
+
+  return {
+    getScrollTop: () => element.scrollTop,
+    getScrollHeight: () => element.scrollHeight,
+    getLayoutInfo: () => ({ height: element.clientHeight }),
+    setScrollTop(scrollTop) {
+      if (Math.abs(element.scrollTop - scrollTop) >= 1) {
+        ownScrollTop = scrollTop;
+        element.scrollTop = scrollTop;
+      }
+    },
+    onDidScrollChange(listener) {
+      scrollListener = listener;
+    },
+    onDidDispose(listener) {
+      disposeListeners.push(listener);
+    },
+    dispose() {
+      element.removeEventListener('scroll', handleScroll);
+      disposeListeners.forEach((listener) => listener());
+    },
+  };
+}
+
+/**
+ * Scroll the registered editors together. Translations are rarely the same
+ * length as the English, so the panes follow each other proportionally
+ * rather than line by line. Returns the function to call from each editor's
+ * `onMount`.
+ */
+export function useSyncedScroll(enabled: boolean = true) {
+  const editorsRef = useRef(new Map<string, ScrollableEditor>());
+  const enabledRef = useRef(enabled);
+  const syncingRef = useRef(false);
+
+  useEffect(() => {
+    enabledRef.current = enabled;
+  }, [enabled]);
+
+  return useCallback((name: string, editor: ScrollableEditor) => {
+    const editors = editorsRef.current;
+    editors.set(name, editor);
+
+    editor.onDidDispose(() => {
+      if (editors.get(name) === editor) {
+        editors.delete(name);
+      }
+    });
+
+    editor.onDidScrollChange((event) => {
+      // Scrolling the other panes fires their own scroll events
+      if (!event.scrollTopChanged || !enabledRef.current || syncingRef.current) {
+        return;
+      }
+
+      const ratio = getScrollRatio(editor);
+      syncingRef.current = true;
+      try {
+        editors.forEach((other, otherName) => {
+          if (otherName !== name) {
+            other.setScrollTop(ratio * getMaxScrollTop(other));
+          }
+        });
+      } finally {
+        syncingRef.current = false;
+      }
+    });
+  }, []);
+}
@@ -0,0 +1,329 @@
+import { randomUUID } from 'crypto';
+import { EventEmitter } from 'events';
+import type { InitJob, InitMode, LanguageConfig, LanguageInitProgress } from '@/types';
+import { getLanguageConfig, updateLanguageConfig } from './config';
+import { createGitHubClient } from './github';
+import { updateJsonStore, readJsonStore } from './data-store';
+import { initializeLanguage, InitializationCancelledError } from './file-processing';
+
+/**
+ * Background language initialization.
+ *
+ * Jobs are stored in the `init-jobs` data store and processed one at a time
+ * by a worker in the server process. Per-file progress is saved as it
+ * happens (including the blob each translation was uploaded as), so a job
+ * interrupted by a restart is queued again and resumes with the files it had
+ * not finished. Listeners (the admin page's event stream) are notified of
+ * every change.
+ */
+
+const STORE_NAME = 'init-jobs';
+const FINISHED_JOBS_KEPT = 20; // Per project and language
+
+interface InitJobStore {
+  jobs: Record<string, InitJob>;
+}
+
+export interface EnqueueInitJobOptions {
+  project: string;
+  language: string;
+  createdBy: string;
+  mode?: InitMode;
+  sourceCommit?: string; // Resolve to a commit SHA first, so a resumed job reads the same source
+}
+
+const jobEvents = new EventEmitter();
+jobEvents.setMaxListeners(0);
+
+const controllers = new Map<string, AbortController>();
+let workerRunning = false;
+let wakeRequested = false;
+let recovered = false;
+
+function emptyStore(): InitJobStore {
+  return { jobs: {} };
+}
+
+export function isInitJobFinished(job: InitJob): boolean {
+  return job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled';
+}
+
+/**
+ * Queue a language for initialization and wake the worker
+ */
+export async function enqueueInitJob(options: EnqueueInitJobOptions): Promise<InitJob> {
+  const job: InitJob = {
+    id: randomUUID(),
+    project: options.project,
+    language: options.language,
+    status: 'queued',
+    createdBy: options.createdBy,
+    createdAt: new Date().toISOString(),
+    startedAt: null,
+    finishedAt: null,
+    mode: options.mode || 'missing',
+    sourceCommit: options.sourceCommit,
+    files: {},
+    filesProcessed: 0,
+    errors: [],
+    error: null,
+    branchUrl: null,
+    cancelRequested: false,
+    attempts: 0,
+  };
+
+  await updateJsonStore<InitJobStore>(STORE_NAME, emptyStore(), (store) => {
+    store.jobs[job.id] = job;
+    pruneFinishedJobs(store, job.project, job.language);
+    return store;
+  });
+
+  startInitWorker();
+  return job;
+}
+
+export async function getInitJob(id: string): Promise<InitJob | null> {
+  const store = await readJsonStore<InitJobStore>(STORE_NAME, emptyStore());
+  return store.jobs[id] || null;
+}
+
+/**
+ * Jobs of a project, newest first
+ */
+export async function listInitJobs(projectSlug: string): Promise<InitJob[]> {
+  const store = await readJsonStore<InitJobStore>(STORE_NAME, emptyStore());
+  return Object.values(store.jobs)
+    .filter((job) => job.project === projectSlug)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * The queued or running job for a language, if any
+ */
+export async function findActiveInitJob(
+  projectSlug: string,
+  languageCode: string
+): Promise<InitJob | null> {
+  const jobs = await listInitJobs(projectSlug);
+  return jobs.find((job) => job.language === languageCode && !isInitJobFinished(job)) || null;
+}
+
+/**
+ * Cancel a job. A queued job is cancelled right away; a running job stops
+ * before its next file.
+ */
+export async function cancelInitJob(id: string): Promise<InitJob | null> {
+  const job = await updateInitJob(id, (current) => {
+    if (isInitJobFinished(current)) {
+      return;
+    }
+
+    current.cancelRequested = true;
+    if (current.status === 'queued') {
+      current.status = 'cancelled';
+      current.finishedAt = new Date().toISOString();
+    }
+  });
+
+  controllers.get(id)?.abort();
+  return job;
+}
+
+/**
+ * Listen for changes to a job. Returns a function that stops listening.
+ */
+export function subscribeToInitJob(id: string, listener: (job: InitJob) => void): () => void {
+  jobEvents.on(id, listener);
+  return () => {
+    jobEvents.off(id, listener);
+  };
+}
+
+/**
+ * Start processing queued jobs unless the worker is already running
+ */
+export function startInitWorker(): void {
+  wakeRequested = true;
+  if (workerRunning) {
+    return;
+  }
+
+  workerRunning = true;
+  runWorker()
+    .catch((error) => console.error('Initialization worker failed:', error))
+    .finally(() => {
+      workerRunning = false;
+    });
+}
+
+async function runWorker(): Promise<void> {
+  if (!recovered) {
+    recovered = true;
+    await requeueInterruptedJobs();
+  }
+
+  for (;;) {
+    wakeRequested = false;
+    const job = await claimNextJob();
+
+    if (job) {
+      await runJob(job);
+    } else if (!wakeRequested) {
+      return;
+    }
+  }
+}
+
+/**
+ * Jobs left running by a previous server process are queued to resume
+ */
+async function requeueInterruptedJobs(): Promise<void> {
+  await updateJsonStore<InitJobStore>(STORE_NAME, emptyStore(), (store) => {
+    for (const job of Object.values(store.jobs)) {
+      if (job.status === 'running') {
+        job.status = job.cancelRequested ? 'cancelled' : 'queued';
+        if (job.cancelRequested) {
+          job.finishedAt = new Date().toISOString();
+        }
+      }
+    }
+    return store;
+  });
+}
+
+async function claimNextJob(): Promise<InitJob | null> {
+  let claimed = null as InitJob | null;
+
+  await updateJsonStore<InitJobStore>(STORE_NAME, emptyStore(), (store) => {
+    const next = Object.values(store.jobs)
+      .filter((job) => job.status === 'queued')
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))[0];
+
+    if (next) {
+      next.status = 'running';
+      next.startedAt = next.startedAt || new Date().toISOString();
+      next.attempts++;
+      claimed = next;
+    }
+    return store;
+  });
+
+  if (claimed) {
+    jobEvents.emit(claimed.id, claimed);
+  }
+  return claimed;
+}
+
+async function runJob(job: InitJob): Promise<void> {
+  const controller = new AbortController();
+  controllers.set(job.id, controller);
+
+  try {
+    const { project, language, languageCode } = getLanguageConfig(job.project, job.language);
+
+    const adminToken = process.env.GITHUB_ADMIN_TOKEN;
+    if (!adminToken) {
+      throw new Error('Admin token not configured');
+    }
+
+    const result = await initializeLanguage(createGitHubClient(adminToken), {
+      project,
+      languageCode,
+      languageName: language.name,
+      direction: language.direction,
+      coordinator: language.coordinator || job.createdBy,
+      mode: job.mode,
+      sourceCommit: job.sourceCommit,
+      translatedFiles: getTranslatedFiles(job),
+      signal: controller.signal,
+      onProgress: (progress: LanguageInitProgress) => {
+        updateInitJob(job.id, (current) => {
+          current.files[progress.filename] = progress;
+        }).catch((error) => console.error('Failed to record initialization progress:', error));
+      },
+    });
+
+    await updateInitJob(job.id, (current) => {
+      current.status = 'completed';
+      current.filesProcessed = result.filesProcessed;
+      current.errors = result.errors;
+      current.branchUrl = result.branchUrl;
+      current.finishedAt = new Date().toISOString();
+    });
+
+    if (!language.initialized) {
+      markLanguageInitialized(project.slug, languageCode);
+    }
+  } catch (error: unknown) {
+    const cancelled = error instanceof InitializationCancelledError;
+
+    await updateInitJob(job.id, (current) => {
+      current.status = cancelled ? 'cancelled' : 'failed';
+      current.error = cancelled ? null : error instanceof Error ? error.message : String(error);
+      current.finishedAt = new Date().toISOString();
+    });
+  } finally {
+    controllers.delete(job.id);
+  }
+}
+
+/**
+ * Record the first initialization of a language in the project config
+ */
+function markLanguageInitialized(projectSlug: string, languageCode: string): void {
+  try {
+    updateLanguageConfig(projectSlug, languageCode, (current) => ({
+      ...(current as LanguageConfig),
+      initialized: current?.initialized || new Date().toISOString(),
+    }));
+  } catch (error) {
+    console.error('Failed to record language initialization:', error);
+  }
+}
+
+/**
+ * Blobs uploaded by earlier runs of a job, reused when it resumes
+ */
+function getTranslatedFiles(job: InitJob): Record<string, string> {
+  const translatedFiles: Record<string, string> = {};
+  for (const file of Object.values(job.files)) {
+    if (file.status === 'complete' && file.blobSha) {
+      translatedFiles[file.filename] = file.blobSha;
+    }
+  }
+  return translatedFiles;
+}
+
+async function updateInitJob(
+  id: string,
+  update: (job: InitJob) => void
+): Promise<InitJob | null> {
+  let updated = null as InitJob | null;
+
+  await updateJsonStore<InitJobStore>(STORE_NAME, emptyStore(), (store) => {
+    const job = store.jobs[id];
+    if (job) {
+      update(job);
+      updated = job;
+    }
+    return store;
+  });
+
+  if (updated) {
+    jobEvents.emit(id, updated);
+  }
+  return updated;
+}
+
+function pruneFinishedJobs(store: InitJobStore, projectSlug: string, languageCode: string): void {
+  const finished = Object.values(store.jobs)
+    .filter(
+      (job) =>
+        job.project === projectSlug && job.language === languageCode && isInitJobFinished(job)
+    )
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+
+  for (const job of finished.slice(FINISHED_JOBS_KEPT)) {
+    delete store.jobs[job.id];
+  }
+}
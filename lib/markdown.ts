@@ -0,0 +1,383 @@
+import { unified } from 'unified';
+import remarkParse from 'remark-parse';
+import remarkGfm from 'remark-gfm';
+import remarkFrontmatter from 'remark-frontmatter';
+import type { Root, Nodes, PhrasingContent } from 'mdast';
+
+/**
+ * Markdown segmentation for machine translation.
+ *
+ * Documents are parsed into an mdast tree with source positions. Only the
+ * text inside paragraphs, headings and table cells is extracted; everything
+ * else (code, HTML blocks, front matter, link definitions, list markers,
+ * table pipes) is never sent to a translation provider. Segments are spliced
+ * back into the original source by offset, so untouched bytes stay identical.
+ *
+ * Inside a segment, inline markup is replaced with XML-style placeholders:
+ * - `<x id="n"/>` stands for an atomic span kept verbatim (inline code,
+ *   images, inline HTML, hard breaks, autolinks)
+ * - `<g id="n">...</g>` wraps translatable content whose surrounding markup
+ *   is kept verbatim (emphasis, strong, strikethrough, links)
+ */
+
+const TEXT_CONTAINERS = new Set(['paragraph', 'heading', 'tableCell']);
+const WRAPPING_NODES = new Set(['emphasis', 'strong', 'delete', 'link', 'linkReference']);
+const SECTION_IGNORED = new Set(['yaml', 'toml', 'definition']);
+
+export interface MarkdownSegment {
+  type: string; // mdast node type: paragraph, heading or tableCell
+  start: number; // Offset of the segment content in the source
+  end: number;
+  source: string; // Raw Markdown of the segment content
+}
+
+export interface TranslatableSegment extends MarkdownSegment {
+  text: string; // Segment content with placeholders, XML-escaped
+  placeholders: Record<string, string>; // `x:n`, `g:n:open` and `g:n:close` -> original Markdown
+  linePrefix: string; // Container prefix of continuation lines, e.g. "> " or "   "
+}
+
+export interface MarkdownSection {
+  heading: string; // Raw Markdown of the heading text, empty for content before the first heading
+  blocks: string[]; // Raw Markdown of each top-level block under the heading
+}
+
+export interface AlignedSegment {
+  type: string; // mdast node type: paragraph, heading or tableCell
+  source: string; // Raw Markdown of the English segment
+  translation: string; // Raw Markdown of the translated segment
+  machine: string | null; // Machine translation of the segment, null if its blocks differ
+  start: number; // Offset of the translated segment in the translation
+  end: number;
+}
+
+export interface SegmentReplacement {
+  start: number;
+  end: number;
+  content: string;
+}
+
+const processor = unified().use(remarkParse).use(remarkGfm).use(remarkFrontmatter, ['yaml', 'toml']);
+
+/**
+ * Parse Markdown into an mdast tree with source positions
+ */
+export function parseMarkdown(markdown: string): Root {
+  return processor.parse(markdown);
+}
+
+/**
+ * Collect the text-bearing blocks of a document in source order
+ */
+export function splitMarkdownSegments(markdown: string): MarkdownSegment[] {
+  const segments: MarkdownSegment[] = [];
+
+  visitTextContainers(parseMarkdown(markdown), (node) => {
+    const range = getContentRange(node);
+    if (range) {
+      segments.push({
+        type: node.type,
+        start: range.start,
+        end: range.end,
+        source: markdown.slice(range.start, range.end),
+      });
+    }
+  });
+
+  return segments;
+}
+
+/**
+ * Split a document into sections at every heading. Front matter and link
+ * definitions are not content and are left out.
+ */
+export function splitMarkdownSections(markdown: string): MarkdownSection[] {
+  const sections: MarkdownSection[] = [{ heading: '', blocks: [] }];
+
+  for (const node of parseMarkdown(markdown).children) {
+    const start = node.position?.start.offset;
+    const end = node.position?.end.offset;
+
+    if (start === undefined || end === undefined || SECTION_IGNORED.has(node.type)) {
+      continue;
+    }
+
+    if (node.type === 'heading') {
+      const range = getContentRange(node);
+      sections.push({
+        heading: range ? markdown.slice(range.start, range.end) : '',
+        blocks: [],
+      });
+    } else {
+      sections[sections.length - 1].blocks.push(markdown.slice(start, end));
+    }
+  }
+
+  // Drop the preamble when the document starts with a heading
+  return sections[0].blocks.length === 0 ? sections.slice(1) : sections;
+}
+
+/**
+ * Collect the text-bearing blocks of a document with inline markup
+ * replaced by placeholders, ready to send to a translation provider
+ */
+export function extractTranslatableSegments(markdown: string): TranslatableSegment[] {
+  const segments: TranslatableSegment[] = [];
+
+  visitTextContainers(parseMarkdown(markdown), (node) => {
+    const range = getContentRange(node);
+    if (!range || !('children' in node)) {
+      return;
+    }
+
+    const placeholders: Record<string, string> = {};
+    const state = { nextId: 1, linePrefix: '' };
+    const text = (node.children as PhrasingContent[])
+      .map((child) => serializeInline(child, markdown, placeholders, state))
+      .join('');
+
+    segments.push({
+      type: node.type,
+      start: range.start,
+      end: range.end,
+      source: markdown.slice(range.start, range.end),
+      text,
+      placeholders,
+      linePrefix: state.linePrefix,
+    });
+  });
+
+  return segments;
+}
+
+/**
+ * Turn a translated segment back into Markdown: placeholders are replaced
+ * by their original markup, XML escapes are undone and continuation lines
+ * get their container prefix back. Placeholders dropped by the provider are
+ * appended so no code spans or links are lost.
+ */
+export function restoreSegment(translated: string, segment: TranslatableSegment): string {
+  const used = new Set<string>();
+  const openGroups: string[] = [];
+  let result = '';
+
+  for (const part of translated.split(/(<x\s+id="\d+"\s*\/>|<g\s+id="\d+"\s*>|<\/g\s*>)/)) {
+    const selfClosing = part.match(/^<x\s+id="(\d+)"\s*\/>$/);
+    const opening = part.match(/^<g\s+id="(\d+)"\s*>$/);
+
+    if (selfClosing) {
+      const key = `x:${selfClosing[1]}`;
+      if (key in segment.placeholders) {
+        result += segment.placeholders[key];
+        used.add(key);
+      }
+    } else if (opening) {
+      const key = `g:${opening[1]}`;
+      if (`${key}:open` in segment.placeholders) {
+        result += segment.placeholders[`${key}:open`];
+        openGroups.push(key);
+        used.add(key);
+      }
+    } else if (/^<\/g\s*>$/.test(part)) {
+      const key = openGroups.pop();
+      if (key) {
+        result += segment.placeholders[`${key}:close`];
+      }
+    } else {
+      result += unescapeXml(part).replace(/\n/g, `\n${segment.linePrefix}`);
+    }
+  }
+
+  // Close any groups the provider left open
+  while (openGroups.length > 0) {
+    result += segment.placeholders[`${openGroups.pop()}:close`];
+  }
+
+  // Re-attach atomic spans the provider dropped
+  for (const key of Object.keys(segment.placeholders)) {
+    if (key.startsWith('x:') && !used.has(key)) {
+      result += ` ${segment.placeholders[key]}`;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Splice replacement content into the source by offset
+ */
+export function replaceSegments(markdown: string, replacements: SegmentReplacement[]): string {
+  const sorted = [...replacements].sort((a, b) => a.start - b.start);
+  let result = '';
+  let cursor = 0;
+
+  for (const replacement of sorted) {
+    result += markdown.slice(cursor, replacement.start) + replacement.content;
+    cursor = replacement.end;
+  }
+
+  return result + markdown.slice(cursor);
+}
+
+/**
+ * Line up the segments of an English file, its translation and its machine
+ * translation, for editing a translation segment by segment. Translations
+ * keep the block structure of the source; returns null when the translation's
+ * blocks no longer match the English ones. A machine translation that does
+ * not match is left out rather than misaligned.
+ */
+export function alignMarkdownSegments(
+  sourceMarkdown: string,
+  translatedMarkdown: string,
+  machineMarkdown = ''
+): AlignedSegment[] | null {
+  const sourceSegments = splitMarkdownSegments(sourceMarkdown);
+  const translatedSegments = splitMarkdownSegments(translatedMarkdown);
+  const machineSegments = splitMarkdownSegments(machineMarkdown);
+
+  const matches = (segments: MarkdownSegment[]) =>
+    segments.length === sourceSegments.length &&
+    segments.every((segment, i) => segment.type === sourceSegments[i].type);
+
+  if (sourceSegments.length === 0 || !matches(translatedSegments)) {
+    return null;
+  }
+
+  const hasMachine = matches(machineSegments);
+
+  return sourceSegments.map((segment, i) => ({
+    type: segment.type,
+    source: segment.source,
+    translation: translatedSegments[i].source,
+    machine: hasMachine ? machineSegments[i].source : null,
+    start: translatedSegments[i].start,
+    end: translatedSegments[i].end,
+  }));
+}
+
+/**
+ * Put edited segments back into the translation they were aligned with.
+ * Everything between segments (list markers, code blocks, blank lines) is
+ * kept as it was.
+ */
+export function joinAlignedSegments(translatedMarkdown: string, segments: AlignedSegment[]): string {
+  return replaceSegments(
+    translatedMarkdown,
+    segments.map((segment) => ({
+      start: segment.start,
+      end: segment.end,
+      content: segment.translation,
+    }))
+  );
+}
+
+/**
+ * Plain text of a placeholder-bearing segment, for skip checks and word counts
+ */
+export function getSegmentPlainText(segment: TranslatableSegment): string {
+  return unescapeXml(segment.text.replace(/<\/?[gx][^>]*>/g, ' ')).trim();
+}
+
+function visitTextContainers(node: Nodes, callback: (node: Nodes) => void): void {
+  if (TEXT_CONTAINERS.has(node.type)) {
+    callback(node);
+    return;
+  }
+
+  if ('children' in node) {
+    for (const child of node.children) {
+      visitTextContainers(child as Nodes, callback);
+    }
+  }
+}
+
+function getContentRange(node: Nodes): { start: number; end: number } | null {
+  if (!('children' in node) || node.children.length === 0) {
+    return null;
+  }
+
+  const first = node.children[0].position?.start.offset;
+  const last = node.children[node.children.length - 1].position?.end.offset;
+
+  if (first === undefined || last === undefined) {
+    return null;
+  }
+
+  return { start: first, end: last };
+}
+
+function serializeInline(
+  node: PhrasingContent,
+  markdown: string,
+  placeholders: Record<string, string>,
+  state: { nextId: number; linePrefix: string }
+): string {
+  const start = node.position?.start.offset ?? 0;
+  const end = node.position?.end.offset ?? 0;
+  const source = markdown.slice(start, end);
+
+  if (node.type === 'text') {
+    // Strip blockquote markers and indentation from continuation lines
+    return escapeXml(
+      source.replace(/\n([ \t>]*)/g, (_match, prefix: string) => {
+        state.linePrefix = state.linePrefix || prefix;
+        return '\n';
+      })
+    );
+  }
+
+  if (WRAPPING_NODES.has(node.type) && 'children' in node && !isAutolink(node)) {
+    const children = node.children as PhrasingContent[];
+
+    if (children.length > 0) {
+      const id = state.nextId++;
+      const childStart = children[0].position?.start.offset ?? start;
+      const childEnd = children[children.length - 1].position?.end.offset ?? end;
+
+      placeholders[`g:${id}:open`] = markdown.slice(start, childStart);
+      placeholders[`g:${id}:close`] = markdown.slice(childEnd, end);
+
+      const inner = children
+        .map((child) => serializeInline(child, markdown, placeholders, state))
+        .join('');
+
+      return `<g id="${id}">${inner}</g>`;
+    }
+  }
+
+  const id = state.nextId++;
+
+  if (node.type === 'break') {
+    // The next line's container prefix sits between the break and the next text node
+    const prefix = markdown.slice(end).match(/^[ \t>]*/)?.[0] || '';
+    state.linePrefix = state.linePrefix || prefix;
+    placeholders[`x:${id}`] = source + prefix;
+  } else {
+    placeholders[`x:${id}`] = source;
+  }
+
+  return `<x id="${id}"/>`;
+}
+
+/**
+ * `<https://owasp.org>` and bare GFM URLs are links whose text is the URL itself
+ */
+function isAutolink(node: PhrasingContent): boolean {
+  if (node.type !== 'link' || node.children.length !== 1) {
+    return false;
+  }
+
+  const child = node.children[0];
+  return (
+    child.type === 'text' &&
+    (child.value === node.url || `mailto:${child.value}` === node.url)
+  );
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function unescapeXml(text: string): string {
+  return text.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&amp;/g, '&');
+}
@@ -0,0 +1,81 @@
+import type { ParagraphAnchor } from '@/types';
+
+/**
+ * Paragraphs of a translation, for anchoring review comments. A paragraph
+ * is a run of non-blank lines, which is also how GitHub shows it in a pull
+ * request's diff. Used by the editor as well as the server, so it must not
+ * import server-only modules.
+ */
+
+const EXCERPT_LENGTH = 80;
+
+/**
+ * The paragraph containing a line (1-based), or null on a blank line
+ */
+export function getParagraphAt(content: string, lineNumber: number): ParagraphAnchor | null {
+  const lines = content.split('\n');
+  const index = lineNumber - 1;
+
+  if (index < 0 || index >= lines.length || !lines[index].trim()) {
+    return null;
+  }
+
+  let start = index;
+  while (start > 0 && lines[start - 1].trim()) {
+    start--;
+  }
+
+  let end = index;
+  while (end < lines.length - 1 && lines[end + 1].trim()) {
+    end++;
+  }
+
+  return {
+    startLine: start + 1,
+    endLine: end + 1,
+    excerpt: getExcerpt(lines.slice(start, end + 1).join('\n')),
+  };
+}
+
+/**
+ * Where an anchored paragraph is now. The translation may have changed since
+ * the comment was made, so the paragraph is looked up by its excerpt,
+ * closest to the original lines first. Returns null once it is gone.
+ */
+export function findParagraph(content: string, anchor: ParagraphAnchor): ParagraphAnchor | null {
+  const lines = content.split('\n');
+  let closest: ParagraphAnchor | null = null;
+  let closestDistance = Infinity;
+
+  lines.forEach((line, index) => {
+    const startsParagraph = line.trim() && (index === 0 || !lines[index - 1].trim());
+    if (!startsParagraph) {
+      return;
+    }
+
+    const paragraph = getParagraphAt(content, index + 1) as ParagraphAnchor;
+    const text = normalize(lines.slice(paragraph.startLine - 1, paragraph.endLine).join('\n'));
+
+    // Comments made on GitHub can point at any line of a paragraph
+    const distance =
+      anchor.startLine >= paragraph.startLine && anchor.startLine <= paragraph.endLine
+        ? 0
+        : Math.abs(paragraph.startLine - anchor.startLine);
+
+    if (text.includes(anchor.excerpt) && distance < closestDistance) {
+      closest = paragraph;
+      closestDistance = distance;
+    }
+  });
+
+  return closest;
+}
+
+function normalize(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+export function getExcerpt(paragraph: string): string {
+  const text = normalize(paragraph);
+  return text.length > EXCERPT_LENGTH ? text.slice(0, EXCERPT_LENGTH) : text;
+}
@@ -0,0 +1,13 @@
+/**
+ * File paths in URLs. Filenames are paths relative to the project's source
+ * folder, so each segment is encoded on its own and the slashes are kept for
+ * the catch-all `[...path]` routes.
+ */
+
+export function encodeFilePath(filepath: string): string {
+  return filepath.split('/').map(encodeURIComponent).join('/');
+}
+
+export function decodeFilePath(segments: string | string[]): string {
+  return (Array.isArray(segments) ? segments : [segments]).map(decodeURIComponent).join('/');
+}
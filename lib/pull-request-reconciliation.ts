@@ -0,0 +1,391 @@
+import type { ProjectConfig, ReviewState, TranslationMetadata } from '@/types';
+import { GitHubClient, createGitHubClient } from './github';
+import {
+  parseGitHubRepo,
+  getTranslationBranchName,
+  getAllProjectConfigs,
+  getActiveLanguages,
+  getPullRequestMode,
+  getFileBranchName,
+} from './config';
+import {
+  loadTranslationMetadata,
+  saveTranslationMetadata,
+  requireTranslationMetadata,
+  applyReviewTransition,
+  getReviewState,
+  ReviewStateError,
+  type ReviewTransition,
+} from './translation-metadata';
+import { getProjectAccess, hasRole } from './access';
+import { rememberReviewedFile } from './file-processing';
+import { deleteFileBranch } from './fork-management';
+
+/**
+ * Pull request reconciliation. translation.json records the pull request
+ * each file was submitted in; this brings the files' review states in line
+ * with what happened to those pull requests on GitHub:
+ *
+ * - merged: the files are merged
+ * - closed without merging: the files go back to draft (in progress) and
+ *   lose the pull request, so they can be submitted again
+ * - merged or closed in per-file mode: the file's fork branch is deleted
+ * - open: approvals and change requests made on GitHub by reviewers of the
+ *   language since the file was last submitted or reviewed are applied
+ *
+ * Runs for every initialized language every PR_RECONCILE_INTERVAL_MINUTES
+ * (default 15, 0 to disable), and on demand from the admin page.
+ */
+
+export interface PullRequestReconciliationReport {
+  pullRequests: number; // Pull requests with files waiting on them
+  updated: Array<{
+    filename: string;
+    prNumber: number;
+    from: ReviewState | null;
+    to: ReviewState;
+  }>;
+  errors: string[];
+}
+
+// An approval or change request made on GitHub, to apply to a file
+interface GitHubReviewTransition {
+  filename: string;
+  to: 'approve' | 'request-changes';
+  actor: string;
+  comment?: string;
+}
+
+// A review state change worked out from a pull request
+interface PullRequestTransition {
+  filename: string;
+  prNumber: number;
+  to: ReviewTransition;
+  actor: string;
+  comment?: string;
+}
+
+const DEFAULT_INTERVAL_MINUTES = 15;
+
+// Files waiting on their pull request
+const PENDING_STATES: ReviewState[] = ['submitted', 'in-review', 'changes-requested', 'approved'];
+
+let reconcileTimer: ReturnType<typeof setInterval> | null = null;
+let reconciling = false;
+
+function applyPullRequestTransition(
+  metadata: TranslationMetadata,
+  { filename, to, actor, comment }: PullRequestTransition
+): TranslationMetadata {
+  return applyReviewTransition(
+    metadata,
+    filename,
+    to,
+    actor,
+    // Closed pull requests are done with; the next submission opens a new one
+    to === 'close' ? { prNumber: null, prUrl: null } : {},
+    comment
+  );
+}
+
+/**
+ * Reconcile the files of a language with their pull requests and save the
+ * changes to translation.json in one commit
+ */
+export async function reconcilePullRequests(
+  githubClient: GitHubClient,
+  project: ProjectConfig,
+  languageCode: string
+): Promise<PullRequestReconciliationReport> {
+  const { owner, repo } = parseGitHubRepo(project.githubRepo);
+  const branchName = getTranslationBranchName(languageCode);
+
+  const metadata = await loadTranslationMetadata(
+    githubClient,
+    owner,
+    repo,
+    project,
+    languageCode,
+    branchName
+  );
+
+  if (!metadata) {
+    throw new Error('Translation metadata not found');
+  }
+
+  // A pull request carries all files a translator submitted together
+  const filesByPullRequest = new Map<number, string[]>();
+  for (const [filename, file] of Object.entries(metadata.files)) {
+    const state = getReviewState(file);
+    if (file.prNumber && state && PENDING_STATES.includes(state)) {
+      filesByPullRequest.set(file.prNumber, [
+        ...(filesByPullRequest.get(file.prNumber) || []),
+        filename,
+      ]);
+    }
+  }
+
+  const report: PullRequestReconciliationReport = {
+    pullRequests: filesByPullRequest.size,
+    updated: [],
+    errors: [],
+  };
+  let updated = metadata;
+  const applied: PullRequestTransition[] = [];
+  const finishedBranches: Array<{ owner: string; repo: string; branch: string }> = [];
+
+  const transition = (
+    filename: string,
+    prNumber: number,
+    to: ReviewTransition,
+    actor: string,
+    comment?: string
+  ) => {
+    const from = getReviewState(updated.files[filename]);
+    const change = { filename, prNumber, to, actor, comment };
+    updated = applyPullRequestTransition(updated, change);
+    applied.push(change);
+    report.updated.push({
+      filename,
+      prNumber,
+      from,
+      to: updated.files[filename].reviewState as ReviewState,
+    });
+  };
+
+  for (const [prNumber, filenames] of filesByPullRequest) {
+    try {
+      // Only the recorded pull requests are fetched; listing every pull
+      // request ever opened against the branch grows without bound
+      const { data: pr } = await githubClient.getPullRequest(owner, repo, prNumber);
+
+      if (pr.merged_at) {
+        const actor = pr.merged_by?.login || 'github';
+        filenames.forEach((filename) => transition(filename, prNumber, 'merge', actor));
+      } else if (pr.state === 'closed') {
+        filenames.forEach((filename) =>
+          transition(
+            filename,
+            prNumber,
+            'close',
+            'github',
+            `Pull request #${prNumber} was closed without merging`
+          )
+        );
+      } else {
+        const reviews = await getGitHubReviewTransitions(
+          githubClient,
+          project,
+          languageCode,
+          updated,
+          prNumber,
+          filenames
+        );
+        reviews.forEach(({ filename, to, actor, comment }) =>
+          transition(filename, prNumber, to, actor, comment)
+        );
+      }
+
+      // A per-file branch only ever carries one pull request
+      if (
+        getPullRequestMode(project) === 'per-file' &&
+        (pr.merged_at || pr.state === 'closed') &&
+        pr.head.repo &&
+        filenames.some((filename) => getFileBranchName(languageCode, filename) === pr.head.ref)
+      ) {
+        finishedBranches.push({
+          owner: pr.head.repo.owner.login,
+          repo: pr.head.repo.name,
+          branch: pr.head.ref,
+        });
+      }
+    } catch (error: unknown) {
+      report.errors.push(
+        `Failed to reconcile pull request #${prNumber}: ${error instanceof Error ? error.message : error}`
+      );
+    }
+  }
+
+  if (report.updated.length > 0) {
+    const saved = await saveTranslationMetadata(
+      githubClient,
+      owner,
+      repo,
+      project,
+      languageCode,
+      // Files moved on by someone else in the meantime (say, the merge
+      // webhook) are left as they are
+      (current) =>
+        applied.reduce((latest, change) => {
+          if (latest.files[change.filename]?.prNumber !== change.prNumber) {
+            return latest;
+          }
+          try {
+            return applyPullRequestTransition(latest, change);
+          } catch (error) {
+            if (error instanceof ReviewStateError) {
+              return latest;
+            }
+            throw error;
+          }
+        }, requireTranslationMetadata(current)),
+      branchName,
+      `[${languageCode}] Update ${report.updated.length} files from their pull requests`
+    );
+
+    // Approved and merged segments are offered to other files and projects
+    for (const { filename, to } of report.updated) {
+      if ((to !== 'approved' && to !== 'merged') || saved.files[filename]?.reviewState !== to) {
+        continue;
+      }
+      try {
+        await rememberReviewedFile(githubClient, project, languageCode, filename, saved);
+      } catch (error: unknown) {
+        report.errors.push(
+          `Failed to update translation memory for ${filename}: ${error instanceof Error ? error.message : error}`
+        );
+      }
+    }
+  }
+
+  for (const { owner: forkOwner, repo: forkRepo, branch } of finishedBranches) {
+    try {
+      await deleteFileBranch(githubClient, forkOwner, forkRepo, branch);
+    } catch (error: unknown) {
+      report.errors.push(
+        `Failed to delete branch ${forkOwner}:${branch}: ${error instanceof Error ? error.message : error}`
+      );
+    }
+  }
+
+  return report;
+}
+
+/**
+ * Approvals and change requests to apply from an open pull request: each
+ * reviewer's latest one made on GitHub after the file was last submitted or
+ * reviewed. Change requests win over approvals; reviews by the translator or
+ * by users who are not reviewers of the language do not count.
+ */
+async function getGitHubReviewTransitions(
+  githubClient: GitHubClient,
+  project: ProjectConfig,
+  languageCode: string,
+  metadata: TranslationMetadata,
+  prNumber: number,
+  filenames: string[]
+): Promise<GitHubReviewTransition[]> {
+  const { owner, repo } = parseGitHubRepo(project.githubRepo);
+  const reviews = await githubClient.listPullRequestReviews(owner, repo, prNumber);
+
+  // Reviews are listed oldest first
+  const latest = new Map<string, (typeof reviews)[number]>();
+  for (const review of reviews) {
+    const login = review.user?.login;
+    const decisive = review.state === 'APPROVED' || review.state === 'CHANGES_REQUESTED';
+    if (login && review.submitted_at && decisive) {
+      latest.set(login.toLowerCase(), review);
+    }
+  }
+
+  const reviewers = new Map<string, boolean>();
+  const isReviewer = async (login: string) => {
+    if (!reviewers.has(login)) {
+      const access = await getProjectAccess(project, login, githubClient);
+      reviewers.set(login, hasRole(access, 'reviewer', languageCode));
+    }
+    return reviewers.get(login);
+  };
+
+  const transitions: GitHubReviewTransition[] = [];
+
+  for (const filename of filenames) {
+    const file = metadata.files[filename];
+    const state = getReviewState(file);
+    const lastEvent = file.reviewHistory?.[file.reviewHistory.length - 1]?.at || file.lastUpdated;
+    const since = lastEvent ? new Date(lastEvent).getTime() : 0;
+
+    const counted: typeof reviews = [];
+    for (const review of latest.values()) {
+      const login = review.user?.login as string;
+      if (
+        new Date(review.submitted_at as string).getTime() > since &&
+        login.toLowerCase() !== file.lastContributor?.toLowerCase() &&
+        (await isReviewer(login))
+      ) {
+        counted.push(review);
+      }
+    }
+
+    const changesRequested = counted.find((review) => review.state === 'CHANGES_REQUESTED');
+    const approved = counted.find((review) => review.state === 'APPROVED');
+
+    const review =
+      changesRequested && state !== 'changes-requested'
+        ? changesRequested
+        : !changesRequested && approved && (state === 'submitted' || state === 'in-review')
+          ? approved
+          : null;
+
+    if (review) {
+      transitions.push({
+        filename,
+        to: review === approved ? 'approve' : 'request-changes',
+        actor: review.user?.login as string,
+        comment: review.body || undefined,
+      });
+    }
+  }
+
+  return transitions;
+}
+
+/**
+ * Reconcile every initialized language of every project
+ */
+export async function reconcileAllPullRequests(githubClient: GitHubClient): Promise<void> {
+  for (const project of getAllProjectConfigs()) {
+    for (const { code, config } of getActiveLanguages(project)) {
+      if (!config.initialized) {
+        continue;
+      }
+
+      try {
+        const report = await reconcilePullRequests(githubClient, project, code);
+        if (report.updated.length > 0) {
+          console.log(`Updated ${report.updated.length} ${project.slug}/${code} files from their pull requests`);
+        }
+        report.errors.forEach((error) => console.warn(`${project.slug}/${code}: ${error}`));
+      } catch (error) {
+        console.error(`Failed to reconcile ${project.slug}/${code} with pull requests:`, error);
+      }
+    }
+  }
+}
+
+/**
+ * Reconcile periodically in the server process. Needs GITHUB_ADMIN_TOKEN.
+ */
+export function startReconciliationWorker(): void {
+  const adminToken = process.env.GITHUB_ADMIN_TOKEN;
+  const minutes = Number(process.env.PR_RECONCILE_INTERVAL_MINUTES ?? DEFAULT_INTERVAL_MINUTES);
+
+  if (reconcileTimer || !adminToken || !(minutes > 0)) {
+    return;
+  }
+
+  reconcileTimer = setInterval(() => {
+    // Skip a round rather than overlap a slow one
+    if (reconciling) {
+      return;
+    }
+
+    reconciling = true;
+    reconcileAllPullRequests(createGitHubClient(adminToken))
+      .catch((error) => console.error('Pull request reconciliation failed:', error))
+      .finally(() => {
+        reconciling = false;
+      });
+  }, minutes * 60 * 1000);
+  reconcileTimer.unref();
+}
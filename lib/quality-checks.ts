@@ -0,0 +1,248 @@
+import type {
+  GlossaryTerm,
+  QualityCheckId,
+  QualityCheckSeverity,
+  QualityChecksConfig,
+  QualityIssue,
+  QualityReport,
+} from '@/types';
+import type { Nodes } from 'mdast';
+import { parseMarkdown, splitMarkdownSegments } from './markdown';
+import { checkGlossaryUsage, isKeptInEnglish } from './glossary';
+
+/**
+ * Quality checks on a translation, run when it is saved and before it is
+ * submitted for review. The translation is compared with its English source:
+ * the Markdown structure should be the same (headings, code blocks, links,
+ * images and URLs), code and inline code must not be translated, paragraphs
+ * should not be left in English and glossary terms should use their approved
+ * translation. Projects choose which checks block a pull request.
+ */
+
+export class QualityCheckError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'QualityCheckError';
+  }
+}
+
+export const DEFAULT_QUALITY_CHECKS: Record<QualityCheckId, QualityCheckSeverity> = {
+  headings: 'warning',
+  codeBlocks: 'warning',
+  codeContent: 'warning',
+  links: 'warning',
+  images: 'warning',
+  urls: 'warning',
+  untranslated: 'warning',
+  placeholders: 'warning',
+  glossary: 'warning',
+};
+
+export const QUALITY_CHECK_IDS = Object.keys(DEFAULT_QUALITY_CHECKS) as QualityCheckId[];
+
+export const QUALITY_CHECK_SEVERITIES: QualityCheckSeverity[] = ['blocking', 'warning', 'off'];
+
+// Paragraphs shorter than this are often names or terms kept in English
+const UNTRANSLATED_MIN_WORDS = 4;
+const EXCERPT_LENGTH = 60;
+
+interface MarkdownStructure {
+  headings: number;
+  codeBlocks: string[];
+  links: number;
+  images: number;
+  urls: string[];
+  placeholders: string[]; // Inline code and HTML
+}
+
+function getStructure(markdown: string): MarkdownStructure {
+  const structure: MarkdownStructure = {
+    headings: 0,
+    codeBlocks: [],
+    links: 0,
+    images: 0,
+    urls: [],
+    placeholders: [],
+  };
+
+  const visit = (node: Nodes) => {
+    switch (node.type) {
+      case 'heading':
+        structure.headings++;
+        break;
+      case 'code':
+        structure.codeBlocks.push(node.value);
+        break;
+      case 'link':
+      case 'linkReference':
+        structure.links++;
+        break;
+      case 'image':
+      case 'imageReference':
+        structure.images++;
+        break;
+      case 'inlineCode':
+        structure.placeholders.push(`\`${node.value}\``);
+        break;
+      case 'html':
+        structure.placeholders.push(node.value);
+        break;
+    }
+
+    if ('url' in node) {
+      structure.urls.push(node.url);
+    }
+
+    if ('children' in node) {
+      node.children.forEach((child) => visit(child as Nodes));
+    }
+  };
+
+  visit(parseMarkdown(markdown));
+  return structure;
+}
+
+// Items of `expected` that `actual` has fewer of, each listed once
+function findMissing(expected: string[], actual: string[]): string[] {
+  const remaining = new Map<string, number>();
+  for (const item of actual) {
+    remaining.set(item, (remaining.get(item) || 0) + 1);
+  }
+
+  const missing = new Set<string>();
+  for (const item of expected) {
+    const count = remaining.get(item) || 0;
+    if (count === 0) {
+      missing.add(item);
+    } else {
+      remaining.set(item, count - 1);
+    }
+  }
+
+  return [...missing];
+}
+
+function excerpt(text: string): string {
+  const line = text.replace(/\s+/g, ' ').trim();
+  return line.length > EXCERPT_LENGTH ? `${line.slice(0, EXCERPT_LENGTH - 1)}…` : line;
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+function compareCounts(noun: string, source: number, translation: number): string[] {
+  return source === translation
+    ? []
+    : [`The translation has ${plural(translation, noun)}; the English source has ${source}`];
+}
+
+function findUntranslated(sourceMarkdown: string, translatedMarkdown: string): string[] {
+  const normalize = (text: string) => text.replace(/\s+/g, ' ').trim();
+  const english = new Set(splitMarkdownSegments(sourceMarkdown).map((segment) => normalize(segment.source)));
+
+  return splitMarkdownSegments(translatedMarkdown)
+    .filter(
+      (segment) =>
+        segment.type !== 'tableCell' &&
+        english.has(normalize(segment.source)) &&
+        segment.source.split(/\s+/).filter((word) => /[a-zA-Z]{2,}/.test(word)).length >=
+          UNTRANSLATED_MIN_WORDS
+    )
+    .map((segment) => `Still in English: "${excerpt(segment.source)}"`);
+}
+
+/**
+ * Severity of each check for a project, with the defaults filled in
+ */
+export function getQualityCheckSeverities(
+  config: QualityChecksConfig = {}
+): Record<QualityCheckId, QualityCheckSeverity> {
+  return { ...DEFAULT_QUALITY_CHECKS, ...config };
+}
+
+/**
+ * Check a translation against its English source
+ */
+export function runQualityChecks(
+  sourceMarkdown: string,
+  translatedMarkdown: string,
+  glossary: GlossaryTerm[],
+  config: QualityChecksConfig = {}
+): QualityReport {
+  const severities = getQualityCheckSeverities(config);
+  const source = getStructure(sourceMarkdown);
+  const translation = getStructure(translatedMarkdown);
+
+  const checks: Record<QualityCheckId, () => string[]> = {
+    headings: () => compareCounts('heading', source.headings, translation.headings),
+    codeBlocks: () =>
+      compareCounts('code block', source.codeBlocks.length, translation.codeBlocks.length),
+    codeContent: () =>
+      findMissing(source.codeBlocks, translation.codeBlocks).map(
+        (code) => `Code block changed or missing: "${excerpt(code)}"`
+      ),
+    links: () => compareCounts('link', source.links, translation.links),
+    images: () => compareCounts('image', source.images, translation.images),
+    urls: () => [
+      ...findMissing(source.urls, translation.urls).map((url) => `URL missing: ${url}`),
+      ...findMissing(translation.urls, source.urls).map((url) => `URL not in the English source: ${url}`),
+    ],
+    untranslated: () => findUntranslated(sourceMarkdown, translatedMarkdown),
+    placeholders: () =>
+      findMissing(source.placeholders, translation.placeholders).map(
+        (placeholder) => `Inline code or HTML changed or missing: ${excerpt(placeholder)}`
+      ),
+    glossary: () =>
+      checkGlossaryUsage(sourceMarkdown, translatedMarkdown, glossary).map(
+        ({ term, sourceCount, targetCount }) =>
+          (isKeptInEnglish(term)
+            ? `"${term.source}" should be kept in English`
+            : `"${term.source}" should be translated as "${term.target}"`) +
+          ` (used ${targetCount} of ${sourceCount} times)`
+      ),
+  };
+
+  const issues: QualityIssue[] = [];
+  for (const check of QUALITY_CHECK_IDS) {
+    const severity = severities[check];
+    if (severity === 'off') {
+      continue;
+    }
+
+    for (const message of checks[check]()) {
+      issues.push({ check, severity, message });
+    }
+  }
+
+  return {
+    issues,
+    blocking: issues.filter((issue) => issue.severity === 'blocking').length,
+    warnings: issues.filter((issue) => issue.severity === 'warning').length,
+  };
+}
+
+/**
+ * Why a translation cannot be submitted, for error messages
+ */
+export function formatBlockingIssues(filename: string, report: QualityReport): string {
+  const messages = report.issues
+    .filter((issue) => issue.severity === 'blocking')
+    .map((issue) => issue.message);
+
+  return `${filename} failed quality checks: ${messages.join('; ')}`;
+}
+
+/**
+ * Markdown section for pull request descriptions
+ */
+export function formatQualityReport(reports: Array<{ filename: string; report: QualityReport }>): string {
+  const lines = reports.flatMap(({ filename, report }) =>
+    report.issues.map(
+      (issue) =>
+        `- ${issue.severity === 'blocking' ? '⛔' : '⚠️'} ${reports.length > 1 ? `**${filename}**: ` : ''}${issue.message}`
+    )
+  );
+
+  return `## Quality checks\n${lines.length > 0 ? lines.join('\n') : '- ✅ All checks passed'}\n`;
+}
@@ -0,0 +1,391 @@
+import { randomUUID } from 'crypto';
+import type {
+  ProjectConfig,
+  ParagraphAnchor,
+  ReviewComment,
+  ReviewThread,
+} from '@/types';
+import { GitHubClient } from './github';
+import { parseGitHubRepo, getTranslationFilePath, toRepoPath } from './config';
+import { readJsonStore, updateJsonStore } from './data-store';
+import { getExcerpt } from './paragraphs';
+
+/**
+ * Review comments anchored to paragraphs of a translation. Threads are kept
+ * in the data store so translators see them in the editor, and are synced
+ * with the review comments of the file's pull request: comments made in the
+ * hub are posted to GitHub with the author's own account, comments made on
+ * GitHub are imported, and resolving a thread resolves it on both sides.
+ */
+
+interface ReviewCommentStore {
+  version: string;
+  files: Record<string, ReviewThread[]>; // Keyed by filename
+}
+
+type GitHubReviewComment = Awaited<
+  ReturnType<GitHubClient['listPullRequestReviewComments']>
+>[number];
+
+function getStoreName(project: ProjectConfig, languageCode: string): string {
+  return `review-comments/${project.slug}/${languageCode}`;
+}
+
+function createEmptyStore(): ReviewCommentStore {
+  return { version: '1.0', files: {} };
+}
+
+/**
+ * Review threads of a file as last synced
+ */
+export async function loadReviewThreads(
+  project: ProjectConfig,
+  languageCode: string,
+  filename: string
+): Promise<ReviewThread[]> {
+  const store = await readJsonStore(getStoreName(project, languageCode), createEmptyStore());
+  return store.files[filename] || [];
+}
+
+async function updateReviewThreads(
+  project: ProjectConfig,
+  languageCode: string,
+  filename: string,
+  update: (threads: ReviewThread[]) => ReviewThread[] | Promise<ReviewThread[]>
+): Promise<ReviewThread[]> {
+  const store = await updateJsonStore(
+    getStoreName(project, languageCode),
+    createEmptyStore(),
+    async (current) => ({
+      ...current,
+      files: { ...current.files, [filename]: await update(current.files[filename] || []) },
+    })
+  );
+
+  return store.files[filename];
+}
+
+function findThread(threads: ReviewThread[], threadId: string): ReviewThread {
+  const thread = threads.find((candidate) => candidate.id === threadId);
+  if (!thread) {
+    throw new Error(`Review thread not found: ${threadId}`);
+  }
+  return thread;
+}
+
+/**
+ * Bring a file's threads up to date with its pull request: import new and
+ * edited comments, drop deleted ones, take over the resolved state, and post
+ * the user's own comments made before the pull request existed.
+ */
+export async function syncReviewThreads(
+  githubClient: GitHubClient,
+  project: ProjectConfig,
+  languageCode: string,
+  filename: string,
+  prNumber: number,
+  username: string
+): Promise<ReviewThread[]> {
+  const { owner, repo } = parseGitHubRepo(project.githubRepo);
+  const path = toRepoPath(getTranslationFilePath(project, languageCode, filename));
+
+  const [allComments, githubThreads] = await Promise.all([
+    githubClient.listPullRequestReviewComments(owner, repo, prNumber),
+    githubClient.listPullRequestReviewThreads(owner, repo, prNumber),
+  ]);
+  const githubComments = allComments
+    .filter((comment) => comment.path === path)
+    .sort((a, b) => a.id - b.id);
+  const githubIds = new Set(githubComments.map((comment) => comment.id));
+
+  return updateReviewThreads(project, languageCode, filename, async (current) => {
+    // Comments deleted on GitHub go away here too
+    const threads = current
+      .map((thread) => ({
+        ...thread,
+        comments: thread.comments.filter(
+          (comment) =>
+            !comment.githubCommentId ||
+            thread.prNumber !== prNumber ||
+            githubIds.has(comment.githubCommentId)
+        ),
+      }))
+      .filter((thread) => thread.comments.length > 0);
+
+    const threadOfComment = new Map<number, ReviewThread>();
+    for (const thread of threads) {
+      for (const comment of thread.comments) {
+        if (comment.githubCommentId) {
+          threadOfComment.set(comment.githubCommentId, thread);
+        }
+      }
+    }
+
+    for (const githubComment of githubComments) {
+      const known = threadOfComment.get(githubComment.id);
+      if (known) {
+        const comment = known.comments.find((c) => c.githubCommentId === githubComment.id);
+        if (comment) {
+          comment.body = githubComment.body;
+        }
+        continue;
+      }
+
+      const comment = fromGitHubComment(githubComment);
+      const parent = githubComment.in_reply_to_id
+        ? threadOfComment.get(githubComment.in_reply_to_id)
+        : undefined;
+
+      if (parent) {
+        parent.comments.push(comment);
+        threadOfComment.set(githubComment.id, parent);
+      } else {
+        const thread: ReviewThread = {
+          id: randomUUID(),
+          anchor: getGitHubAnchor(githubComment),
+          resolved: false,
+          resolvedBy: null,
+          prNumber,
+          githubThreadId: null,
+          comments: [comment],
+        };
+        threads.push(thread);
+        threadOfComment.set(githubComment.id, thread);
+      }
+    }
+
+    for (const githubThread of githubThreads) {
+      const thread = githubThread.firstCommentId
+        ? threadOfComment.get(githubThread.firstCommentId)
+        : undefined;
+
+      if (thread) {
+        thread.githubThreadId = githubThread.id;
+        if (thread.resolved !== githubThread.isResolved) {
+          thread.resolved = githubThread.isResolved;
+          thread.resolvedBy = null;
+        }
+      }
+    }
+
+    // Post what the user wrote while the file had no pull request
+    for (const thread of threads) {
+      for (const comment of thread.comments) {
+        if (!comment.githubCommentId && comment.author.toLowerCase() === username.toLowerCase()) {
+          try {
+            await postComment(githubClient, project, languageCode, filename, prNumber, thread, comment);
+          } catch (error) {
+            console.warn(`Failed to post review comment ${comment.id} to PR #${prNumber}:`, error);
+          }
+        }
+      }
+    }
+
+    return threads;
+  });
+}
+
+/**
+ * Start a thread on a paragraph, or on the whole file without an anchor
+ */
+export async function createReviewThread(
+  githubClient: GitHubClient,
+  project: ProjectConfig,
+  languageCode: string,
+  filename: string,
+  prNumber: number | null,
+  anchor: ParagraphAnchor | null,
+  author: string,
+  body: string
+): Promise<ReviewThread> {
+  const thread: ReviewThread = {
+    id: randomUUID(),
+    anchor,
+    resolved: false,
+    resolvedBy: null,
+    prNumber,
+    githubThreadId: null,
+    comments: [createComment(author, body)],
+  };
+
+  if (prNumber) {
+    await postComment(githubClient, project, languageCode, filename, prNumber, thread, thread.comments[0]);
+  }
+
+  await updateReviewThreads(project, languageCode, filename, (threads) => [...threads, thread]);
+
+  return thread;
+}
+
+/**
+ * Add a reply to a thread
+ */
+export async function replyToReviewThread(
+  githubClient: GitHubClient,
+  project: ProjectConfig,
+  languageCode: string,
+  filename: string,
+  threadId: string,
+  author: string,
+  body: string
+): Promise<ReviewThread> {
+  const thread = findThread(await loadReviewThreads(project, languageCode, filename), threadId);
+  const comment = createComment(author, body);
+
+  if (thread.prNumber && thread.comments[0].githubCommentId) {
+    await postComment(githubClient, project, languageCode, filename, thread.prNumber, thread, comment);
+  }
+
+  const threads = await updateReviewThreads(project, languageCode, filename, (current) =>
+    current.map((candidate) =>
+      candidate.id === threadId
+        ? { ...candidate, comments: [...candidate.comments, comment] }
+        : candidate
+    )
+  );
+
+  return findThread(threads, threadId);
+}
+
+/**
+ * Resolve or reopen a thread, on GitHub too once it has been posted there
+ */
+export async function setReviewThreadResolved(
+  githubClient: GitHubClient,
+  project: ProjectConfig,
+  languageCode: string,
+  filename: string,
+  threadId: string,
+  resolved: boolean,
+  username: string
+): Promise<ReviewThread> {
+  const thread = findThread(await loadReviewThreads(project, languageCode, filename), threadId);
+  let githubThreadId = thread.githubThreadId;
+  const firstCommentId = thread.comments[0].githubCommentId;
+
+  if (thread.prNumber && firstCommentId) {
+    if (!githubThreadId) {
+      const { owner, repo } = parseGitHubRepo(project.githubRepo);
+      const githubThreads = await githubClient.listPullRequestReviewThreads(owner, repo, thread.prNumber);
+      githubThreadId = githubThreads.find((t) => t.firstCommentId === firstCommentId)?.id || null;
+    }
+
+    if (githubThreadId) {
+      await githubClient.setPullRequestReviewThreadResolved(githubThreadId, resolved);
+    }
+  }
+
+  const threads = await updateReviewThreads(project, languageCode, filename, (current) =>
+    current.map((candidate) =>
+      candidate.id === threadId
+        ? { ...candidate, resolved, resolvedBy: resolved ? username : null, githubThreadId }
+        : candidate
+    )
+  );
+
+  return findThread(threads, threadId);
+}
+
+function createComment(author: string, body: string): ReviewComment {
+  return {
+    id: randomUUID(),
+    author,
+    body,
+    createdAt: new Date().toISOString(),
+    githubCommentId: null,
+    url: null,
+  };
+}
+
+/**
+ * Post a comment of a thread to the pull request and record its GitHub ID.
+ * The first comment of a thread starts a review comment on the paragraph's
+ * lines; lines outside the pull request's diff can only be commented on as
+ * part of the whole file, so the paragraph is quoted instead.
+ */
+async function postComment(
+  githubClient: GitHubClient,
+  project: ProjectConfig,
+  languageCode: string,
+  filename: string,
+  prNumber: number,
+  thread: ReviewThread,
+  comment: ReviewComment
+): Promise<void> {
+  const { owner, repo } = parseGitHubRepo(project.githubRepo);
+  const root = thread.comments[0];
+
+  let response;
+  if (comment !== root && root.githubCommentId) {
+    response = await githubClient.replyToPullRequestReviewComment(
+      owner,
+      repo,
+      prNumber,
+      root.githubCommentId,
+      comment.body
+    );
+  } else {
+    const { data: pullRequest } = await githubClient.getPullRequest(owner, repo, prNumber);
+    const review = {
+      body: comment.body,
+      commitId: pullRequest.head.sha,
+      path: toRepoPath(getTranslationFilePath(project, languageCode, filename)),
+    };
+
+    try {
+      response = await githubClient.createPullRequestReviewComment(owner, repo, prNumber, {
+        ...review,
+        startLine: thread.anchor?.startLine,
+        line: thread.anchor?.endLine,
+      });
+    } catch (error: unknown) {
+      if ((error as { status?: number }).status !== 422 || !thread.anchor) {
+        throw error;
+      }
+      response = await githubClient.createPullRequestReviewComment(owner, repo, prNumber, {
+        ...review,
+        body: `> ${thread.anchor.excerpt}…\n\n${comment.body}`,
+      });
+    }
+  }
+
+  comment.githubCommentId = response.data.id;
+  comment.url = response.data.html_url;
+  thread.prNumber = prNumber;
+}
+
+function fromGitHubComment(githubComment: GitHubReviewComment): ReviewComment {
+  return {
+    id: randomUUID(),
+    author: githubComment.user?.login || 'ghost',
+    body: githubComment.body,
+    createdAt: githubComment.created_at,
+    githubCommentId: githubComment.id,
+    url: githubComment.html_url,
+  };
+}
+
+/**
+ * Paragraph anchor of a comment made on GitHub. Comments on lines that have
+ * changed since keep their original lines. The excerpt is taken from the
+ * commented lines at the end of the diff hunk.
+ */
+export function getGitHubAnchor(githubComment: GitHubReviewComment): ParagraphAnchor | null {
+  const endLine = githubComment.line ?? githubComment.original_line;
+  if (githubComment.subject_type === 'file' || !endLine) {
+    return null;
+  }
+
+  const startLine = githubComment.start_line ?? githubComment.original_start_line ?? endLine;
+  const headLines = githubComment.diff_hunk
+    .split('\n')
+    .slice(1)
+    .filter((line) => !line.startsWith('-'))
+    .map((line) => line.slice(1));
+
+  return {
+    startLine,
+    endLine,
+    excerpt: getExcerpt(headLines.slice(-(endLine - startLine + 1)).join('\n')),
+  };
+}
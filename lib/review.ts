@@ -0,0 +1,191 @@
+import type {
+  ProjectConfig,
+  TranslationMetadata,
+  TranslationFileMetadata,
+  ReviewAction,
+  ReviewState,
+  ReviewQueueItem,
+} from '@/types';
+import { GitHubClient } from './github';
+import { parseGitHubRepo, getTranslationBranchName, matchesFilePattern } from './config';
+import {
+  loadTranslationMetadata,
+  saveTranslationMetadata,
+  requireTranslationMetadata,
+  applyReviewTransition,
+  getReviewState,
+  getNextReviewState,
+  ReviewStateError,
+} from './translation-metadata';
+import { rememberReviewedFile } from './file-processing';
+
+/**
+ * Reviewer workflow. Translations submitted in a pull request wait in the
+ * language's review queue until a reviewer approves them or requests
+ * changes. Each action is also posted as a review on the pull request, so
+ * GitHub branch protection can require the approvals before merging.
+ */
+
+// Review queue order: what needs a reviewer first
+const QUEUE_ORDER: ReviewState[] = ['submitted', 'in-review', 'changes-requested', 'approved'];
+
+/**
+ * Files waiting for or going through review, oldest first within each state
+ */
+export function getReviewQueue(
+  metadata: TranslationMetadata,
+  project: ProjectConfig
+): ReviewQueueItem[] {
+  const items: ReviewQueueItem[] = [];
+
+  for (const [filename, file] of Object.entries(metadata.files)) {
+    const reviewState = getReviewState(file);
+    if (!reviewState || !QUEUE_ORDER.includes(reviewState) || !matchesFilePattern(project, filename)) {
+      continue;
+    }
+
+    const lastComment = [...(file.reviewHistory || [])].reverse().find((event) => event.comment);
+
+    items.push({
+      filename,
+      reviewState,
+      lastContributor: file.lastContributor,
+      lastUpdated: file.lastUpdated,
+      reviewer: file.reviewer || null,
+      prNumber: file.prNumber,
+      prUrl: file.prUrl,
+      wordCount: file.wordCount,
+      lastComment: lastComment?.comment || null,
+    });
+  }
+
+  return items.sort(
+    (a, b) =>
+      QUEUE_ORDER.indexOf(a.reviewState) - QUEUE_ORDER.indexOf(b.reviewState) ||
+      (a.lastUpdated || '').localeCompare(b.lastUpdated || '')
+  );
+}
+
+/**
+ * GitHub review posted for an action on a file. A pull request can carry
+ * several files of a language, so it is only approved once all of its
+ * files are; approving the others leaves a comment.
+ */
+export function getPullRequestReviewEvent(
+  metadata: TranslationMetadata,
+  filename: string,
+  action: ReviewAction
+): 'APPROVE' | 'REQUEST_CHANGES' | 'COMMENT' | null {
+  if (action === 'start-review') {
+    return null;
+  }
+  if (action === 'request-changes') {
+    return 'REQUEST_CHANGES';
+  }
+
+  const prNumber = metadata.files[filename].prNumber;
+  const pending = Object.entries(metadata.files).filter(
+    ([name, file]) =>
+      name !== filename &&
+      file.prNumber === prNumber &&
+      getReviewState(file) !== 'approved' &&
+      getReviewState(file) !== 'merged'
+  );
+
+  return pending.length === 0 ? 'APPROVE' : 'COMMENT';
+}
+
+/**
+ * Start reviewing, approve or request changes to a file. The review is
+ * posted to GitHub with the reviewer's own client; translation.json is
+ * updated with the admin client.
+ */
+export async function reviewFile(
+  userClient: GitHubClient,
+  adminClient: GitHubClient,
+  project: ProjectConfig,
+  languageCode: string,
+  filename: string,
+  action: ReviewAction,
+  reviewer: string,
+  comment?: string
+): Promise<TranslationFileMetadata> {
+  const { owner, repo } = parseGitHubRepo(project.githubRepo);
+  const branchName = getTranslationBranchName(languageCode);
+
+  const metadata = await loadTranslationMetadata(
+    adminClient,
+    owner,
+    repo,
+    project,
+    languageCode,
+    branchName
+  );
+
+  if (!metadata) {
+    throw new Error('Translation metadata not found');
+  }
+
+  const file = metadata.files[filename];
+  if (!file) {
+    throw new Error(`File not found in translation metadata: ${filename}`);
+  }
+
+  if (file.lastContributor && file.lastContributor.toLowerCase() === reviewer.toLowerCase()) {
+    throw new Error('Unauthorized: You cannot review your own translation');
+  }
+
+  // Check the transition before anything is posted to GitHub
+  getNextReviewState(getReviewState(file), action);
+
+  const event = getPullRequestReviewEvent(metadata, filename, action);
+  if (event) {
+    if (!file.prNumber) {
+      throw new ReviewStateError(`${filename} has no pull request to review`);
+    }
+
+    await userClient.createPullRequestReview(
+      owner,
+      repo,
+      file.prNumber,
+      event,
+      formatReviewBody(filename, action, comment)
+    );
+  }
+
+  const messages: Record<ReviewAction, string> = {
+    'start-review': `Start review of ${filename}`,
+    approve: `Approve ${filename}`,
+    'request-changes': `Request changes to ${filename}`,
+  };
+
+  // Applied to the latest metadata, in case it changed since it was loaded
+  const updated = await saveTranslationMetadata(
+    adminClient,
+    owner,
+    repo,
+    project,
+    languageCode,
+    (current) =>
+      applyReviewTransition(requireTranslationMetadata(current), filename, action, reviewer, {}, comment),
+    branchName,
+    `[${languageCode}] ${messages[action]}`
+  );
+
+  // Approved segments are offered to other files and projects
+  if (action === 'approve') {
+    try {
+      await rememberReviewedFile(adminClient, project, languageCode, filename, updated);
+    } catch (error) {
+      console.error(`Failed to update translation memory for ${filename}:`, error);
+    }
+  }
+
+  return updated.files[filename];
+}
+
+function formatReviewBody(filename: string, action: ReviewAction, comment?: string): string {
+  const heading =
+    action === 'approve' ? `Approved \`${filename}\`` : `Changes requested in \`${filename}\``;
+  return comment ? `${heading}\n\n${comment}` : heading;
+}
@@ -0,0 +1,469 @@
+import type {
+  ProjectConfig,
+  TranslationMetadata,
+  SourceBlockChange,
+  SourceSectionDiff,
+  SourceDriftData,
+} from '@/types';
+import { GitHubClient, type CommitFileChange } from './github';
+import {
+  parseGitHubRepo,
+  getSourceFilePath,
+  getMachineTranslationFilePath,
+  getTranslationBranchName,
+  toRepoPath,
+} from './config';
+import { splitMarkdownSections } from './markdown';
+import { getTranslationService } from './translation';
+import {
+  loadTranslationMetadata,
+  saveTranslationMetadata,
+  requireTranslationMetadata,
+  getFileSourceCommit,
+} from './translation-metadata';
+import {
+  loadTranslationMemory,
+  findExactMatch,
+  alignSegments,
+  normalizeSegment,
+} from './translation-memory';
+import { getFileContentAsText, loadGlossary } from './file-processing';
+
+/**
+ * Source drift: which translations are based on an older version of the
+ * English source than the head of the project's source branch.
+ *
+ * Each file's translation is based on `sourceCommitSha` in its metadata
+ * (falling back to the language-wide `meta.sourceCommitSha` recorded at
+ * initialization). Files whose source changed between that commit and the
+ * source branch head are marked `outdated` until a new translation is submitted.
+ */
+
+// Most files GitHub lists in a comparison
+const COMPARE_FILE_LIMIT = 300;
+
+export interface DetectSourceDriftOptions {
+  translateChanges?: boolean; // Machine-translate changed paragraphs into the tmp folder
+}
+
+export interface SourceDriftReport {
+  headSha: string;
+  outdated: string[];
+  translated: string[]; // Files whose tmp machine translation was refreshed
+  errors: string[];
+}
+
+/**
+ * Set the outdated flags on the latest metadata, except on files submitted
+ * against a newer source since the flags were worked out
+ */
+function applyOutdatedFlags(
+  metadata: TranslationMetadata,
+  flags: Map<string, { baseSha: string; outdated: boolean }>
+): TranslationMetadata {
+  const files = { ...metadata.files };
+  let changed = false;
+
+  for (const [filename, { baseSha, outdated }] of flags) {
+    const file = files[filename];
+    if (file && getFileSourceCommit(metadata, filename) === baseSha && Boolean(file.outdated) !== outdated) {
+      files[filename] = { ...file, outdated };
+      changed = true;
+    }
+  }
+
+  return changed ? { ...metadata, files, lastUpdated: new Date().toISOString() } : metadata;
+}
+
+/**
+ * Which of the given paths changed between two commits. GitHub lists at most
+ * COMPARE_FILE_LIMIT files in a comparison, so after larger changes the
+ * paths' blob SHAs at both commits are compared instead.
+ */
+async function getChangedPaths(
+  githubClient: GitHubClient,
+  owner: string,
+  repo: string,
+  baseSha: string,
+  headSha: string,
+  paths: string[]
+): Promise<Set<string>> {
+  const comparison = await githubClient.compareCommits(owner, repo, baseSha, headSha);
+  const files = comparison.data.files || [];
+
+  if (files.length < COMPARE_FILE_LIMIT) {
+    return new Set(files.map((file) => file.filename));
+  }
+
+  const [baseBlobs, headBlobs] = await Promise.all([
+    getBlobShas(githubClient, owner, repo, baseSha, paths),
+    getBlobShas(githubClient, owner, repo, headSha, paths),
+  ]);
+  return new Set(paths.filter((path) => baseBlobs.get(path) !== headBlobs.get(path)));
+}
+
+/**
+ * Blob SHA of each of the paths at a commit; paths missing there have none
+ */
+async function getBlobShas(
+  githubClient: GitHubClient,
+  owner: string,
+  repo: string,
+  commitSha: string,
+  paths: string[]
+): Promise<Map<string, string>> {
+  const tree = await githubClient.getTree(owner, repo, commitSha, true);
+  const blobs = new Map<string, string>();
+
+  if (!tree.data.truncated) {
+    for (const entry of tree.data.tree) {
+      if (entry.type === 'blob' && entry.path && entry.sha) {
+        blobs.set(entry.path, entry.sha);
+      }
+    }
+    return blobs;
+  }
+
+  // Too large to list at once; look the files up one by one
+  for (const path of paths) {
+    try {
+      const { data } = await githubClient.getFileContent(owner, repo, path, commitSha);
+      if (!Array.isArray(data)) {
+        blobs.set(path, data.sha);
+      }
+    } catch (error: unknown) {
+      if ((error as { status?: number }).status !== 404) {
+        throw error;
+      }
+    }
+  }
+  return blobs;
+}
+
+/**
+ * Compare every file of a language against the source branch head, record
+ * the result in translation.json and optionally refresh machine translations
+ */
+export async function detectSourceDrift(
+  githubClient: GitHubClient,
+  project: ProjectConfig,
+  languageCode: string,
+  options: DetectSourceDriftOptions = {}
+): Promise<SourceDriftReport> {
+  const { owner, repo } = parseGitHubRepo(project.githubRepo);
+  const branchName = getTranslationBranchName(languageCode);
+
+  const metadata = await loadTranslationMetadata(
+    githubClient,
+    owner,
+    repo,
+    project,
+    languageCode,
+    branchName
+  );
+
+  if (!metadata) {
+    throw new Error('Translation metadata not found');
+  }
+
+  const head = await githubClient.getBranch(owner, repo, project.sourceBranch);
+  const headSha = head.data.commit.sha;
+
+  // One comparison per distinct base commit, usually just the initialization commit
+  const sourcePathsByBase = new Map<string, string[]>();
+  for (const filename of Object.keys(metadata.files)) {
+    const baseSha = getFileSourceCommit(metadata, filename);
+    if (baseSha !== headSha) {
+      sourcePathsByBase.set(baseSha, [
+        ...(sourcePathsByBase.get(baseSha) || []),
+        toRepoPath(getSourceFilePath(project, filename)),
+      ]);
+    }
+  }
+
+  const changedPaths = new Map<string, Set<string>>();
+  for (const [baseSha, sourcePaths] of sourcePathsByBase) {
+    changedPaths.set(
+      baseSha,
+      await getChangedPaths(githubClient, owner, repo, baseSha, headSha, sourcePaths)
+    );
+  }
+
+  const outdated: string[] = [];
+  // Each flag holds for the source commit it was worked out against
+  const flags = new Map<string, { baseSha: string; outdated: boolean }>();
+
+  for (const [filename, file] of Object.entries(metadata.files)) {
+    const baseSha = getFileSourceCommit(metadata, filename);
+    const sourcePath = toRepoPath(getSourceFilePath(project, filename));
+    const isOutdated = changedPaths.get(baseSha)?.has(sourcePath) ?? false;
+
+    if (isOutdated) {
+      outdated.push(filename);
+    }
+    if (Boolean(file.outdated) !== isOutdated) {
+      flags.set(filename, { baseSha, outdated: isOutdated });
+    }
+  }
+  const changed = flags.size > 0;
+
+  const report: SourceDriftReport = { headSha, outdated, translated: [], errors: [] };
+  const machineTranslations: CommitFileChange[] = [];
+
+  if (options.translateChanges) {
+    for (const filename of outdated) {
+      try {
+        machineTranslations.push({
+          path: getMachineTranslationFilePath(project, languageCode, filename),
+          content: await translateSourceChanges(
+            githubClient,
+            project,
+            languageCode,
+            filename,
+            getFileSourceCommit(metadata, filename),
+            headSha
+          ),
+        });
+        report.translated.push(filename);
+      } catch (error: unknown) {
+        report.errors.push(
+          `Failed to translate changes in ${filename}: ${error instanceof Error ? error.message : error}`
+        );
+      }
+    }
+  }
+
+  // Flags and refreshed machine translations land in one commit
+  if (changed || machineTranslations.length > 0) {
+    await saveTranslationMetadata(
+      githubClient,
+      owner,
+      repo,
+      project,
+      languageCode,
+      (current) => applyOutdatedFlags(requireTranslationMetadata(current), flags),
+      branchName,
+      machineTranslations.length > 0
+        ? `[${languageCode}] Mark ${outdated.length} files as outdated and refresh ${machineTranslations.length} machine translations`
+        : `[${languageCode}] Mark ${outdated.length} files as outdated`,
+      machineTranslations
+    );
+  }
+
+  return report;
+}
+
+/**
+ * Section-level diff of a file's English source since its translation's base commit
+ */
+export async function getSourceDrift(
+  githubClient: GitHubClient,
+  project: ProjectConfig,
+  languageCode: string,
+  filename: string
+): Promise<SourceDriftData> {
+  const { owner, repo } = parseGitHubRepo(project.githubRepo);
+
+  const metadata = await loadTranslationMetadata(
+    githubClient,
+    owner,
+    repo,
+    project,
+    languageCode,
+    getTranslationBranchName(languageCode)
+  );
+
+  if (!metadata) {
+    throw new Error('Translation metadata not found');
+  }
+
+  const baseSha = getFileSourceCommit(metadata, filename);
+  const head = await githubClient.getBranch(owner, repo, project.sourceBranch);
+  const headSha = head.data.commit.sha;
+
+  const [baseContent, headContent] = await Promise.all([
+    getSourceAt(githubClient, project, filename, baseSha),
+    getSourceAt(githubClient, project, filename, headSha),
+  ]);
+
+  return {
+    filename,
+    baseSha,
+    headSha,
+    sections: diffSourceSections(baseContent, headContent),
+  };
+}
+
+/**
+ * Machine-translate the current source of a changed file for its tmp
+ * folder copy. Paragraphs that did not change reuse the previous machine
+ * translation, so only new or edited paragraphs are sent to the provider.
+ */
+export async function translateSourceChanges(
+  githubClient: GitHubClient,
+  project: ProjectConfig,
+  languageCode: string,
+  filename: string,
+  baseSha: string,
+  headSha: string
+): Promise<string> {
+  const { owner, repo } = parseGitHubRepo(project.githubRepo);
+  const branchName = getTranslationBranchName(languageCode);
+  const tmpPath = getMachineTranslationFilePath(project, languageCode, filename);
+
+  const [baseContent, headContent, previousMachine, glossary, memory] = await Promise.all([
+    getSourceAt(githubClient, project, filename, baseSha),
+    getSourceAt(githubClient, project, filename, headSha),
+    getFileContentAsText(githubClient, owner, repo, tmpPath, branchName).catch(() => ''),
+    loadGlossary(githubClient, owner, repo, project, languageCode, branchName),
+    loadTranslationMemory(languageCode),
+  ]);
+
+  const previous = new Map<string, string>();
+  for (const pair of alignSegments(baseContent, previousMachine)) {
+    previous.set(normalizeSegment(pair.source), pair.target);
+  }
+
+  const translationService = getTranslationService(project, languageCode);
+  return translationService.translateMarkdown(headContent, languageCode, {
+    memory: (source) =>
+      findExactMatch(memory, source)?.target ?? previous.get(normalizeSegment(source)),
+    glossary,
+    project: project.slug,
+  });
+}
+
+/**
+ * Compare two versions of a document section by section. Sections are
+ * matched by heading; within a matched section, changed blocks are listed
+ * as removed/added pairs.
+ */
+export function diffSourceSections(baseMarkdown: string, headMarkdown: string): SourceSectionDiff[] {
+  const baseSections = splitMarkdownSections(baseMarkdown);
+  const headSections = splitMarkdownSections(headMarkdown);
+
+  // Match each head section to the first unused base section with the same heading
+  const matchedBase = new Map<number, number>(); // head index -> base index
+  const usedBase = new Set<number>();
+
+  headSections.forEach((section, headIndex) => {
+    const baseIndex = baseSections.findIndex(
+      (candidate, i) =>
+        !usedBase.has(i) && normalizeSegment(candidate.heading) === normalizeSegment(section.heading)
+    );
+    if (baseIndex !== -1) {
+      matchedBase.set(headIndex, baseIndex);
+      usedBase.add(baseIndex);
+    }
+  });
+
+  const result: Array<SourceSectionDiff & { order: number }> = headSections.map(
+    (section, headIndex) => {
+      const baseIndex = matchedBase.get(headIndex);
+
+      if (baseIndex === undefined) {
+        return {
+          heading: section.heading,
+          status: 'added',
+          changes: section.blocks.map((source) => ({ type: 'added', source })),
+          order: headIndex,
+        };
+      }
+
+      const changes = diffBlocks(baseSections[baseIndex].blocks, section.blocks);
+      return {
+        heading: section.heading,
+        status: changes.length > 0 ? 'changed' : 'unchanged',
+        changes,
+        order: headIndex,
+      };
+    }
+  );
+
+  // Removed sections go after the head section matching their nearest preceding base section
+  baseSections.forEach((section, baseIndex) => {
+    if (usedBase.has(baseIndex)) {
+      return;
+    }
+
+    let order = -1;
+    for (const [headIndex, matchedIndex] of matchedBase) {
+      if (matchedIndex < baseIndex && headIndex > order) {
+        order = headIndex;
+      }
+    }
+
+    result.push({
+      heading: section.heading,
+      status: 'removed',
+      changes: section.blocks.map((source) => ({ type: 'removed', source })),
+      order: order + 0.5,
+    });
+  });
+
+  return result
+    .sort((a, b) => a.order - b.order)
+    .map(({ heading, status, changes }) => ({ heading, status, changes }));
+}
+
+/**
+ * Blocks removed from and added to a section, via the longest common subsequence
+ */
+function diffBlocks(base: string[], head: string[]): SourceBlockChange[] {
+  const a = base.map(normalizeSegment);
+  const b = head.map(normalizeSegment);
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const changes: SourceBlockChange[] = [];
+  let i = 0;
+  let j = 0;
+
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      i++;
+      j++;
+    } else if (i < a.length && (j === b.length || lengths[i + 1][j] >= lengths[i][j + 1])) {
+      // Removals first, so an edited block reads as old-then-new
+      changes.push({ type: 'removed', source: base[i++] });
+    } else {
+      changes.push({ type: 'added', source: head[j++] });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * English source of a file at a commit, empty if the file did not exist yet
+ */
+async function getSourceAt(
+  githubClient: GitHubClient,
+  project: ProjectConfig,
+  filename: string,
+  ref: string
+): Promise<string> {
+  const { owner, repo } = parseGitHubRepo(project.githubRepo);
+
+  try {
+    return await getFileContentAsText(
+      githubClient,
+      owner,
+      repo,
+      getSourceFilePath(project, filename),
+      ref
+    );
+  } catch (error: unknown) {
+    if ((error as { status?: number }).status === 404) {
+      return '';
+    }
+    throw error;
+  }
+}
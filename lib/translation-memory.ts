@@ -0,0 +1,263 @@
+import type {
+  TranslationMemoryEntry,
+  TranslationMemoryMatch,
+  SegmentMemoryMatches,
+} from '@/types';
+import { readJsonStore, updateJsonStore } from './data-store';
+import { splitMarkdownSegments } from './markdown';
+
+/**
+ * Translation memory: approved English/target segment pairs per language.
+ *
+ * Pairs are harvested from files approved or merged in translation.json and
+ * are shared by every project, so boilerplate translated once for Top 10 is
+ * offered again in ASVS. A segment is the raw Markdown of a paragraph,
+ * heading or table cell, as produced by `splitMarkdownSegments`.
+ */
+
+export interface TranslationMemory {
+  version: string;
+  language: string;
+  entries: Record<string, TranslationMemoryEntry>; // Keyed by normalized source
+}
+
+export interface TranslationMemoryPair {
+  source: string;
+  target: string;
+}
+
+export interface FuzzyMatchOptions {
+  minScore?: number; // 0-100, defaults to 70
+  limit?: number; // Defaults to 3
+}
+
+const DEFAULT_MIN_SCORE = 70;
+const DEFAULT_MATCH_LIMIT = 3;
+
+function getStoreName(languageCode: string): string {
+  return `translation-memory/${languageCode}`;
+}
+
+function createEmptyMemory(languageCode: string): TranslationMemory {
+  return { version: '1.0', language: languageCode, entries: {} };
+}
+
+/**
+ * Collapse whitespace so reflowed paragraphs still match exactly
+ */
+export function normalizeSegment(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Pair up the segments of an English file and its translation.
+ * Translations keep the block structure of the source, so segments are
+ * paired by position; if the structure differs (a paragraph was split or
+ * merged) the file is not aligned at all rather than risk wrong pairs.
+ */
+export function alignSegments(
+  sourceMarkdown: string,
+  translatedMarkdown: string
+): TranslationMemoryPair[] {
+  const sourceSegments = splitMarkdownSegments(sourceMarkdown);
+  const targetSegments = splitMarkdownSegments(translatedMarkdown);
+
+  if (
+    sourceSegments.length !== targetSegments.length ||
+    sourceSegments.some((segment, i) => segment.type !== targetSegments[i].type)
+  ) {
+    return [];
+  }
+
+  return sourceSegments
+    .map((segment, i) => ({
+      source: segment.source,
+      target: targetSegments[i].source,
+    }))
+    .filter(
+      (pair) =>
+        // Untranslated segments (code-like cells, names, numbers) are not worth storing
+        /[a-zA-Z]{3,}/.test(pair.source) &&
+        normalizeSegment(pair.source) !== normalizeSegment(pair.target)
+    );
+}
+
+/**
+ * Load the translation memory for a language
+ */
+export async function loadTranslationMemory(
+  languageCode: string
+): Promise<TranslationMemory> {
+  return readJsonStore(getStoreName(languageCode), createEmptyMemory(languageCode));
+}
+
+/**
+ * Add approved pairs to a language's memory. Newer approvals replace older
+ * translations of the same source segment. Returns the number of pairs stored.
+ */
+export async function addToTranslationMemory(
+  languageCode: string,
+  pairs: TranslationMemoryPair[],
+  origin: { project: string; filename: string; contributor: string | null }
+): Promise<number> {
+  if (pairs.length === 0) {
+    return 0;
+  }
+
+  const updated = new Date().toISOString();
+
+  await updateJsonStore(
+    getStoreName(languageCode),
+    createEmptyMemory(languageCode),
+    (memory) => {
+      for (const pair of pairs) {
+        memory.entries[normalizeSegment(pair.source)] = {
+          source: pair.source,
+          target: pair.target,
+          project: origin.project,
+          filename: origin.filename,
+          contributor: origin.contributor,
+          updated,
+        };
+      }
+      return memory;
+    }
+  );
+
+  return pairs.length;
+}
+
+/**
+ * Approved translation of a segment, if the memory has an exact match
+ */
+export function findExactMatch(
+  memory: TranslationMemory,
+  source: string
+): TranslationMemoryEntry | undefined {
+  return memory.entries[normalizeSegment(source)];
+}
+
+/**
+ * Best matches for a segment, exact match first, then fuzzy matches by score
+ */
+export function findMatches(
+  memory: TranslationMemory,
+  source: string,
+  options: FuzzyMatchOptions = {}
+): TranslationMemoryMatch[] {
+  const minScore = options.minScore ?? DEFAULT_MIN_SCORE;
+  const limit = options.limit ?? DEFAULT_MATCH_LIMIT;
+  const sourceWords = tokenize(source);
+
+  const matches: TranslationMemoryMatch[] = [];
+
+  for (const [key, entry] of Object.entries(memory.entries)) {
+    const entryWords = tokenize(key);
+
+    // Cheap upper bound before running the edit distance
+    if (maxPossibleScore(sourceWords, entryWords) < minScore) {
+      continue;
+    }
+
+    const score = similarityScore(sourceWords, entryWords);
+    if (score >= minScore) {
+      matches.push({ ...entry, score });
+    }
+  }
+
+  return matches.sort((a, b) => b.score - a.score).slice(0, limit);
+}
+
+/**
+ * Matches for every segment of a source file that has any, for the editor
+ */
+export function findSegmentMatches(
+  memory: TranslationMemory,
+  sourceMarkdown: string,
+  options: FuzzyMatchOptions = {}
+): SegmentMemoryMatches[] {
+  if (Object.keys(memory.entries).length === 0) {
+    return [];
+  }
+
+  const results: SegmentMemoryMatches[] = [];
+  const seen = new Set<string>();
+
+  for (const segment of splitMarkdownSegments(sourceMarkdown)) {
+    const key = normalizeSegment(segment.source);
+    if (seen.has(key)) {
+      continue;
+    }
+    seen.add(key);
+
+    const matches = findMatches(memory, segment.source, options);
+    if (matches.length > 0) {
+      results.push({ source: segment.source, matches });
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Word-level similarity of two segments, 0-100
+ */
+export function getSimilarity(a: string, b: string): number {
+  return similarityScore(tokenize(a), tokenize(b));
+}
+
+function tokenize(text: string): string[] {
+  return normalizeSegment(text).toLowerCase().split(' ').filter(Boolean);
+}
+
+function similarityScore(a: string[], b: string[]): number {
+  const longest = Math.max(a.length, b.length);
+  if (longest === 0) {
+    return 100;
+  }
+  return Math.round((1 - editDistance(a, b) / longest) * 100);
+}
+
+/**
+ * Words that appear in only one segment each cost at least one edit
+ */
+function maxPossibleScore(a: string[], b: string[]): number {
+  const longest = Math.max(a.length, b.length);
+  if (longest === 0) {
+    return 100;
+  }
+
+  const counts = new Map<string, number>();
+  for (const word of a) {
+    counts.set(word, (counts.get(word) || 0) + 1);
+  }
+
+  let common = 0;
+  for (const word of b) {
+    const count = counts.get(word);
+    if (count) {
+      common++;
+      counts.set(word, count - 1);
+    }
+  }
+
+  return Math.round((common / longest) * 100);
+}
+
+function editDistance(a: string[], b: string[]): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
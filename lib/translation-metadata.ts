@@ -4,8 +4,12 @@ import type {
   TranslationStats,
   ProjectConfig,
   FileStatus,
+  ReviewState,
+  ReviewAction,
+  ReviewEvent,
+  MachineTranslationProviderId,
 } from '@/types';
-import { GitHubClient } from './github';
+import { GitHubClient, type CommitFileChange } from './github';
 import { getTranslationMetadataPath } from './config';
 
 /**
@@ -19,7 +23,11 @@ export function createInitialTranslationMetadata(
   direction: 'ltr' | 'rtl',
   coordinator: string,
   files: string[],
-  sourceCommitSha: string
+  sourceCommitSha: string,
+  machineTranslation: { provider: MachineTranslationProviderId; name: string } = {
+    provider: 'deepl',
+    name: 'DeepL',
+  }
 ): TranslationMetadata {
   const now = new Date().toISOString();
 
@@ -62,7 +70,8 @@ export function createInitialTranslationMetadata(
     files: filesMetadata,
     stats,
     meta: {
-      machineTranslationService: 'DeepL',
+      machineTranslationService: machineTranslation.name,
+      machineTranslationProvider: machineTranslation.provider,
       machineTranslationDate: now,
       sourceCommitSha,
       notes: 'Initialized with machine translation',
@@ -100,7 +109,12 @@ export async function loadTranslationMetadata(
 }
 
 /**
- * Save translation metadata to GitHub
+ * Save translation metadata to GitHub. The change is given as a function of
+ * the metadata on the branch, so that if someone else writes translation.json
+ * in the meantime it is applied again on top of their change rather than
+ * overwriting it. Other files written by the same operation go into the same
+ * commit, so the metadata never describes files that have not landed yet.
+ * Returns the metadata that was saved.
  */
 export async function saveTranslationMetadata(
   githubClient: GitHubClient,
@@ -108,33 +122,50 @@ export async function saveTranslationMetadata(
   repo: string,
   project: ProjectConfig,
   languageCode: string,
-  metadata: TranslationMetadata,
+  update: (metadata: TranslationMetadata | null) => TranslationMetadata,
   branch: string,
-  commitMessage: string
-): Promise<void> {
-  const path = getTranslationMetadataPath(project, languageCode);
-  const content = JSON.stringify(metadata, null, 2);
+  commitMessage: string,
+  files: CommitFileChange[] = []
+): Promise<TranslationMetadata> {
+  let saved!: TranslationMetadata;
 
-  // Try to get existing file SHA
-  let sha: string | undefined;
-  try {
-    const existing = await githubClient.getFileContent(owner, repo, path, branch);
-    if ('sha' in existing.data) {
-      sha = existing.data.sha;
-    }
-  } catch (error: any) {
-    // File doesn't exist yet, which is fine
-  }
-
-  await githubClient.createOrUpdateFile(
+  await githubClient.commitFiles(
     owner,
     repo,
-    path,
-    content,
-    commitMessage,
     branch,
-    sha
+    async (parentSha) => {
+      const current = await loadTranslationMetadata(
+        githubClient,
+        owner,
+        repo,
+        project,
+        languageCode,
+        parentSha
+      );
+      saved = update(current);
+
+      return [
+        ...files,
+        {
+          path: getTranslationMetadataPath(project, languageCode),
+          content: JSON.stringify(saved, null, 2),
+        },
+      ];
+    },
+    commitMessage
   );
+
+  return saved;
+}
+
+/**
+ * The metadata an update applies to, which must exist
+ */
+export function requireTranslationMetadata(metadata: TranslationMetadata | null): TranslationMetadata {
+  if (!metadata) {
+    throw new Error('Translation metadata not found');
+  }
+  return metadata;
 }
 
 /**
@@ -178,6 +209,145 @@ export function updateFileMetadata(
   };
 }
 
+export class ReviewStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReviewStateError';
+  }
+}
+
+/**
+ * What moves a file through the review workflow: translators save drafts
+ * and submit them in a pull request, reviewers act on them, and the pull
+ * request gets merged or closed
+ */
+export type ReviewTransition = 'save' | 'submit' | ReviewAction | 'merge' | 'close';
+
+// State each transition leads to from each state ('none': no draft saved yet)
+const REVIEW_TRANSITIONS: Record<ReviewTransition, Partial<Record<ReviewState | 'none', ReviewState>>> = {
+  save: {
+    none: 'draft',
+    draft: 'draft',
+    submitted: 'submitted', // Drafts saved to the fork update the open pull request
+    'in-review': 'in-review',
+    'changes-requested': 'changes-requested',
+    approved: 'submitted', // The approval no longer covers the latest changes
+    merged: 'draft',
+  },
+  submit: {
+    none: 'submitted',
+    draft: 'submitted',
+    submitted: 'submitted',
+    'in-review': 'in-review',
+    'changes-requested': 'submitted',
+    approved: 'submitted',
+    merged: 'submitted',
+  },
+  'start-review': {
+    submitted: 'in-review',
+    'in-review': 'in-review',
+  },
+  approve: {
+    submitted: 'approved',
+    'in-review': 'approved',
+  },
+  'request-changes': {
+    submitted: 'changes-requested',
+    'in-review': 'changes-requested',
+    approved: 'changes-requested',
+  },
+  merge: {
+    submitted: 'merged',
+    'in-review': 'merged',
+    'changes-requested': 'merged',
+    approved: 'merged',
+  },
+  // The pull request was closed without merging
+  close: {
+    submitted: 'draft',
+    'in-review': 'draft',
+    'changes-requested': 'draft',
+    approved: 'draft',
+  },
+};
+
+const REVIEW_HISTORY_LIMIT = 20;
+
+/**
+ * Commit of the English source a file's translation is based on
+ */
+export function getFileSourceCommit(metadata: TranslationMetadata, filename: string): string {
+  return metadata.files[filename]?.sourceCommitSha || metadata.meta.sourceCommitSha;
+}
+
+/**
+ * Review state of a file. Metadata written before the review workflow only
+ * has a status: complete files had a pull request, in-progress ones a draft.
+ */
+export function getReviewState(file: TranslationFileMetadata): ReviewState | null {
+  if (file.reviewState) {
+    return file.reviewState;
+  }
+  return file.status === 'complete' ? 'submitted' : file.status === 'in-progress' ? 'draft' : null;
+}
+
+/**
+ * State a file moves to, or a ReviewStateError if the transition is not allowed
+ */
+export function getNextReviewState(
+  current: ReviewState | null,
+  transition: ReviewTransition
+): ReviewState {
+  const next = REVIEW_TRANSITIONS[transition][current || 'none'];
+
+  if (!next) {
+    throw new ReviewStateError(
+      current
+        ? `Cannot ${transition.replace('-', ' ')} a file that is ${current.replace('-', ' ')}`
+        : `Cannot ${transition.replace('-', ' ')} a file that has no draft`
+    );
+  }
+
+  return next;
+}
+
+/**
+ * Move a file through the review workflow. Its status follows: drafts and
+ * files with changes requested are in progress, the others complete.
+ */
+export function applyReviewTransition(
+  metadata: TranslationMetadata,
+  filename: string,
+  transition: ReviewTransition,
+  actor: string,
+  updates: Partial<TranslationFileMetadata> = {},
+  comment?: string
+): TranslationMetadata {
+  const file = metadata.files[filename];
+  const current = file ? getReviewState(file) : null;
+  const next = getNextReviewState(current, transition);
+  const isReview = transition === 'approve' || transition === 'request-changes';
+
+  let history = file?.reviewHistory || [];
+  if (next !== current || isReview || comment) {
+    const event: ReviewEvent = { state: next, actor, at: new Date().toISOString() };
+    if (comment) {
+      event.comment = comment;
+    }
+    history = [...history, event].slice(-REVIEW_HISTORY_LIMIT);
+  }
+
+  return updateFileMetadata(metadata, filename, {
+    ...updates,
+    status: next === 'draft' || next === 'changes-requested' ? 'in-progress' : 'complete',
+    reviewState: next,
+    // Merging keeps the approval, anything else but an approval invalidates it
+    humanReviewed: next === 'merged' ? Boolean(file?.humanReviewed) : next === 'approved',
+    ...(isReview && { reviewer: actor }),
+    reviewHistory: history,
+  });
+}
+
 /**
  * Calculate statistics from files metadata
  */
@@ -232,39 +402,26 @@ export async function markFileInProgress(
   commitSha: string,
   branch: string
 ): Promise<void> {
-  const metadata = await loadTranslationMetadata(
-    githubClient,
-    owner,
-    repo,
-    project,
-    languageCode,
-    branch
-  );
-
-  if (!metadata) {
-    throw new Error('Translation metadata not found');
-  }
-
-  const updated = updateFileMetadata(metadata, filename, {
-    status: 'in-progress',
-    lastContributor: contributor,
-    lastCommitSha: commitSha,
-  });
-
   await saveTranslationMetadata(
     githubClient,
     owner,
     repo,
     project,
     languageCode,
-    updated,
+    (metadata) =>
+      applyReviewTransition(requireTranslationMetadata(metadata), filename, 'save', contributor, {
+        lastContributor: contributor,
+        lastCommitSha: commitSha,
+      }),
     branch,
     `[${languageCode}] Mark ${filename} as in progress`
   );
 }
 
 /**
- * Mark file as complete with PR info
+ * Mark file as complete with PR info and submit it for review. Passing the
+ * source commit the translation was made against clears the file's
+ * `outdated` flag.
  */
 export async function markFileComplete(
   githubClient: GitHubClient,
@@ -277,29 +434,46 @@ export async function markFileComplete(
   commitSha: string,
   prNumber: number,
   prUrl: string,
-  branch: string
+  branch: string,
+  sourceCommitSha?: string,
+  postEditDistance?: number | null
 ): Promise<void> {
-  const metadata = await loadTranslationMetadata(
+  await markFilesComplete(
     githubClient,
     owner,
     repo,
     project,
     languageCode,
-    branch
+    [{ filename, commitSha, prNumber, prUrl, postEditDistance }],
+    contributor,
+    branch,
+    sourceCommitSha
   );
+}
 
-  if (!metadata) {
-    throw new Error('Translation metadata not found');
-  }
-
-  const updated = updateFileMetadata(metadata, filename, {
-    status: 'complete',
-    lastContributor: contributor,
-    lastCommitSha: commitSha,
-    prNumber,
-    prUrl,
-    humanReviewed: true,
-  });
+/**
+ * Submit several files for review in one metadata commit, each with its own
+ * pull request and, when it had a machine translation, how much of it the
+ * translator changed
+ */
+export async function markFilesComplete(
+  githubClient: GitHubClient,
+  owner: string,
+  repo: string,
+  project: ProjectConfig,
+  languageCode: string,
+  submissions: Array<{
+    filename: string;
+    commitSha: string;
+    prNumber: number;
+    prUrl: string;
+    postEditDistance?: number | null;
+  }>,
+  contributor: string,
+  branch: string,
+  sourceCommitSha?: string
+): Promise<void> {
+  const prNumbers = [...new Set(submissions.map((submission) => `#${submission.prNumber}`))];
 
   await saveTranslationMetadata(
     githubClient,
@@ -307,9 +481,24 @@ export async function markFileComplete(
     repo,
     project,
     languageCode,
-    updated,
+    (metadata) =>
+      submissions.reduce(
+        (current, { filename, commitSha, prNumber, prUrl, postEditDistance }) =>
+          applyReviewTransition(current, filename, 'submit', contributor, {
+            lastContributor: contributor,
+            lastCommitSha: commitSha,
+            prNumber,
+            prUrl,
+            // The submitted translation is based on the current English source
+            ...(sourceCommitSha ? { sourceCommitSha, outdated: false } : {}),
+            ...(typeof postEditDistance === 'number' ? { postEditDistance } : {}),
+          }),
+        requireTranslationMetadata(metadata)
+      ),
     branch,
-    `[${languageCode}] Mark ${filename} as complete (PR #${prNumber})`
+    submissions.length === 1
+      ? `[${languageCode}] Submit ${submissions[0].filename} for review (PR ${prNumbers[0]})`
+      : `[${languageCode}] Submit ${submissions.length} files for review (PR ${prNumbers.join(', ')})`
   );
 }
 
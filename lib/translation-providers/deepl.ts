@@ -0,0 +1,223 @@
+import crypto from 'crypto';
+import * as deepl from 'deepl-node';
+import type { GlossaryTerm } from '@/types';
+import {
+  TranslationError,
+  type MachineTranslationProvider,
+  type ProviderUsage,
+  type TranslateOptions,
+} from './types';
+
+// Map language codes to DeepL target language codes
+const LANGUAGE_MAP: Record<string, string> = {
+  'es-ES': 'ES',
+  'ar-SA': 'AR',
+  'fr-FR': 'FR',
+  'de-DE': 'DE',
+  'zh-CN': 'ZH',
+  'ja-JP': 'JA',
+  'pt-BR': 'PT-BR',
+  'he-IL': 'HE',
+  'it-IT': 'IT',
+  'ko-KR': 'KO',
+  'nl-NL': 'NL',
+  'pl-PL': 'PL',
+  'ru-RU': 'RU',
+  'tr-TR': 'TR',
+};
+
+// Content hash at the end of a glossary's name
+const GLOSSARY_VERSION_PATTERN = /^[0-9a-f]{12}$/;
+
+export class DeepLProvider implements MachineTranslationProvider {
+  readonly id = 'deepl' as const;
+  readonly name = 'DeepL';
+
+  private translator: deepl.Translator | null = null;
+  private glossaryIds = new Map<string, string>(); // Glossary name -> DeepL glossary ID
+
+  constructor(apiKey: string | undefined = process.env.DEEPL_API_KEY) {
+    if (apiKey) {
+      this.translator = new deepl.Translator(apiKey);
+    }
+  }
+
+  private ensureTranslator(): deepl.Translator {
+    if (!this.translator) {
+      throw new TranslationError(
+        'DeepL API key not configured. Please set DEEPL_API_KEY environment variable.'
+      );
+    }
+    return this.translator;
+  }
+
+  /**
+   * Get DeepL target language code from our language code
+   */
+  private getTargetLanguage(languageCode: string): string {
+    const deeplLang = LANGUAGE_MAP[languageCode];
+    if (!deeplLang) {
+      throw new TranslationError(`Unsupported language: ${languageCode}`);
+    }
+    return deeplLang;
+  }
+
+  isAvailable(): boolean {
+    return this.translator !== null;
+  }
+
+  supportsLanguage(languageCode: string): boolean {
+    return languageCode in LANGUAGE_MAP;
+  }
+
+  async translateText(text: string, targetLanguage: string): Promise<string> {
+    const translator = this.ensureTranslator();
+    const deeplLang = this.getTargetLanguage(targetLanguage);
+
+    const result = await translator.translateText(
+      text,
+      'en',
+      deeplLang as deepl.TargetLanguageCode
+    );
+
+    return result.text;
+  }
+
+  async translateBatch(
+    texts: string[],
+    targetLanguage: string,
+    options?: TranslateOptions
+  ): Promise<string[]> {
+    const translator = this.ensureTranslator();
+    const deeplLang = this.getTargetLanguage(targetLanguage);
+
+    const translate = async (glossaryId: string | undefined) => {
+      const args: Parameters<typeof translator.translateText> = [
+        texts,
+        'en',
+        deeplLang as deepl.TargetLanguageCode,
+      ];
+      if (options?.tagHandling || glossaryId) {
+        args.push({
+          ...(options?.tagHandling ? { tagHandling: options.tagHandling } : {}),
+          ...(glossaryId ? { glossary: glossaryId } : {}),
+        });
+      }
+      return (await translator.translateText(...args)) as
+        | deepl.TextResult
+        | deepl.TextResult[];
+    };
+
+    const glossary = options?.glossary;
+    const glossaryId = glossary?.length
+      ? await this.getGlossaryId(translator, deeplLang, options?.project, glossary)
+      : undefined;
+
+    let results: deepl.TextResult | deepl.TextResult[];
+    try {
+      results = await translate(glossaryId);
+    } catch (error: unknown) {
+      if (!glossary || !glossaryId || !(error instanceof deepl.GlossaryNotFoundError)) {
+        throw error;
+      }
+      // The cached glossary was deleted on DeepL; create it again
+      this.forgetGlossary(glossaryId);
+      results = await translate(
+        await this.getGlossaryId(translator, deeplLang, options?.project, glossary)
+      );
+    }
+
+    // The API may collapse a single-item batch into a single result
+    return Array.isArray(results)
+      ? results.map((r) => r.text)
+      : [results.text];
+  }
+
+  /**
+   * DeepL glossaries are immutable, so each version of a glossary gets its
+   * own name derived from its project and entries. Existing glossaries are
+   * reused across restarts and outdated versions for the same project and
+   * language are deleted.
+   */
+  private async getGlossaryId(
+    translator: deepl.Translator,
+    deeplLang: string,
+    project: string | undefined,
+    terms: GlossaryTerm[]
+  ): Promise<string | undefined> {
+    // Glossaries are defined per language, without the regional variant
+    const targetLang = deeplLang.split('-')[0].toLowerCase();
+    const entries: Record<string, string> = {};
+    for (const term of terms) {
+      entries[term.source] = term.target;
+    }
+
+    const prefix = project ? `hivewrite-${project}-en-${targetLang}-` : `hivewrite-en-${targetLang}-`;
+    const hash = crypto
+      .createHash('sha256')
+      .update(JSON.stringify(entries))
+      .digest('hex')
+      .slice(0, 12);
+    const name = prefix + hash;
+
+    const cached = this.glossaryIds.get(name);
+    if (cached) {
+      return cached;
+    }
+
+    try {
+      const existing = await translator.listGlossaries();
+      let glossary = existing.find((info) => info.name === name && info.ready);
+
+      if (!glossary) {
+        glossary = await translator.createGlossary(
+          name,
+          'en',
+          targetLang as deepl.LanguageCode,
+          new deepl.GlossaryEntries({ entries })
+        );
+      }
+
+      for (const info of existing) {
+        // Another project's slug may start with this one's
+        const version = info.name.startsWith(prefix) ? info.name.slice(prefix.length) : '';
+        if (GLOSSARY_VERSION_PATTERN.test(version) && info.name !== name) {
+          await translator.deleteGlossary(info).catch(() => undefined);
+        }
+      }
+
+      this.glossaryIds.set(name, glossary.glossaryId);
+      return glossary.glossaryId;
+    } catch (error: unknown) {
+      // Not every language pair supports glossaries; translate without one
+      console.warn(
+        `DeepL glossary unavailable for ${targetLang}:`,
+        error instanceof Error ? error.message : error
+      );
+      return undefined;
+    }
+  }
+
+  private forgetGlossary(glossaryId: string): void {
+    for (const [name, id] of this.glossaryIds) {
+      if (id === glossaryId) {
+        this.glossaryIds.delete(name);
+      }
+    }
+  }
+
+  async getUsage(): Promise<ProviderUsage> {
+    const translator = this.ensureTranslator();
+    const usage = await translator.getUsage();
+
+    const count = usage.character?.count || 0;
+    const limit = usage.character?.limit || 0;
+    const percentage = limit > 0 ? (count / limit) * 100 : 0;
+
+    return {
+      characterCount: count,
+      characterLimit: limit,
+      percentage,
+    };
+  }
+}
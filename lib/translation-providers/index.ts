@@ -0,0 +1,64 @@
+import type { ProjectConfig, MachineTranslationProviderConfig } from '@/types';
+import { DeepLProvider } from './deepl';
+import { OpenAICompatibleProvider } from './openai';
+import { LibreTranslateProvider } from './libretranslate';
+import { PseudoProvider } from './pseudo';
+import { TranslationError, type MachineTranslationProvider } from './types';
+
+export * from './types';
+export { DeepLProvider, OpenAICompatibleProvider, LibreTranslateProvider, PseudoProvider };
+
+export const DEFAULT_PROVIDER_CONFIG: MachineTranslationProviderConfig = {
+  provider: 'deepl',
+};
+
+/**
+ * Resolve which provider a project uses for a language.
+ * Per-language overrides win over the project default; DeepL is the fallback.
+ */
+export function resolveProviderConfig(
+  project?: ProjectConfig,
+  languageCode?: string
+): MachineTranslationProviderConfig {
+  const config = project?.machineTranslation;
+
+  if (!config) {
+    return DEFAULT_PROVIDER_CONFIG;
+  }
+
+  const override = languageCode ? config.languageOverrides?.[languageCode] : undefined;
+  if (override) {
+    return override;
+  }
+
+  return {
+    provider: config.provider,
+    endpoint: config.endpoint,
+    model: config.model,
+  };
+}
+
+/**
+ * Instantiate a provider from its configuration
+ */
+export function createTranslationProvider(
+  config: MachineTranslationProviderConfig
+): MachineTranslationProvider {
+  switch (config.provider) {
+    case 'deepl':
+      return new DeepLProvider();
+    case 'openai':
+      return new OpenAICompatibleProvider({
+        endpoint: config.endpoint,
+        model: config.model,
+      });
+    case 'libretranslate':
+      return new LibreTranslateProvider({ endpoint: config.endpoint });
+    case 'pseudo':
+      return new PseudoProvider();
+    default:
+      throw new TranslationError(
+        `Unknown machine translation provider: ${(config as { provider: string }).provider}`
+      );
+  }
+}
@@ -0,0 +1,96 @@
+import {
+  TranslationError,
+  EMPTY_USAGE,
+  type MachineTranslationProvider,
+  type ProviderUsage,
+  type TranslateOptions,
+} from './types';
+
+// LibreTranslate uses bare ISO 639-1 codes, except for a few regional variants
+const LANGUAGE_OVERRIDES: Record<string, string> = {
+  'zh-CN': 'zh',
+  'zh-TW': 'zt',
+  'pt-BR': 'pb',
+};
+
+export interface LibreTranslateProviderOptions {
+  apiKey?: string;
+  endpoint?: string;
+}
+
+export class LibreTranslateProvider implements MachineTranslationProvider {
+  readonly id = 'libretranslate' as const;
+  readonly name = 'LibreTranslate';
+
+  private apiKey: string | undefined;
+  private endpoint: string | undefined;
+
+  constructor(options: LibreTranslateProviderOptions = {}) {
+    this.apiKey = options.apiKey ?? process.env.LIBRETRANSLATE_API_KEY;
+    this.endpoint = (options.endpoint || process.env.LIBRETRANSLATE_URL)?.replace(
+      /\/+$/,
+      ''
+    );
+  }
+
+  private getTargetLanguage(languageCode: string): string {
+    if (!this.supportsLanguage(languageCode)) {
+      throw new TranslationError(`Unsupported language: ${languageCode}`);
+    }
+    return LANGUAGE_OVERRIDES[languageCode] || languageCode.split('-')[0];
+  }
+
+  isAvailable(): boolean {
+    return Boolean(this.endpoint);
+  }
+
+  supportsLanguage(languageCode: string): boolean {
+    return /^[a-z]{2}-[A-Z]{2}$/.test(languageCode);
+  }
+
+  async translateText(text: string, targetLanguage: string): Promise<string> {
+    const [result] = await this.translateBatch([text], targetLanguage);
+    return result;
+  }
+
+  // LibreTranslate has no glossary support; `options.glossary` is ignored
+  async translateBatch(
+    texts: string[],
+    targetLanguage: string,
+    options?: TranslateOptions
+  ): Promise<string[]> {
+    if (!this.endpoint) {
+      throw new TranslationError(
+        'LibreTranslate endpoint not configured. Please set LIBRETRANSLATE_URL environment variable.'
+      );
+    }
+
+    const response = await fetch(`${this.endpoint}/translate`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        q: texts,
+        source: 'en',
+        target: this.getTargetLanguage(targetLanguage),
+        // HTML mode leaves placeholder tags untranslated
+        format: options?.tagHandling ? 'html' : 'text',
+        ...(this.apiKey ? { api_key: this.apiKey } : {}),
+      }),
+    });
+
+    if (!response.ok) {
+      throw new TranslationError(
+        `LibreTranslate returned ${response.status}: ${await response.text()}`
+      );
+    }
+
+    const data = await response.json();
+    const translated = data?.translatedText;
+
+    return Array.isArray(translated) ? translated : [translated];
+  }
+
+  async getUsage(): Promise<ProviderUsage> {
+    return EMPTY_USAGE;
+  }
+}
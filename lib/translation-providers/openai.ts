@@ -0,0 +1,147 @@
+import type { GlossaryTerm } from '@/types';
+import {
+  TranslationError,
+  EMPTY_USAGE,
+  type MachineTranslationProvider,
+  type ProviderUsage,
+  type TranslateOptions,
+} from './types';
+
+const DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+const DEFAULT_MODEL = 'gpt-4o-mini';
+
+export interface OpenAIProviderOptions {
+  apiKey?: string;
+  endpoint?: string;
+  model?: string;
+}
+
+/**
+ * Translates through any endpoint that speaks the OpenAI chat completions API
+ * (OpenAI itself, Azure OpenAI, vLLM, Ollama, ...)
+ */
+export class OpenAICompatibleProvider implements MachineTranslationProvider {
+  readonly id = 'openai' as const;
+  readonly name: string;
+
+  private apiKey: string | undefined;
+  private endpoint: string;
+  private model: string;
+
+  constructor(options: OpenAIProviderOptions = {}) {
+    this.apiKey = options.apiKey ?? process.env.OPENAI_API_KEY;
+    this.endpoint = (
+      options.endpoint || process.env.OPENAI_BASE_URL || DEFAULT_BASE_URL
+    ).replace(/\/+$/, '');
+    this.model = options.model || process.env.OPENAI_MODEL || DEFAULT_MODEL;
+    this.name = `OpenAI-compatible (${this.model})`;
+  }
+
+  isAvailable(): boolean {
+    // Self-hosted endpoints frequently run without a key
+    return Boolean(this.apiKey) || this.endpoint !== DEFAULT_BASE_URL;
+  }
+
+  supportsLanguage(languageCode: string): boolean {
+    return /^[a-z]{2}-[A-Z]{2}$/.test(languageCode);
+  }
+
+  async translateText(text: string, targetLanguage: string): Promise<string> {
+    const [result] = await this.translateBatch([text], targetLanguage);
+    return result;
+  }
+
+  async translateBatch(
+    texts: string[],
+    targetLanguage: string,
+    options?: TranslateOptions
+  ): Promise<string[]> {
+    if (!this.isAvailable()) {
+      throw new TranslationError(
+        'OpenAI API key not configured. Please set OPENAI_API_KEY environment variable.'
+      );
+    }
+
+    // One request per text keeps segment boundaries intact; models are not
+    // reliable at returning the same number of items from a joined prompt
+    const results: string[] = [];
+    for (const text of texts) {
+      results.push(await this.complete(text, targetLanguage, options?.glossary));
+    }
+    return results;
+  }
+
+  private async complete(
+    text: string,
+    targetLanguage: string,
+    glossary: GlossaryTerm[] = []
+  ): Promise<string> {
+    const response = await fetch(`${this.endpoint}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: this.model,
+        temperature: 0,
+        messages: [
+          {
+            role: 'system',
+            content:
+              `You are a professional technical translator for OWASP security documentation. ` +
+              `Translate the user's text from English into ${getLanguageName(targetLanguage)} (${targetLanguage}). ` +
+              'Preserve Markdown syntax, XML-like tags, whitespace and line breaks exactly. ' +
+              'Reply with the translation only.' +
+              formatGlossary(glossary),
+          },
+          { role: 'user', content: text },
+        ],
+      }),
+    });
+
+    if (!response.ok) {
+      throw new TranslationError(
+        `OpenAI-compatible endpoint returned ${response.status}: ${await response.text()}`
+      );
+    }
+
+    const data = await response.json();
+    const content = data?.choices?.[0]?.message?.content;
+
+    if (typeof content !== 'string') {
+      throw new TranslationError('OpenAI-compatible endpoint returned no translation');
+    }
+
+    return content;
+  }
+
+  async getUsage(): Promise<ProviderUsage> {
+    // Token usage is billed per request; there is no quota endpoint to query
+    return EMPTY_USAGE;
+  }
+}
+
+/**
+ * Human-readable language name for prompts, e.g. "he-IL" -> "Hebrew (Israel)"
+ */
+function getLanguageName(languageCode: string): string {
+  try {
+    const names = new Intl.DisplayNames(['en'], { type: 'language' });
+    return names.of(languageCode) || languageCode;
+  } catch {
+    return languageCode;
+  }
+}
+
+/**
+ * Glossary instructions appended to the system prompt
+ */
+function formatGlossary(glossary: GlossaryTerm[]): string {
+  if (glossary.length === 0) {
+    return '';
+  }
+
+  const lines = glossary.map((term) => `- "${term.source}" -> "${term.target}"`);
+  return `\nAlways translate these terms exactly as follows:\n${lines.join('\n')}`;
+}
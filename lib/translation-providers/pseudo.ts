@@ -0,0 +1,59 @@
+import {
+  EMPTY_USAGE,
+  type MachineTranslationProvider,
+  type ProviderUsage,
+} from './types';
+
+const ACCENTED: Record<string, string> = {
+  a: 'á', e: 'é', i: 'í', o: 'ó', u: 'ú', y: 'ý', c: 'ç', n: 'ñ',
+  A: 'Á', E: 'É', I: 'Í', O: 'Ó', U: 'Ú', Y: 'Ý', C: 'Ç', N: 'Ñ',
+};
+
+/**
+ * Deterministic offline provider for tests and local development.
+ * Accents ASCII letters and brackets the text so untranslated strings stand
+ * out, while leaving XML-like tags and surrounding whitespace untouched.
+ */
+export class PseudoProvider implements MachineTranslationProvider {
+  readonly id = 'pseudo' as const;
+  readonly name = 'Pseudo-localization';
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  supportsLanguage(): boolean {
+    return true;
+  }
+
+  async translateText(text: string, targetLanguage: string): Promise<string> {
+    return pseudoLocalize(text, targetLanguage);
+  }
+
+  async translateBatch(texts: string[], targetLanguage: string): Promise<string[]> {
+    return texts.map((text) => pseudoLocalize(text, targetLanguage));
+  }
+
+  async getUsage(): Promise<ProviderUsage> {
+    return EMPTY_USAGE;
+  }
+}
+
+export function pseudoLocalize(text: string, languageCode: string): string {
+  const match = text.match(/^(\s*)([\s\S]*?)(\s*)$/);
+  const [, leading, body, trailing] = match || ['', '', text, ''];
+
+  if (!body) {
+    return text;
+  }
+
+  // Split on tags so placeholders survive untouched
+  const accented = body
+    .split(/(<[^>]+>)/)
+    .map((part) =>
+      part.startsWith('<') ? part : part.replace(/[a-zA-Z]/g, (ch) => ACCENTED[ch] || ch)
+    )
+    .join('');
+
+  return `${leading}[${languageCode}] ${accented}${trailing}`;
+}
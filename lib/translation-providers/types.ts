@@ -0,0 +1,65 @@
+import type { MachineTranslationProviderId, GlossaryTerm } from '@/types';
+
+export const MACHINE_TRANSLATION_PROVIDERS: MachineTranslationProviderId[] = [
+  'deepl',
+  'openai',
+  'libretranslate',
+  'pseudo',
+];
+
+export class TranslationError extends Error {
+  constructor(message: string, public cause?: unknown) {
+    super(message);
+    this.name = 'TranslationError';
+  }
+}
+
+export interface ProviderUsage {
+  characterCount: number;
+  characterLimit: number;
+  percentage: number;
+}
+
+export interface TranslateOptions {
+  // 'xml' marks `<x id="1"/>` and `<g id="1">` placeholders as markup to keep
+  tagHandling?: 'xml';
+  // Approved terms; providers without glossary support ignore them
+  glossary?: GlossaryTerm[];
+  // Slug of the project the glossary belongs to
+  project?: string;
+}
+
+/**
+ * A machine translation engine. Every provider translates from English into
+ * one of our `xx-XX` language codes and maps that code to its own format.
+ */
+export interface MachineTranslationProvider {
+  readonly id: MachineTranslationProviderId;
+  readonly name: string;
+
+  /**
+   * Whether the provider has the credentials/endpoint it needs
+   */
+  isAvailable(): boolean;
+
+  /**
+   * Whether the provider can translate into the given language code
+   */
+  supportsLanguage(languageCode: string): boolean;
+
+  translateText(text: string, targetLanguage: string): Promise<string>;
+
+  translateBatch(
+    texts: string[],
+    targetLanguage: string,
+    options?: TranslateOptions
+  ): Promise<string[]>;
+
+  getUsage(): Promise<ProviderUsage>;
+}
+
+export const EMPTY_USAGE: ProviderUsage = {
+  characterCount: 0,
+  characterLimit: 0,
+  percentage: 0,
+};
@@ -1,11 +1,21 @@
-import * as deepl from 'deepl-node';
-
-export class TranslationError extends Error {
-  constructor(message: string, public cause?: any) {
-    super(message);
-    this.name = 'TranslationError';
-  }
-}
+import type { ProjectConfig, GlossaryTerm } from '@/types';
+import {
+  TranslationError,
+  createTranslationProvider,
+  resolveProviderConfig,
+  type MachineTranslationProvider,
+  type TranslateOptions,
+} from './translation-providers';
+import {
+  extractTranslatableSegments,
+  getSegmentPlainText,
+  replaceSegments,
+  restoreSegment,
+  type SegmentReplacement,
+  type TranslatableSegment,
+} from './markdown';
+
+export { TranslationError };
 
 export type SupportedLanguage =
   | 'es-ES'
@@ -23,52 +33,51 @@ export type SupportedLanguage =
   | 'ru-RU'
   | 'tr-TR';
 
-// Map language codes to DeepL target language codes
-const LANGUAGE_MAP: Record<string, string> = {
-  'es-ES': 'ES',
-  'ar-SA': 'AR',
-  'fr-FR': 'FR',
-  'de-DE': 'DE',
-  'zh-CN': 'ZH',
-  'ja-JP': 'JA',
-  'pt-BR': 'PT-BR',
-  'he-IL': 'HE',
-  'it-IT': 'IT',
-  'ko-KR': 'KO',
-  'nl-NL': 'NL',
-  'pl-PL': 'PL',
-  'ru-RU': 'RU',
-  'tr-TR': 'TR',
-};
+// DeepL accepts at most 50 texts per request
+const MARKDOWN_BATCH_SIZE = 50;
+
+export interface TranslateMarkdownOptions {
+  /**
+   * Approved translation for a segment's raw Markdown, if one exists.
+   * Segments answered here are never sent to the provider.
+   */
+  memory?: (source: string) => string | undefined;
+  /**
+   * Approved terms passed to the provider
+   */
+  glossary?: GlossaryTerm[];
+  /**
+   * Slug of the project the glossary belongs to
+   */
+  project?: string;
+}
 
 export class TranslationService {
-  private translator: deepl.Translator | null = null;
+  private provider: MachineTranslationProvider;
 
-  constructor() {
-    const apiKey = process.env.DEEPL_API_KEY;
-    if (apiKey) {
-      this.translator = new deepl.Translator(apiKey);
-    }
+  constructor(provider?: MachineTranslationProvider) {
+    this.provider = provider || createTranslationProvider({ provider: 'deepl' });
   }
 
-  private ensureTranslator(): deepl.Translator {
-    if (!this.translator) {
-      throw new TranslationError(
-        'DeepL API key not configured. Please set DEEPL_API_KEY environment variable.'
-      );
-    }
-    return this.translator;
+  /**
+   * Identifier of the underlying provider, recorded in translation.json
+   */
+  get providerId() {
+    return this.provider.id;
   }
 
   /**
-   * Get DeepL target language code from our language code
+   * Display name of the underlying provider
    */
-  private getTargetLanguage(languageCode: string): string {
-    const deeplLang = LANGUAGE_MAP[languageCode];
-    if (!deeplLang) {
-      throw new TranslationError(`Unsupported language: ${languageCode}`);
-    }
-    return deeplLang;
+  get providerName(): string {
+    return this.provider.name;
+  }
+
+  /**
+   * Check if the provider can translate into a language
+   */
+  supportsLanguage(languageCode: string): boolean {
+    return this.provider.supportsLanguage(languageCode);
   }
 
   /**
@@ -79,16 +88,7 @@ export class TranslationService {
     targetLanguage: string
   ): Promise<string> {
     try {
-      const translator = this.ensureTranslator();
-      const deeplLang = this.getTargetLanguage(targetLanguage);
-
-      const result = await translator.translateText(
-        text,
-        'en',
-        deeplLang as deepl.TargetLanguageCode
-      );
-
-      return result.text;
+      return await this.provider.translateText(text, targetLanguage);
     } catch (error: any) {
       console.error('Translation error:', error);
       throw new TranslationError(
@@ -103,21 +103,11 @@ export class TranslationService {
    */
   async translateBatch(
     texts: string[],
-    targetLanguage: string
+    targetLanguage: string,
+    options?: TranslateOptions
   ): Promise<string[]> {
     try {
-      const translator = this.ensureTranslator();
-      const deeplLang = this.getTargetLanguage(targetLanguage);
-
-      const results = await translator.translateText(
-        texts,
-        'en',
-        deeplLang as deepl.TargetLanguageCode
-      );
-
-      return Array.isArray(results)
-        ? results.map((r) => r.text)
-        : [results.text];
+      return await this.provider.translateBatch(texts, targetLanguage, options);
     } catch (error: any) {
       console.error('Batch translation error:', error);
       throw new TranslationError(
@@ -128,90 +118,76 @@ export class TranslationService {
   }
 
   /**
-   * Translate markdown content while preserving formatting
-   * Splits by paragraphs to maintain structure
+   * Translate markdown content while preserving formatting.
+   * Only paragraph, heading and table cell text is sent to the provider;
+   * inline code, links and other markup travel as placeholders and the
+   * result is spliced back into the original document. Segments found in
+   * the translation memory are reused instead of machine translated.
    */
   async translateMarkdown(
     markdown: string,
-    targetLanguage: string
+    targetLanguage: string,
+    options: TranslateMarkdownOptions = {}
   ): Promise<string> {
     try {
-      // Split markdown into sections to preserve code blocks and formatting
-      const sections = this.splitMarkdownSections(markdown);
-
-      const translatedSections = await Promise.all(
-        sections.map(async (section) => {
-          // Don't translate code blocks, URLs, or special syntax
-          if (this.shouldSkipTranslation(section.content)) {
-            return section.content;
-          }
+      const replacements: SegmentReplacement[] = [];
+      const segments: TranslatableSegment[] = [];
 
-          // Translate the section
-          return await this.translateText(section.content, targetLanguage);
-        })
-      );
-
-      return translatedSections.join('');
-    } catch (error: any) {
-      console.error('Markdown translation error:', error);
-      throw new TranslationError(
-        `Failed to translate markdown: ${error.message}`,
-        error
-      );
-    }
-  }
-
-  /**
-   * Split markdown into translatable sections
-   */
-  private splitMarkdownSections(markdown: string): Array<{ content: string }> {
-    const sections: Array<{ content: string }> = [];
-    const lines = markdown.split('\n');
-    let currentSection = '';
-    let inCodeBlock = false;
-
-    for (const line of lines) {
-      // Check for code block markers
-      if (line.trim().startsWith('```')) {
-        if (currentSection) {
-          sections.push({ content: currentSection });
-          currentSection = '';
+      for (const segment of extractTranslatableSegments(markdown)) {
+        if (this.shouldSkipTranslation(getSegmentPlainText(segment))) {
+          continue;
         }
-        inCodeBlock = !inCodeBlock;
-        currentSection += line + '\n';
-        if (!inCodeBlock) {
-          sections.push({ content: currentSection });
-          currentSection = '';
+
+        const remembered = options.memory?.(segment.source);
+        if (remembered !== undefined) {
+          replacements.push({ start: segment.start, end: segment.end, content: remembered });
+        } else {
+          segments.push(segment);
         }
-        continue;
       }
 
-      if (inCodeBlock) {
-        currentSection += line + '\n';
-      } else {
-        // Regular content - accumulate until we have enough for translation
-        currentSection += line + '\n';
+      if (segments.length === 0) {
+        return replaceSegments(markdown, replacements);
+      }
 
-        // Push section if it's a heading or empty line (paragraph break)
-        if (line.trim() === '' || line.trim().startsWith('#')) {
-          if (currentSection.trim()) {
-            sections.push({ content: currentSection });
-            currentSection = '';
-          }
+      const translations: string[] = [];
+      for (let i = 0; i < segments.length; i += MARKDOWN_BATCH_SIZE) {
+        const batch = segments.slice(i, i + MARKDOWN_BATCH_SIZE);
+        const results = await this.translateBatch(
+          batch.map((segment) => segment.text),
+          targetLanguage,
+          { tagHandling: 'xml', glossary: options.glossary, project: options.project }
+        );
+
+        if (results.length !== batch.length) {
+          throw new TranslationError(
+            `Expected ${batch.length} translations but received ${results.length}`
+          );
         }
+
+        translations.push(...results);
       }
-    }
 
-    // Push remaining content
-    if (currentSection.trim()) {
-      sections.push({ content: currentSection });
-    }
+      segments.forEach((segment, index) => {
+        replacements.push({
+          start: segment.start,
+          end: segment.end,
+          content: restoreSegment(translations[index], segment),
+        });
+      });
 
-    return sections;
+      return replaceSegments(markdown, replacements);
+    } catch (error: any) {
+      console.error('Markdown translation error:', error);
+      throw new TranslationError(
+        `Failed to translate markdown: ${error.message}`,
+        error
+      );
+    }
   }
 
   /**
-   * Check if a section should skip translation
+   * Check if a segment should skip translation
    */
   private shouldSkipTranslation(content: string): boolean {
     const trimmed = content.trim();
@@ -240,7 +216,7 @@ export class TranslationService {
   }
 
   /**
-   * Get usage statistics from DeepL
+   * Get usage statistics from the provider
    */
   async getUsage(): Promise<{
     characterCount: number;
@@ -248,18 +224,7 @@ export class TranslationService {
     percentage: number;
   }> {
     try {
-      const translator = this.ensureTranslator();
-      const usage = await translator.getUsage();
-
-      const count = usage.character?.count || 0;
-      const limit = usage.character?.limit || 0;
-      const percentage = limit > 0 ? (count / limit) * 100 : 0;
-
-      return {
-        characterCount: count,
-        characterLimit: limit,
-        percentage,
-      };
+      return await this.provider.getUsage();
     } catch (error: any) {
       console.error('Failed to get usage:', error);
       return {
@@ -274,16 +239,28 @@ export class TranslationService {
    * Check if translation service is available
    */
   isAvailable(): boolean {
-    return this.translator !== null;
+    return this.provider.isAvailable();
   }
 }
 
-// Singleton instance
-let translationService: TranslationService | null = null;
-
-export function getTranslationService(): TranslationService {
-  if (!translationService) {
-    translationService = new TranslationService();
+// One instance per provider configuration
+const translationServices = new Map<string, TranslationService>();
+
+/**
+ * Get the translation service for a project and language.
+ * Without a project, the default DeepL service is returned.
+ */
+export function getTranslationService(
+  project?: ProjectConfig,
+  languageCode?: string
+): TranslationService {
+  const config = resolveProviderConfig(project, languageCode);
+  const key = JSON.stringify([config.provider, config.endpoint, config.model]);
+
+  let service = translationServices.get(key);
+  if (!service) {
+    service = new TranslationService(createTranslationProvider(config));
+    translationServices.set(key, service);
   }
-  return translationService;
+  return service;
 }
@@ -28,6 +28,37 @@ export function sanitizeFilename(filename: string): string {
   return normalized;
 }
 
+/**
+ * Validate a file path relative to a project's source folder (e.g.
+ * "V1-Architecture/V1.1.md"). Unlike sanitizeFilename, subfolders are
+ * allowed, but absolute paths and "." or ".." segments are not.
+ */
+export function sanitizeFilePath(filepath: string): string {
+  if (!filepath || filepath.trim() === '') {
+    throw new Error('Invalid path: cannot be empty');
+  }
+
+  if (filepath.includes('\\') || filepath.includes('\0')) {
+    throw new Error('Invalid path: contains prohibited characters');
+  }
+
+  if (filepath.startsWith('/')) {
+    throw new Error('Invalid path: must be relative');
+  }
+
+  const segments = filepath.split('/');
+  if (segments.some((segment) => segment === '' || segment === '.' || segment === '..')) {
+    throw new Error('Invalid path: path traversal detected');
+  }
+
+  // Belt and braces: normalization must not change a safe path
+  if (path.posix.normalize(filepath) !== filepath) {
+    throw new Error('Invalid path: path traversal detected');
+  }
+
+  return filepath;
+}
+
 export function sanitizePath(filepath: string, allowedBasePaths: string[]): string {
   // Normalize the path
   const normalized = path.normalize(filepath).replace(/\\/g, '/');
@@ -62,6 +93,12 @@ export const projectSlugSchema = z
   .min(1)
   .max(100);
 
+// GitHub username validation
+export const githubUsernameSchema = z
+  .string()
+  .trim()
+  .regex(/^[A-Za-z0-9](?:[A-Za-z0-9-]{0,38})$/, 'Invalid GitHub username');
+
 // Filename validation (markdown files)
 export const filenameSchema = z
   .string()
@@ -69,6 +106,16 @@ export const filenameSchema = z
   .min(1)
   .max(255);
 
+// File path validation (markdown files, optionally in subfolders)
+export const filePathSchema = z
+  .string()
+  .min(1)
+  .max(1024)
+  .regex(
+    /^(?:[a-zA-Z0-9_-][a-zA-Z0-9_.-]*\/)*[a-zA-Z0-9_.-]+\.md$/,
+    'Invalid file path (must be a .md file with safe characters)'
+  );
+
 // Content validation (with size limits)
 export const contentSchema = z
   .string()
@@ -87,28 +134,255 @@ export const commitMessageSchema = z
 
 // Save draft request
 export const saveDraftRequestSchema = z.object({
-  filename: filenameSchema,
+  filename: filePathSchema,
   content: contentSchema,
 });
 
 export type SaveDraftRequest = z.infer<typeof saveDraftRequestSchema>;
 
+// Run the quality checks on a translation without saving it
+export const qualityCheckRequestSchema = z.object({
+  filename: filePathSchema,
+  content: contentSchema,
+});
+
+export type QualityCheckRequest = z.infer<typeof qualityCheckRequestSchema>;
+
+// Keep a revision of a draft on the hub
+export const draftRevisionRequestSchema = z.object({
+  content: contentSchema,
+  source: z.enum(['autosave', 'save']).optional(),
+});
+
+export type DraftRevisionRequest = z.infer<typeof draftRevisionRequestSchema>;
+
+export const restoreDraftRequestSchema = z.object({
+  revision: z.number().int().positive(),
+});
+
+// Compare a draft revision with another one, by default the one before it
+export const draftDiffQuerySchema = z.object({
+  revision: z.coerce.number().int().positive(),
+  compare: z.coerce.number().int().positive().optional(),
+});
+
 // Create PR request
 export const createPRRequestSchema = z.object({
-  filename: filenameSchema,
+  filename: filePathSchema,
   content: contentSchema,
   message: commitMessageSchema,
 });
 
 export type CreatePRRequest = z.infer<typeof createPRRequestSchema>;
 
-// Initialize language request
-export const initLanguageRequestSchema = z.object({
-  force: z.boolean().optional(),
+// Submit several saved drafts from the dashboard in one pull request
+export const batchSubmitRequestSchema = z.object({
+  filenames: z
+    .array(filePathSchema)
+    .min(1, 'Select at least one file')
+    .max(50, 'Submit at most 50 files at once')
+    .refine((filenames) => new Set(filenames).size === filenames.length, 'Files must be unique'),
+  message: z.string().trim().max(5000, 'Notes are too long').optional(),
+});
+
+export type BatchSubmitRequest = z.infer<typeof batchSubmitRequestSchema>;
+
+// Review action request; requesting changes needs a comment saying which
+export const reviewActionRequestSchema = z
+  .object({
+    filename: filePathSchema,
+    action: z.enum(['start-review', 'approve', 'request-changes']),
+    comment: z.string().trim().max(10000, 'Comment is too long').optional(),
+  })
+  .refine((data) => data.action !== 'request-changes' || Boolean(data.comment), {
+    message: 'Describe the changes you are requesting',
+    path: ['comment'],
+  });
+
+export type ReviewActionRequest = z.infer<typeof reviewActionRequestSchema>;
+
+// Review comments
+export const paragraphAnchorSchema = z
+  .object({
+    startLine: z.number().int().min(1),
+    endLine: z.number().int().min(1),
+    excerpt: z.string().max(200),
+  })
+  .refine((anchor) => anchor.endLine >= anchor.startLine, {
+    message: 'endLine must not be before startLine',
+    path: ['endLine'],
+  });
+
+export const reviewCommentRequestSchema = z.object({
+  threadId: z.string().uuid().optional(), // Reply to a thread; starts a new one when absent
+  anchor: paragraphAnchorSchema.nullable().optional(), // Paragraph of a new thread; null for the whole file
+  body: z.string().trim().min(1, 'Comment is required').max(10000, 'Comment is too long'),
 });
 
+export type ReviewCommentRequest = z.infer<typeof reviewCommentRequestSchema>;
+
+export const resolveReviewThreadRequestSchema = z.object({
+  threadId: z.string().uuid(),
+  resolved: z.boolean(),
+});
+
+// Initialize language request
+export const initLanguageRequestSchema = z
+  .object({
+    mode: z.enum(['missing', 'refresh', 'force']).optional(),
+    force: z.boolean().optional(), // Same as mode 'force'
+    dryRun: z.boolean().optional(),
+    sourceCommit: z.string().trim().min(1).max(255).optional(), // Branch, tag or commit SHA
+  })
+  .refine((data) => !(data.force && data.mode && data.mode !== 'force'), {
+    message: 'force cannot be combined with another mode',
+    path: ['force'],
+  });
+
 export type InitLanguageRequest = z.infer<typeof initLanguageRequestSchema>;
 
+// Source drift check request
+export const sourceDriftRequestSchema = z.object({
+  translateChanges: z.boolean().optional(),
+});
+
+export type SourceDriftRequest = z.infer<typeof sourceDriftRequestSchema>;
+
+// Repository folder, e.g. "/docs" ("/" for the repository root)
+const folderPathSchema = z
+  .string()
+  .trim()
+  .regex(/^\/(?:[\w.-]+(?:\/[\w.-]+)*)?$/, 'Invalid folder (expected e.g. /docs)')
+  .refine((folder) => !folder.split('/').includes('..'), 'Folder cannot contain ".."');
+
+const globSchema = z.string().trim().min(1, 'Glob pattern cannot be empty').max(255);
+
+// Where a project's source files are and which of them are translated
+const projectSourceSchema = z.object({
+  githubRepo: z
+    .string()
+    .trim()
+    .regex(/^[\w-]+\/[\w-]+$/, 'Invalid GitHub repository (expected: owner/repo)'),
+  sourceBranch: z.string().trim().min(1).max(255),
+  sourceFolder: folderPathSchema,
+  translationFolder: folderPathSchema,
+  filePattern: globSchema.optional(),
+  include: z.array(globSchema).min(1).optional(),
+  exclude: z.array(globSchema).optional(),
+});
+
+const hasFilePattern = (data: { filePattern?: string; include?: string[] }) =>
+  Boolean(data.filePattern || data.include);
+
+// Preview which files a draft project config selects
+export const previewProjectFilesRequestSchema = projectSourceSchema.refine(hasFilePattern, {
+  message: 'A file pattern or include patterns are required',
+  path: ['filePattern'],
+});
+
+export type PreviewProjectFilesRequest = z.infer<typeof previewProjectFilesRequestSchema>;
+
+// Register project request
+export const registerProjectRequestSchema = projectSourceSchema
+  .extend({
+    slug: projectSlugSchema,
+    name: z.string().trim().min(1, 'Project name cannot be empty').max(200),
+    tmpFolder: z
+      .string()
+      .trim()
+      .regex(/^\/[\w.{}/-]+$/, 'Invalid tmp folder (expected e.g. /docs/translations/{language}/tmp)')
+      .refine((folder) => folder.includes('{language}'), 'Tmp folder must contain {language}'),
+    priorityFiles: z.array(filePathSchema).max(100).default([]),
+    pullRequests: z.enum(['bundled', 'per-file']).optional(),
+  })
+  .refine(hasFilePattern, {
+    message: 'A file pattern or include patterns are required',
+    path: ['filePattern'],
+  });
+
+export type RegisterProjectRequest = z.infer<typeof registerProjectRequestSchema>;
+
+// Repository browsing query
+export const repositoryQuerySchema = z.object({
+  repo: projectSourceSchema.shape.githubRepo,
+  ref: z.string().trim().min(1).max(255).optional(), // Defaults to the default branch
+  path: z
+    .string()
+    .trim()
+    .max(1024)
+    .refine((folder) => !folder.split('/').includes('..'), 'Path cannot contain ".."')
+    .optional(),
+});
+
+const languageNameSchema = z.string().trim().min(1, 'Language name cannot be empty').max(100);
+const languageStatusSchema = z.enum(['active', 'inactive', 'archived']);
+const directionSchema = z.enum(['ltr', 'rtl']);
+
+// Add language request
+export const addLanguageRequestSchema = z.object({
+  code: languageCodeSchema,
+  name: languageNameSchema,
+  direction: directionSchema,
+  status: languageStatusSchema.optional(), // Defaults to inactive until initialized
+  coordinator: githubUsernameSchema.optional(),
+  reviewers: z.array(githubUsernameSchema).max(100).optional(),
+  translators: z.array(githubUsernameSchema).max(1000).optional(),
+});
+
+export type AddLanguageRequest = z.infer<typeof addLanguageRequestSchema>;
+
+// Update language request; a null coordinator removes it, null translators
+// opens the language to every signed-in user
+export const updateLanguageRequestSchema = z
+  .object({
+    name: languageNameSchema.optional(),
+    direction: directionSchema.optional(),
+    status: languageStatusSchema.optional(),
+    coordinator: githubUsernameSchema.nullable().optional(),
+    reviewers: z.array(githubUsernameSchema).max(100).optional(),
+    translators: z.array(githubUsernameSchema).max(1000).nullable().optional(),
+  })
+  .refine((data) => Object.values(data).some((value) => value !== undefined), {
+    message: 'Nothing to update',
+  });
+
+export type UpdateLanguageRequest = z.infer<typeof updateLanguageRequestSchema>;
+
+// Project access settings: project admins and roles taken from GitHub
+export const githubTeamRoleSchema = z
+  .object({
+    team: z
+      .string()
+      .trim()
+      .regex(/^[A-Za-z0-9-]+\/[A-Za-z0-9_.-]+$/, 'Invalid GitHub team (use "org/team-slug")'),
+    role: z.enum(['project-admin', 'coordinator', 'reviewer', 'translator']),
+    language: languageCodeSchema.optional(),
+  })
+  .refine((data) => data.role !== 'project-admin' || !data.language, {
+    message: 'Project admin teams cannot be limited to a language',
+  });
+
+export const updateProjectAccessRequestSchema = z.object({
+  admins: z.array(githubUsernameSchema).max(100).default([]),
+  githubTeams: z.array(githubTeamRoleSchema).max(100).default([]),
+  repoPermissions: z.boolean().default(false),
+});
+
+export type UpdateProjectAccessRequest = z.infer<typeof updateProjectAccessRequestSchema>;
+
+// glossary.json stored next to translation.json
+export const glossarySchema = z.object({
+  version: z.string(),
+  language: languageCodeSchema,
+  terms: z.array(
+    z.object({
+      source: z.string().trim().min(1, 'Glossary term cannot be empty').max(200),
+      target: z.string().trim().min(1, 'Glossary translation cannot be empty').max(200),
+      note: z.string().max(1000).optional(),
+    })
+  ),
+});
+
 /**
  * Validation Helper Functions
  */
@@ -118,7 +392,7 @@ export function validateRequest<T>(schema: z.ZodSchema<T>, data: unknown): T {
     return schema.parse(data);
   } catch (error) {
     if (error instanceof z.ZodError) {
-      const messages = error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', ');
+      const messages = error.issues.map((e) => `${e.path.join('.')}: ${e.message}`).join(', ');
       throw new Error(`Validation error: ${messages}`);
     }
     throw error;
@@ -186,20 +460,3 @@ export function checkRateLimit(
     reset: existing.resetAt,
   };
 }
-
-/**
- * Admin Authorization Helpers
- */
-
-export function isProjectAdmin(username: string, projectSlug: string): boolean {
-  const adminUsers = process.env.ADMIN_USERS?.split(',').map(u => u.trim()) || [];
-
-  // For MVP, we have global admins. In production, implement per-project permissions
-  return adminUsers.includes(username);
-}
-
-export function requireProjectAdmin(username: string, projectSlug: string): void {
-  if (!isProjectAdmin(username, projectSlug)) {
-    throw new Error('Unauthorized: Admin access required');
-  }
-}
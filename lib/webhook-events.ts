@@ -0,0 +1,131 @@
+import type { ProjectConfig, TranslationMetadata, WebhookEvent } from '@/types';
+import { GitHubClient } from './github';
+import { parseGitHubRepo, getTranslationBranchName } from './config';
+import { readJsonStore, updateJsonStore } from './data-store';
+import { loadTranslationMetadata } from './translation-metadata';
+
+/**
+ * Local store of what the GitHub webhook told us about a project: the
+ * latest events, and a snapshot of each language's translation.json that is
+ * refreshed whenever the translation branch changes. With webhooks set up
+ * (GITHUB_WEBHOOK_SECRET), dashboards read the snapshot instead of fetching
+ * translation.json from GitHub on every page load.
+ */
+
+interface WebhookEventStore {
+  version: string;
+  events: WebhookEvent[]; // Newest first
+  metadata: Record<string, { metadata: TranslationMetadata; updatedAt: string }>; // Keyed by language code
+}
+
+const EVENT_LIMIT = 200;
+
+function getStoreName(project: ProjectConfig): string {
+  return `webhook-events/${project.slug}`;
+}
+
+function createEmptyStore(): WebhookEventStore {
+  return { version: '1.0', events: [], metadata: {} };
+}
+
+export function isWebhookConfigured(): boolean {
+  return Boolean(process.env.GITHUB_WEBHOOK_SECRET);
+}
+
+/**
+ * Whether a delivery has already been handled
+ */
+export async function hasWebhookEvent(project: ProjectConfig, id: string): Promise<boolean> {
+  const store = await readJsonStore(getStoreName(project), createEmptyStore());
+  return store.events.some((event) => event.id === id);
+}
+
+export async function recordWebhookEvent(project: ProjectConfig, event: WebhookEvent): Promise<void> {
+  await updateJsonStore(getStoreName(project), createEmptyStore(), (store) => ({
+    ...store,
+    events: [event, ...store.events.filter((e) => e.id !== event.id)].slice(0, EVENT_LIMIT),
+  }));
+}
+
+/**
+ * Latest events of a project, or of a language and its source branch
+ */
+export async function listWebhookEvents(
+  project: ProjectConfig,
+  languageCode?: string,
+  limit = 20
+): Promise<WebhookEvent[]> {
+  const store = await readJsonStore(getStoreName(project), createEmptyStore());
+
+  return store.events
+    .filter((event) => !languageCode || event.language === null || event.language === languageCode)
+    .slice(0, limit);
+}
+
+export async function cacheTranslationMetadata(
+  project: ProjectConfig,
+  languageCode: string,
+  metadata: TranslationMetadata
+): Promise<void> {
+  await updateJsonStore(getStoreName(project), createEmptyStore(), (store) => ({
+    ...store,
+    metadata: {
+      ...store.metadata,
+      [languageCode]: { metadata, updatedAt: new Date().toISOString() },
+    },
+  }));
+}
+
+/**
+ * Load translation.json from the translation branch and keep it as the
+ * language's snapshot
+ */
+export async function refreshTranslationMetadata(
+  githubClient: GitHubClient,
+  project: ProjectConfig,
+  languageCode: string
+): Promise<TranslationMetadata | null> {
+  const { owner, repo } = parseGitHubRepo(project.githubRepo);
+  const metadata = await loadTranslationMetadata(
+    githubClient,
+    owner,
+    repo,
+    project,
+    languageCode,
+    getTranslationBranchName(languageCode)
+  );
+
+  if (metadata) {
+    await cacheTranslationMetadata(project, languageCode, metadata);
+  }
+
+  return metadata;
+}
+
+/**
+ * A language's translation.json: the snapshot kept up to date by the
+ * webhook, or straight from GitHub when webhooks are not set up
+ */
+export async function getTranslationMetadataSnapshot(
+  githubClient: GitHubClient,
+  project: ProjectConfig,
+  languageCode: string
+): Promise<TranslationMetadata | null> {
+  if (!isWebhookConfigured()) {
+    const { owner, repo } = parseGitHubRepo(project.githubRepo);
+    return loadTranslationMetadata(
+      githubClient,
+      owner,
+      repo,
+      project,
+      languageCode,
+      getTranslationBranchName(languageCode)
+    );
+  }
+
+  const store = await readJsonStore(getStoreName(project), createEmptyStore());
+  return (
+    store.metadata[languageCode]?.metadata ||
+    refreshTranslationMetadata(githubClient, project, languageCode)
+  );
+}
@@ -0,0 +1,292 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import type { ProjectConfig, WebhookEvent, WebhookEventType } from '@/types';
+import { GitHubClient } from './github';
+import { getAllProjectConfigs, getActiveLanguages, toRepoPath, matchesFilePattern } from './config';
+import { isTranslationPath } from './file-processing';
+import { enqueueDriftJobs } from './drift-jobs';
+import { reconcilePullRequests } from './pull-request-reconciliation';
+import { hasWebhookEvent, recordWebhookEvent, refreshTranslationMetadata } from './webhook-events';
+
+/**
+ * GitHub webhook. The repository's webhook posts to /api/webhooks/github,
+ * signed with GITHUB_WEBHOOK_SECRET, and the hub reacts to:
+ *
+ * - push to the source branch: every initialized language is queued for
+ *   the drift worker, which flags files whose English source changed as
+ *   outdated
+ * - push to a translation branch: the language's translation.json snapshot
+ *   is refreshed
+ * - pull_request into a translation branch: merges and closes update the
+ *   files' review states
+ * - pull_request_review: approvals and change requests by reviewers update
+ *   the files' review states
+ *
+ * Every handled event is kept in the project's event store for the dashboards.
+ */
+
+export interface WebhookResult {
+  handled: boolean;
+  events: WebhookEvent[];
+  errors: string[];
+  queued: string[]; // project/language pairs left to the drift worker
+}
+
+// The parts of GitHub's payloads the hub uses
+interface RepositoryPayload {
+  repository?: { full_name: string };
+  sender?: { login: string };
+}
+
+interface PushPayload extends RepositoryPayload {
+  ref: string;
+  deleted?: boolean;
+  compare?: string;
+  pusher?: { name: string };
+  commits?: Array<{ added?: string[]; modified?: string[]; removed?: string[] }>;
+  head_commit?: { message: string } | null;
+}
+
+interface PullRequestPayload extends RepositoryPayload {
+  action: string;
+  pull_request: {
+    number: number;
+    title: string;
+    html_url: string;
+    merged?: boolean;
+    merged_by?: { login: string } | null;
+    base: { ref: string };
+  };
+}
+
+interface PullRequestReviewPayload extends PullRequestPayload {
+  review: {
+    state: string;
+    html_url: string;
+    user: { login: string } | null;
+  };
+}
+
+const TRANSLATION_BRANCH_PREFIX = 'translations/';
+
+/**
+ * Check the X-Hub-Signature-256 header against the raw request body
+ */
+export function verifyWebhookSignature(
+  payload: string,
+  signature: string | null,
+  secret: string
+): boolean {
+  if (!signature?.startsWith('sha256=')) {
+    return false;
+  }
+
+  const expected = Buffer.from(
+    `sha256=${createHmac('sha256', secret).update(payload).digest('hex')}`
+  );
+  const received = Buffer.from(signature);
+
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+/**
+ * Handle a webhook delivery for every project of its repository
+ */
+export async function handleWebhook(
+  githubClient: GitHubClient,
+  eventType: string,
+  deliveryId: string,
+  payload: RepositoryPayload
+): Promise<WebhookResult> {
+  const result: WebhookResult = { handled: false, events: [], errors: [], queued: [] };
+  const repository = payload.repository?.full_name.toLowerCase();
+
+  const projects = getAllProjectConfigs().filter(
+    (project) => project.githubRepo.toLowerCase() === repository
+  );
+
+  for (const project of projects) {
+    if (await hasWebhookEvent(project, deliveryId)) {
+      continue;
+    }
+
+    let event: WebhookEvent | null = null;
+    try {
+      switch (eventType) {
+        case 'push':
+          event = await handlePush(githubClient, project, deliveryId, payload as PushPayload, result);
+          break;
+        case 'pull_request':
+        case 'pull_request_review':
+          event = await handlePullRequest(
+            githubClient,
+            project,
+            deliveryId,
+            eventType,
+            payload as PullRequestPayload,
+            result
+          );
+          break;
+      }
+    } catch (error: unknown) {
+      result.errors.push(
+        `${project.slug}: ${error instanceof Error ? error.message : error}`
+      );
+      continue;
+    }
+
+    if (event) {
+      await recordWebhookEvent(project, event);
+      result.events.push(event);
+      result.handled = true;
+    }
+  }
+
+  return result;
+}
+
+function createEvent(
+  id: string,
+  type: WebhookEventType,
+  fields: Omit<WebhookEvent, 'id' | 'type' | 'receivedAt'>
+): WebhookEvent {
+  return { id, type, ...fields, receivedAt: new Date().toISOString() };
+}
+
+// Language of a translation branch, if it is one of the project's
+function getBranchLanguage(project: ProjectConfig, branch: string): string | null {
+  if (!branch.startsWith(TRANSLATION_BRANCH_PREFIX)) {
+    return null;
+  }
+
+  const languageCode = branch.slice(TRANSLATION_BRANCH_PREFIX.length);
+  return project.languages[languageCode] ? languageCode : null;
+}
+
+async function handlePush(
+  githubClient: GitHubClient,
+  project: ProjectConfig,
+  deliveryId: string,
+  payload: PushPayload,
+  result: WebhookResult
+): Promise<WebhookEvent | null> {
+  const branch = payload.ref.replace(/^refs\/heads\//, '');
+  const commits = payload.commits || [];
+  const actor = payload.pusher?.name || payload.sender?.login || null;
+
+  if (payload.deleted) {
+    return null;
+  }
+
+  if (branch === project.sourceBranch) {
+    // The source folder may be the repository root
+    const sourceFolder = toRepoPath(project.sourceFolder);
+    const prefix = sourceFolder ? `${sourceFolder}/` : '';
+    const changedPaths = commits.flatMap((commit) => [
+      ...(commit.added || []),
+      ...(commit.modified || []),
+      ...(commit.removed || []),
+    ]);
+    const sourceChanges = changedPaths.filter(
+      (path) =>
+        path.startsWith(prefix) &&
+        !isTranslationPath(project, path) &&
+        matchesFilePattern(project, path.slice(prefix.length))
+    );
+
+    if (sourceChanges.length === 0) {
+      return null;
+    }
+
+    const languageCodes = getActiveLanguages(project)
+      .filter(({ config }) => config.initialized)
+      .map(({ code }) => code);
+    await enqueueDriftJobs(project.slug, languageCodes);
+    languageCodes.forEach((code) => result.queued.push(`${project.slug}/${code}`));
+
+    return createEvent(deliveryId, 'push', {
+      action: null,
+      language: null,
+      actor,
+      summary: `${new Set(sourceChanges).size} source files changed on ${branch}`,
+      url: payload.compare || null,
+    });
+  }
+
+  const languageCode = getBranchLanguage(project, branch);
+  if (!languageCode) {
+    return null;
+  }
+
+  await refreshTranslationMetadata(githubClient, project, languageCode);
+
+  return createEvent(deliveryId, 'push', {
+    action: null,
+    language: languageCode,
+    actor,
+    summary: payload.head_commit
+      ? payload.head_commit.message.split('\n')[0]
+      : `${commits.length} commits pushed to ${branch}`,
+    url: payload.compare || null,
+  });
+}
+
+async function handlePullRequest(
+  githubClient: GitHubClient,
+  project: ProjectConfig,
+  deliveryId: string,
+  eventType: 'pull_request' | 'pull_request_review',
+  payload: PullRequestPayload,
+  result: WebhookResult
+): Promise<WebhookEvent | null> {
+  const pr = payload.pull_request;
+  const languageCode = getBranchLanguage(project, pr.base.ref);
+
+  if (!languageCode) {
+    return null;
+  }
+
+  let summary: string;
+  let actor = payload.sender?.login || null;
+  let url = pr.html_url;
+
+  if (eventType === 'pull_request_review') {
+    const { review } = payload as PullRequestReviewPayload;
+    if (payload.action !== 'submitted') {
+      return null;
+    }
+
+    const verb =
+      review.state === 'approved'
+        ? 'approved'
+        : review.state === 'changes_requested'
+          ? 'requested changes to'
+          : 'commented on';
+    actor = review.user?.login || actor;
+    url = review.html_url;
+    summary = `${actor} ${verb} #${pr.number}`;
+  } else if (payload.action === 'closed') {
+    actor = pr.merged ? pr.merged_by?.login || actor : actor;
+    summary = `#${pr.number} ${pr.merged ? 'merged' : 'closed without merging'}: ${pr.title}`;
+  } else if (payload.action === 'opened' || payload.action === 'reopened') {
+    summary = `#${pr.number} ${payload.action}: ${pr.title}`;
+  } else {
+    return null;
+  }
+
+  // Merges, closes and reviews change review states; opening does not
+  if (payload.action !== 'opened' && payload.action !== 'reopened') {
+    const report = await reconcilePullRequests(githubClient, project, languageCode);
+    report.errors.forEach((error) => result.errors.push(`${project.slug}/${languageCode}: ${error}`));
+    if (report.updated.length > 0) {
+      await refreshTranslationMetadata(githubClient, project, languageCode);
+    }
+  }
+
+  return createEvent(deliveryId, eventType, {
+    action: payload.action,
+    language: languageCode,
+    actor,
+    summary,
+    url,
+  });
+}
@@ -0,0 +1,226 @@
+/**
+ * Word-level diffs between versions of a translation, such as the machine
+ * translation and the translator's working copy. Chinese and Japanese are
+ * written without spaces, so their characters are compared one by one rather
+ * than a whole sentence being one word. Whitespace and punctuation are tokens
+ * of their own, so the parts of a diff join back into the compared texts.
+ */
+
+export interface WordDiffPart {
+  changed: boolean;
+  before: string; // Text in the first version; the same as `after` when unchanged
+  after: string;
+}
+
+const CJK = '\\p{Script=Han}\\p{Script=Hiragana}\\p{Script=Katakana}';
+const TOKEN_PATTERN = new RegExp(
+  `\\s+|[${CJK}]|(?:(?![${CJK}])[\\p{L}\\p{M}\\p{N}_'])+|[\\s\\S]`,
+  'gu'
+);
+const WORD_PATTERN = /[\p{L}\p{N}]/u;
+
+// Larger changed blocks are shown as one change rather than compared word by word
+const MAX_DIFF_CELLS = 1_000_000;
+
+/**
+ * Split text into words, single CJK characters, whitespace and punctuation
+ */
+export function tokenizeWords(text: string): string[] {
+  return text.match(TOKEN_PATTERN) || [];
+}
+
+function countWordTokens(tokens: string[]): number {
+  return tokens.filter((token) => WORD_PATTERN.test(token)).length;
+}
+
+export interface SequenceEdit {
+  type: 'equal' | 'removed' | 'added';
+  value: string;
+}
+
+/**
+ * Edits turning one sequence into another, via the longest common
+ * subsequence after trimming the common start and end. A changed block too
+ * large to compare is removed and added whole.
+ */
+export function diffSequences(a: string[], b: string[]): SequenceEdit[] {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+  let end = 0;
+  while (
+    end < a.length - start &&
+    end < b.length - start &&
+    a[a.length - 1 - end] === b[b.length - 1 - end]
+  ) {
+    end++;
+  }
+
+  const head = a.slice(0, start).map((value): SequenceEdit => ({ type: 'equal', value }));
+  const tail = a.slice(a.length - end).map((value): SequenceEdit => ({ type: 'equal', value }));
+  const middleA = a.slice(start, a.length - end);
+  const middleB = b.slice(start, b.length - end);
+
+  const rows = middleA.length + 1;
+  const columns = middleB.length + 1;
+  if (rows * columns > MAX_DIFF_CELLS) {
+    return [
+      ...head,
+      ...middleA.map((value): SequenceEdit => ({ type: 'removed', value })),
+      ...middleB.map((value): SequenceEdit => ({ type: 'added', value })),
+      ...tail,
+    ];
+  }
+
+  // lengths[i * columns + j]: common subsequence of middleA[i:] and middleB[j:]
+  const lengths = new Uint32Array(rows * columns);
+  for (let i = middleA.length - 1; i >= 0; i--) {
+    for (let j = middleB.length - 1; j >= 0; j--) {
+      lengths[i * columns + j] =
+        middleA[i] === middleB[j]
+          ? lengths[(i + 1) * columns + j + 1] + 1
+          : Math.max(lengths[(i + 1) * columns + j], lengths[i * columns + j + 1]);
+    }
+  }
+
+  const middle: SequenceEdit[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < middleA.length || j < middleB.length) {
+    if (i < middleA.length && j < middleB.length && middleA[i] === middleB[j]) {
+      middle.push({ type: 'equal', value: middleA[i] });
+      i++;
+      j++;
+    } else if (
+      j === middleB.length ||
+      (i < middleA.length && lengths[(i + 1) * columns + j] >= lengths[i * columns + j + 1])
+    ) {
+      middle.push({ type: 'removed', value: middleA[i++] });
+    } else {
+      middle.push({ type: 'added', value: middleB[j++] });
+    }
+  }
+
+  return [...head, ...middle, ...tail];
+}
+
+function diffTokens(before: string, after: string): SequenceEdit[] {
+  return diffSequences(tokenizeWords(before), tokenizeWords(after));
+}
+
+function splitLines(text: string): string[] {
+  return text ? text.split(/(?<=\n)/) : [];
+}
+
+// Compare line by line first, then the words of the lines that changed
+function diffTexts(before: string, after: string): SequenceEdit[] {
+  const edits = diffSequences(splitLines(before), splitLines(after));
+  const result: SequenceEdit[] = [];
+  let removed: string[] = [];
+  let added: string[] = [];
+
+  const flush = () => {
+    // Translations usually keep the paragraphs of the version they were edited from
+    if (removed.length === added.length) {
+      removed.forEach((line, index) => result.push(...diffTokens(line, added[index])));
+    } else {
+      result.push(...diffTokens(removed.join(''), added.join('')));
+    }
+    removed = [];
+    added = [];
+  };
+
+  for (const edit of edits) {
+    if (edit.type === 'removed') {
+      removed.push(edit.value);
+    } else if (edit.type === 'added') {
+      added.push(edit.value);
+    } else {
+      flush();
+      result.push(edit);
+    }
+  }
+  flush();
+
+  return result;
+}
+
+/**
+ * Word-level diff of two versions of a text. Consecutive changes, including
+ * ones separated only by spaces, are grouped into one part, so each changed
+ * part can be accepted or reverted on its own.
+ */
+export function diffWords(before: string, after: string): WordDiffPart[] {
+  const parts: WordDiffPart[] = [];
+
+  for (const edit of diffTexts(before, after)) {
+    const last = parts[parts.length - 1];
+    const changed = edit.type !== 'equal';
+
+    if (!last || last.changed !== changed) {
+      parts.push({ changed, before: '', after: '' });
+    }
+
+    const part = parts[parts.length - 1];
+    if (edit.type !== 'added') {
+      part.before += edit.value;
+    }
+    if (edit.type !== 'removed') {
+      part.after += edit.value;
+    }
+  }
+
+  // Replacing "a b" with "c d" is one change, not two around a space
+  return parts.reduce<WordDiffPart[]>((merged, part) => {
+    const previous = merged[merged.length - 1];
+    const gap = merged[merged.length - 2];
+    if (
+      part.changed &&
+      previous &&
+      !previous.changed &&
+      /^[^\S\n]+$/.test(previous.before) &&
+      gap?.changed
+    ) {
+      merged.splice(-2, 2, {
+        changed: true,
+        before: gap.before + previous.before + part.before,
+        after: gap.after + previous.after + part.after,
+      });
+    } else {
+      merged.push(part);
+    }
+    return merged;
+  }, []);
+}
+
+/**
+ * The second version of a diffed text with the given changed parts put back
+ * as they were in the first
+ */
+export function revertWordDiffParts(parts: WordDiffPart[], indexes: number[]): string {
+  return parts.map((part, index) => (indexes.includes(index) ? part.before : part.after)).join('');
+}
+
+/**
+ * How much of a machine translation a translator changed, from 0 (kept as
+ * is) to 1 (rewritten): the words changed, added or removed, against the
+ * length of the final translation, rounded to hundredths
+ */
+export function getPostEditDistance(machineTranslation: string, translation: string): number {
+  const words = countWordTokens(tokenizeWords(translation));
+  if (words === 0) {
+    return machineTranslation.trim() ? 1 : 0;
+  }
+
+  const edits = diffWords(machineTranslation, translation)
+    .filter((part) => part.changed)
+    .reduce(
+      (sum, part) =>
+        sum +
+        Math.max(countWordTokens(tokenizeWords(part.before)), countWordTokens(tokenizeWords(part.after))),
+      0
+    );
+
+  return Math.round(Math.min(1, edits / words) * 100) / 100;
+}
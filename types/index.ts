@@ -1,9 +1,27 @@
 // Project Configuration Types
+// Only active languages are listed for translators
+export type LanguageStatus = 'active' | 'inactive' | 'archived';
+
 export interface LanguageConfig {
   name: string;
   direction: 'ltr' | 'rtl';
-  status: 'active' | 'inactive' | 'archived';
-  initialized: string; // ISO date string
+  status: LanguageStatus;
+  initialized: string | null; // ISO date string, null until first initialized
+  coordinator?: string; // GitHub username recorded in translation.json
+  reviewers?: string[]; // GitHub usernames
+  translators?: string[]; // When set, only these users (and higher roles) can translate
+}
+
+export type MachineTranslationProviderId = 'deepl' | 'openai' | 'libretranslate' | 'pseudo';
+
+export interface MachineTranslationProviderConfig {
+  provider: MachineTranslationProviderId;
+  endpoint?: string; // Base URL for OpenAI-compatible and LibreTranslate providers
+  model?: string; // Model name for OpenAI-compatible providers
+}
+
+export interface MachineTranslationConfig extends MachineTranslationProviderConfig {
+  languageOverrides?: Record<string, MachineTranslationProviderConfig>;
 }
 
 export interface ProjectConfig {
@@ -14,14 +32,114 @@ export interface ProjectConfig {
   sourceFolder: string;
   translationFolder: string;
   tmpFolder: string;
-  filePattern: string;
+  filePattern?: string; // Single glob, used when `include` is not set
+  include?: string[]; // Globs relative to sourceFolder, e.g. "**/*.md"
+  exclude?: string[]; // Globs of files to leave out, e.g. "README.md"
   priorityFiles: string[];
   languages: Record<string, LanguageConfig>;
+  machineTranslation?: MachineTranslationConfig; // Defaults to DeepL
+  access?: ProjectAccessConfig;
+  pullRequests?: PullRequestMode; // Defaults to 'bundled'
+  qualityChecks?: QualityChecksConfig; // Severity of each check, see DEFAULT_QUALITY_CHECKS
+}
+
+// How submitted files are grouped into pull requests: `bundled` adds every
+// file a translator submits to one pull request per language, `per-file`
+// opens a pull request for each file so they can be merged independently
+export type PullRequestMode = 'bundled' | 'per-file';
+
+// Automatic checks run on a translation when it is saved and submitted.
+// Blocking issues stop a pull request from being created; warnings are
+// listed in its description.
+export type QualityCheckId =
+  | 'headings' // Same number of headings as the English source
+  | 'codeBlocks' // Same number of code blocks
+  | 'codeContent' // Code blocks identical to the English ones
+  | 'links' // Same number of links
+  | 'images' // Same number of images
+  | 'urls' // Same link and image URLs
+  | 'untranslated' // Paragraphs left in English
+  | 'placeholders' // Inline code and HTML kept verbatim
+  | 'glossary'; // Approved translations of glossary terms used
+
+export type QualityCheckSeverity = 'blocking' | 'warning' | 'off';
+
+export type QualityChecksConfig = Partial<Record<QualityCheckId, QualityCheckSeverity>>;
+
+export interface QualityIssue {
+  check: QualityCheckId;
+  severity: Exclude<QualityCheckSeverity, 'off'>;
+  message: string;
+}
+
+export interface QualityReport {
+  issues: QualityIssue[];
+  blocking: number;
+  warnings: number;
+}
+
+// Access control; each role includes the ones below it
+export type Role = 'hub-admin' | 'project-admin' | 'coordinator' | 'reviewer' | 'translator';
+
+export type LanguageRole = 'coordinator' | 'reviewer' | 'translator';
+
+export interface GitHubTeamRole {
+  team: string; // Format: "OWASP/top10-es"
+  role: 'project-admin' | LanguageRole;
+  language?: string; // Language roles apply to every language when not set
+}
+
+export interface ProjectAccessConfig {
+  admins?: string[]; // GitHub usernames of project admins
+  githubTeams?: GitHubTeamRole[];
+  repoPermissions?: boolean; // Repository admins are project admins, writers are reviewers
+}
+
+// A user's effective roles in a project
+export interface ProjectAccess {
+  username: string;
+  projectRole: 'hub-admin' | 'project-admin' | null;
+  languages: Record<string, Role>; // Languages the user has no role in are left out
+}
+
+// Repository browsing for project onboarding
+export interface RepositoryEntry {
+  name: string;
+  path: string; // From the repository root, with a leading slash
+  type: 'dir' | 'file';
+}
+
+export interface RepositoryContents {
+  githubRepo: string;
+  defaultBranch: string;
+  branches: string[];
+  ref: string;
+  path: string; // Folder listed, with a leading slash
+  entries: RepositoryEntry[]; // Folders first
 }
 
 // Translation Metadata Types
 export type FileStatus = 'not-started' | 'in-progress' | 'complete';
 
+// Review workflow of a file's translation, from the first saved draft to merge
+export type ReviewState =
+  | 'draft'
+  | 'submitted'
+  | 'in-review'
+  | 'changes-requested'
+  | 'approved'
+  | 'merged';
+
+// Actions reviewers take from the review queue
+export type ReviewAction = 'start-review' | 'approve' | 'request-changes';
+
+export interface ReviewEvent {
+  state: ReviewState; // State the file moved to
+  actor: string; // GitHub username
+  at: string; // ISO date string
+  comment?: string;
+}
+
 export interface TranslationFileMetadata {
   status: FileStatus;
   lastUpdated: string | null; // ISO date string
@@ -31,7 +149,13 @@ export interface TranslationFileMetadata {
   prUrl: string | null;
   wordCount: number;
   machineTranslated: boolean;
-  humanReviewed: boolean;
+  humanReviewed: boolean; // Approved by a reviewer
+  reviewState?: ReviewState; // Absent until the first draft is saved
+  reviewer?: string; // Who last approved or requested changes
+  reviewHistory?: ReviewEvent[]; // Most recent last
+  sourceCommitSha?: string; // Source commit the translation is based on; defaults to meta.sourceCommitSha
+  outdated?: boolean; // English source changed since sourceCommitSha
+  postEditDistance?: number; // Share of the submitted translation changed from the machine translation, 0-1
 }
 
 export interface TranslationStats {
@@ -47,6 +171,7 @@ export interface TranslationStats {
 
 export interface TranslationMeta {
   machineTranslationService: string;
+  machineTranslationProvider?: MachineTranslationProviderId; // Absent in metadata written before providers existed
   machineTranslationDate: string; // ISO date string
   sourceCommitSha: string;
   notes: string;
@@ -66,6 +191,65 @@ export interface TranslationMetadata {
   meta: TranslationMeta;
 }
 
+// Translation Memory Types
+export interface TranslationMemoryEntry {
+  source: string; // Raw Markdown of the English segment
+  target: string; // Raw Markdown of the approved translation
+  project: string; // Project the pair was harvested from
+  filename: string;
+  contributor: string | null;
+  updated: string; // ISO date string
+}
+
+export interface TranslationMemoryMatch extends TranslationMemoryEntry {
+  score: number; // 100 for exact matches, lower for fuzzy matches
+}
+
+export interface SegmentMemoryMatches {
+  source: string; // Raw Markdown of the segment in the file being edited
+  matches: TranslationMemoryMatch[];
+}
+
+// Source Drift Types
+export type SourceSectionStatus = 'added' | 'removed' | 'changed' | 'unchanged';
+
+export interface SourceBlockChange {
+  type: 'added' | 'removed';
+  source: string; // Raw Markdown of the block
+}
+
+export interface SourceSectionDiff {
+  heading: string; // Empty for content before the first heading
+  status: SourceSectionStatus;
+  changes: SourceBlockChange[];
+}
+
+export interface SourceDriftData {
+  filename: string;
+  baseSha: string; // Source commit the translation is based on
+  headSha: string; // Current head of the source branch
+  sections: SourceSectionDiff[];
+}
+
+// Glossary Types
+export interface GlossaryTerm {
+  source: string; // English term, e.g. "Broken Access Control"
+  target: string; // Approved translation; same as source to keep the term in English
+  note?: string; // Guidance shown to translators
+}
+
+export interface Glossary {
+  version: string;
+  language: string;
+  terms: GlossaryTerm[];
+}
+
+export interface GlossaryWarning {
+  term: GlossaryTerm;
+  sourceCount: number; // Occurrences of the term in the English file
+  targetCount: number; // Occurrences of the approved translation in the translation
+}
+
 // API Response Types
 export interface FileListItem {
   filename: string;
@@ -76,6 +260,59 @@ export interface FileListItem {
   prUrl: string | null;
   wordCount: number;
   isPriority: boolean;
+  outdated: boolean;
+  reviewState: ReviewState | null;
+  claim: FileClaim | null; // Translator working on the file, if claimed
+  postEditDistance: number | null; // Null until submitted with a machine translation
+}
+
+export interface ReviewQueueItem {
+  filename: string;
+  reviewState: ReviewState;
+  lastContributor: string | null;
+  lastUpdated: string | null;
+  reviewer: string | null;
+  prNumber: number | null;
+  prUrl: string | null;
+  wordCount: number;
+  lastComment: string | null; // Latest review comment, e.g. the changes requested
+}
+
+export interface ReviewQueueData {
+  username: string; // Reviewers cannot review their own translations
+  items: ReviewQueueItem[];
+}
+
+// Review Comment Types
+export interface ParagraphAnchor {
+  startLine: number; // 1-based, inclusive, in the translation
+  endLine: number;
+  excerpt: string; // Start of the paragraph, to find it again after edits
+}
+
+export interface ReviewComment {
+  id: string;
+  author: string; // GitHub username
+  body: string;
+  createdAt: string; // ISO date string
+  githubCommentId: number | null; // PR review comment, once posted to GitHub
+  url: string | null;
+}
+
+export interface ReviewThread {
+  id: string;
+  anchor: ParagraphAnchor | null; // Null for comments on the whole file
+  resolved: boolean;
+  resolvedBy: string | null;
+  prNumber: number | null; // Pull request the thread is synced with
+  githubThreadId: string | null; // GraphQL node ID, needed to resolve the thread on GitHub
+  comments: ReviewComment[]; // Oldest first
+}
+
+export interface ReviewCommentsData {
+  threads: ReviewThread[];
+  canComment: boolean; // Reviewers start threads; anyone translating can reply and resolve
+  synced: boolean; // False when GitHub could not be reached
 }
 
 export interface DashboardData {
@@ -83,18 +320,24 @@ export interface DashboardData {
   language: LanguageConfig;
   languageCode: string;
   files: FileListItem[];
+  username: string;
+  role: Role; // The user's role in this language
   stats: TranslationStats;
   userStats: {
     completedFiles: number;
     lastSession: string | null;
   };
+  activity: WebhookEvent[]; // Latest GitHub events for the language, newest first
 }
 
 export interface EditorData {
   filename: string;
+  username: string;
   englishContent: string;
   translationContent: string;
   machineContent: string;
+  memoryMatches: SegmentMemoryMatches[];
+  glossary: GlossaryTerm[];
   metadata: TranslationFileMetadata;
   language: {
     code: string;
@@ -155,6 +398,20 @@ export interface GitHubPullRequest {
   };
 }
 
+// Webhook events received from GitHub, as shown on the dashboards
+export type WebhookEventType = 'push' | 'pull_request' | 'pull_request_review';
+
+export interface WebhookEvent {
+  id: string; // X-GitHub-Delivery, so redeliveries are only handled once
+  type: WebhookEventType;
+  action: string | null; // e.g. `closed`, `submitted`; null for pushes
+  language: string | null; // Null for pushes to the source branch
+  actor: string | null;
+  summary: string;
+  url: string | null;
+  receivedAt: string;
+}
+
 // Session Types
 export interface SessionUser {
   username: string;
@@ -189,6 +446,7 @@ export interface SaveDraftResponse {
   message: string;
   commitSha?: string;
   timestamp?: string;
+  quality?: QualityReport | null; // Null if the checks could not be run
 }
 
 export interface CreatePRRequest {
@@ -201,6 +459,22 @@ export interface CreatePRResponse {
   message: string;
   prNumber?: number;
   prUrl?: string;
+  quality?: QualityReport;
+}
+
+// Files submitted together from the dashboard
+export interface SubmittedFile {
+  filename: string;
+  wordCount: number;
+  postEditDistance: number | null; // Share of the machine translation changed, 0-1; null without one
+  quality: QualityReport;
+  prNumber: number;
+  prUrl: string;
+}
+
+export interface BatchSubmitResponse {
+  pullRequests: Array<{ number: number; url: string; existing: boolean }>;
+  files: SubmittedFile[];
 }
 
 export interface SyncForkRequest {
@@ -227,6 +501,65 @@ export interface AutosaveKey {
   filename: string;
 }
 
+// File Claim Types
+export interface FileClaim {
+  username: string;
+  claimedAt: string; // ISO date string
+  expiresAt: string; // ISO date string
+}
+
+export interface FileEditor {
+  username: string;
+  lastSeen: string; // ISO date string
+}
+
+export interface FilePresenceData {
+  claim: FileClaim | null;
+  editors: FileEditor[]; // Other users with the file open in the editor
+}
+
+// Server-side Draft Types
+export type DraftRevisionSource = 'autosave' | 'save' | 'restore';
+
+export interface DraftRevisionSummary {
+  id: number; // Counts up per file
+  hash: string; // SHA-256 of the content
+  source: DraftRevisionSource;
+  wordCount: number;
+  createdAt: string; // ISO date string
+  restoredFrom?: number; // Revision a restore copied
+}
+
+export interface DraftRevision extends DraftRevisionSummary {
+  content: string;
+}
+
+export interface DraftLineChange {
+  type: 'added' | 'removed' | 'unchanged';
+  line: string;
+}
+
+export interface DraftHistoryData {
+  filename: string;
+  revisions: DraftRevisionSummary[]; // Newest first
+  latest: DraftRevision | null;
+}
+
+export interface DraftRevisionDiff {
+  revision: DraftRevision;
+  compareTo: number | null; // Revision compared against; null for the first one
+  changes: DraftLineChange[];
+}
+
+// Where a version offered by the editor's restore prompt comes from
+export type DraftVersionSource = 'local' | 'server' | 'github';
+
+export interface DraftVersion {
+  source: DraftVersionSource;
+  content: string;
+  savedAt: string | null; // ISO date string
+}
+
 // Error Types
 export interface APIError {
   error: string;
@@ -250,6 +583,50 @@ export interface LanguageInitProgress {
   filename: string;
   status: 'pending' | 'translating' | 'complete' | 'error';
   error?: string;
+  blobSha?: string; // Uploaded translation, committed when initialization finishes
+}
+
+// Language (re-)initialization. `missing` translates files that have no
+// translation yet, `refresh` also replaces the machine drafts in the tmp
+// folder of existing files, and `force` overwrites working translations too.
+export type InitMode = 'missing' | 'refresh' | 'force';
+
+export type InitPlanAction = 'create' | 'overwrite' | 'skip';
+
+export interface InitPlanFile {
+  filename: string;
+  action: InitPlanAction;
+  paths: string[]; // Files written, empty when skipped
+  reason?: string;
+}
+
+export interface InitPlan {
+  mode: InitMode;
+  sourceCommitSha: string;
+  files: InitPlanFile[];
+}
+
+// Background language initialization jobs
+export type InitJobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface InitJob {
+  id: string;
+  project: string;
+  language: string;
+  status: InitJobStatus;
+  createdBy: string;
+  createdAt: string; // ISO date string
+  startedAt: string | null;
+  finishedAt: string | null;
+  mode: InitMode;
+  sourceCommit?: string; // Commit SHA source files are read from
+  files: Record<string, LanguageInitProgress>; // Latest progress per file
+  filesProcessed: number;
+  errors: string[];
+  error: string | null; // Why the job failed
+  branchUrl: string | null;
+  cancelRequested: boolean;
+  attempts: number; // Runs, including resumes after a restart
 }
 
 // Notification Types